@@ -10,6 +10,13 @@ import EntityBrowser from './components/EntityBrowser'
 import EntityDetail from './components/EntityDetail'
 import CommentBrowser from './components/CommentBrowser'
 import CommentDetail from './components/CommentDetail'
+import ComparisonView from './components/ComparisonView'
+import ClusterBrowser from './components/ClusterBrowser'
+import ClusterDetail from './components/ClusterDetail'
+import RuleBrowser from './components/RuleBrowser'
+import RuleSectionDetail from './components/RuleSectionDetail'
+import QuestionBrowser from './components/QuestionBrowser'
+import QuestionDetail from './components/QuestionDetail'
 import LoadingScreen from './components/LoadingScreen'
 import ErrorScreen from './components/ErrorScreen'
 import ScrollToTop from './components/ScrollToTop'
@@ -38,6 +45,13 @@ function App() {
           <Route path="entities/:category/:label" element={<EntityDetail />} />
           <Route path="comments" element={<CommentBrowser />} />
           <Route path="comments/:commentId" element={<CommentDetail />} />
+          <Route path="clusters" element={<ClusterBrowser />} />
+          <Route path="clusters/:id" element={<ClusterDetail />} />
+          <Route path="rule" element={<RuleBrowser />} />
+          <Route path="rule/:sectionId" element={<RuleSectionDetail />} />
+          <Route path="questions" element={<QuestionBrowser />} />
+          <Route path="questions/:code" element={<QuestionDetail />} />
+          <Route path="compare" element={<ComparisonView />} />
         </Route>
       </Routes>
     </HashRouter>
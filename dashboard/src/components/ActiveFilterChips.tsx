@@ -7,12 +7,14 @@ interface ActiveFilterChipsProps {
   themes: string[]
   entities: string[]
   submitterTypes: string[]
+  targetDocuments?: string[]
   themeList: Theme[]
   entityMap: Record<string, { label: string; mentionCount: number }[]>
   onRemoveSearchToken: (tokenId: string) => void
   onRemoveTheme: (code: string) => void
   onRemoveEntity: (key: string) => void
   onRemoveSubmitterType: (value: string) => void
+  onRemoveTargetDocument?: (id: string) => void
   onClearAll: () => void
   onClickSearchToken?: (token: SearchToken) => void
 }
@@ -22,16 +24,18 @@ function ActiveFilterChips({
   themes,
   entities,
   submitterTypes,
+  targetDocuments = [],
   themeList,
   entityMap: _entityMap,
   onRemoveSearchToken,
   onRemoveTheme,
   onRemoveEntity,
   onRemoveSubmitterType,
+  onRemoveTargetDocument,
   onClearAll,
   onClickSearchToken,
 }: ActiveFilterChipsProps) {
-  const totalFilters = searchTokens.length + themes.length + entities.length + submitterTypes.length
+  const totalFilters = searchTokens.length + themes.length + entities.length + submitterTypes.length + targetDocuments.length
   if (totalFilters === 0) return null
 
   // Group search tokens by orGroup
@@ -134,6 +138,23 @@ function ActiveFilterChips({
         </span>
       ))}
 
+      {/* Target document chips */}
+      {targetDocuments.map(id => (
+        <span
+          key={`document-${id}`}
+          className="inline-flex items-center gap-1 px-2.5 py-1 text-sm rounded-full border bg-amber-50 text-amber-700 border-amber-200"
+        >
+          <span className="font-medium">Document:</span>
+          {id}
+          <button
+            onClick={() => onRemoveTargetDocument?.(id)}
+            className="ml-0.5 hover:text-amber-900 transition-colors"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+
       {/* Clear all */}
       {totalFilters >= 2 && (
         <button
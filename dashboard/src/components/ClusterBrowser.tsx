@@ -0,0 +1,96 @@
+import { useState, useMemo } from 'react'
+import { Link } from 'react-router-dom'
+import { Layers, Search, ChevronRight } from 'lucide-react'
+import useStore from '../store/useStore'
+
+function ClusterBrowser() {
+  const { clusterReport, getCommentById } = useStore()
+  const [search, setSearch] = useState('')
+
+  // Singletons aren't form letters; the report is already ordered by size
+  const clusters = useMemo(() => {
+    const q = search.toLowerCase()
+    return (clusterReport?.clusters || []).filter(cluster => {
+      if (cluster.size < 2) return false
+      if (!q) return true
+      const submitter = getCommentById(cluster.representative)?.submitter || ''
+      return (cluster.metadata.templatePreview || cluster.metadata.snippetPreview || '').toLowerCase().includes(q) ||
+        submitter.toLowerCase().includes(q) ||
+        cluster.representative.toLowerCase().includes(q)
+    })
+  }, [clusterReport, search, getCommentById])
+
+  if (!clusterReport) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
+        <p className="text-gray-500">No clustering data published with this dashboard.</p>
+        <p className="text-sm text-gray-400 mt-2">Run <code>bun run cli cluster-comments-fast</code> before building the website.</p>
+      </div>
+    )
+  }
+
+  const multiMember = clusterReport.clusters.filter(c => c.size > 1)
+  const clusteredComments = multiMember.reduce((sum, c) => sum + c.size, 0)
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 sm:p-6 space-y-4">
+        <div className="flex items-center space-x-3">
+          <Layers className="h-6 w-6 text-purple-600 flex-shrink-0" />
+          <div>
+            <h1 className="text-xl sm:text-2xl font-bold text-gray-900">Form Letters</h1>
+            <p className="text-sm text-gray-500 mt-1">
+              {multiMember.length} clusters of near-identical comments covering {clusteredComments.toLocaleString()} submissions
+            </p>
+          </div>
+        </div>
+        <div className="relative">
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search template text or submitter..."
+            className="w-full pl-10 pr-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <Search className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
+        </div>
+      </div>
+
+      {/* Cluster list */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 divide-y divide-gray-100">
+        {clusters.length === 0 ? (
+          <div className="p-4 text-sm text-gray-500">
+            {multiMember.length === 0 ? 'Every comment is unique; no form letters were found.' : 'No clusters match.'}
+          </div>
+        ) : (
+          clusters.map(cluster => {
+            const representative = getCommentById(cluster.representative)
+            return (
+              <Link
+                key={cluster.id}
+                to={`/clusters/${cluster.id}`}
+                className="flex items-start gap-3 px-4 py-3 hover:bg-gray-50 transition-colors"
+              >
+                <span className="flex-shrink-0 w-16 text-center px-2 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                  {cluster.size.toLocaleString()}
+                </span>
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm text-gray-800 line-clamp-2">
+                    {cluster.metadata.templatePreview || cluster.metadata.snippetPreview || 'No comment text (see attachments)'}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Representative: {representative?.submitter || 'Anonymous'} · #{cluster.representative}
+                  </p>
+                </div>
+                <ChevronRight className="h-4 w-4 text-gray-400 flex-shrink-0 mt-1" />
+              </Link>
+            )
+          })
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default ClusterBrowser
@@ -0,0 +1,199 @@
+import { useState, useEffect, useMemo } from 'react'
+import { useParams, Link } from 'react-router-dom'
+import { Layers, Calendar, MapPin, User, ExternalLink } from 'lucide-react'
+import useStore from '../store/useStore'
+import Breadcrumbs from './Breadcrumbs'
+import { formatDate, getRegulationsGovUrl } from '../utils/helpers'
+import { diffWords, countAddedWords, type DiffSegment } from '../utils/wordDiff'
+import type { ClusterTexts } from '../types'
+
+const PAGE_SIZE = 50
+
+function ClusterDetail() {
+  const { id } = useParams<{ id: string }>()
+  const { clusterReport, getCommentById } = useStore()
+  const [texts, setTexts] = useState<ClusterTexts | null>(null)
+  const [loadError, setLoadError] = useState(false)
+  const [onlyAdditions, setOnlyAdditions] = useState(true)
+  const [showRemoved, setShowRemoved] = useState(false)
+  const [visible, setVisible] = useState(PAGE_SIZE)
+
+  const cluster = clusterReport?.clusters.find(c => String(c.id) === id)
+
+  // Member texts are kept out of the initial load; fetch them when a cluster is opened
+  useEffect(() => {
+    setTexts(null)
+    setLoadError(false)
+    setVisible(PAGE_SIZE)
+    if (!id) return
+    fetch(`./data/clusters/${id}.json`)
+      .then(r => (r.ok ? r.json() : Promise.reject(new Error(`HTTP ${r.status}`))))
+      .then(setTexts)
+      .catch(() => setLoadError(true))
+  }, [id])
+
+  const members = useMemo(() => {
+    if (!texts) return []
+    return texts.members
+      .map(member => {
+        const segments = diffWords(texts.template, member.text)
+        return { ...member, segments, addedWords: countAddedWords(segments) }
+      })
+      .sort((a, b) => b.addedWords - a.addedWords || a.id.localeCompare(b.id))
+  }, [texts])
+
+  const shown = onlyAdditions ? members.filter(m => m.addedWords > 0) : members
+  const withAdditions = members.filter(m => m.addedWords > 0).length
+
+  if (!cluster) {
+    return (
+      <div className="space-y-6">
+        <Breadcrumbs items={[{ label: 'Form Letters', path: '/clusters' }, { label: 'Not Found' }]} />
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
+          <p className="text-gray-500">Cluster not found</p>
+        </div>
+      </div>
+    )
+  }
+
+  const representative = getCommentById(cluster.representative)
+
+  return (
+    <div className="space-y-6">
+      <Breadcrumbs items={[
+        { label: 'Form Letters', path: '/clusters' },
+        { label: `Cluster ${cluster.id}` }
+      ]} />
+
+      {/* Header and template */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="px-4 sm:px-6 py-4 border-b border-gray-200 bg-gray-50">
+          <div className="flex items-center space-x-3">
+            <Layers className="h-6 w-6 text-purple-600 flex-shrink-0" />
+            <h1 className="text-xl sm:text-2xl font-bold text-gray-900">{cluster.size.toLocaleString()} near-identical comments</h1>
+          </div>
+          <p className="text-sm text-gray-600 mt-2">
+            Template from{' '}
+            <Link to={`/comments/${cluster.representative}`} className="text-blue-600 hover:text-blue-800 hover:underline">
+              {representative?.submitter || 'Anonymous'} (#{cluster.representative})
+            </Link>
+          </p>
+        </div>
+        <div className="p-4 sm:p-6">
+          {texts ? (
+            <p className="text-sm text-gray-800 whitespace-pre-wrap">{texts.template || 'No comment text (see attachments)'}</p>
+          ) : (
+            <p className="text-sm text-gray-500">{loadError ? 'Cluster texts were not published with this dashboard.' : 'Loading…'}</p>
+          )}
+        </div>
+      </div>
+
+      {/* Members */}
+      {texts && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="p-4 border-b border-gray-200 flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <h2 className="font-semibold text-gray-900">Members</h2>
+              <p className="text-sm text-gray-500 mt-1">
+                {withAdditions} of {members.length} added their own text; <mark className="bg-green-100 text-green-900 px-0.5 rounded">highlighted</mark> passages are not in the template
+              </p>
+            </div>
+            <div className="flex items-center gap-4 text-sm text-gray-700">
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={onlyAdditions} onChange={(e) => setOnlyAdditions(e.target.checked)} />
+                Only with additions
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={showRemoved} onChange={(e) => setShowRemoved(e.target.checked)} />
+                Show removed text
+              </label>
+            </div>
+          </div>
+          <div className="divide-y divide-gray-100">
+            {shown.length === 0 ? (
+              <div className="p-4 text-sm text-gray-500">Every member repeats the template word for word.</div>
+            ) : (
+              shown.slice(0, visible).map(member => (
+                <ClusterMember
+                  key={member.id}
+                  commentId={member.id}
+                  segments={member.segments}
+                  addedWords={member.addedWords}
+                  showRemoved={showRemoved}
+                />
+              ))
+            )}
+          </div>
+          {shown.length > visible && (
+            <div className="p-4 border-t border-gray-200 text-center">
+              <button
+                onClick={() => setVisible(v => v + PAGE_SIZE)}
+                className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+              >
+                Show more ({shown.length - visible} remaining)
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface ClusterMemberProps {
+  commentId: string
+  segments: DiffSegment[]
+  addedWords: number
+  showRemoved: boolean
+}
+
+function ClusterMember({ commentId, segments, addedWords, showRemoved }: ClusterMemberProps) {
+  const { getCommentById } = useStore()
+  const comment = getCommentById(commentId)
+
+  return (
+    <div className="p-4 space-y-2">
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-gray-600">
+        <Link to={`/comments/${commentId}`} className="flex items-center gap-1 font-medium text-gray-900 hover:underline">
+          <User className="h-3 w-3 text-gray-500" />
+          {comment?.submitter || 'Anonymous'}
+        </Link>
+        {comment?.location && (
+          <span className="flex items-center gap-1">
+            <MapPin className="h-3 w-3" />
+            {comment.location}
+          </span>
+        )}
+        <span className="flex items-center gap-1">
+          <Calendar className="h-3 w-3" />
+          {formatDate(comment?.date)}
+        </span>
+        <a
+          href={getRegulationsGovUrl(comment?.documentId || '', commentId)}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex items-center gap-1 text-xs font-mono text-gray-500 hover:text-blue-600"
+        >
+          #{commentId}
+          <ExternalLink className="h-3 w-3" />
+        </a>
+        {addedWords > 0 && (
+          <span className="ml-auto text-xs text-green-700">+{addedWords} words</span>
+        )}
+      </div>
+      <p className="text-sm text-gray-700 whitespace-pre-wrap">
+        {segments.map((segment, index) => {
+          if (segment.type === 'added') {
+            return <mark key={index} className="bg-green-100 text-green-900 rounded px-0.5">{segment.text}</mark>
+          }
+          if (segment.type === 'removed') {
+            return showRemoved ? <del key={index} className="text-red-400">{segment.text}</del> : null
+          }
+          return <span key={index} className="text-gray-500">{segment.text}</span>
+        })}
+      </p>
+    </div>
+  )
+}
+
+export default ClusterDetail
@@ -17,10 +17,11 @@ interface FilterOptions {
   themes: string[]
   entities: string[]
   submitterTypes: string[]
+  targetDocuments: string[]
   searchQuery: string
 }
 
-type PrefixType = 'theme' | 'entity' | 'type'
+type PrefixType = 'theme' | 'entity' | 'type' | 'doc'
 
 interface PrefixDetection {
   type: PrefixType
@@ -28,7 +29,7 @@ interface PrefixDetection {
   prefixStart: number
 }
 
-const PREFIX_REGEX = /(?:^|\s)(theme|entity|type):(.*)$/i
+const PREFIX_REGEX = /(?:^|\s)(theme|entity|type|doc):(.*)$/i
 
 function detectPrefix(query: string, cursorPos: number): PrefixDetection | null {
   const textToCursor = query.slice(0, cursorPos)
@@ -43,7 +44,7 @@ function detectPrefix(query: string, cursorPos: number): PrefixDetection | null
 }
 
 function CommentBrowser() {
-  const { loading, comments = [], filters, setFilters, getFilteredComments, themes = [], entities = {} } = useStore()
+  const { loading, comments = [], filters, setFilters, getFilteredComments, themes = [], entities = {}, meta } = useStore()
   const [searchParams] = useSearchParams()
   const [page, setPage] = useState(0)
   const [showCopyModal, setShowCopyModal] = useState(false)
@@ -89,6 +90,13 @@ function CommentBrowser() {
         submitterTypes: [submitterType]
       }))
     }
+    const targetDocument = searchParams.get('document')
+    if (targetDocument) {
+      setFilters((prev: FilterOptions) => ({
+        ...prev,
+        targetDocuments: [targetDocument]
+      }))
+    }
   }, [searchParams, setFilters])
 
   // Global keyboard shortcuts
@@ -138,6 +146,9 @@ function CommentBrowser() {
     return getUniqueValues(comments, 'submitterType').filter(t => counts[t] >= 5)
   }, [comments])
 
+  // Documents the comments were made on (only offered for docket-level loads)
+  const availableDocuments = useMemo(() => meta?.documents || [], [meta])
+
   // Pagination — memoize so keystroke re-renders don't recompute
   const { totalPages, paginatedComments } = useMemo(() => {
     const tp = Math.ceil(filteredComments.length / itemsPerPage)
@@ -204,10 +215,21 @@ function CommentBrowser() {
           }))
           .filter(item => !q || item.label.toLowerCase().includes(q))
 
+      case 'doc':
+        return availableDocuments
+          .map(d => ({
+            key: d.id,
+            label: d.id,
+            sublabel: d.title || undefined,
+            count: d.commentCount,
+            selected: (filters?.targetDocuments || []).includes(d.id),
+          }))
+          .filter(item => !q || item.label.toLowerCase().includes(q) || (item.sublabel?.toLowerCase().includes(q) ?? false))
+
       default:
         return []
     }
-  }, [inlinePickerType, inlineFilterText, themes, entities, availableSubmitterTypes, filters])
+  }, [inlinePickerType, inlineFilterText, themes, entities, availableSubmitterTypes, availableDocuments, filters])
 
   // Reset highlight when items change
   useEffect(() => {
@@ -291,6 +313,14 @@ function CommentBrowser() {
     handleFilterChange('submitterTypes', updated)
   }, [filters?.submitterTypes, handleFilterChange])
 
+  const handleToggleDocument = useCallback((id: string) => {
+    const current = filters?.targetDocuments || []
+    const updated = current.includes(id)
+      ? current.filter((d: string) => d !== id)
+      : [...current, id]
+    handleFilterChange('targetDocuments', updated)
+  }, [filters?.targetDocuments, handleFilterChange])
+
   const handleInlineSelect = useCallback((key: string) => {
     if (!inlinePickerType) return
 
@@ -304,11 +334,12 @@ function CommentBrowser() {
       case 'theme': handleToggleTheme(key); break
       case 'entity': handleToggleEntity(key); break
       case 'type': handleToggleSubmitterType(key); break
+      case 'doc': handleToggleDocument(key); break
     }
 
     closeInlinePicker()
     setTimeout(() => searchInputRef.current?.focus(), 0)
-  }, [inlinePickerType, localSearchQuery, prefixStart, debouncedSetSearchQuery, closeInlinePicker, handleToggleTheme, handleToggleEntity, handleToggleSubmitterType])
+  }, [inlinePickerType, localSearchQuery, prefixStart, debouncedSetSearchQuery, closeInlinePicker, handleToggleTheme, handleToggleEntity, handleToggleSubmitterType, handleToggleDocument])
 
   const handleSearchKeyDown = useCallback((e: React.KeyboardEvent<HTMLInputElement>) => {
     if (!inlinePickerType || inlinePickerItems.length === 0) return
@@ -344,6 +375,7 @@ function CommentBrowser() {
       setFilters((prev: FilterOptions) => ({
         ...prev,
         submitterTypes: [],
+        targetDocuments: [],
         themes: [],
         entities: [],
         searchQuery: ''
@@ -363,6 +395,7 @@ function CommentBrowser() {
   const inlinePickerLabel = inlinePickerType === 'theme' ? 'Select theme...'
     : inlinePickerType === 'entity' ? 'Select entity...'
     : inlinePickerType === 'type' ? 'Select submitter type...'
+    : inlinePickerType === 'doc' ? 'Select document...'
     : ''
 
   return (
@@ -452,12 +485,14 @@ function CommentBrowser() {
           themes={filters.themes || []}
           entities={filters.entities || []}
           submitterTypes={filters.submitterTypes || []}
+          targetDocuments={filters.targetDocuments || []}
           themeList={themes}
           entityMap={entities}
           onRemoveSearchToken={handleRemoveSearchToken}
           onRemoveTheme={(code) => handleFilterChange('themes', (filters.themes || []).filter((c: string) => c !== code))}
           onRemoveEntity={(key) => handleFilterChange('entities', (filters.entities || []).filter((k: string) => k !== key))}
           onRemoveSubmitterType={(value) => handleFilterChange('submitterTypes', (filters.submitterTypes || []).filter((v: string) => v !== value))}
+          onRemoveTargetDocument={(id) => handleFilterChange('targetDocuments', (filters.targetDocuments || []).filter((d: string) => d !== id))}
           onClearAll={handleClearAll}
           onClickSearchToken={handleClickSearchToken}
         />
@@ -468,12 +503,15 @@ function CommentBrowser() {
             themes={themes}
             entities={entities}
             submitterTypes={availableSubmitterTypes}
+            documents={availableDocuments}
             selectedThemes={filters.themes || []}
             selectedEntities={filters.entities || []}
             selectedSubmitterTypes={filters.submitterTypes || []}
+            selectedDocuments={filters.targetDocuments || []}
             onAddTheme={handleToggleTheme}
             onAddEntity={handleToggleEntity}
             onAddSubmitterType={handleToggleSubmitterType}
+            onAddDocument={handleToggleDocument}
           />
         </div>
       </div>
@@ -16,6 +16,7 @@ interface CommentCardProps {
   clickable?: boolean
   themeExtract?: ThemeExtract
   themeCode?: string
+  extractLabel?: string  // what the extract is about; defaults to "theme <themeCode>"
   sections?: {
     oneLineSummary?: boolean
     corePosition?: boolean
@@ -42,6 +43,7 @@ function CommentCard({
   clickable = true,
   themeExtract,
   themeCode,
+  extractLabel,
   sections = defaultSections
 }: CommentCardProps) {
   const [showCopyModal, setShowCopyModal] = useState(false)
@@ -160,7 +162,7 @@ function CommentCard({
             )}
 
             <div className="mb-3 p-2 bg-teal-50 border border-teal-200 rounded text-xs text-teal-800">
-              Analysis specific to theme {themeCode}
+              Analysis specific to {extractLabel || `theme ${themeCode}`}
             </div>
 
             {themeExtract.positions && themeExtract.positions.length > 0 && (
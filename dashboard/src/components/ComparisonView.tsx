@@ -0,0 +1,250 @@
+import { useState, useMemo } from 'react'
+import { GitCompare, Building2, Search, ChevronDown, ChevronRight, ExternalLink } from 'lucide-react'
+import useStore from '../store/useStore'
+import { formatDate, getRegulationsGovUrl, parseThemeDescription } from '../utils/helpers'
+import type { ComparisonOrganization } from '../types'
+
+function ComparisonView() {
+  const { comparison } = useStore()
+  const [search, setSearch] = useState('')
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+
+  // Oldest rule cycle first so positions read left to right in time
+  const dockets = useMemo(() => {
+    if (!comparison) return []
+    return [...comparison.dockets].sort((a, b) =>
+      (a.commentEndDate || '').localeCompare(b.commentEndDate || '') || a.id.localeCompare(b.id)
+    )
+  }, [comparison])
+
+  // docket|code -> aligned theme label, for showing an organization's themes in shared terms
+  const alignedLabels = useMemo(() => {
+    const labels = new Map<string, string>()
+    for (const alignment of comparison?.themeAlignments || []) {
+      for (const theme of alignment.themes) {
+        labels.set(`${theme.docket}|${theme.code}`, alignment.label)
+      }
+    }
+    return labels
+  }, [comparison])
+
+  const organizations = useMemo(() => {
+    const q = search.toLowerCase()
+    return (comparison?.organizations || []).filter(org =>
+      !q || org.name.toLowerCase().includes(q) ||
+      Object.values(org.dockets).some(d => d.names.some(n => n.toLowerCase().includes(q)))
+    )
+  }, [comparison, search])
+
+  const toggle = (key: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+  }
+
+  if (!comparison) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
+        <p className="text-gray-500">No comparison data published with this dashboard.</p>
+        <p className="text-sm text-gray-400 mt-2">Run <code>bun run cli compare</code> to generate comparison.json.</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 sm:p-6">
+        <div className="flex items-center space-x-3">
+          <GitCompare className="h-6 w-6 text-indigo-600 flex-shrink-0" />
+          <div>
+            <h1 className="text-xl sm:text-2xl font-bold text-gray-900">Cross-Docket Comparison</h1>
+            <p className="text-sm text-gray-500 mt-1">
+              {comparison.organizations.length} organizations commented on more than one of {dockets.length} dockets
+            </p>
+          </div>
+        </div>
+        <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+          {dockets.map(docket => (
+            <div key={docket.id} className="border border-gray-200 rounded-lg p-3">
+              <div className="text-xs font-mono text-gray-500">{docket.id}</div>
+              <div className="text-sm font-medium text-gray-900 line-clamp-2">{docket.title}</div>
+              <div className="text-xs text-gray-500 mt-1">
+                {docket.commentCount.toLocaleString()} comments · {docket.themeCount} themes
+                {docket.commentEndDate && <> · closed {formatDate(docket.commentEndDate)}</>}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Aligned Themes */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="p-4 border-b border-gray-200">
+          <h2 className="font-semibold text-gray-900">Aligned Themes</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Themes covering the same issue in each docket's taxonomy ({comparison.themeMatch === 'llm' ? 'matched by LLM' : 'matched by wording'})
+          </p>
+        </div>
+        {comparison.themeAlignments.length === 0 ? (
+          <div className="p-4 text-sm text-gray-500">No themes could be aligned across these dockets.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left text-gray-600">
+                <tr>
+                  <th className="px-4 py-2 font-medium">Issue</th>
+                  {dockets.map(d => (
+                    <th key={d.id} className="px-4 py-2 font-medium font-mono text-xs">{d.id}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {comparison.themeAlignments.map(alignment => (
+                  <tr key={alignment.id}>
+                    <td className="px-4 py-2 font-medium text-gray-900">{alignment.label}</td>
+                    {dockets.map(d => {
+                      const theme = alignment.themes.find(t => t.docket === d.id)
+                      return (
+                        <td key={d.id} className="px-4 py-2 text-gray-700 align-top">
+                          {theme ? (
+                            <>
+                              <span className="font-mono text-xs text-gray-500 mr-1">{theme.code}</span>
+                              {parseThemeDescription(theme.description).label}
+                              <span className="text-xs text-gray-400 ml-1">({theme.commentCount})</span>
+                            </>
+                          ) : (
+                            <span className="text-gray-300">—</span>
+                          )}
+                        </td>
+                      )
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Organizations */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="p-4 border-b border-gray-200 space-y-3">
+          <div className="flex items-center space-x-2">
+            <Building2 className="h-5 w-5 text-gray-400" />
+            <h2 className="font-semibold text-gray-900">Recurring Commenters</h2>
+          </div>
+          <div className="relative">
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Filter organizations..."
+              className="w-full pl-10 pr-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <Search className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
+          </div>
+        </div>
+        <div className="divide-y divide-gray-100">
+          {organizations.length === 0 ? (
+            <div className="p-4 text-sm text-gray-500">No organizations match.</div>
+          ) : (
+            organizations.map(org => (
+              <OrganizationRow
+                key={org.key}
+                organization={org}
+                dockets={dockets.map(d => d.id)}
+                alignedLabels={alignedLabels}
+                isExpanded={expanded.has(org.key)}
+                onToggle={() => toggle(org.key)}
+              />
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+interface OrganizationRowProps {
+  organization: ComparisonOrganization
+  dockets: string[]
+  alignedLabels: Map<string, string>
+  isExpanded: boolean
+  onToggle: () => void
+}
+
+function OrganizationRow({ organization, dockets, alignedLabels, isExpanded, onToggle }: OrganizationRowProps) {
+  const present = dockets.filter(id => organization.dockets[id])
+
+  return (
+    <div>
+      <button
+        onClick={onToggle}
+        className="w-full flex items-center justify-between px-4 py-3 text-left hover:bg-gray-50 transition-colors"
+      >
+        <div className="flex items-center gap-2 min-w-0">
+          {isExpanded ? (
+            <ChevronDown className="h-4 w-4 text-gray-400 flex-shrink-0" />
+          ) : (
+            <ChevronRight className="h-4 w-4 text-gray-400 flex-shrink-0" />
+          )}
+          <span className="font-medium text-gray-900 truncate">{organization.name}</span>
+        </div>
+        <span className="text-xs text-gray-500 flex-shrink-0 ml-2">{present.length} dockets</span>
+      </button>
+
+      {isExpanded && (
+        <div className="px-4 pb-4 grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
+          {present.map(docketId => {
+            const entry = organization.dockets[docketId]
+            const themes = Array.from(new Set(
+              entry.themeCodes.map(code => alignedLabels.get(`${docketId}|${code}`)).filter(Boolean)
+            ))
+            return (
+              <div key={docketId} className="border border-gray-200 rounded-lg p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-mono text-gray-500">{docketId}</span>
+                  <span className="text-xs text-gray-400">{entry.commentIds.length} comment{entry.commentIds.length === 1 ? '' : 's'}</span>
+                </div>
+                {themes.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {themes.map(label => (
+                      <span key={label} className="px-2 py-0.5 text-xs rounded-full bg-indigo-50 text-indigo-700 border border-indigo-200">
+                        {label}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                {entry.positions.length === 0 ? (
+                  <p className="text-sm text-gray-400">No condensed position available</p>
+                ) : (
+                  entry.positions.map(position => (
+                    <div key={position.commentId} className="text-sm text-gray-700">
+                      <p className="line-clamp-4">{position.text}</p>
+                      <a
+                        href={getRegulationsGovUrl(docketId, position.commentId)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800 mt-1"
+                      >
+                        {position.commentId}
+                        {position.postedDate && <> · {formatDate(position.postedDate)}</>}
+                        <ExternalLink className="h-3 w-3" />
+                      </a>
+                    </div>
+                  ))
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ComparisonView
@@ -1,29 +1,35 @@
 import { useState, useRef, useEffect, useMemo } from 'react'
 import { Plus, Search, Check } from 'lucide-react'
-import type { Theme } from '../types'
+import type { Theme, TargetDocument } from '../types'
 
 interface FilterAddButtonsProps {
   themes: Theme[]
   entities: Record<string, { label: string; definition?: string; mentionCount: number }[]>
   submitterTypes: string[]
+  documents?: TargetDocument[]
   selectedThemes: string[]
   selectedEntities: string[]
   selectedSubmitterTypes: string[]
+  selectedDocuments?: string[]
   onAddTheme: (code: string) => void
   onAddEntity: (key: string) => void
   onAddSubmitterType: (value: string) => void
+  onAddDocument?: (id: string) => void
 }
 
 function FilterAddButtons({
   themes,
   entities,
   submitterTypes,
+  documents = [],
   selectedThemes,
   selectedEntities,
   selectedSubmitterTypes,
+  selectedDocuments = [],
   onAddTheme,
   onAddEntity,
   onAddSubmitterType,
+  onAddDocument,
 }: FilterAddButtonsProps) {
   return (
     <div className="flex flex-wrap items-center gap-2">
@@ -66,6 +72,20 @@ function FilterAddButtons({
         }))}
         onSelect={(key) => onAddSubmitterType(key)}
       />
+      {documents.length > 1 && onAddDocument && (
+        <FilterPicker
+          label="Document"
+          colorClass="amber"
+          items={documents.map(doc => ({
+            key: doc.id,
+            label: doc.id,
+            sublabel: doc.title || undefined,
+            count: doc.commentCount,
+            selected: selectedDocuments.includes(doc.id),
+          }))}
+          onSelect={(key) => onAddDocument(key)}
+        />
+      )}
     </div>
   )
 }
@@ -80,7 +100,7 @@ export interface PickerItem {
 
 interface FilterPickerProps {
   label: string
-  colorClass: 'blue' | 'green' | 'purple'
+  colorClass: 'blue' | 'green' | 'purple' | 'amber'
   items: PickerItem[]
   onSelect: (key: string) => void
 }
@@ -98,6 +118,10 @@ const colorMap = {
     button: 'text-purple-600 border-purple-200 hover:bg-purple-50',
     header: 'bg-purple-50',
   },
+  amber: {
+    button: 'text-amber-600 border-amber-200 hover:bg-amber-50',
+    header: 'bg-amber-50',
+  },
 }
 
 function FilterPicker({ label, colorClass, items, onSelect }: FilterPickerProps) {
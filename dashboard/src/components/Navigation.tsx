@@ -1,6 +1,7 @@
 import { NavLink } from 'react-router-dom'
-import { BarChart3, Tag, MessageSquare, Home, FileText } from 'lucide-react'
+import { BarChart3, Tag, MessageSquare, Home, FileText, GitCompare, Layers, ScrollText, HelpCircle } from 'lucide-react'
 import clsx from 'clsx'
+import useStore from '../store/useStore'
 
 const navItems = [
   { id: 'overview', label: 'Overview', icon: Home, path: '/overview' },
@@ -11,9 +12,20 @@ const navItems = [
 ]
 
 function Navigation() {
+  const { comparison, clusterReport, rule, questions } = useStore()
+  // Optional views only appear when their data was published alongside this dashboard
+  const hasFormLetters = !!clusterReport?.clusters.some(c => c.size > 1)
+  const items = [
+    ...navItems,
+    ...(hasFormLetters ? [{ id: 'clusters', label: 'Form Letters', icon: Layers, path: '/clusters' }] : []),
+    ...(rule ? [{ id: 'rule', label: 'Rule', icon: ScrollText, path: '/rule' }] : []),
+    ...(questions?.questions.length ? [{ id: 'questions', label: 'Questions', icon: HelpCircle, path: '/questions' }] : []),
+    ...(comparison ? [{ id: 'compare', label: 'Compare', icon: GitCompare, path: '/compare' }] : []),
+  ]
+
   return (
     <nav className="flex space-x-1 bg-gray-100 p-1 rounded-lg">
-      {navItems.map(({ id, label, icon: Icon, path }) => (
+      {items.map(({ id, label, icon: Icon, path }) => (
         <NavLink
           key={id}
           to={path}
@@ -0,0 +1,90 @@
+import { useState, useMemo } from 'react'
+import { Link } from 'react-router-dom'
+import { HelpCircle, Search } from 'lucide-react'
+import useStore from '../store/useStore'
+
+function QuestionBrowser() {
+  const { questions, comments } = useStore()
+  const [search, setSearch] = useState('')
+  const [onlyAnswered, setOnlyAnswered] = useState(false)
+
+  const matches = useMemo(() => {
+    const q = search.toLowerCase()
+    return [...(questions?.questions || [])]
+      .sort((a, b) => a.position - b.position)
+      .filter(question => (!onlyAnswered || question.commentIds.length > 0) && (!q ||
+        question.code.toLowerCase().includes(q) ||
+        question.question.toLowerCase().includes(q)))
+  }, [questions, search, onlyAnswered])
+
+  if (!questions || questions.questions.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
+        <p className="text-gray-500">No agency questions published with this dashboard.</p>
+        <p className="text-sm text-gray-400 mt-2">Run <code>bun run cli questions load</code> before building the website.</p>
+      </div>
+    )
+  }
+
+  const answering = new Set(questions.questions.flatMap(q => q.commentIds)).size
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 sm:p-6 space-y-4">
+        <div className="flex items-center space-x-3">
+          <HelpCircle className="h-6 w-6 text-purple-600 flex-shrink-0" />
+          <div>
+            <h1 className="text-xl sm:text-2xl font-bold text-gray-900">Agency Questions</h1>
+            <p className="text-sm text-gray-500 mt-1">
+              {questions.questions.length} questions; {answering.toLocaleString()} of {comments.length.toLocaleString()} comments answer at least one
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+          <div className="relative flex-1">
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search questions by number or wording..."
+              className="w-full pl-10 pr-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <Search className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={onlyAnswered} onChange={(e) => setOnlyAnswered(e.target.checked)} />
+            Only answered questions
+          </label>
+        </div>
+      </div>
+
+      {/* Questions */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 divide-y divide-gray-100">
+        {matches.length === 0 ? (
+          <div className="p-4 text-sm text-gray-500">No questions match.</div>
+        ) : (
+          matches.map(question => {
+            const summary = questions.summaries[question.code]
+            return (
+              <Link key={question.code} to={`/questions/${encodeURIComponent(question.code)}`} className="block px-4 py-3 hover:bg-gray-50 group">
+                <div className="flex items-start gap-3">
+                  <span className="font-mono text-sm font-medium text-gray-900 flex-shrink-0 group-hover:text-blue-600">{question.code}</span>
+                  <span className="text-sm text-gray-800 flex-1">{question.question}</span>
+                  <span className={`flex-shrink-0 px-2 py-0.5 rounded-full text-xs font-medium ${question.commentIds.length > 0 ? 'bg-purple-100 text-purple-800' : 'bg-gray-100 text-gray-500'}`}>
+                    {question.commentIds.length.toLocaleString()} {question.commentIds.length === 1 ? 'answer' : 'answers'}
+                  </span>
+                </div>
+                {summary?.sections.executiveSummary && (
+                  <p className="text-sm text-gray-500 mt-1 ml-8 line-clamp-2">{summary.sections.executiveSummary}</p>
+                )}
+              </Link>
+            )
+          })
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default QuestionBrowser
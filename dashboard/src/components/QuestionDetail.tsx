@@ -0,0 +1,99 @@
+import { useState, useEffect } from 'react'
+import { useParams, Link } from 'react-router-dom'
+import { HelpCircle } from 'lucide-react'
+import useStore from '../store/useStore'
+import Breadcrumbs from './Breadcrumbs'
+import CommentCard from './CommentCard'
+import ThemeSummaryView from './ThemeSummaryView'
+import { getRuleSectionPath } from '../utils/helpers'
+
+const PAGE_SIZE = 50
+
+function QuestionDetail() {
+  const { code } = useParams<{ code: string }>()
+  const { questions, rule, getCommentById } = useStore()
+  const [visible, setVisible] = useState(PAGE_SIZE)
+
+  useEffect(() => setVisible(PAGE_SIZE), [code])
+
+  const question = questions?.questions.find(q => q.code === code)
+
+  if (!question) {
+    return (
+      <div className="space-y-6">
+        <Breadcrumbs items={[{ label: 'Questions', path: '/questions' }, { label: 'Not Found' }]} />
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
+          <p className="text-gray-500">Question not found</p>
+        </div>
+      </div>
+    )
+  }
+
+  const summary = questions!.summaries[question.code]
+  const answers = questions!.answers[question.code] || {}
+  const comments = question.commentIds.map(id => getCommentById(id)).filter(c => c !== undefined)
+  const inRule = question.sectionId && rule?.sections.some(s => s.id === question.sectionId)
+
+  return (
+    <div className="space-y-6">
+      <Breadcrumbs items={[
+        { label: 'Questions', path: '/questions' },
+        { label: `Question ${question.code}` }
+      ]} />
+
+      {/* Header */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 sm:p-6">
+        <div className="flex items-start space-x-3">
+          <HelpCircle className="h-6 w-6 text-purple-600 flex-shrink-0 mt-1" />
+          <div>
+            <h1 className="text-xl sm:text-2xl font-bold text-gray-900">Question {question.code}</h1>
+            <p className="text-gray-800 mt-2">{question.question}</p>
+            <p className="text-sm text-gray-500 mt-2">
+              Answered by {comments.length.toLocaleString()} {comments.length === 1 ? 'comment' : 'comments'}
+              {inRule && (
+                <> · asked in <Link to={getRuleSectionPath(question.sectionId!)} className="text-blue-600 hover:underline">{question.sectionId}</Link></>
+              )}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Summary of the answers */}
+      {summary && <ThemeSummaryView summary={summary} themeCode={question.code} />}
+
+      {/* Each commenter's answer */}
+      <div className="space-y-6">
+        <h2 className="text-xl font-semibold text-gray-900">Answers ({comments.length})</h2>
+        {comments.length > 0 ? (
+          <div className="space-y-4">
+            {comments.slice(0, visible).map(comment => (
+              <CommentCard
+                key={comment.id}
+                comment={comment}
+                showThemes={false}
+                showEntities={false}
+                themeExtract={answers[comment.id]}
+                themeCode={question.code}
+                extractLabel={`question ${question.code}`}
+              />
+            ))}
+          </div>
+        ) : (
+          <p className="text-gray-500 italic">No comments answer this question</p>
+        )}
+        {comments.length > visible && (
+          <div className="text-center">
+            <button
+              onClick={() => setVisible(v => v + PAGE_SIZE)}
+              className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+            >
+              Show more ({comments.length - visible} remaining)
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default QuestionDetail
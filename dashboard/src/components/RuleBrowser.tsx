@@ -0,0 +1,153 @@
+import { useState, useMemo } from 'react'
+import { Link } from 'react-router-dom'
+import { ScrollText, Search, ChevronRight, ChevronDown } from 'lucide-react'
+import useStore from '../store/useStore'
+import { formatRuleSectionId, getRuleSectionPath } from '../utils/helpers'
+import type { RuleSection } from '../types'
+
+function RuleBrowser() {
+  const { rule, meta } = useStore()
+  const [search, setSearch] = useState('')
+  const [onlyCited, setOnlyCited] = useState(false)
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+
+  // Children in document order, and the comments citing each section or anything beneath it
+  const { children, citingCount } = useMemo(() => {
+    const children: Record<string, RuleSection[]> = {}
+    for (const section of rule?.sections || []) {
+      const parent = section.parentId || 'root'
+      ;(children[parent] ||= []).push(section)
+    }
+    Object.values(children).forEach(list => list.sort((a, b) => a.position - b.position))
+
+    const citing: Record<string, Set<string>> = {}
+    const collect = (section: RuleSection): Set<string> => {
+      const ids = new Set(section.commentIds)
+      for (const child of children[section.id] || []) collect(child).forEach(id => ids.add(id))
+      citing[section.id] = ids
+      return ids
+    }
+    ;(children.root || []).forEach(collect)
+
+    const citingCount: Record<string, number> = {}
+    for (const [id, ids] of Object.entries(citing)) citingCount[id] = ids.size
+    return { children, citingCount }
+  }, [rule])
+
+  // Searching or filtering switches from the outline to a flat list of matches
+  const matches = useMemo(() => {
+    const q = search.toLowerCase()
+    if (!q && !onlyCited) return null
+    return [...(rule?.sections || [])]
+      .sort((a, b) => a.position - b.position)
+      .filter(section => (!onlyCited || section.commentIds.length > 0) && (!q ||
+        section.id.toLowerCase().includes(q) ||
+        formatRuleSectionId(section).toLowerCase().includes(q) ||
+        (section.heading || '').toLowerCase().includes(q)))
+  }, [rule, search, onlyCited])
+
+  if (!rule) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
+        <p className="text-gray-500">No rule text published with this dashboard.</p>
+        <p className="text-sm text-gray-400 mt-2">Run <code>bun run cli load-rule</code> before building the website.</p>
+      </div>
+    )
+  }
+
+  const citedSections = rule.sections.filter(s => s.commentIds.length > 0).length
+  const citingComments = new Set(rule.sections.flatMap(s => s.commentIds)).size
+
+  const toggle = (id: string) => setExpanded(prev => {
+    const next = new Set(prev)
+    if (next.has(id)) next.delete(id)
+    else next.add(id)
+    return next
+  })
+
+  const renderSection = (section: RuleSection, depth: number) => {
+    const kids = children[section.id] || []
+    const isOpen = expanded.has(section.id)
+    return (
+      <div key={section.id}>
+        <div className="flex items-center gap-2 px-4 py-2 hover:bg-gray-50" style={{ paddingLeft: `${1 + depth * 1.25}rem` }}>
+          {kids.length > 0 ? (
+            <button onClick={() => toggle(section.id)} className="text-gray-400 hover:text-gray-700 flex-shrink-0">
+              {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+            </button>
+          ) : (
+            <span className="w-4 flex-shrink-0" />
+          )}
+          <SectionLink section={section} count={citingCount[section.id] || 0} />
+        </div>
+        {isOpen && kids.map(child => renderSection(child, depth + 1))}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 sm:p-6 space-y-4">
+        <div className="flex items-center space-x-3">
+          <ScrollText className="h-6 w-6 text-amber-600 flex-shrink-0" />
+          <div>
+            <h1 className="text-xl sm:text-2xl font-bold text-gray-900">{rule.title || (meta as any)?.title || 'Proposed Rule'}</h1>
+            <p className="text-sm text-gray-500 mt-1">
+              {rule.sections.length.toLocaleString()} sections; {citedSections} cited by {citingComments.toLocaleString()} comments
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+          <div className="relative flex-1">
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by citation or heading, e.g. 170.315(b) or decision support..."
+              className="w-full pl-10 pr-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <Search className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={onlyCited} onChange={(e) => setOnlyCited(e.target.checked)} />
+            Only cited sections
+          </label>
+        </div>
+      </div>
+
+      {/* Sections */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 divide-y divide-gray-100">
+        {matches ? (
+          matches.length === 0 ? (
+            <div className="p-4 text-sm text-gray-500">No sections match.</div>
+          ) : (
+            matches.map(section => (
+              <div key={section.id} className="px-4 py-2 hover:bg-gray-50">
+                <SectionLink section={section} count={citingCount[section.id] || 0} />
+              </div>
+            ))
+          )
+        ) : (
+          (children.root || []).map(section => renderSection(section, 0))
+        )}
+      </div>
+    </div>
+  )
+}
+
+function SectionLink({ section, count }: { section: RuleSection; count: number }) {
+  return (
+    <Link to={getRuleSectionPath(section.id)} className="flex items-center gap-3 min-w-0 flex-1 group">
+      <span className="font-mono text-sm text-gray-900 flex-shrink-0 group-hover:text-blue-600">{formatRuleSectionId(section)}</span>
+      <span className="text-sm text-gray-600 truncate">{section.heading}</span>
+      {count > 0 && (
+        <span className="ml-auto flex-shrink-0 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+          {count.toLocaleString()} {count === 1 ? 'comment' : 'comments'}
+        </span>
+      )}
+    </Link>
+  )
+}
+
+export default RuleBrowser
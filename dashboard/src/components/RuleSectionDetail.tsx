@@ -0,0 +1,181 @@
+import { useState, useEffect, useMemo } from 'react'
+import { useParams, Link } from 'react-router-dom'
+import { ScrollText } from 'lucide-react'
+import useStore from '../store/useStore'
+import Breadcrumbs from './Breadcrumbs'
+import CommentCard from './CommentCard'
+import { formatRuleSectionId, getRuleSectionPath } from '../utils/helpers'
+import type { RuleSectionText } from '../types'
+
+const PAGE_SIZE = 50
+
+function RuleSectionDetail() {
+  const { sectionId } = useParams<{ sectionId: string }>()
+  const { rule, themes, getCommentById } = useStore()
+  const [text, setText] = useState<RuleSectionText | null>(null)
+  const [loadError, setLoadError] = useState(false)
+  const [themeFilter, setThemeFilter] = useState<string | null>(null)
+  const [visible, setVisible] = useState(PAGE_SIZE)
+
+  const section = rule?.sections.find(s => s.id === sectionId)
+
+  // Section text is kept out of the initial load; fetch it when a section is opened
+  useEffect(() => {
+    setText(null)
+    setLoadError(false)
+    setThemeFilter(null)
+    setVisible(PAGE_SIZE)
+    if (!section) return
+    fetch(`./data/rule-sections/${section.position}.json`)
+      .then(r => (r.ok ? r.json() : Promise.reject(new Error(`HTTP ${r.status}`))))
+      .then(setText)
+      .catch(() => setLoadError(true))
+  }, [section])
+
+  const ancestors = useMemo(() => {
+    const chain = []
+    for (let parentId = section?.parentId; parentId; ) {
+      const parent = rule?.sections.find(s => s.id === parentId)
+      if (!parent) break
+      chain.unshift(parent)
+      parentId = parent.parentId
+    }
+    return chain
+  }, [rule, section])
+
+  const children = useMemo(() =>
+    (rule?.sections || [])
+      .filter(s => s.parentId === sectionId)
+      .sort((a, b) => a.position - b.position),
+  [rule, sectionId])
+
+  const sectionThemes = useMemo(() =>
+    Object.entries(section?.themes || {})
+      .map(([code, commentIds]) => ({ code, commentIds, theme: themes.find(t => t.code === code) }))
+      .sort((a, b) => b.commentIds.length - a.commentIds.length || a.code.localeCompare(b.code, undefined, { numeric: true })),
+  [section, themes])
+
+  if (!section) {
+    return (
+      <div className="space-y-6">
+        <Breadcrumbs items={[{ label: 'Rule', path: '/rule' }, { label: 'Not Found' }]} />
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
+          <p className="text-gray-500">Rule section not found</p>
+        </div>
+      </div>
+    )
+  }
+
+  const commentIds = themeFilter ? section.themes[themeFilter] || [] : section.commentIds
+  const comments = commentIds.map(id => getCommentById(id)).filter(c => c !== undefined)
+
+  return (
+    <div className="space-y-6">
+      <Breadcrumbs items={[
+        { label: 'Rule', path: '/rule' },
+        ...ancestors.map(a => ({ label: formatRuleSectionId(a), path: getRuleSectionPath(a.id) })),
+        { label: formatRuleSectionId(section) }
+      ]} />
+
+      {/* Header and section text */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="px-4 sm:px-6 py-4 border-b border-gray-200 bg-gray-50">
+          <div className="flex items-center space-x-3">
+            <ScrollText className="h-6 w-6 text-amber-600 flex-shrink-0" />
+            <h1 className="text-xl sm:text-2xl font-bold text-gray-900">
+              {formatRuleSectionId(section)}{section.heading ? ` ${section.heading}` : ''}
+            </h1>
+          </div>
+          <p className="text-sm text-gray-600 mt-2">
+            Cited by {section.commentIds.length.toLocaleString()} {section.commentIds.length === 1 ? 'comment' : 'comments'}
+          </p>
+        </div>
+        <div className="p-4 sm:p-6">
+          {text ? (
+            <p className="text-sm text-gray-800 whitespace-pre-wrap">{text.text || 'No text beyond the heading; see the subsections below.'}</p>
+          ) : (
+            <p className="text-sm text-gray-500">{loadError ? 'Section text was not published with this dashboard.' : 'Loading…'}</p>
+          )}
+        </div>
+      </div>
+
+      {/* Subsections */}
+      {children.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="p-4 border-b border-gray-200">
+            <h2 className="font-semibold text-gray-900">Subsections</h2>
+          </div>
+          <div className="divide-y divide-gray-100">
+            {children.map(child => (
+              <Link key={child.id} to={getRuleSectionPath(child.id)} className="flex items-center gap-3 px-4 py-2 hover:bg-gray-50">
+                <span className="font-mono text-sm text-gray-900 flex-shrink-0">{formatRuleSectionId(child)}</span>
+                <span className="text-sm text-gray-600 truncate">{child.heading}</span>
+                {child.commentIds.length > 0 && (
+                  <span className="ml-auto flex-shrink-0 text-xs text-gray-500">{child.commentIds.length.toLocaleString()} citing</span>
+                )}
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Citing comments, optionally narrowed to the theme extracts that cite this section */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="p-4 border-b border-gray-200 space-y-3">
+          <h2 className="font-semibold text-gray-900">Comments citing this section</h2>
+          {sectionThemes.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => { setThemeFilter(null); setVisible(PAGE_SIZE) }}
+                className={`px-2 py-1 rounded-full text-xs font-medium ${themeFilter === null ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+              >
+                All ({section.commentIds.length})
+              </button>
+              {sectionThemes.map(({ code, commentIds, theme }) => (
+                <button
+                  key={code}
+                  onClick={() => { setThemeFilter(code); setVisible(PAGE_SIZE) }}
+                  title={theme?.description}
+                  className={`px-2 py-1 rounded-full text-xs font-medium ${themeFilter === code ? 'bg-blue-600 text-white' : 'bg-blue-50 text-blue-800 hover:bg-blue-100'}`}
+                >
+                  {code} {theme?.label || theme?.description?.split(/[.:]/)[0]} ({commentIds.length})
+                </button>
+              ))}
+            </div>
+          )}
+          {themeFilter && (
+            <p className="text-sm text-gray-500">
+              Comments whose extract for <Link to={`/themes/${themeFilter}`} className="text-blue-600 hover:underline">theme {themeFilter}</Link> cites this section
+            </p>
+          )}
+        </div>
+        <div className="p-4 space-y-4">
+          {comments.length === 0 ? (
+            <p className="text-sm text-gray-500">No comments cite this section directly.</p>
+          ) : (
+            comments.slice(0, visible).map(comment => (
+              <CommentCard
+                key={comment.id}
+                comment={comment}
+                showThemes={false}
+                showEntities={false}
+              />
+            ))
+          )}
+        </div>
+        {comments.length > visible && (
+          <div className="p-4 border-t border-gray-200 text-center">
+            <button
+              onClick={() => setVisible(v => v + PAGE_SIZE)}
+              className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+            >
+              Show more ({comments.length - visible} remaining)
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default RuleSectionDetail
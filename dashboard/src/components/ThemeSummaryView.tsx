@@ -1,5 +1,5 @@
-import { CheckCircle, AlertCircle, Users, Lightbulb, TrendingUp, Quote, BarChart3, MessageSquare, Target, AlertTriangle } from 'lucide-react'
-import type { ThemeSummary } from '../types'
+import { CheckCircle, AlertCircle, Users, Lightbulb, TrendingUp, Quote, BarChart3, MessageSquare, Target, AlertTriangle, ShieldCheck, ShieldAlert } from 'lucide-react'
+import type { ThemeSummary, SummaryVerification } from '../types'
 import CommentAuthorLink from './CommentAuthorLink'
 import CommentAuthorsList from './CommentAuthorsList'
 import CommentLink from './CommentLink'
@@ -9,11 +9,51 @@ interface ThemeSummaryViewProps {
   themeCode: string
 }
 
+const QUOTE_BADGES: Record<SummaryVerification['quotes'][number]['status'], { label: string; className: string }> = {
+  verified: { label: 'Verified', className: 'bg-green-100 text-green-800' },
+  approximate: { label: 'Close paraphrase', className: 'bg-amber-100 text-amber-800' },
+  not_found: { label: 'Not found in comment', className: 'bg-red-100 text-red-800' },
+  misattributed: { label: 'Found in another comment', className: 'bg-red-100 text-red-800' },
+  no_source: { label: 'Comment text unavailable', className: 'bg-gray-100 text-gray-600' },
+}
+
+// Outcome of the `verify` command: quotations matched against the comment text, and cited
+// comments checked against those the summary was written from
+function VerificationBanner({ verification }: { verification: SummaryVerification }) {
+  const verified = verification.quotes.filter(q => q.status === 'verified').length
+  const { supported, unsupported, unknown } = verification.citations
+  const clean = verified === verification.quotes.length && unsupported.length === 0 && unknown.length === 0
+  const Icon = clean ? ShieldCheck : ShieldAlert
+
+  return (
+    <div className={`rounded-lg border px-4 py-3 text-sm flex items-start gap-2 ${clean ? 'bg-green-50 border-green-200 text-green-900' : 'bg-amber-50 border-amber-200 text-amber-900'}`}>
+      <Icon className="h-4 w-4 mt-0.5 flex-shrink-0" />
+      <div>
+        <p>
+          {verification.quotes.length > 0 && <>{verified} of {verification.quotes.length} quotations found in the cited comment. </>}
+          {supported} of {supported + unsupported.length + unknown.length} citations are to comments that address this topic.
+        </p>
+        {unsupported.length > 0 && (
+          <p className="mt-1">
+            Cited without addressing it:{' '}
+            {unsupported.map((id, i) => (
+              <span key={id}>{i > 0 && ', '}<CommentLink commentId={id} className="underline" /></span>
+            ))}
+          </p>
+        )}
+        {unknown.length > 0 && <p className="mt-1">Not comments on this docket: {unknown.join(', ')}</p>}
+      </div>
+    </div>
+  )
+}
+
 function ThemeSummaryView({ summary }: ThemeSummaryViewProps) {
-  const { sections } = summary
+  const { sections, verification } = summary
   
   return (
     <div className="space-y-8">
+      {verification && <VerificationBanner verification={verification} />}
+
       {/* Executive Summary */}
       {sections.executiveSummary && (
         <div className="bg-gradient-to-r from-blue-50 to-indigo-50 rounded-xl p-6 border border-blue-200">
@@ -348,28 +388,37 @@ function ThemeSummaryView({ summary }: ThemeSummaryViewProps) {
             </h3>
           </div>
           <div className="p-6 space-y-4">
-            {sections.keyQuotations.map((quotation, index) => (
-              <blockquote key={index} className="border-l-4 border-indigo-200 pl-6 py-2">
-                <p className="text-gray-800 italic mb-2">"{quotation.quote}"</p>
-                <cite className="text-sm text-gray-600 not-italic flex items-center flex-wrap break-words">
-                  <span className="mr-2">—</span>
-                  {quotation.commentId ? (
-                    <>
-                      <CommentLink 
-                        commentId={quotation.commentId} 
-                        className="text-indigo-600 hover:text-indigo-800"
-                        showIcon={true}
-                      />
-                      {quotation.sourceType && (
-                        <span className="ml-1 text-gray-500">, {quotation.sourceType}</span>
-                      )}
-                    </>
-                  ) : (
-                    <span className="text-gray-500">Unknown source</span>
-                  )}
-                </cite>
-              </blockquote>
-            ))}
+            {sections.keyQuotations.map((quotation, index) => {
+              const check = verification?.quotes.find(q => q.index === index)
+              return (
+                <blockquote key={index} className="border-l-4 border-indigo-200 pl-6 py-2">
+                  <p className="text-gray-800 italic mb-2">"{quotation.quote}"</p>
+                  <cite className="text-sm text-gray-600 not-italic flex items-center flex-wrap break-words">
+                    <span className="mr-2">—</span>
+                    {quotation.commentId ? (
+                      <>
+                        <CommentLink 
+                          commentId={quotation.commentId} 
+                          className="text-indigo-600 hover:text-indigo-800"
+                          showIcon={true}
+                        />
+                        {quotation.sourceType && (
+                          <span className="ml-1 text-gray-500">, {quotation.sourceType}</span>
+                        )}
+                      </>
+                    ) : (
+                      <span className="text-gray-500">Unknown source</span>
+                    )}
+                    {check && (
+                      <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${QUOTE_BADGES[check.status].className}`}>
+                        {QUOTE_BADGES[check.status].label}
+                        {check.foundIn && <>: <CommentLink commentId={check.foundIn} /></>}
+                      </span>
+                    )}
+                  </cite>
+                </blockquote>
+              )
+            })}
           </div>
         </div>
       )}
@@ -1,5 +1,5 @@
 import { create } from 'zustand'
-import type { Meta, Theme, Entity, Comment, ThemeIndex, EntityIndex, ThemeSummary, ThemeExtractsMap } from '../types'
+import type { Meta, Theme, Entity, Comment, ThemeIndex, EntityIndex, ThemeSummary, ThemeExtractsMap, Comparison, ClusterReport, Rule, Questions } from '../types'
 import { parseThemeDescription } from '../utils/helpers'
 import { parseSearchQuery, matchesSearchQuery } from '../utils/searchParser'
 
@@ -7,6 +7,7 @@ interface FilterOptions {
   themes: string[]
   entities: string[]
   submitterTypes: string[]
+  targetDocuments: string[]
   searchQuery: string
 }
 
@@ -23,6 +24,10 @@ interface StoreState {
   themeIndex: ThemeIndex
   entityIndex: EntityIndex
   themeExtracts: ThemeExtractsMap
+  comparison: Comparison | null
+  clusterReport: ClusterReport | null
+  rule: Rule | null
+  questions: Questions | null
   organizationCategory: string | null
   
   // UI state
@@ -56,6 +61,10 @@ const useStore = create<StoreState>((set, get) => ({
   themeIndex: {},
   entityIndex: {},
   themeExtracts: {},
+  comparison: null,
+  clusterReport: null,
+  rule: null,
+  questions: null,
   organizationCategory: null,
   
   // UI state
@@ -71,6 +80,7 @@ const useStore = create<StoreState>((set, get) => ({
     themes: [],
     entities: [],
     submitterTypes: [],
+    targetDocuments: [],
     searchQuery: ''
   },
   
@@ -89,7 +99,7 @@ const useStore = create<StoreState>((set, get) => ({
     set({ loading: true, error: null })
     
     try {
-      const [meta, themes, themeSummaries, entities, comments, themeIndex, entityIndex, themeExtracts] = await Promise.all([
+      const [meta, themes, themeSummaries, entities, comments, themeIndex, entityIndex, themeExtracts, comparison, clusterReport, rule, questions] = await Promise.all([
         fetch('./data/meta.json').then(r => r.json()),
         fetch('./data/themes.json').then(r => r.json()),
         fetch('./data/theme-summaries.json').then(r => r.json()),
@@ -98,6 +108,10 @@ const useStore = create<StoreState>((set, get) => ({
         fetch('./data/indexes/theme-comments.json').then(r => r.json()),
         fetch('./data/indexes/entity-comments.json').then(r => r.json()),
         fetch('./data/theme-extracts.json').then(r => r.ok ? r.json() : {}).catch(() => ({})),
+        fetch('./data/comparison.json').then(r => r.ok ? r.json() : null).catch(() => null),
+        fetch('./data/cluster-report.json').then(r => r.ok ? r.json() : null).catch(() => null),
+        fetch('./data/rule.json').then(r => r.ok ? r.json() : null).catch(() => null),
+        fetch('./data/questions.json').then(r => r.ok ? r.json() : null).catch(() => null),
       ])
       
       // Parse theme descriptions
@@ -135,6 +149,10 @@ const useStore = create<StoreState>((set, get) => ({
         themeIndex,
         entityIndex,
         themeExtracts,
+        comparison,
+        clusterReport,
+        rule,
+        questions,
         organizationCategory: orgCategory,
         loading: false,
         error: null,
@@ -206,6 +224,15 @@ const useStore = create<StoreState>((set, get) => ({
       console.log(`Submitter filter applied: ${beforeSubmitter} → ${filtered.length}`)
     }
     
+    // Apply target document filters (docket-level loads)
+    if (state.filters.targetDocuments?.length > 0) {
+      const beforeDocuments = filtered.length
+      filtered = filtered.filter(c => 
+        !!c.targetDocumentId && state.filters.targetDocuments.includes(c.targetDocumentId)
+      )
+      console.log(`Document filter applied: ${beforeDocuments} → ${filtered.length}`)
+    }
+    
     
     const endTime = performance.now()
     console.log(`Total filtering time: ${(endTime - startTime).toFixed(2)}ms (${originalCount} → ${filtered.length} comments)`)
@@ -8,6 +8,15 @@ export interface Meta {
     totalEntities: number
     scoredComments: number
   }
+  documents?: TargetDocument[]  // Documents comments were made on (several for a docket load)
+}
+
+export interface TargetDocument {
+  id: string
+  title: string | null
+  documentType: string | null
+  commentEndDate: string | null
+  commentCount: number
 }
 
 export interface Theme {
@@ -22,10 +31,26 @@ export interface Theme {
   touch_count: number
 }
 
+// Quote and citation checks from the `verify` command; null when the summary hasn't been verified
+export interface SummaryVerification {
+  checkedAt: string
+  quotes: Array<{
+    index: number  // position in sections.keyQuotations
+    status: 'verified' | 'approximate' | 'not_found' | 'misattributed' | 'no_source'
+    foundIn: string | null  // comment a misattributed quote was found in
+  }>
+  citations: {
+    supported: number
+    unsupported: string[]  // cited comments with no extract for the theme
+    unknown: string[]  // cited IDs that aren't comments on the docket
+  }
+}
+
 export interface ThemeSummary {
   themeDescription: string
   commentCount: number
   wordCount: number
+  verification?: SummaryVerification | null
   sections: {
     executiveSummary?: string
     consensusPoints?: Array<{
@@ -129,6 +154,7 @@ export interface Comment {
   }>
   hasAttachments: boolean
   documentId?: string
+  targetDocumentId?: string | null
   wordCount?: number
   clusterSize?: number
   isClusterRepresentative?: boolean
@@ -136,6 +162,130 @@ export interface Comment {
   isAlignedSummary?: boolean
 }
 
+// Form-letter clusters written by build-website (cluster-report.json)
+export interface ClusterSummary {
+  id: number
+  size: number
+  representative: string
+  members: string[]
+  metadata: {
+    submitterType: string | null
+    organization: string | null
+    snippetPreview: string | null
+    templatePreview?: string | null
+  }
+}
+
+export interface ClusterReport {
+  summary: {
+    totalClusters: number
+    totalCommentsClustered: number
+    singletons: number
+    largestClusterSize: number
+    distribution: Array<{ cluster_size: number; count: number }>
+  }
+  clusters: ClusterSummary[]
+}
+
+// Texts of one cluster (clusters/<id>.json), loaded when the cluster is opened
+export interface ClusterTexts {
+  id: number
+  representative: string
+  template: string
+  members: Array<{
+    id: string
+    text: string
+  }>
+}
+
+// The proposed rule's section tree written by build-website (rule.json) after `load-rule`
+export interface RuleSection {
+  id: string  // as cited: "III.B", "Part 170", "170.315(b)(11)"
+  parentId: string | null
+  kind: 'preamble' | 'part' | 'section' | 'paragraph'
+  heading: string | null
+  position: number
+  commentIds: string[]
+  themes: Record<string, string[]>  // theme code -> comments whose extract for that theme cites the section
+}
+
+export interface Rule {
+  title: string | null
+  source: string
+  format: 'html' | 'xml' | 'pdf' | 'text'
+  loadedAt: string
+  sections: RuleSection[]
+}
+
+// Text of one section (rule-sections/<position>.json), loaded when the section is opened
+export interface RuleSectionText {
+  id: string
+  text: string
+}
+
+// RFI questions written by build-website (questions.json) after `questions load`; answers and
+// summaries have the theme extract and theme summary shapes, keyed by question code
+export interface AgencyQuestion {
+  code: string  // the agency's numbering: "3", "3a", "B.2"
+  question: string
+  position: number
+  sectionId: string | null
+  commentIds: string[]  // comments that answer the question
+}
+
+export interface Questions {
+  questions: AgencyQuestion[]
+  answers: Record<string, Record<string, ThemeExtract>>
+  summaries: Record<string, ThemeSummary>
+}
+
+// Cross-docket comparison written by the `compare` command
+export interface ComparisonDocket {
+  id: string
+  docketId: string
+  title: string
+  agency: string
+  commentEndDate: string | null
+  commentCount: number
+  themeCount: number
+}
+
+export interface ComparisonOrganization {
+  key: string
+  name: string
+  dockets: Record<string, {
+    names: string[]
+    submitterType: string | null
+    commentIds: string[]
+    themeCodes: string[]
+    positions: Array<{
+      commentId: string
+      postedDate: string | null
+      text: string
+    }>
+  }>
+}
+
+export interface ThemeAlignment {
+  id: string
+  label: string
+  method: 'llm' | 'lexical'
+  themes: Array<{
+    docket: string
+    code: string
+    description: string
+    commentCount: number
+  }>
+}
+
+export interface Comparison {
+  generatedAt: string
+  themeMatch: 'llm' | 'lexical'
+  dockets: ComparisonDocket[]
+  organizations: ComparisonOrganization[]
+  themeAlignments: ThemeAlignment[]
+}
+
 export interface ThemeExtract {
   positions?: string[]
   concerns?: string[]
@@ -165,6 +315,7 @@ export interface Filters {
   themes: string[]
   entities: string[]
   submitterTypes: string[]
+  targetDocuments: string[]
   searchQuery: string
 }
 
@@ -112,4 +112,14 @@ export function parseThemeDescription(description: string): { label: string; det
     label: description,
     detailedDescription: ''
   }
-} 
\ No newline at end of file
+} 
+// Rule section ids as staff cite them: "§ 170.315(b)(11)", "Part 170", "Preamble III.B"
+export function formatRuleSectionId(section: { id: string; kind: string }): string {
+  if (section.kind === 'section' || section.kind === 'paragraph') return `§ ${section.id}`
+  if (section.kind === 'preamble') return `Preamble ${section.id}`
+  return section.id
+}
+
+export function getRuleSectionPath(sectionId: string): string {
+  return `/rule/${encodeURIComponent(sectionId)}`
+}
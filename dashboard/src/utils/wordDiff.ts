@@ -0,0 +1,90 @@
+// Word-level diff between a form letter's representative text and one member's text
+
+export interface DiffSegment {
+  type: 'same' | 'added' | 'removed'
+  text: string
+}
+
+// Beyond this many LCS cells the differing middle is shown as one replacement
+const MAX_CELLS = 4000000
+
+// Words keep their trailing whitespace so segments can be rendered as-is
+function tokenize(text: string): string[] {
+  return text.match(/\S+\s*/g) || []
+}
+
+// Case and punctuation changes don't count as additions
+function wordKey(token: string): string {
+  return token.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '')
+}
+
+function pushSegment(segments: DiffSegment[], type: DiffSegment['type'], text: string) {
+  const last = segments[segments.length - 1]
+  if (last && last.type === type) last.text += text
+  else segments.push({ type, text })
+}
+
+export function diffWords(base: string, text: string): DiffSegment[] {
+  const a = tokenize(base)
+  const b = tokenize(text)
+  const aKeys = a.map(wordKey)
+  const bKeys = b.map(wordKey)
+
+  // Form letters usually share a long opening and closing; only diff what's between
+  let start = 0
+  while (start < a.length && start < b.length && aKeys[start] === bKeys[start]) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && aKeys[endA - 1] === bKeys[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const segments: DiffSegment[] = []
+  pushSegment(segments, 'same', b.slice(0, start).join(''))
+
+  const n = endA - start
+  const m = endB - start
+  if (n * m > MAX_CELLS) {
+    pushSegment(segments, 'removed', a.slice(start, endA).join(''))
+    pushSegment(segments, 'added', b.slice(start, endB).join(''))
+  } else {
+    // lengths[i * (m + 1) + j] = LCS of a[start + i..] and b[start + j..]
+    const lengths = new Uint32Array((n + 1) * (m + 1))
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * (m + 1) + j] = aKeys[start + i] === bKeys[start + j]
+          ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1])
+      }
+    }
+
+    let i = 0
+    let j = 0
+    while (i < n && j < m) {
+      if (aKeys[start + i] === bKeys[start + j]) {
+        pushSegment(segments, 'same', b[start + j])
+        i++
+        j++
+      } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+        pushSegment(segments, 'removed', a[start + i])
+        i++
+      } else {
+        pushSegment(segments, 'added', b[start + j])
+        j++
+      }
+    }
+    if (i < n) pushSegment(segments, 'removed', a.slice(start + i, endA).join(''))
+    if (j < m) pushSegment(segments, 'added', b.slice(start + j, endB).join(''))
+  }
+
+  pushSegment(segments, 'same', b.slice(endB).join(''))
+  return segments.filter(s => s.text.length > 0)
+}
+
+// Number of words a member added to the template
+export function countAddedWords(segments: DiffSegment[]): number {
+  return segments
+    .filter(s => s.type === 'added')
+    .reduce((sum, s) => sum + tokenize(s.text).length, 0)
+}
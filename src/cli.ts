@@ -13,13 +13,30 @@ import { buildWebsiteCommand } from "./website-build-script";
 import { pipelineCommand } from "./commands/pipeline";
 import { generateLandingPageCommand } from "./commands/generate-landing-page";
 import { cacheCommand } from "./commands/cache";
+import { costCommand } from "./commands/cost";
 import { vacuumDbCommand } from "./commands/vacuum-db";
 import { buildSkillCommand } from "./commands/build-skill";
+import { compareCommand } from "./commands/compare";
+import { embedCommand } from "./commands/embed";
+import { similarCommand } from "./commands/similar";
+import { detectCampaignsCommand } from "./commands/detect-campaigns";
+import { statusCommand } from "./commands/status";
+import { taxonomyCommand } from "./commands/taxonomy";
+import { loadRuleCommand, linkRuleCommand } from "./commands/load-rule";
+import { extractCitationsCommand } from "./commands/extract-citations";
+import { questionsCommand } from "./commands/questions";
+import { draftResponsesCommand } from "./commands/draft-responses";
+import { verifyCommand } from "./commands/verify";
+import { BudgetExceededError } from "./lib/budget";
+import { CancelledError, installInterruptHandler } from "./lib/cancellation";
+import { commandDepth, endCommands, PROGRESS_MODES, startCommand, type ProgressMode } from "./lib/progress";
+import { installProgressDisplay } from "./lib/progress-display";
 
 const program = new Command()
   .name("regulations-comment-analysis")
   .description("Analysis pipeline for public comments from regulations.gov")
-  .version("3.0.0");
+  .version("3.0.0")
+  .option("--progress <mode>", `Progress display: ${PROGRESS_MODES.join(", ")} (tui: live dashboard, json: one event per line on stdout)`, "log");
 
 // Register all commands
 program.addCommand(loadCommentsCommand);
@@ -35,11 +52,57 @@ program.addCommand(buildWebsiteCommand);
 program.addCommand(pipelineCommand);
 program.addCommand(generateLandingPageCommand);
 program.addCommand(cacheCommand);
+program.addCommand(costCommand);
 program.addCommand(vacuumDbCommand);
 program.addCommand(buildSkillCommand);
+program.addCommand(compareCommand);
+program.addCommand(embedCommand);
+program.addCommand(similarCommand);
+program.addCommand(detectCampaignsCommand);
+program.addCommand(statusCommand);
+program.addCommand(taxonomyCommand);
+program.addCommand(loadRuleCommand);
+program.addCommand(linkRuleCommand);
+program.addCommand(extractCitationsCommand);
+program.addCommand(questionsCommand);
+program.addCommand(draftResponsesCommand);
+program.addCommand(verifyCommand);
+
+// Ctrl-C cancels model calls in flight; finished work and checkpoints are kept for the next run
+installInterruptHandler();
+
+// Every command, including the ones the pipeline runs in-process, reports its start and end
+program.hook("preAction", (_, actionCommand) => {
+  if (commandDepth() === 0) {
+    const mode = program.opts().progress as ProgressMode;
+    if (!PROGRESS_MODES.includes(mode)) {
+      console.error(`❌ Unknown --progress mode "${mode}" (use ${PROGRESS_MODES.join(", ")})`);
+      process.exit(1);
+    }
+    installProgressDisplay(mode, actionCommand.name());
+  }
+  startCommand(actionCommand.name(), actionCommand.args);
+});
+program.hook("postAction", () => {
+  endCommands("completed", undefined, commandDepth() - 1);
+});
 
 // Parse and execute
-program.parse();
+try {
+  await program.parseAsync();
+} catch (error) {
+  const stopped = error instanceof BudgetExceededError || error instanceof CancelledError;
+  endCommands(stopped ? "stopped" : "failed", error);
+  if (error instanceof BudgetExceededError) {
+    console.error(`\n🛑 ${error.message}`);
+    process.exit(1);
+  }
+  if (error instanceof CancelledError) {
+    console.error("🛑 Stopped. Completed work is saved; run the command again to resume.");
+    process.exit(130);
+  }
+  throw error;
+}
 
 // Show help if no command provided
 if (!process.argv.slice(2).length) {
@@ -1,91 +1,312 @@
-import { Command } from "commander";
+import { Command, Option } from "commander";
 import { openDb, withTransaction } from "../lib/database";
 import type { Database } from "bun:sqlite";
 import { initDebug } from "../lib/debug";
 import { loadComments, enrichComment } from "../lib/comment-processing";
+import { getTaskModel } from "../lib/batch-config";
+import { getEmbeddingProvider } from "../lib/embedding-providers";
+import { embedMissing, loadEmbeddings, cosineSimilarity, normalizeVector } from "../lib/embeddings";
+import { extractAddedPassages, countWords } from "../lib/text-diff";
 import type { EnrichedComment } from "../types";
 
 export const clusterCommentsFastCommand = new Command("cluster-comments-fast")
-  .description("Fast clustering using bag-of-words/ngrams approach")
+  .description("Fast clustering using bag-of-words/ngrams or embedding similarity")
   .argument("<document-id>", "Document ID (e.g., CMS-2025-0050-0031)")
-  .option("--similarity-threshold <n>", "Similarity threshold (default: 0.8)", parseFloat)
+  .addOption(new Option("--method <method>", "Clustering method").choices(["ngram", "semantic"]).default("ngram"))
+  .option("--similarity-threshold <n>", "Similarity threshold (default: 0.8 ngram Jaccard, 0.9 semantic cosine)", parseFloat)
   .option("--min-cluster-size <n>", "Minimum cluster size (default: 4)", parseInt)
   .option("--force", "Recalculate clusters even if they exist")
   .option("-d, --debug", "Enable debug output")
   .option("--ngram-size <n>", "Word n-gram size (default: 3)", parseInt)
   .option("--max-ngram <n>", "Maximum word n-gram size (default: 5)", parseInt)
   .option("--feature-type <type>", "Feature type: words|word-ngrams|both (default: word-ngrams)", "word-ngrams")
+  .option("--embedding-model <model>", "Embedding model for --method semantic (overrides batch-config)")
   .action(clusterCommentsFast);
 
+// Random-hyperplane LSH used to find candidate clusters for semantic clustering.
+// 12 tables of 10 bits find ~94% of pairs at cosine 0.9 while keeping buckets small.
+const LSH_TABLES = 12;
+const LSH_BITS = 10;
+
 async function clusterCommentsFast(documentId: string, options: any) {
   await initDebug(options.debug);
   
+  const method: "ngram" | "semantic" = options.method;
   const db = openDb(documentId);
-  const threshold = options.similarityThreshold || 0.8;
-  const minClusterSize = options.minClusterSize || 4;
-  const ngramSize = options.ngramSize || 3;
-  const maxNgram = options.maxNgram || 5;
-  const featureType = options.featureType || 'word-ngrams';
-  
-  console.log(`🔍 Fast clustering for document ${documentId}`);
-  console.log(`   Similarity threshold: ${threshold}`);
-  console.log(`   Min cluster size: ${minClusterSize}`);
-  console.log(`   Feature type: ${featureType}`);
-  console.log(`   Word n-gram size: ${ngramSize}-${maxNgram}`);
-  
-  // Check if clustering already exists
-  const existingStatus = db.prepare(
-    "SELECT * FROM clustering_status WHERE status = 'completed' ORDER BY created_at DESC LIMIT 1"
-  ).get();
-  
-  if (existingStatus && !options.force) {
-    console.log(`✅ Clustering already exists from ${existingStatus.created_at}`);
-    return;
+
+  try {
+    const threshold = options.similarityThreshold || (method === 'semantic' ? 0.9 : 0.8);
+    const minClusterSize = options.minClusterSize || 4;
+    const ngramSize = options.ngramSize || 3;
+    const maxNgram = options.maxNgram || 5;
+    const featureType = options.featureType || 'word-ngrams';
+    
+    console.log(`🔍 Fast clustering for document ${documentId}`);
+    console.log(`   Method: ${method}`);
+    console.log(`   Similarity threshold: ${threshold}`);
+    console.log(`   Min cluster size: ${minClusterSize}`);
+    if (method === 'ngram') {
+      console.log(`   Feature type: ${featureType}`);
+      console.log(`   Word n-gram size: ${ngramSize}-${maxNgram}`);
+    }
+    
+    // Check if clustering already exists
+    const existingStatus = db.prepare(
+      "SELECT * FROM clustering_status WHERE status = 'completed' ORDER BY created_at DESC LIMIT 1"
+    ).get();
+    
+    if (existingStatus && !options.force) {
+      console.log(`✅ Clustering already exists from ${existingStatus.created_at}`);
+      return;
+    }
+    
+    if (options.force && existingStatus) {
+      console.log(`🔄 Clearing existing clustering data...`);
+      withTransaction(db, () => {
+        db.prepare("DELETE FROM cluster_member_additions").run();
+        // Extracts of old additions; a member may now be a representative or have different additions
+        db.prepare("DELETE FROM comment_theme_extracts WHERE cluster_size = 0").run();
+        db.prepare("DELETE FROM comment_cluster_membership").run();
+        db.prepare("DELETE FROM comment_clusters").run();
+        db.prepare("DELETE FROM clustering_status").run();
+      });
+    }
+    
+    // Load and enrich comments
+    console.log(`📊 Loading and enriching comments...`);
+    const { comments: rawComments, attachments } = loadComments(db);
+    const enrichedComments: EnrichedComment[] = [];
+    
+    for (const rawComment of rawComments) {
+      const enriched = await enrichComment(rawComment, attachments, { includePdfs: true });
+      if (enriched) {
+        enrichedComments.push(enriched);
+      }
+    }
+    
+    console.log(`📊 Enriched ${enrichedComments.length} comments`);
+    
+    if (method === 'semantic') {
+      await clusterSemantically(db, enrichedComments, threshold, minClusterSize, options.embeddingModel);
+      return;
+    }
+    
+    // Create feature representations
+    console.log(`🔍 Creating feature representations...`);
+    const commentFeatures = enrichedComments.map(comment => ({
+      comment,
+      features: createFeatures(extractContentForClustering(comment), featureType, ngramSize, maxNgram)
+    }));
+    
+    // Linear clustering using inverted index
+    console.log(`🔗 Clustering using inverted index approach...`);
+    const clusters = performLinearClustering(commentFeatures, threshold);
+    
+    // Disaggregate small clusters
+    const finalClusters = disaggregateSmallClusters(clusters, minClusterSize);
+    
+    // Store results
+    console.log(`💾 Storing cluster data...`);
+    storeClustersInDatabase(db, finalClusters, threshold, minClusterSize, 'fast-ngram', enrichedComments.length, {
+      featureType,
+      ngramSize,
+      maxNgram,
+    });
+    storeMemberAdditions(db, enrichedComments);
+    
+    // Report statistics
+    reportStatistics(finalClusters, enrichedComments.length);
+  } finally {
+    db.close();
   }
+}
+
+// Group paraphrases that n-grams miss: embed each comment's raw content, then cluster by cosine similarity
+async function clusterSemantically(
+  db: Database,
+  enrichedComments: EnrichedComment[],
+  threshold: number,
+  minClusterSize: number,
+  embeddingModelOption?: string
+) {
+  const embeddingModel = getTaskModel('embed', embeddingModelOption);
+  console.log(`🧮 Embedding comment content with ${embeddingModel}...`);
   
-  if (options.force && existingStatus) {
-    console.log(`🔄 Clearing existing clustering data...`);
-    withTransaction(db, () => {
-      db.prepare("DELETE FROM comment_cluster_membership").run();
-      db.prepare("DELETE FROM comment_clusters").run();
-      db.prepare("DELETE FROM clustering_status").run();
-    });
+  const texts = enrichedComments
+    .map(comment => ({ commentId: comment.id, text: extractContentForClustering(comment) }))
+    .filter(t => t.text.length > 0);
+  await embedMissing(db, texts, 'content', embeddingModel, getEmbeddingProvider(embeddingModel, db));
+  
+  const vectors = new Map(loadEmbeddings(db, 'content', embeddingModel).map(e => [e.commentId, e.vector]));
+  const items = enrichedComments
+    .filter(comment => vectors.has(comment.id))
+    .map(comment => ({ comment, vector: vectors.get(comment.id)! }));
+  
+  console.log(`🔗 Clustering ${items.length} embedded comments...`);
+  const { clusters, similarities } = performSemanticClustering(items, threshold);
+  
+  // Comments with no text to embed can't match anything
+  let nextClusterId = clusters.size;
+  for (const comment of enrichedComments) {
+    if (!vectors.has(comment.id)) clusters.set(nextClusterId++, [comment]);
   }
   
-  // Load and enrich comments
-  console.log(`📊 Loading and enriching comments...`);
-  const { comments: rawComments, attachments } = loadComments(db);
-  const enrichedComments: EnrichedComment[] = [];
+  const finalClusters = disaggregateSmallClusters(clusters, minClusterSize);
+  
+  console.log(`💾 Storing cluster data...`);
+  storeClustersInDatabase(db, finalClusters, threshold, minClusterSize, 'semantic', enrichedComments.length, {
+    embeddingModel,
+    embeddingSource: 'content',
+    lshTables: LSH_TABLES,
+    lshBits: LSH_BITS,
+  }, similarities);
+  storeMemberAdditions(db, enrichedComments);
   
-  for (const rawComment of rawComments) {
-    const enriched = await enrichComment(rawComment, attachments, { includePdfs: true });
-    if (enriched) {
-      enrichedComments.push(enriched);
+  reportStatistics(finalClusters, enrichedComments.length);
+}
+
+// Deterministic PRNG so LSH hyperplanes (and therefore clusters) are reproducible
+function mulberry32(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function createHyperplanes(dimensions: number): Float32Array[] {
+  const random = mulberry32(dimensions);
+  return Array.from({ length: LSH_TABLES * LSH_BITS }, () =>
+    Float32Array.from({ length: dimensions }, () => random() * 2 - 1)
+  );
+}
+
+// One bucket key per LSH table
+function lshKeys(vector: Float32Array, hyperplanes: Float32Array[]): string[] {
+  const keys: string[] = [];
+  for (let table = 0; table < LSH_TABLES; table++) {
+    let key = 0;
+    for (let bit = 0; bit < LSH_BITS; bit++) {
+      if (cosineSimilarity(vector, hyperplanes[table * LSH_BITS + bit]) >= 0) key |= 1 << bit;
     }
+    keys.push(`${table}:${key}`);
   }
+  return keys;
+}
+
+// Leader clustering on embeddings, then one agglomerative pass over cluster centroids.
+// Like the n-gram clusterer, each comment is compared with the vector that founded a
+// cluster (not a drifting mean), looking only at clusters that share an LSH bucket.
+function performSemanticClustering(
+  items: Array<{ comment: EnrichedComment; vector: Float32Array }>,
+  threshold: number
+): { clusters: Map<number, EnrichedComment[]>; similarities: Map<string, number> } {
+  const clusters = new Map<number, EnrichedComment[]>();
+  const similarities = new Map<string, number>();
+  if (items.length === 0) return { clusters, similarities };
+  
+  const hyperplanes = createHyperplanes(items[0].vector.length);
+  const seeds: Float32Array[] = [];
+  const members: number[][] = [];
+  const buckets = new Map<string, number[]>();
+  
+  items.forEach(({ vector }, index) => {
+    if ((index + 1) % 500 === 0) {
+      console.log(`   Processing: ${index + 1}/${items.length}`);
+    }
+    
+    const keys = lshKeys(vector, hyperplanes);
+    const candidates = new Set<number>();
+    for (const key of keys) {
+      for (const clusterId of buckets.get(key) || []) candidates.add(clusterId);
+    }
+    
+    let bestCluster = -1;
+    let bestSimilarity = threshold;
+    for (const clusterId of candidates) {
+      const similarity = cosineSimilarity(vector, seeds[clusterId]);
+      if (similarity >= bestSimilarity) {
+        bestSimilarity = similarity;
+        bestCluster = clusterId;
+      }
+    }
+    
+    if (bestCluster >= 0) {
+      members[bestCluster].push(index);
+    } else {
+      const clusterId = seeds.length;
+      seeds.push(vector);
+      members.push([index]);
+      for (const key of keys) {
+        if (!buckets.has(key)) buckets.set(key, []);
+        buckets.get(key)!.push(clusterId);
+      }
+    }
+  });
   
-  console.log(`📊 Enriched ${enrichedComments.length} comments`);
+  console.log(`   Created ${seeds.length} clusters`);
   
-  // Create feature representations
-  console.log(`🔍 Creating feature representations...`);
-  const commentFeatures = enrichedComments.map(comment => ({
-    comment,
-    features: createFeatures(extractContentForClustering(comment), featureType, ngramSize, maxNgram)
-  }));
+  // Merge clusters whose centroids are within the threshold of each other
+  const centroid = (indexes: number[]) => {
+    const sum = new Float32Array(items[0].vector.length);
+    for (const i of indexes) {
+      const v = items[i].vector;
+      for (let d = 0; d < sum.length; d++) sum[d] += v[d];
+    }
+    return normalizeVector(sum);
+  };
+  const centroids = members.map(centroid);
+  const parent = centroids.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
   
-  // Linear clustering using inverted index
-  console.log(`🔗 Clustering using inverted index approach...`);
-  const clusters = performLinearClustering(commentFeatures, threshold);
+  const centroidBuckets = new Map<string, number[]>();
+  centroids.forEach((c, clusterId) => {
+    for (const key of lshKeys(c, hyperplanes)) {
+      if (!centroidBuckets.has(key)) centroidBuckets.set(key, []);
+      centroidBuckets.get(key)!.push(clusterId);
+    }
+  });
   
-  // Disaggregate small clusters
-  const finalClusters = disaggregateSmallClusters(clusters, minClusterSize);
+  const compared = new Set<string>();
+  let merges = 0;
+  for (const bucket of centroidBuckets.values()) {
+    for (let a = 0; a < bucket.length; a++) {
+      for (let b = a + 1; b < bucket.length; b++) {
+        const pair = `${bucket[a]}|${bucket[b]}`;
+        if (compared.has(pair)) continue;
+        compared.add(pair);
+        if (cosineSimilarity(centroids[bucket[a]], centroids[bucket[b]]) < threshold) continue;
+        const rootA = find(bucket[a]);
+        const rootB = find(bucket[b]);
+        if (rootA !== rootB) {
+          parent[rootB] = rootA;
+          merges++;
+        }
+      }
+    }
+  }
+  if (merges > 0) {
+    console.log(`   Merged ${merges} clusters with near-identical centroids`);
+  }
   
-  // Store results
-  console.log(`💾 Storing cluster data...`);
-  storeClustersInDatabase(db, finalClusters, threshold, minClusterSize, 'fast-ngram', enrichedComments.length);
+  const merged = new Map<number, number[]>();
+  members.forEach((indexes, clusterId) => {
+    const root = find(clusterId);
+    if (!merged.has(root)) merged.set(root, []);
+    merged.get(root)!.push(...indexes);
+  });
   
-  // Report statistics
-  reportStatistics(finalClusters, enrichedComments.length);
+  let nextClusterId = 0;
+  for (const indexes of merged.values()) {
+    const mergedCentroid = centroid(indexes);
+    for (const i of indexes) {
+      similarities.set(items[i].comment.id, cosineSimilarity(items[i].vector, mergedCentroid));
+    }
+    clusters.set(nextClusterId++, indexes.map(i => items[i].comment));
+  }
+  
+  return { clusters, similarities };
 }
 
 // Extract just the content part (comment text + attachments) for clustering
@@ -258,17 +479,16 @@ function storeClustersInDatabase(
   threshold: number,
   minClusterSize: number,
   method: string,
-  totalComments: number
+  totalComments: number,
+  parameters: Record<string, unknown>,
+  similarities?: Map<string, number>
 ) {
   withTransaction(db, () => {
     let representativeCount = 0;
     let duplicatesFiltered = 0;
     
     for (const [_, clusterComments] of clusters.entries()) {
-      // Select longest comment as representative
-      const representative = clusterComments.reduce((longest, current) => 
-        current.content.length > longest.content.length ? current : longest
-      );
+      const representative = selectRepresentative(clusterComments);
       
       // Insert cluster record
       const result = db.prepare(`
@@ -307,7 +527,8 @@ function storeClustersInDatabase(
           comment.id,
           clusterId,
           comment.id === representative.id ? 1 : 0,
-          1.0 // We don't track individual similarities in fast clustering
+          // n-gram clustering doesn't track individual similarities; semantic records cosine to the centroid
+          similarities?.get(comment.id) ?? 1.0
         );
       }
     }
@@ -322,10 +543,11 @@ function storeClustersInDatabase(
         similarity_threshold,
         min_cluster_size,
         cluster_method,
+        parameters_json,
         status,
         created_at,
         completed_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, 'completed', datetime('now'), datetime('now'))
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'completed', datetime('now'), datetime('now'))
     `).run(
       totalComments,
       clusters.size,
@@ -333,11 +555,65 @@ function storeClustersInDatabase(
       duplicatesFiltered,
       threshold,
       minClusterSize,
-      method
+      method,
+      JSON.stringify(parameters)
     );
   });
 }
 
+// Select longest comment as representative
+function selectRepresentative(clusterComments: EnrichedComment[]): EnrichedComment {
+  return clusterComments.reduce((longest, current) => 
+    current.content.length > longest.content.length ? current : longest
+  );
+}
+
+// Diff every member of a multi-comment cluster against its representative and keep the
+// passages the member added, so personal stories in form letters can be extracted
+function storeMemberAdditions(db: Database, enrichedComments: EnrichedComment[]) {
+  const byId = new Map(enrichedComments.map(c => [c.id, c]));
+  const memberships = db.prepare(`
+    SELECT ccm.comment_id, ccm.cluster_id, cc.representative_comment_id
+    FROM comment_cluster_membership ccm
+    JOIN comment_clusters cc ON cc.cluster_id = ccm.cluster_id
+    WHERE cc.cluster_size > 1 AND ccm.is_representative = 0
+  `).all() as { comment_id: string; cluster_id: number; representative_comment_id: string }[];
+  
+  let membersWithAdditions = 0;
+  withTransaction(db, () => {
+    db.prepare("DELETE FROM cluster_member_additions").run();
+    const insert = db.prepare(`
+      INSERT INTO cluster_member_additions (comment_id, cluster_id, representative_comment_id, additions_json, added_word_count)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    
+    for (const membership of memberships) {
+      const member = byId.get(membership.comment_id);
+      const representative = byId.get(membership.representative_comment_id);
+      if (!member || !representative) continue;
+      
+      const passages = extractAddedPassages(
+        extractContentForClustering(representative),
+        extractContentForClustering(member)
+      );
+      if (passages.length === 0) continue;
+      
+      insert.run(
+        member.id,
+        membership.cluster_id,
+        representative.id,
+        JSON.stringify(passages),
+        passages.reduce((sum, p) => sum + countWords(p), 0)
+      );
+      membersWithAdditions++;
+    }
+  });
+  
+  if (memberships.length > 0) {
+    console.log(`✍️  ${membersWithAdditions} of ${memberships.length} form-letter members added text of their own`);
+  }
+}
+
 // Report statistics
 function reportStatistics(clusters: Map<number, EnrichedComment[]>, totalComments: number) {
   let largestClusterSize = 0;
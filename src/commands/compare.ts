@@ -0,0 +1,420 @@
+import { Command } from "commander";
+import { Database } from "bun:sqlite";
+import { mkdir, writeFile, readdir } from "fs/promises";
+import { existsSync } from "fs";
+import { join } from "path";
+import { DB_DIR, getDbPath, openDb } from "../lib/database";
+import { AIClient } from "../lib/ai-client";
+import { getTaskModel } from "../lib/batch-config";
+import { initDebug } from "../lib/debug";
+import { BudgetExceededError, CostEstimator, setSpendLimit } from "../lib/budget";
+import { CancelledError } from "../lib/cancellation";
+import { THEME_ALIGNMENT_PROMPT } from "../prompts/theme-alignment";
+import { THEME_ALIGNMENT_SCHEMA } from "../prompts/schemas";
+
+export const compareCommand = new Command("compare")
+  .description("Compare stakeholders and themes across several docket databases")
+  .argument("[document-ids...]", "Databases in dbs/ to compare (default: all of them)")
+  .option("-o, --output <dir>", "Output directory for comparison.json", "dist/data")
+  .option("--theme-match <method>", "How to align themes across dockets: llm or lexical", "llm")
+  .option("--min-dockets <n>", "Only include organizations that commented on at least N dockets", parseInt)
+  .option("-m, --model <model>", "AI model to use for theme alignment (overrides batch-config)")
+  .option("-d, --debug", "Enable debug output")
+  .option("--dry-run", "Estimate the theme alignment prompt, tokens and cost without calling the model")
+  .option("--max-cost <usd>", "Abort once estimated spend exceeds this many USD", parseFloat)
+  .action(compareDockets);
+
+// Deeper levels make the alignment prompt large without adding much signal
+const ALIGN_MAX_LEVEL = 2;
+const MAX_POSITIONS_PER_DOCKET = 3;
+
+interface DocketTheme {
+  code: string;
+  description: string;
+  level: number;
+  commentCount: number;
+}
+
+interface DocketData {
+  id: string;
+  docketId: string;
+  title: string;
+  agency: string;
+  commentEndDate: string | null;
+  commentCount: number;
+  themes: DocketTheme[];
+  orgComments: Array<{
+    commentId: string;
+    organization: string;
+    submitterType: string | null;
+    postedDate: string | null;
+    position: string | null;
+    themeCodes: string[];
+  }>;
+}
+
+interface ThemeRef {
+  docket: string;
+  code: string;
+}
+
+interface ThemeAlignment {
+  id: string;
+  label: string;
+  method: "llm" | "lexical";
+  themes: Array<ThemeRef & { description: string; commentCount: number }>;
+}
+
+interface OrganizationDocketEntry {
+  names: string[];
+  submitterType: string | null;
+  commentIds: string[];
+  themeCodes: string[];
+  positions: Array<{ commentId: string; postedDate: string | null; text: string }>;
+}
+
+async function compareDockets(documentIds: string[], options: any) {
+  await initDebug(options.debug);
+
+  const method = options.themeMatch;
+  if (method !== "llm" && method !== "lexical") {
+    console.log(`❌ Unknown --theme-match method "${method}" (expected llm or lexical)`);
+    return;
+  }
+
+  const ids = documentIds.length > 0 ? documentIds : await listDatabases(DB_DIR);
+  if (ids.length < 2) {
+    console.log(`❌ Need at least two databases to compare (found ${ids.length})`);
+    return;
+  }
+
+  const missing = ids.filter(id => !existsSync(getDbPath(id)));
+  if (missing.length > 0) {
+    console.log(`❌ No database found for: ${missing.join(", ")}`);
+    return;
+  }
+
+  console.log(`🔀 Comparing ${ids.length} dockets: ${ids.join(", ")}`);
+
+  const dockets: DocketData[] = [];
+  for (const id of ids) {
+    const db = openDb(id);
+    try {
+      const docket = loadDocket(db, id);
+      console.log(`   📄 ${id}: ${docket.commentCount} comments, ${docket.themes.length} themes, ${new Set(docket.orgComments.map(c => c.organization)).size} organizations`);
+      dockets.push(docket);
+    } finally {
+      db.close();
+    }
+  }
+
+  // 1. Organizations that commented on several dockets
+  const minDockets = options.minDockets || 2;
+  const organizations = matchOrganizations(dockets, minDockets);
+  console.log(`🏢 ${organizations.length} organizations commented on ${minDockets}+ dockets`);
+
+  // 2. Themes that cover the same issue in different taxonomies. The alignment call is cached
+  // and recorded in the usage ledger of the first docket's database.
+  let alignments: ThemeAlignment[];
+  if (method === "llm") {
+    const model = getTaskModel("compareDockets", options.model);
+    const db = openDb(ids[0]);
+    try {
+      if (options.dryRun) {
+        const estimator = new CostEstimator(db);
+        estimator.addPrompt(model, "theme_alignment", buildAlignmentPrompt(dockets));
+        estimator.print();
+        return;
+      }
+
+      setSpendLimit(options.maxCost);
+      try {
+        alignments = await alignThemesWithLlm(dockets, new AIClient(model, db));
+      } catch (error) {
+        if (error instanceof BudgetExceededError || error instanceof CancelledError) throw error;
+        console.warn(`⚠️  LLM theme alignment failed, falling back to lexical matching:`, error);
+        alignments = alignThemesLexically(dockets);
+      }
+    } finally {
+      db.close();
+    }
+  } else {
+    if (options.dryRun) {
+      console.log("✅ Lexical theme matching makes no model calls");
+      return;
+    }
+    alignments = alignThemesLexically(dockets);
+  }
+  console.log(`🧩 ${alignments.length} theme groups aligned across dockets`);
+
+  const comparison = {
+    generatedAt: new Date().toISOString(),
+    themeMatch: method,
+    dockets: dockets.map(d => ({
+      id: d.id,
+      docketId: d.docketId,
+      title: d.title,
+      agency: d.agency,
+      commentEndDate: d.commentEndDate,
+      commentCount: d.commentCount,
+      themeCount: d.themes.length,
+    })),
+    organizations,
+    themeAlignments: alignments,
+  };
+
+  await mkdir(options.output, { recursive: true });
+  const outputPath = join(options.output, "comparison.json");
+  await writeFile(outputPath, JSON.stringify(comparison, null, 2));
+  console.log(`✅ Comparison written to ${outputPath}`);
+}
+
+async function listDatabases(dbDir: string): Promise<string[]> {
+  const files = await readdir(dbDir);
+  return files
+    .filter(f => {
+      if (!f.endsWith('.sqlite')) return false;
+      if (f.includes('.sqlite-')) return false;
+      if (f.endsWith('.sqlite.sqlite')) return false;
+      if (f.includes('.sqlite.')) return false;
+      return true;
+    })
+    .map(f => f.replace('.sqlite', ''))
+    .sort();
+}
+
+function loadDocket(db: Database, id: string): DocketData {
+  const metadata = db.prepare(`
+    SELECT title, docket_id, agency_name, agency_id, comment_end_date
+    FROM document_metadata
+    ORDER BY CASE WHEN document_id = ? THEN 0 ELSE 1 END
+    LIMIT 1
+  `).get(id) as any;
+
+  const commentCount = (db.prepare("SELECT COUNT(*) as count FROM comments WHERE withdrawn = 0").get() as { count: number }).count;
+
+  const themes = db.prepare(`
+    SELECT th.code, th.description, th.level, COUNT(DISTINCT cte.comment_id) as commentCount
+    FROM theme_hierarchy th
+    LEFT JOIN comment_theme_extracts cte ON cte.theme_code = th.code
+    GROUP BY th.code
+    ORDER BY th.code
+  `).all() as DocketTheme[];
+
+  const themeCodesByComment = new Map<string, string[]>();
+  for (const row of db.prepare("SELECT comment_id, theme_code FROM comment_theme_extracts").all() as any[]) {
+    const codes = themeCodesByComment.get(row.comment_id) || [];
+    codes.push(row.theme_code);
+    themeCodesByComment.set(row.comment_id, codes);
+  }
+
+  const rows = db.prepare(`
+    SELECT
+      c.id,
+      json_extract(c.attributes_json, '$.organization') as organization,
+      json_extract(c.attributes_json, '$.category') as category,
+      json_extract(c.attributes_json, '$.postedDate') as posted_date,
+      cc.structured_sections
+    FROM comments c
+    LEFT JOIN condensed_comments cc ON cc.comment_id = c.id AND cc.status = 'completed'
+    WHERE c.withdrawn = 0
+      AND TRIM(COALESCE(json_extract(c.attributes_json, '$.organization'), '')) != ''
+    ORDER BY c.id
+  `).all() as any[];
+
+  const orgComments = rows.map(row => {
+    let position: string | null = null;
+    if (row.structured_sections) {
+      try {
+        const sections = JSON.parse(row.structured_sections);
+        position = sections.corePosition || sections.oneLineSummary || null;
+      } catch (e) {
+        // Leave the position out rather than failing the whole comparison
+      }
+    }
+    return {
+      commentId: row.id,
+      organization: String(row.organization).trim(),
+      submitterType: row.category || null,
+      postedDate: row.posted_date || null,
+      position,
+      themeCodes: themeCodesByComment.get(row.id) || [],
+    };
+  });
+
+  return {
+    id,
+    docketId: metadata?.docket_id || id,
+    title: metadata?.title || id,
+    agency: metadata?.agency_name || metadata?.agency_id || id.split('-')[0],
+    commentEndDate: metadata?.comment_end_date || null,
+    commentCount,
+    themes,
+    orgComments,
+  };
+}
+
+const ORG_SUFFIXES = /\b(inc|incorporated|llc|llp|lp|ltd|corp|corporation|co|company|pc|pllc)\b\.?/g;
+const NON_ORGANIZATIONS = new Set(["", "na", "n a", "none", "self", "individual", "retired", "private citizen", "citizen", "unknown"]);
+
+// Key used to match the same organization across dockets despite punctuation and suffix differences
+function normalizeOrganization(name: string): string {
+  const key = name
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(ORG_SUFFIXES, " ")
+    .replace(/^\s*the\s+/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  return NON_ORGANIZATIONS.has(key) ? "" : key;
+}
+
+function matchOrganizations(dockets: DocketData[], minDockets: number) {
+  const byKey = new Map<string, Map<string, OrganizationDocketEntry>>();
+  const nameCounts = new Map<string, Map<string, number>>();
+
+  for (const docket of dockets) {
+    for (const comment of docket.orgComments) {
+      const key = normalizeOrganization(comment.organization);
+      if (!key) continue;
+
+      if (!byKey.has(key)) {
+        byKey.set(key, new Map());
+        nameCounts.set(key, new Map());
+      }
+      const names = nameCounts.get(key)!;
+      names.set(comment.organization, (names.get(comment.organization) || 0) + 1);
+
+      const perDocket = byKey.get(key)!;
+      if (!perDocket.has(docket.id)) {
+        perDocket.set(docket.id, { names: [], submitterType: comment.submitterType, commentIds: [], themeCodes: [], positions: [] });
+      }
+      const entry = perDocket.get(docket.id)!;
+      if (!entry.names.includes(comment.organization)) entry.names.push(comment.organization);
+      entry.commentIds.push(comment.commentId);
+      for (const code of comment.themeCodes) {
+        if (!entry.themeCodes.includes(code)) entry.themeCodes.push(code);
+      }
+      if (comment.position && entry.positions.length < MAX_POSITIONS_PER_DOCKET) {
+        entry.positions.push({ commentId: comment.commentId, postedDate: comment.postedDate, text: comment.position });
+      }
+    }
+  }
+
+  return Array.from(byKey.entries())
+    .filter(([, perDocket]) => perDocket.size >= minDockets)
+    .map(([key, perDocket]) => {
+      // Display the spelling used most often
+      const name = Array.from(nameCounts.get(key)!.entries())
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0][0];
+      for (const entry of perDocket.values()) entry.themeCodes.sort();
+      return { key, name, dockets: Object.fromEntries(perDocket) };
+    })
+    .sort((a, b) => Object.keys(b.dockets).length - Object.keys(a.dockets).length || a.name.localeCompare(b.name));
+}
+
+function alignableThemes(docket: Pick<DocketData, "themes">): DocketTheme[] {
+  return docket.themes.filter(t => t.level <= ALIGN_MAX_LEVEL);
+}
+
+export function buildAlignmentPrompt(dockets: Pick<DocketData, "id" | "title" | "themes">[]): string {
+  const taxonomies = dockets.map(d => {
+    const lines = alignableThemes(d).map(t => `- ${t.code}: ${t.description.replace(/\s+/g, " ")}`);
+    return `### ${d.id}\n${d.title}\n\n${lines.join("\n")}`;
+  }).join("\n\n");
+  return THEME_ALIGNMENT_PROMPT.replace("{TAXONOMIES}", taxonomies);
+}
+
+async function alignThemesWithLlm(dockets: DocketData[], ai: AIClient): Promise<ThemeAlignment[]> {
+  console.log(`🤖 Aligning themes with ${ai.modelName}...`);
+
+  const groups = await ai.generateContent(
+    buildAlignmentPrompt(dockets),
+    "compare_theme_alignment",
+    undefined,
+    {
+      taskType: "theme_alignment",
+      taskLevel: 0,
+      params: { dockets: dockets.map(d => d.id) }
+    },
+    THEME_ALIGNMENT_SCHEMA
+  );
+
+  return buildAlignments(
+    dockets,
+    groups.map((g: any) => ({ label: String(g.label || ""), themes: Array.isArray(g.themes) ? g.themes : [] })),
+    "llm"
+  );
+}
+
+function tokenSet(text: string): Set<string> {
+  return new Set((text.toLowerCase().match(/[a-z][a-z-]{3,}/g) || []).filter(w => !["with", "from", "that", "this", "their", "into"].includes(w)));
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const word of a) if (b.has(word)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+// Offline alternative to the LLM: greedily group themes whose descriptions share most of their words
+function alignThemesLexically(dockets: DocketData[], threshold = 0.5): ThemeAlignment[] {
+  const groups: Array<{ label: string; tokens: Set<string>; themes: ThemeRef[] }> = [];
+
+  for (const docket of dockets) {
+    for (const theme of alignableThemes(docket)) {
+      const tokens = tokenSet(theme.description);
+      let best: (typeof groups)[number] | null = null;
+      let bestScore = threshold;
+      for (const group of groups) {
+        if (group.themes.some(t => t.docket === docket.id)) continue;
+        const score = jaccard(tokens, group.tokens);
+        if (score >= bestScore) {
+          best = group;
+          bestScore = score;
+        }
+      }
+      if (best) {
+        best.themes.push({ docket: docket.id, code: theme.code });
+      } else {
+        groups.push({ label: theme.description.split(/[.:]/)[0].trim(), tokens, themes: [{ docket: docket.id, code: theme.code }] });
+      }
+    }
+  }
+
+  return buildAlignments(dockets, groups, "lexical");
+}
+
+// Resolve theme references, dropping unknown codes and any theme already used by another group
+function buildAlignments(
+  dockets: DocketData[],
+  groups: Array<{ label: string; themes: ThemeRef[] }>,
+  method: ThemeAlignment["method"]
+): ThemeAlignment[] {
+  const themesByDocket = new Map(dockets.map(d => [d.id, new Map(d.themes.map(t => [t.code, t]))]));
+  const used = new Set<string>();
+  const alignments: ThemeAlignment[] = [];
+
+  for (const group of groups) {
+    const members: ThemeAlignment["themes"] = [];
+    for (const ref of group.themes) {
+      const theme = themesByDocket.get(ref?.docket)?.get(String(ref?.code));
+      const key = `${ref?.docket}|${ref?.code}`;
+      if (!theme || used.has(key) || members.some(m => m.docket === ref.docket)) continue;
+      members.push({ docket: ref.docket, code: theme.code, description: theme.description, commentCount: theme.commentCount });
+    }
+    if (members.length < 2) continue;
+
+    for (const m of members) used.add(`${m.docket}|${m.code}`);
+    alignments.push({
+      id: `A${alignments.length + 1}`,
+      label: group.label || members[0].description.split(/[.:]/)[0].trim(),
+      method,
+      themes: members,
+    });
+  }
+
+  return alignments;
+}
@@ -1,12 +1,17 @@
 import { Command } from "commander";
-import { openDb, withTransaction, getProcessingStatus } from "../lib/database";
+import { openDb, withTransaction, getProcessingStatus, resetInterruptedRows } from "../lib/database";
 import { initDebug } from "../lib/debug";
 import { AIClient } from "../lib/ai-client";
 import { checkClusteringStatus } from "../lib/comment-processing";
 import { CONDENSE_PROMPT } from "../prompts/condense";
+import { CONDENSED_SECTIONS_SCHEMA } from "../prompts/schemas";
 import { parseCondensedSections } from "../lib/parse-condensed-sections";
 import { runPool } from "../lib/worker-pool";
 import { getTaskConfig, getTaskModel } from "../lib/batch-config";
+import { BudgetExceededError, CostEstimator, setSpendLimit } from "../lib/budget";
+import { CancelledError } from "../lib/cancellation";
+import { reportItemFailure } from "../lib/progress";
+import { beginRun, endRun, promptTemplateHash, type Provenance } from "../lib/provenance";
 
 export const condenseCommand = new Command("condense")
   .description("Generate condensed versions of comments")
@@ -17,8 +22,32 @@ export const condenseCommand = new Command("condense")
   .option("-d, --debug", "Enable debug output")
   .option("-c, --concurrency <n>", "Number of parallel API calls (default: 5)", parseInt)
   .option("-m, --model <model>", "AI model to use (overrides config)")
+  .option("--dry-run", "Estimate prompts, tokens and cost without calling the model")
+  .option("--max-cost <usd>", "Abort once estimated spend exceeds this many USD", parseFloat)
   .action(condenseComments);
 
+// Build the condense prompt from the transcription + API submitter metadata
+export function buildCondensePrompt(comment: { attributes_json: string; markdown: string }): string {
+  const attrs = JSON.parse(comment.attributes_json || '{}');
+  const metadataParts: string[] = [];
+  if (attrs.firstName || attrs.lastName) {
+    metadataParts.push(`Submitter Name: ${[attrs.firstName, attrs.lastName].filter(Boolean).join(' ')}`);
+  }
+  if (attrs.organization) {
+    metadataParts.push(`Organization: ${attrs.organization}`);
+  }
+  if (attrs.category) {
+    metadataParts.push(`Category: ${attrs.category}`);
+  }
+  const metadataStr = metadataParts.length > 0
+    ? metadataParts.join('\n')
+    : 'No submitter metadata available';
+
+  return CONDENSE_PROMPT
+    .replace("{COMMENTER_METADATA}", metadataStr)
+    .replace("{COMMENT_TEXT}", comment.markdown);
+}
+
 async function condenseComments(documentId: string, options: any) {
   await initDebug(options.debug);
   
@@ -41,6 +70,8 @@ async function condenseComments(documentId: string, options: any) {
     console.log("🔗 Using stored clustering to process only representative comments");
   }
   
+  resetInterruptedRows(db, "condensed_comments");
+  
   // Get processing status
   const status = getProcessingStatus(db, "condensed_comments");
   console.log(`📊 Status: ${status.completed} completed, ${status.failed} failed, ${status.pending} pending`);
@@ -57,11 +88,11 @@ async function condenseComments(documentId: string, options: any) {
   // Build query - read from transcriptions, find ones not yet condensed
   let query: string;
   let params: any[] = [];
-  let comments: { id: string; attributes_json: string; markdown: string }[];
+  let comments: { id: string; attributes_json: string; markdown: string; content_hash: string | null }[];
 
   if (options.retryFailed) {
     query = `
-      SELECT c.id, c.attributes_json, t.markdown
+      SELECT c.id, c.attributes_json, t.markdown, c.content_hash
       FROM comments c
       JOIN transcriptions t ON c.id = t.comment_id AND t.status = 'completed'
       LEFT JOIN condensed_comments cc ON c.id = cc.comment_id
@@ -75,11 +106,14 @@ async function condenseComments(documentId: string, options: any) {
     comments = db.prepare(query).all(...params) as any[];
   } else {
     query = `
-      SELECT c.id, c.attributes_json, t.markdown
+      SELECT c.id, c.attributes_json, t.markdown, c.content_hash
       FROM comments c
       JOIN transcriptions t ON c.id = t.comment_id AND t.status = 'completed'
       LEFT JOIN condensed_comments cc ON c.id = cc.comment_id
-      WHERE cc.comment_id IS NULL OR cc.status IN ('pending', 'processing')
+      WHERE c.withdrawn = 0
+        AND (cc.comment_id IS NULL OR cc.status IN ('pending', 'processing')
+          -- Condensed from an earlier version of the comment
+          OR (cc.status = 'completed' AND cc.input_hash IS NOT NULL AND cc.input_hash IS NOT c.content_hash))
       ORDER BY c.id
     `;
     if (options.limit) {
@@ -96,137 +130,157 @@ async function condenseComments(documentId: string, options: any) {
     return;
   }
   
-  // Prepare statements
-  const insertCondensed = db.prepare(`
-    INSERT INTO condensed_comments (comment_id, structured_sections, word_count, status)
-    VALUES (?, ?, ?, 'completed')
-    ON CONFLICT(comment_id) DO UPDATE SET 
-      structured_sections = excluded.structured_sections,
-      word_count = excluded.word_count,
-      status = 'completed',
-      error_message = NULL,
-      last_attempt_at = CURRENT_TIMESTAMP
-  `);
-  
-  const updateFailed = db.prepare(`
-    INSERT INTO condensed_comments (comment_id, structured_sections, status, error_message, attempt_count)
-    VALUES (?, '{}', 'failed', ?, 1)
-    ON CONFLICT(comment_id) DO UPDATE SET 
-      status = 'failed',
-      error_message = excluded.error_message,
-      attempt_count = attempt_count + 1,
-      last_attempt_at = CURRENT_TIMESTAMP
-  `);
-  
-  const markProcessing = db.prepare(`
-    INSERT INTO condensed_comments (comment_id, structured_sections, status)
-    VALUES (?, '{}', 'processing')
-    ON CONFLICT(comment_id) DO UPDATE SET 
-      status = 'processing',
-      last_attempt_at = CURRENT_TIMESTAMP
-  `);
-  
-  let processed = 0;
-  let successful = 0;
-  let failed = 0;
-  
-  const taskConfig = getTaskConfig('condense', options.model);
-  const concurrency = options.concurrency || taskConfig.concurrency;
-  
-  const activeWorkers = new Set<string>();
-  
-  // Process a single comment
-  async function processComment(comment: any): Promise<void> {
-    const localProcessed = ++processed;
-    console.log(`\n[${localProcessed}/${comments.length}] Processing comment ${comment.id} (${activeWorkers.size} workers active)`);
+  if (options.dryRun) {
+    const estimator = new CostEstimator(db);
+    for (const comment of comments) {
+      estimator.addPrompt(effectiveModel, 'condense', buildCondensePrompt(comment));
+    }
+    estimator.print();
+    db.close();
+    return;
+  }
+  
+  setSpendLimit(options.maxCost);
+  
+  const run = beginRun(db, 'condense', options);
+  try {
+    const provenance: Provenance = {
+      runId: run.runId,
+      model: effectiveModel,
+      promptHash: promptTemplateHash(CONDENSE_PROMPT)
+    };
+  
+    // Prepare statements
+    const insertCondensed = db.prepare(`
+      INSERT INTO condensed_comments (comment_id, structured_sections, word_count, status, input_hash, run_id, model, prompt_hash)
+      VALUES (?, ?, ?, 'completed', ?, ?, ?, ?)
+      ON CONFLICT(comment_id) DO UPDATE SET 
+        structured_sections = excluded.structured_sections,
+        word_count = excluded.word_count,
+        input_hash = excluded.input_hash,
+        run_id = excluded.run_id,
+        model = excluded.model,
+        prompt_hash = excluded.prompt_hash,
+        status = 'completed',
+        error_message = NULL,
+        last_attempt_at = CURRENT_TIMESTAMP
+    `);
+  
+    const updateFailed = db.prepare(`
+      INSERT INTO condensed_comments (comment_id, structured_sections, status, error_message, attempt_count)
+      VALUES (?, '{}', 'failed', ?, 1)
+      ON CONFLICT(comment_id) DO UPDATE SET 
+        status = 'failed',
+        error_message = excluded.error_message,
+        attempt_count = attempt_count + 1,
+        last_attempt_at = CURRENT_TIMESTAMP
+    `);
+  
+    const markProcessing = db.prepare(`
+      INSERT INTO condensed_comments (comment_id, structured_sections, status)
+      VALUES (?, '{}', 'processing')
+      ON CONFLICT(comment_id) DO UPDATE SET 
+        status = 'processing',
+        last_attempt_at = CURRENT_TIMESTAMP
+    `);
+  
+    let processed = 0;
+    let successful = 0;
+    let failed = 0;
+  
+    const taskConfig = getTaskConfig('condense', options.model);
+    const concurrency = options.concurrency || taskConfig.concurrency;
+  
+    const activeWorkers = new Set<string>();
+  
+    // Process a single comment
+    async function processComment(comment: any): Promise<void> {
+      const localProcessed = ++processed;
+      console.log(`\n[${localProcessed}/${comments.length}] Processing comment ${comment.id} (${activeWorkers.size} workers active)`);
     
-    try {
-      // Mark as processing
-      markProcessing.run(comment.id);
+      try {
+        // Mark as processing
+        markProcessing.run(comment.id);
       
-      // Build metadata from API attributes
-      const attrs = JSON.parse(comment.attributes_json || '{}');
-      const metadataParts: string[] = [];
-      if (attrs.firstName || attrs.lastName) {
-        metadataParts.push(`Submitter Name: ${[attrs.firstName, attrs.lastName].filter(Boolean).join(' ')}`);
-      }
-      if (attrs.organization) {
-        metadataParts.push(`Organization: ${attrs.organization}`);
-      }
-      if (attrs.category) {
-        metadataParts.push(`Category: ${attrs.category}`);
-      }
-      const metadataStr = metadataParts.length > 0
-        ? metadataParts.join('\n')
-        : 'No submitter metadata available';
-
-      // Build prompt using the transcription + metadata
-      const prompt = CONDENSE_PROMPT
-        .replace("{COMMENTER_METADATA}", metadataStr)
-        .replace("{COMMENT_TEXT}", comment.markdown);
+        const prompt = buildCondensePrompt(comment);
       
-      // Generate condensed version with caching metadata
-      const response = await ai.generateContent(
-        prompt,
-        options.debug ? `condense_${comment.id}` : undefined,
-        `condense_${comment.id}`,
-        {
-          taskType: 'condense',
-          taskLevel: 0,
-          params: { commentId: comment.id }
-        }
-      );
+        // Generate condensed version with caching metadata
+        const response = await ai.generateContent(
+          prompt,
+          options.debug ? `condense_${comment.id}` : undefined,
+          `condense_${comment.id}`,
+          {
+            taskType: 'condense',
+            taskLevel: 0,
+            params: { commentId: comment.id }
+          },
+          CONDENSED_SECTIONS_SCHEMA
+        );
       
-      // Parse the response into sections
-      const { sections, errors } = parseCondensedSections(response);
+        // Parse the response into sections
+        const { sections, errors } = parseCondensedSections(response);
       
-      // Log any parsing errors
-      if (errors.length > 0) {
-        console.warn(`  [${comment.id}] ⚠️  Parsing issues:`);
-        errors.forEach(err => console.warn(`    - ${err}`));
-      }
+        // Log any parsing errors
+        if (errors.length > 0) {
+          console.warn(`  [${comment.id}] ⚠️  Parsing issues:`);
+          errors.forEach(err => console.warn(`    - ${err}`));
+        }
       
-      // Save result with structured sections
-      withTransaction(db, () => {
-        // Don't add the full response as detailedContent - it's already parsed from the response
-        insertCondensed.run(
-          comment.id, 
-          JSON.stringify(sections),
-          comment.markdown.trim().split(/\s+/).length
-        );
-      });
+        // Save result with structured sections
+        withTransaction(db, () => {
+          // Don't add the full response as detailedContent - it's already parsed from the response
+          insertCondensed.run(
+            comment.id, 
+            JSON.stringify(sections),
+            comment.markdown.trim().split(/\s+/).length,
+            comment.content_hash,
+            provenance.runId,
+            provenance.model,
+            provenance.promptHash
+          );
+        });
+      
+        successful++;
+        console.log(`  [${comment.id}] ✅ Condensed successfully${errors.length > 0 ? ' (with warnings)' : ''}`);
       
-      successful++;
-      console.log(`  [${comment.id}] ✅ Condensed successfully${errors.length > 0 ? ' (with warnings)' : ''}`);
+      } catch (error) {
+        // Running out of budget or being interrupted is not a comment failure; the row stays queued for the next run
+        if (error instanceof BudgetExceededError || error instanceof CancelledError) throw error;
       
-    } catch (error) {
-      failed++;
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      console.error(`  [${comment.id}] ❌ Error: ${errorMsg}`);
+        failed++;
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        console.error(`  [${comment.id}] ❌ Error: ${errorMsg}`);
       
-      updateFailed.run(comment.id, errorMsg);
+        updateFailed.run(comment.id, errorMsg);
+        reportItemFailure("comments", comment.id, error);
+      }
     }
-  }
   
-  // Run pool
-  await runPool(comments, concurrency, async (comment, index) => {
-    activeWorkers.add(comment.id);
-    await processComment(comment);
-    activeWorkers.delete(comment.id);
-  });
-  
-  // Final summary
-  console.log("\n📊 Condensing complete:");
-  console.log(`  ✅ Successful: ${successful}`);
-  console.log(`  ❌ Failed: ${failed}`);
-  console.log(`  📄 Total processed: ${processed}`);
-  
-  // Show updated status
-  const finalStatus = getProcessingStatus(db, "condensed_comments");
-  console.log("\n📈 Overall progress:");
-  console.log(`  ✅ Completed: ${finalStatus.completed}`);
-  console.log(`  ❌ Failed: ${finalStatus.failed}`);
-  console.log(`  ⏳ Remaining: ${finalStatus.pending}`);
-  
-  db.close();
+    // Run pool
+    await runPool(comments, concurrency, async (comment, index) => {
+      activeWorkers.add(comment.id);
+      await processComment(comment);
+      activeWorkers.delete(comment.id);
+    }, { label: "comments", itemId: comment => comment.id });
+  
+    // Final summary
+    console.log("\n📊 Condensing complete:");
+    console.log(`  ✅ Successful: ${successful}`);
+    console.log(`  ❌ Failed: ${failed}`);
+    console.log(`  📄 Total processed: ${processed}`);
+  
+    // Show updated status
+    const finalStatus = getProcessingStatus(db, "condensed_comments");
+    console.log("\n📈 Overall progress:");
+    console.log(`  ✅ Completed: ${finalStatus.completed}`);
+    console.log(`  ❌ Failed: ${finalStatus.failed}`);
+    console.log(`  ⏳ Remaining: ${finalStatus.pending}`);
+  
+    endRun(db, run, 'completed');
+  } catch (error) {
+    endRun(db, run, 'failed');
+    throw error;
+  } finally {
+    db.close();
+  }
 }
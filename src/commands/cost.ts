@@ -0,0 +1,101 @@
+import { Command } from "commander";
+import { openDb } from "../lib/database";
+import { getUsageSummary, type UsageSummaryRow } from "../lib/usage-ledger";
+
+const STEP_ORDER = [
+  "transcribe",
+  "condense",
+  "discover-themes",
+  "extract-theme-content",
+  "summarize-themes",
+  "discover-entities",
+];
+
+export const costCommand = new Command("cost")
+  .description("Report LLM token usage and estimated spend");
+
+function formatUsd(amount: number): string {
+  return `$${amount.toFixed(amount < 1 ? 4 : 2)}`;
+}
+
+function sumRows(step: string, rows: UsageSummaryRow[]): UsageSummaryRow {
+  return rows.reduce((acc, row) => ({
+    ...acc,
+    calls: acc.calls + row.calls,
+    cacheHits: acc.cacheHits + row.cacheHits,
+    inputTokens: acc.inputTokens + row.inputTokens,
+    cachedInputTokens: acc.cachedInputTokens + row.cachedInputTokens,
+    outputTokens: acc.outputTokens + row.outputTokens,
+    estimatedCalls: acc.estimatedCalls + row.estimatedCalls,
+    totalLatencyMs: acc.totalLatencyMs + row.totalLatencyMs,
+    cost: acc.cost + row.cost,
+  }), {
+    step,
+    model: rows.map(r => r.model).filter((m, i, all) => all.indexOf(m) === i).join(", "),
+    calls: 0,
+    cacheHits: 0,
+    inputTokens: 0,
+    cachedInputTokens: 0,
+    outputTokens: 0,
+    estimatedCalls: 0,
+    totalLatencyMs: 0,
+    cost: 0,
+  });
+}
+
+function printRow(label: string, row: UsageSummaryRow, indent = "   ") {
+  const apiCalls = row.calls - row.cacheHits;
+  const avgLatency = apiCalls > 0 ? (row.totalLatencyMs / apiCalls / 1000).toFixed(1) : "-";
+  console.log(`${indent}${label}: ${formatUsd(row.cost)}`);
+  console.log(`${indent}  Calls: ${row.calls} (${apiCalls} API, ${row.cacheHits} cache hits), avg latency ${avgLatency}s`);
+  console.log(`${indent}  Tokens: ${row.inputTokens.toLocaleString()} in (${row.cachedInputTokens.toLocaleString()} cached), ${row.outputTokens.toLocaleString()} out`);
+  if (row.estimatedCalls > 0) {
+    console.log(`${indent}  ⚠️  ${row.estimatedCalls} calls without provider usage data (tokens estimated)`);
+  }
+}
+
+// Cost report subcommand
+costCommand
+  .command("report")
+  .description("Break down LLM spend by pipeline step")
+  .argument("<document-id>", "Document ID (e.g., CMS-2025-0050-0031)")
+  .option("--by-model", "Also break down each step by model")
+  .option("--json", "Output the report as JSON")
+  .action((documentId, options) => {
+    const db = openDb(documentId);
+    const rows = getUsageSummary(db);
+    db.close();
+
+    const steps = Array.from(new Set(rows.map(r => r.step))).sort((a, b) => {
+      const ai = STEP_ORDER.indexOf(a);
+      const bi = STEP_ORDER.indexOf(b);
+      return (ai === -1 ? STEP_ORDER.length : ai) - (bi === -1 ? STEP_ORDER.length : bi) || a.localeCompare(b);
+    });
+    const stepTotals = steps.map(step => sumRows(step, rows.filter(r => r.step === step)));
+    const total = sumRows("total", rows);
+
+    if (options.json) {
+      console.log(JSON.stringify({ documentId, total, steps: stepTotals, byModel: rows }, null, 2));
+      return;
+    }
+
+    console.log(`💰 LLM Cost Report for ${documentId}`);
+
+    if (rows.length === 0) {
+      console.log("   No LLM usage recorded yet");
+      return;
+    }
+
+    console.log("\n   By pipeline step:");
+    for (const stepTotal of stepTotals) {
+      printRow(stepTotal.step, stepTotal);
+      if (options.byModel) {
+        for (const row of rows.filter(r => r.step === stepTotal.step)) {
+          printRow(row.model, row, "       ");
+        }
+      }
+    }
+
+    console.log("");
+    printRow("Total", total);
+  });
@@ -0,0 +1,460 @@
+import { Command } from "commander";
+import { Database } from "bun:sqlite";
+import { openDb, withTransaction } from "../lib/database";
+import type { CommentAttributes } from "../types";
+
+export const detectCampaignsCommand = new Command("detect-campaigns")
+  .description("Flag likely coordinated submission campaigns and score the evidence for each")
+  .argument("<document-id>", "Document ID (e.g., CMS-2025-0050-0031)")
+  .option("--min-size <n>", "Smallest group of comments reported as a campaign (default: 5)", parseInt)
+  .option("--min-score <n>", "Only keep campaigns with at least this evidence score, 0-1 (default: 0.3)", parseFloat)
+  .option("--window-hours <n>", "Width of the submission burst window in hours (default: 24)", parseFloat)
+  .option("--max-phrase-share <n>", "Ignore phrases used by more than this share of all comments as boilerplate (default: 0.5)", parseFloat)
+  .option("--json", "Print the campaigns as JSON instead of a report")
+  .action(detectCampaigns);
+
+// Phrases are 8-word shingles. Only those whose hash is divisible by PHRASE_SAMPLE are kept,
+// which is consistent across comments (shared phrases stay shared) and keeps memory flat.
+const PHRASE_WORDS = 8;
+const PHRASE_SAMPLE = 4;
+
+// Two comments are linked when they share this many unusual phrases
+const MIN_SHARED_PHRASES = 3;
+
+// A phrase belongs to a campaign's template when at least this share of its members use it
+const TEMPLATE_SHARE = 0.5;
+
+const SIGNAL_WEIGHTS = {
+  nearDuplicates: 0.3,
+  sharedPhrasing: 0.2,
+  burst: 0.2,
+  submitters: 0.15,
+  templatedStories: 0.15,
+};
+
+type Signal = keyof typeof SIGNAL_WEIGHTS;
+
+interface CampaignComment {
+  id: string;
+  text: string;
+  phrases: Set<number>;
+  date: number | null;
+  dateText: string | null;
+  person: string | null;
+  location: string | null;
+  clusterId: number | null;
+  clusterSize: number;
+}
+
+interface Campaign {
+  evidenceScore: number;
+  commentIds: string[];
+  representativeId: string;
+  firstDate: string | null;
+  lastDate: string | null;
+  signals: Record<Signal, number>;
+  evidence: string[];
+  sharedPhrases: string[];
+}
+
+async function detectCampaigns(documentId: string, options: any) {
+  const db = openDb(documentId);
+  const minSize = options.minSize || 5;
+  const minScore = options.minScore ?? 0.3;
+  const windowMs = (options.windowHours || 24) * 60 * 60 * 1000;
+  const maxPhraseShare = options.maxPhraseShare || 0.5;
+
+  try {
+    if (!options.json) {
+      console.log(`🕵️  Detecting coordinated campaigns for ${documentId}`);
+    }
+
+    const comments = loadCampaignComments(db);
+    if (!options.json) {
+      console.log(`📊 Loaded ${comments.length} comments`);
+    }
+
+    // How many comments use each phrase, across the whole docket
+    const phraseCounts = new Map<number, number>();
+    for (const comment of comments) {
+      for (const phrase of comment.phrases) {
+        phraseCounts.set(phrase, (phraseCounts.get(phrase) || 0) + 1);
+      }
+    }
+    const maxPhraseCount = Math.max(minSize, Math.floor(comments.length * maxPhraseShare));
+    const isUnusual = (phrase: number) => {
+      const count = phraseCounts.get(phrase) || 0;
+      return count >= 2 && count <= maxPhraseCount;
+    };
+
+    const groups = groupComments(comments, isUnusual).filter(g => g.length >= minSize);
+
+    const docketDates = comments.map(c => c.date).filter((d): d is number => d !== null).sort((a, b) => a - b);
+    const docketLocations = countValues(comments.map(c => c.location));
+
+    const campaigns = groups
+      .map(group => scoreCampaign(group, {
+        phraseCounts,
+        isUnusual,
+        docketDates,
+        docketLocations,
+        windowMs,
+      }))
+      .filter(c => c.evidenceScore >= minScore)
+      .sort((a, b) => b.evidenceScore - a.evidenceScore || b.commentIds.length - a.commentIds.length);
+
+    storeCampaigns(db, campaigns);
+
+    if (options.json) {
+      console.log(JSON.stringify(campaigns, null, 2));
+      return;
+    }
+    reportCampaigns(campaigns, comments.length);
+  } finally {
+    db.close();
+  }
+}
+
+// Comment text (the transcription when there is one, so attached letters count), submitter and cluster
+function loadCampaignComments(db: Database): CampaignComment[] {
+  const rows = db.prepare(`
+    SELECT
+      c.id,
+      c.attributes_json,
+      t.markdown as transcription,
+      ccm.cluster_id,
+      COALESCE(cc.cluster_size, 1) as cluster_size
+    FROM comments c
+    LEFT JOIN transcriptions t ON t.comment_id = c.id AND t.status = 'completed'
+    LEFT JOIN comment_cluster_membership ccm ON ccm.comment_id = c.id
+    LEFT JOIN comment_clusters cc ON cc.cluster_id = ccm.cluster_id
+    WHERE c.withdrawn = 0
+  `).all() as any[];
+
+  const comments = rows.map(row => {
+    const attrs = JSON.parse(row.attributes_json) as CommentAttributes;
+    const text = row.transcription || (attrs.comment || "").replace(/<[^>]+>/g, " ");
+    const dateText = attrs.receiveDate || attrs.postedDate || null;
+    const parsedDate = dateText ? Date.parse(dateText) : NaN;
+
+    // Organizations legitimately file several comments; repeated names only mean something for individuals
+    const name = !attrs.organization
+      ? [attrs.firstName, attrs.lastName].filter(Boolean).join(" ").trim().toLowerCase()
+      : "";
+    const location = [attrs.city, attrs.stateProvinceRegion].filter(Boolean).join(", ");
+
+    return {
+      id: row.id,
+      text,
+      phrases: samplePhrases(tokenize(text)),
+      date: isNaN(parsedDate) ? null : parsedDate,
+      dateText,
+      person: name || null,
+      location: location || null,
+      clusterId: row.cluster_id ?? null,
+      clusterSize: row.cluster_size,
+    };
+  });
+
+  // Earliest first, so the comment that introduced a phrase anchors everyone who reused it
+  return comments.sort((a, b) => (a.date ?? Infinity) - (b.date ?? Infinity) || a.id.localeCompare(b.id));
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().replace(/[^\w\s]/g, " ").split(/\s+/).filter(w => w.length > 1);
+}
+
+// FNV-1a
+function hashPhrase(phrase: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < phrase.length; i++) {
+    hash ^= phrase.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function samplePhrases(words: string[]): Set<number> {
+  const phrases = new Set<number>();
+  for (let i = 0; i + PHRASE_WORDS <= words.length; i++) {
+    const hash = hashPhrase(words.slice(i, i + PHRASE_WORDS).join(" "));
+    if (hash % PHRASE_SAMPLE === 0) phrases.add(hash);
+  }
+  return phrases;
+}
+
+// Text of a sampled phrase, recovered from a comment that contains it
+function findPhraseText(comment: CampaignComment, phrase: number): string | null {
+  const words = tokenize(comment.text);
+  for (let i = 0; i + PHRASE_WORDS <= words.length; i++) {
+    const text = words.slice(i, i + PHRASE_WORDS).join(" ");
+    if (hashPhrase(text) === phrase) return text;
+  }
+  return null;
+}
+
+// Connected groups of comments that are in the same near-duplicate cluster or share unusual
+// phrases. Each phrase is anchored on the first comment that used it, so linking costs one
+// lookup per phrase instead of comparing every pair of comments.
+function groupComments(comments: CampaignComment[], isUnusual: (phrase: number) => boolean): CampaignComment[][] {
+  const parent = comments.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const union = (a: number, b: number) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) parent[rootB] = rootA;
+  };
+
+  const clusterAnchors = new Map<number, number>();
+  const phraseAnchors = new Map<number, number>();
+
+  comments.forEach((comment, index) => {
+    if (comment.clusterId !== null && comment.clusterSize > 1) {
+      const anchor = clusterAnchors.get(comment.clusterId);
+      if (anchor === undefined) clusterAnchors.set(comment.clusterId, index);
+      else union(anchor, index);
+    }
+
+    const sharedWith = new Map<number, number>();
+    for (const phrase of comment.phrases) {
+      if (!isUnusual(phrase)) continue;
+      const anchor = phraseAnchors.get(phrase);
+      if (anchor === undefined) {
+        phraseAnchors.set(phrase, index);
+        continue;
+      }
+      const shared = (sharedWith.get(anchor) || 0) + 1;
+      sharedWith.set(anchor, shared);
+      if (shared === MIN_SHARED_PHRASES) union(anchor, index);
+    }
+  });
+
+  const groups = new Map<number, CampaignComment[]>();
+  comments.forEach((comment, index) => {
+    const root = find(index);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(comment);
+  });
+  return Array.from(groups.values());
+}
+
+function countValues(values: (string | null)[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    if (value) counts.set(value, (counts.get(value) || 0) + 1);
+  }
+  return counts;
+}
+
+// Number of sorted timestamps in [start, end)
+function countInWindow(sorted: number[], start: number, end: number): number {
+  const lowerBound = (value: number) => {
+    let lo = 0;
+    let hi = sorted.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (sorted[mid] < value) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  };
+  return lowerBound(end) - lowerBound(start);
+}
+
+// How much more concentrated the group is than the rest of the docket: 0 when no more, 1 when fully
+function excessShare(groupShare: number, docketShare: number): number {
+  if (docketShare >= 1) return 0;
+  return Math.max(0, (groupShare - docketShare) / (1 - docketShare));
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+interface DocketContext {
+  phraseCounts: Map<number, number>;
+  isUnusual: (phrase: number) => boolean;
+  docketDates: number[];
+  docketLocations: Map<string, number>;
+  windowMs: number;
+}
+
+function scoreCampaign(group: CampaignComment[], docket: DocketContext): Campaign {
+  const size = group.length;
+  const signals: Record<Signal, number> = {
+    nearDuplicates: 0,
+    sharedPhrasing: 0,
+    burst: 0,
+    submitters: 0,
+    templatedStories: 0,
+  };
+  const evidence: string[] = [];
+
+  // Near-duplicate clusters
+  const clusterSizes = new Map<number, number>();
+  for (const comment of group) {
+    if (comment.clusterId !== null && comment.clusterSize > 1) {
+      clusterSizes.set(comment.clusterId, (clusterSizes.get(comment.clusterId) || 0) + 1);
+    }
+  }
+  const clustered = Array.from(clusterSizes.values()).reduce((sum, n) => sum + n, 0);
+  signals.nearDuplicates = clustered / size;
+  if (clustered > 0) {
+    evidence.push(`${clustered} of ${size} comments are near-duplicates (${clusterSizes.size} form-letter cluster${clusterSizes.size === 1 ? "" : "s"}, largest ${Math.max(...clusterSizes.values())})`);
+  }
+
+  // Shared unusual phrasing: phrases most members use that are rare outside the group
+  const groupPhraseCounts = new Map<number, number>();
+  for (const comment of group) {
+    for (const phrase of comment.phrases) {
+      if (docket.isUnusual(phrase)) groupPhraseCounts.set(phrase, (groupPhraseCounts.get(phrase) || 0) + 1);
+    }
+  }
+  const templatePhrases = Array.from(groupPhraseCounts.entries())
+    .filter(([phrase, count]) => count >= size * TEMPLATE_SHARE && (docket.phraseCounts.get(phrase) || 0) - count < count)
+    .sort((a, b) => b[1] - a[1])
+    .map(([phrase]) => phrase);
+  const template = new Set(templatePhrases);
+  // Ten sampled phrases is roughly a paragraph of identical wording
+  signals.sharedPhrasing = Math.min(1, templatePhrases.length / 10);
+
+  const sharedPhrases: string[] = [];
+  for (const phrase of templatePhrases.slice(0, 5)) {
+    const source = group.find(c => c.phrases.has(phrase));
+    const text = source && findPhraseText(source, phrase);
+    if (text) sharedPhrases.push(text);
+  }
+  if (templatePhrases.length > 0) {
+    evidence.push(`${templatePhrases.length} sampled phrases are shared by most members and rare elsewhere, e.g. "${sharedPhrases[0]}"`);
+  }
+
+  // Submission burst: densest window compared with the share of other comments in that window
+  const dates = group.map(c => c.date).filter((d): d is number => d !== null).sort((a, b) => a - b);
+  if (dates.length >= 2 && docket.docketDates.length > 0) {
+    let bestStart = dates[0];
+    let bestCount = 0;
+    for (let i = 0, j = 0; i < dates.length; i++) {
+      while (dates[j] < dates[i] - docket.windowMs) j++;
+      if (i - j + 1 > bestCount) {
+        bestCount = i - j + 1;
+        bestStart = dates[j];
+      }
+    }
+    const groupShare = bestCount / dates.length;
+    const others = docket.docketDates.length - dates.length;
+    const othersInWindow = countInWindow(docket.docketDates, bestStart, bestStart + docket.windowMs + 1) - bestCount;
+    const docketShare = others > 0 ? othersInWindow / others : 0;
+    signals.burst = excessShare(groupShare, docketShare);
+    if (signals.burst > 0) {
+      const hours = docket.windowMs / (60 * 60 * 1000);
+      evidence.push(`${bestCount} of ${dates.length} dated comments arrived within ${hours}h from ${new Date(bestStart).toISOString().substring(0, 16).replace("T", " ")} (${percent(docketShare)} of other comments did)`);
+    }
+  }
+
+  // Repeated submitter names or a concentration of one location
+  const named = group.filter(c => c.person);
+  const distinctNames = new Set(named.map(c => c.person)).size;
+  const repeatedNameShare = named.length > 0 ? (named.length - distinctNames) / named.length : 0;
+  if (named.length > distinctNames) {
+    evidence.push(`${named.length - distinctNames} comments repeat a submitter name already used in this group`);
+  }
+
+  let locationScore = 0;
+  const groupLocations = countValues(group.map(c => c.location));
+  const located = Array.from(groupLocations.values()).reduce((sum, n) => sum + n, 0);
+  const [topLocation, topCount] = Array.from(groupLocations.entries()).sort((a, b) => b[1] - a[1])[0] || [null, 0];
+  if (topLocation && located >= 2) {
+    const otherLocated = Array.from(docket.docketLocations.values()).reduce((sum, n) => sum + n, 0) - located;
+    const docketShare = otherLocated > 0 ? ((docket.docketLocations.get(topLocation) || 0) - topCount) / otherLocated : 0;
+    locationScore = excessShare(topCount / located, docketShare);
+    if (locationScore >= 0.25) {
+      evidence.push(`${percent(topCount / located)} of located members are from ${topLocation} (${percent(docketShare)} of other comments)`);
+    }
+  }
+  signals.submitters = Math.max(repeatedNameShare, locationScore);
+
+  // Templated personal stories: the shared wording plus a substantial passage of the member's own
+  if (template.size >= 3) {
+    const slotted = group.filter(c => {
+      if (c.phrases.size === 0) return false;
+      let inTemplate = 0;
+      for (const phrase of c.phrases) if (template.has(phrase)) inTemplate++;
+      const coverage = inTemplate / c.phrases.size;
+      return coverage >= 0.3 && c.phrases.size - inTemplate >= 3;
+    }).length;
+    signals.templatedStories = slotted / size;
+    if (slotted > 0) {
+      evidence.push(`${slotted} comments fill the shared template with passages of their own`);
+    }
+  }
+
+  const evidenceScore = (Object.keys(SIGNAL_WEIGHTS) as Signal[])
+    .reduce((score, signal) => score + SIGNAL_WEIGHTS[signal] * signals[signal], 0);
+
+  // The member using the most template phrases stands for the campaign
+  const templateUse = (c: CampaignComment) => Array.from(c.phrases).filter(p => template.has(p)).length;
+  const representative = group.reduce((best, c) => (templateUse(c) > templateUse(best) ? c : best), group[0]);
+  const dateTexts = group.map(c => c.dateText).filter((d): d is string => !!d).sort();
+
+  return {
+    evidenceScore: Math.round(evidenceScore * 1000) / 1000,
+    commentIds: group.map(c => c.id),
+    representativeId: representative.id,
+    firstDate: dateTexts[0] || null,
+    lastDate: dateTexts[dateTexts.length - 1] || null,
+    signals: Object.fromEntries(
+      Object.entries(signals).map(([signal, value]) => [signal, Math.round(value * 1000) / 1000])
+    ) as Record<Signal, number>,
+    evidence,
+    sharedPhrases,
+  };
+}
+
+function storeCampaigns(db: Database, campaigns: Campaign[]) {
+  withTransaction(db, () => {
+    db.prepare("DELETE FROM campaign_members").run();
+    db.prepare("DELETE FROM campaigns").run();
+
+    const insertCampaign = db.prepare(`
+      INSERT INTO campaigns (
+        campaign_id, evidence_score, comment_count, representative_comment_id,
+        first_date, last_date, signals_json, evidence_json, shared_phrases_json
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertMember = db.prepare("INSERT INTO campaign_members (campaign_id, comment_id) VALUES (?, ?)");
+
+    campaigns.forEach((campaign, index) => {
+      const campaignId = index + 1;
+      insertCampaign.run(
+        campaignId,
+        campaign.evidenceScore,
+        campaign.commentIds.length,
+        campaign.representativeId,
+        campaign.firstDate,
+        campaign.lastDate,
+        JSON.stringify(campaign.signals),
+        JSON.stringify(campaign.evidence),
+        JSON.stringify(campaign.sharedPhrases)
+      );
+      for (const commentId of campaign.commentIds) {
+        insertMember.run(campaignId, commentId);
+      }
+    });
+  });
+}
+
+function reportCampaigns(campaigns: Campaign[], totalComments: number) {
+  const inCampaigns = campaigns.reduce((sum, c) => sum + c.commentIds.length, 0);
+  console.log(`\n✅ ${campaigns.length} suspected campaigns covering ${inCampaigns} of ${totalComments} comments`);
+
+  campaigns.slice(0, 20).forEach((campaign, index) => {
+    console.log(`\n#${index + 1}  score ${campaign.evidenceScore.toFixed(2)}  ${campaign.commentIds.length} comments  (representative ${campaign.representativeId})`);
+    if (campaign.firstDate) {
+      console.log(`    ${campaign.firstDate.substring(0, 10)} → ${campaign.lastDate!.substring(0, 10)}`);
+    }
+    for (const line of campaign.evidence) {
+      console.log(`    • ${line}`);
+    }
+  });
+  if (campaigns.length > 20) {
+    console.log(`\n   ... and ${campaigns.length - 20} more (see the campaigns table or --json)`);
+  }
+}
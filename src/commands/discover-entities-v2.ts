@@ -5,8 +5,8 @@ import { initDebug, debugSave } from "../lib/debug";
 import { AIClient } from "../lib/ai-client";
 import { loadCondensedCommentsForEntities } from "../lib/comment-processing";
 import type { EntityTaxonomy, EnrichedComment } from "../types";
-import { parseJsonResponse } from "../lib/json-parser";
 import { getTaskModel } from "../lib/batch-config";
+import { ENTITY_TAXONOMY_SCHEMA } from "../prompts/schemas";
 
 export const discoverEntitiesV2Command = new Command("discover-entities-v2")
   .description("Discover named entities using single large prompt (v2)")
@@ -105,40 +105,13 @@ async function discoverEntitiesV2(documentId: string, options: any) {
   }
 }
 
-// Discover entities from comments
-async function discoverEntities(
-  db: Database,
-  ai: AIClient,
-  allComments: EnrichedComment[],
-  targetWords: number,
-  debug: boolean
-): Promise<EntityTaxonomy> {
-  console.log("\n🔍 Starting entity discovery...");
-  
-  // Randomly select comments to reach target word count
-  const shuffled = [...allComments].sort(() => Math.random() - 0.5);
-  const selectedComments: EnrichedComment[] = [];
-  let totalWords = 0;
-  
-  for (const comment of shuffled) {
-    const wordCount = comment.content.split(/\s+/).length;
-    
-    if (totalWords + wordCount > targetWords && totalWords > targetWords * 0.9) {
-      break; // Close enough to target
-    }
-    
-    selectedComments.push(comment);
-    totalWords += wordCount;
-  }
-  
-  console.log(`📝 Selected ${selectedComments.length} comments with ${totalWords.toLocaleString()} words`);
-  
-  // Build prompt
-  const commentBlocks = selectedComments.map(c => 
+// Prompt for building an entity taxonomy from a sample of comments
+export function buildEntityDiscoveryPrompt(comments: Pick<EnrichedComment, "id" | "content">[], totalWords: number): string {
+  const commentBlocks = comments.map(c => 
     `<comment id="${c.id}">\n${c.content}\n</comment>`
   ).join("\n\n");
   
-  const prompt = `You are analyzing public comments on a regultions.gov docket. Based on the following ${selectedComments.length} comment excerpts (${totalWords.toLocaleString()} words total), create a comprehensive taxonomy of entities mentioned or relevant to this domain.
+  return `You are analyzing public comments on a regultions.gov docket. Based on the following ${comments.length} comment excerpts (${totalWords.toLocaleString()} words total), create a comprehensive taxonomy of entities mentioned or relevant to this domain.
 
 Generate a JSON taxonomy with the following structure:
 {
@@ -189,12 +162,43 @@ ${commentBlocks}
 </comments>
 
 Generate the JSON taxonomy:`;
+}
+
+// Discover entities from comments
+async function discoverEntities(
+  db: Database,
+  ai: AIClient,
+  allComments: EnrichedComment[],
+  targetWords: number,
+  debug: boolean
+): Promise<EntityTaxonomy> {
+  console.log("\n🔍 Starting entity discovery...");
+  
+  // Randomly select comments to reach target word count
+  const shuffled = [...allComments].sort(() => Math.random() - 0.5);
+  const selectedComments: EnrichedComment[] = [];
+  let totalWords = 0;
+  
+  for (const comment of shuffled) {
+    const wordCount = comment.content.split(/\s+/).length;
+    
+    if (totalWords + wordCount > targetWords && totalWords > targetWords * 0.9) {
+      break; // Close enough to target
+    }
+    
+    selectedComments.push(comment);
+    totalWords += wordCount;
+  }
+  
+  console.log(`📝 Selected ${selectedComments.length} comments with ${totalWords.toLocaleString()} words`);
+  
+  const prompt = buildEntityDiscoveryPrompt(selectedComments, totalWords);
 
   // Generate taxonomy
   console.log("\n🤖 Generating taxonomy with LLM...");
   const startTime = Date.now();
   
-  const taxonomy = await ai.generateContent<EntityTaxonomy>(
+  const taxonomy = await ai.generateContent(
     prompt,
     debug ? 'entities_v2_full' : undefined,
     'entities_v2_full_taxonomy',
@@ -206,7 +210,7 @@ Generate the JSON taxonomy:`;
         wordCount: totalWords
       }
     },
-    parseJsonResponse
+    ENTITY_TAXONOMY_SCHEMA
   );
   
   const elapsedTime = ((Date.now() - startTime) / 1000).toFixed(1);
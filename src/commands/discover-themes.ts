@@ -1,13 +1,25 @@
 import { Command } from "commander";
 import { openDb, withTransaction } from "../lib/database";
 import type { Database } from "bun:sqlite";
+import { readFile } from "fs/promises";
 import { initDebug } from "../lib/debug";
 import { AIClient } from "../lib/ai-client";
 import { loadCondensedComments, parseThemeHierarchy, checkClusteringStatus, getStoredRepresentativeIds } from "../lib/comment-processing";
 import { createEvenBatches, DEFAULT_BATCH_OPTIONS } from "../lib/batch-processor";
-import { THEME_DISCOVERY_PROMPT, THEME_MERGE_PROMPT } from "../prompts/theme-discovery";
+import { THEME_DISCOVERY_PROMPT, THEME_MERGE_PROMPT, CODEBOOK_DISCOVERY_PROMPT, CODEBOOK_MERGE_PROMPT } from "../prompts/theme-discovery";
 import { TaskQueue, buildHierarchicalTasks, type Task } from "../lib/task-queue";
 import { getTaskConfig, getBatchOptions, getTaskModel } from "../lib/batch-config";
+import { beginRun, endRun, promptTemplateHash, type Provenance } from "../lib/provenance";
+import { TaskCheckpoints } from "../lib/checkpoints";
+import { inputHash } from "../lib/staleness";
+import type { ParsedTheme } from "../types";
+
+// A fixed set of top-level themes (e.g., the questions an RFI asked) that discovery maps into
+interface Codebook {
+  text: string;
+  themes: ParsedTheme[];
+  otherCode: string;
+}
 
 export const discoverThemesCommand = new Command("discover-themes")
   .description("Discover theme hierarchy from condensed comments")
@@ -20,8 +32,66 @@ export const discoverThemesCommand = new Command("discover-themes")
   .option("-m, --model <model>", "AI model to use (overrides config)")
   .option("--merge-width <n>", "Number of taxonomies to merge at once (default: 10)", parseInt)
   .option("--use-clustering", "Use stored clustering to process only representative comments")
+  .option("--codebook <file>", "Fixed top-level themes in the taxonomy text format; discovery only proposes sub-themes and an Other bucket")
   .action(discoverThemes);
 
+// Read a codebook written in the same "1. Label. Description || Guidelines" format the prompts produce
+async function loadCodebook(path: string): Promise<Codebook> {
+  const text = (await readFile(path, "utf-8")).trim();
+  const themes = parseThemeHierarchy(text);
+  const topLevel = themes.filter(t => t.level === 1);
+  if (topLevel.length === 0) {
+    throw new Error(`No top-level themes found in codebook ${path}; use lines like "1. Label. Description || Guidelines"`);
+  }
+  const codes = new Set<string>();
+  for (const theme of themes) {
+    if (codes.has(theme.code)) throw new Error(`Codebook ${path} lists theme ${theme.code} twice`);
+    if (theme.parent_code && !codes.has(theme.parent_code)) {
+      throw new Error(`Codebook theme ${theme.code} appears before its parent ${theme.parent_code}`);
+    }
+    codes.add(theme.code);
+  }
+  const otherCode = String(Math.max(...topLevel.map(t => parseInt(t.code))) + 1);
+  return { text, themes, otherCode };
+}
+
+// Keep the model to the codebook: its themes keep their exact wording, sub-themes are only
+// accepted under codebook themes or the Other bucket, and anything else is dropped
+function applyCodebook(themes: ParsedTheme[], codebook: Codebook): ParsedTheme[] {
+  const fixed = new Map(codebook.themes.map(t => [t.code, t]));
+  const allowedTopLevel = new Set([...codebook.themes.filter(t => t.level === 1).map(t => t.code), codebook.otherCode]);
+  const proposed = new Map<string, ParsedTheme>();
+  const dropped: string[] = [];
+
+  for (const theme of themes) {
+    if (fixed.has(theme.code)) continue;
+    const parentKnown = !theme.parent_code || fixed.has(theme.parent_code) || proposed.has(theme.parent_code)
+      || theme.parent_code === codebook.otherCode;
+    if (!allowedTopLevel.has(theme.code.split('.')[0]) || !parentKnown) {
+      dropped.push(theme.code);
+      continue;
+    }
+    proposed.set(theme.code, theme);
+  }
+
+  // Sub-themes filed under an Other bucket the model didn't describe still need a parent
+  const hasOther = [...proposed.keys()].some(code => code.split('.')[0] === codebook.otherCode);
+  if (hasOther && !proposed.has(codebook.otherCode)) {
+    proposed.set(codebook.otherCode, {
+      code: codebook.otherCode,
+      description: 'Other Topics',
+      level: 1,
+      parent_code: null,
+      detailed_guidelines: 'Issues raised by commenters that fall outside the codebook themes.'
+    });
+  }
+  if (dropped.length > 0) {
+    console.log(`⚠️  Dropped ${dropped.length} theme(s) outside the codebook: ${dropped.join(', ')}`);
+  }
+
+  return [...codebook.themes, ...proposed.values()];
+}
+
 async function discoverThemes(documentId: string, options: any) {
   await initDebug(options.debug);
   
@@ -34,6 +104,18 @@ async function discoverThemes(documentId: string, options: any) {
   console.log(`🔍 Discovering themes for document ${documentId}`);
   console.log(`   Using model: ${effectiveModel}`);
   
+  let codebook: Codebook | undefined;
+  if (options.codebook) {
+    try {
+      codebook = await loadCodebook(options.codebook);
+    } catch (error) {
+      console.error(`❌ ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+    const topLevel = codebook.themes.filter(t => t.level === 1).length;
+    console.log(`📖 Codebook: ${topLevel} fixed top-level themes from ${options.codebook} (Other bucket: ${codebook.otherCode})`);
+  }
+  
   // Check if themes already exist
   const existingThemes = db.prepare("SELECT COUNT(*) as count FROM theme_hierarchy").get() as { count: number };
   if (existingThemes.count > 0) {
@@ -127,71 +209,99 @@ async function discoverThemes(documentId: string, options: any) {
   // Find the final task (highest level merge or single batch)
   const finalTaskId = tasks[tasks.length - 1].id;
   
-  // Process using TaskQueue
-  const concurrency = options.concurrency || taskConfig.concurrency;
-  console.log(`\n🚀 Processing with concurrency ${concurrency}`);
-  
-  const taskQueue = new TaskQueue(tasks, {
-    concurrency,
-    onTaskStart: (task) => {
-      const queueInfo = `${taskQueue['running'].size}/${concurrency} workers`;
-      console.log(`   🚀 [${task.id}] Starting (${queueInfo} active)`);
-    },
-    onTaskComplete: (task) => {
-      const progress = `${taskQueue.getCompleted().size}/${totalTasks}`;
-      console.log(`   ✅ [${task.id}] Completed (${progress} total)`);
-    },
-    onTaskError: (task, error) => {
-      console.error(`   ❌ [${task.id}] Failed:`, error);
-    },
-    onQueueUpdate: (queueSize, runningSize, completedSize) => {
-      if (queueSize > 0) {
-        console.log(`   📋 Queue update: ${queueSize} ready, ${runningSize} running, ${completedSize} completed`);
+  // Batch and merge results are checkpointed, so an interrupted run resumes mid-merge as long
+  // as the batches, merge shape, model and prompts are the same
+  const promptHash = codebook
+    ? promptTemplateHash(CODEBOOK_DISCOVERY_PROMPT, CODEBOOK_MERGE_PROMPT, codebook.text)
+    : promptTemplateHash(THEME_DISCOVERY_PROMPT, THEME_MERGE_PROMPT);
+  const checkpoints = new TaskCheckpoints<string>(db, 'discover-themes', inputHash(
+    effectiveModel,
+    promptHash,
+    String(mergeWidth),
+    JSON.stringify(batches.map(b => b.items.map((c: any) => [c.id, c.structuredSections])))
+  ));
+  
+  const run = beginRun(db, 'discover-themes', options);
+  try {
+    // Process using TaskQueue
+    const concurrency = options.concurrency || taskConfig.concurrency;
+    console.log(`\n🚀 Processing with concurrency ${concurrency}`);
+  
+    const taskQueue = new TaskQueue(tasks, {
+      concurrency,
+      checkpoints,
+      label: 'batches and merges',
+      onTaskStart: (task) => {
+        const queueInfo = `${taskQueue['running'].size}/${concurrency} workers`;
+        console.log(`   🚀 [${task.id}] Starting (${queueInfo} active)`);
+      },
+      onTaskComplete: (task) => {
+        const progress = `${taskQueue.getCompleted().size}/${totalTasks}`;
+        console.log(`   ✅ [${task.id}] Completed (${progress} total)`);
+      },
+      onTaskError: (task, error) => {
+        console.error(`   ❌ [${task.id}] Failed:`, error);
+      },
+      onQueueUpdate: (queueSize, runningSize, completedSize) => {
+        if (queueSize > 0) {
+          console.log(`   📋 Queue update: ${queueSize} ready, ${runningSize} running, ${completedSize} completed`);
+        }
       }
-    }
-  });
+    });
   
-  const results = await taskQueue.process(async (task, getResult) => {
-    // Determine task type and process accordingly
-    if (task.id.startsWith('batch_')) {
-      return processBatch(task, ai, options.debug);
-    } else {
-      // Merge task - handle N-way merges
-      const inputResults = task.data.inputs.map((id: string) => {
-        const result = getResult(id);
-        if (!result) {
-          throw new Error(`Missing dependency ${id} for ${task.id}`);
-        }
-        return result;
-      });
+    const results = await taskQueue.process(async (task, getResult) => {
+      // Determine task type and process accordingly
+      if (task.id.startsWith('batch_')) {
+        return processBatch(task, ai, options.debug, codebook);
+      } else {
+        // Merge task - handle N-way merges
+        const inputResults = task.data.inputs.map((id: string) => {
+          const result = getResult(id);
+          if (!result) {
+            throw new Error(`Missing dependency ${id} for ${task.id}`);
+          }
+          return result;
+        });
       
-      return processMerge(task, inputResults, ai, options.debug);
+        return processMerge(task, inputResults, ai, options.debug, codebook);
+      }
+    });
+  
+    // Get final result
+    const finalThemesText = results.get(finalTaskId);
+    if (!finalThemesText) {
+      throw new Error("Failed to get final result");
     }
-  });
   
-  // Get final result
-  const finalThemesText = results.get(finalTaskId);
-  if (!finalThemesText) {
-    throw new Error("Failed to get final result");
+    // Save theme hierarchy
+    console.log("\n💾 Saving theme hierarchy...");
+    saveThemeHierarchy(db, finalThemesText, {
+      runId: run.runId,
+      model: effectiveModel,
+      promptHash
+    }, codebook);
+    checkpoints.clear();
+  
+    // Summary
+    const themeCount = db.prepare("SELECT COUNT(*) as count FROM theme_hierarchy").get() as { count: number };
+  
+    console.log("\n✅ Theme discovery complete!");
+    console.log(`   Themes: ${themeCount.count}`);
+  
+    endRun(db, run, 'completed');
+  } catch (error) {
+    endRun(db, run, 'failed');
+    throw error;
+  } finally {
+    db.close();
   }
-  
-  // Save theme hierarchy
-  console.log("\n💾 Saving theme hierarchy...");
-  saveThemeHierarchy(db, finalThemesText);
-  
-  // Summary
-  const themeCount = db.prepare("SELECT COUNT(*) as count FROM theme_hierarchy").get() as { count: number };
-  
-  console.log("\n✅ Theme discovery complete!");
-  console.log(`   Themes: ${themeCount.count}`);
-  
-  db.close();
 }
 
 async function processBatch(
   task: Task,
   ai: AIClient,
-  debug: boolean
+  debug: boolean,
+  codebook?: Codebook
 ): Promise<string> {
   const batch = task.data;
   console.log(`   🔄 [${task.id}] Processing batch (${batch.items.length} comments, ${batch.wordCount} words)`);
@@ -239,7 +349,9 @@ async function processBatch(
     return content;
   }).join("\n\n");
   
-  const prompt = THEME_DISCOVERY_PROMPT.replace("{COMMENTS}", commentBlocks);
+  const prompt = codebook
+    ? fillCodebook(CODEBOOK_DISCOVERY_PROMPT, codebook).replace("{COMMENTS}", commentBlocks)
+    : THEME_DISCOVERY_PROMPT.replace("{COMMENTS}", commentBlocks);
   
   // Generate themes with caching
   const response = await ai.generateContent(
@@ -264,7 +376,8 @@ async function processMerge(
   task: Task,
   inputContents: string[],
   ai: AIClient,
-  debug: boolean
+  debug: boolean,
+  codebook?: Codebook
 ): Promise<string> {
   console.log(`   🔄 [${task.id}] Merging ${task.data.inputs.join(' + ')}`);
   
@@ -273,7 +386,9 @@ async function processMerge(
     `--- INPUT TAXONOMY ${i + 1} ---\n${content}\n--- END OF INPUT TAXONOMY ${i + 1} ---`
   ).join('\n\n');
   
-  const prompt = THEME_MERGE_PROMPT.replace("{TAXONOMIES}", taxonomySections);
+  const prompt = codebook
+    ? fillCodebook(CODEBOOK_MERGE_PROMPT, codebook).replace("{TAXONOMIES}", taxonomySections)
+    : THEME_MERGE_PROMPT.replace("{TAXONOMIES}", taxonomySections);
   
   // Extract level from task id (e.g., "merge_L1_P0" -> level 1)
   const levelMatch = task.id.match(/_L(\d+)_/);
@@ -297,13 +412,18 @@ async function processMerge(
   return response.trim();
 }
 
+function fillCodebook(template: string, codebook: Codebook): string {
+  return template.replace("{CODEBOOK}", codebook.text).replaceAll("{OTHER_CODE}", codebook.otherCode);
+}
+
 // Save theme hierarchy to database
-function saveThemeHierarchy(db: Database, themesText: string) {
-  const themes = parseThemeHierarchy(themesText);
+function saveThemeHierarchy(db: Database, themesText: string, provenance: Provenance, codebook?: Codebook) {
+  const parsed = parseThemeHierarchy(themesText);
+  const themes = codebook ? applyCodebook(parsed, codebook) : parsed;
   
   const insertTheme = db.prepare(`
-    INSERT INTO theme_hierarchy (code, description, level, parent_code, detailed_guidelines)
-    VALUES (?, ?, ?, ?, ?)
+    INSERT INTO theme_hierarchy (code, description, level, parent_code, detailed_guidelines, run_id, model, prompt_hash)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
   `);
   
   withTransaction(db, () => {
@@ -313,7 +433,10 @@ function saveThemeHierarchy(db: Database, themesText: string) {
         theme.description,
         theme.level,
         theme.parent_code,
-        theme.detailed_guidelines || null
+        theme.detailed_guidelines || null,
+        provenance.runId,
+        provenance.model,
+        provenance.promptHash
       );
     }
   });
@@ -0,0 +1,258 @@
+import { Command } from "commander";
+import type { Database } from "bun:sqlite";
+import { mkdir, writeFile } from "fs/promises";
+import { dirname } from "path";
+import { $ } from "bun";
+import { openDb } from "../lib/database";
+import { initDebug } from "../lib/debug";
+import { AIClient } from "../lib/ai-client";
+import { runPool } from "../lib/worker-pool";
+import { getTaskConfig, getTaskModel } from "../lib/batch-config";
+import { BudgetExceededError, CostEstimator, setSpendLimit } from "../lib/budget";
+import { CancelledError } from "../lib/cancellation";
+import { reportItemFailure } from "../lib/progress";
+import { buildResponseDraftPrompt } from "../prompts/response-draft";
+import { RESPONSE_DRAFT_SCHEMA } from "../prompts/schemas";
+
+export const draftResponsesCommand = new Command("draft-responses")
+  .description("Draft a response-to-comments document (Comment / Response sections) from the theme summaries")
+  .argument("<document-id>", "Document ID (e.g., CMS-2025-0050-0031)")
+  .option("-o, --output <file>", "Markdown output file (default: dist/responses/<document-id>.md)")
+  .option("--themes <codes>", "Comma-separated list of theme codes to draft (default: all summarized themes)")
+  .option("--citations <n>", "Representative commenters cited per issue (default: 5)", parseInt)
+  .option("--no-docx", "Skip the DOCX copy (written with pandoc)")
+  .option("-d, --debug", "Enable debug output")
+  .option("-c, --concurrency <n>", "Number of parallel API calls (default: 3)", parseInt)
+  .option("-m, --model <model>", "AI model to use (overrides config)")
+  .option("--dry-run", "Estimate prompts, tokens and cost without calling the model")
+  .option("--max-cost <usd>", "Abort once estimated spend exceeds this many USD", parseFloat)
+  .action(draftResponses);
+
+interface SummaryPoint {
+  key: string;
+  text: string;
+  commentIds: string[];
+}
+
+interface DraftIssue {
+  heading: string;
+  comment: string;
+  sources: string[];
+}
+
+interface ThemeDraft {
+  code: string;
+  label: string;
+  issues: DraftIssue[];
+}
+
+// "Label. Longer description" or "Label: description" -> "Label"
+function themeLabel(description: string): string {
+  const match = description.match(/^(.{3,100}?)(?::\s|\.\s)/);
+  return (match ? match[1] : description).trim();
+}
+
+function ids(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((id): id is string => typeof id === "string") : [];
+}
+
+// The parts of a theme summary an agency responds to, each under a key the draft cites:
+// consensus points (C), debates (D, with positions D1a, D1b), concerns (M) and recommendations (R)
+export function summaryPoints(sections: any): SummaryPoint[] {
+  const points: SummaryPoint[] = [];
+
+  (sections.consensusPoints || []).forEach((p: any, i: number) => {
+    const support = p.supportLevel ? ` (${p.supportLevel})` : "";
+    const exception = p.exceptions?.text ? ` Exception: ${p.exceptions.text}` : "";
+    points.push({ key: `C${i + 1}`, text: `${p.text}${support}${exception}`, commentIds: [...ids(p.commentIds), ...ids(p.exceptions?.commentIds)] });
+  });
+
+  (sections.areasOfDebate || []).forEach((d: any, i: number) => {
+    const positions: SummaryPoint[] = (d.positions || []).map((p: any, j: number) => {
+      const support = p.supportLevel ? ` (${p.supportLevel})` : "";
+      const args = p.keyArguments?.length ? ` Arguments: ${p.keyArguments.join("; ")}` : "";
+      return { key: `D${i + 1}${String.fromCharCode(97 + j)}`, text: `${p.label}${support}: ${p.stance}${args}`, commentIds: ids(p.commentIds) };
+    });
+    points.push({ key: `D${i + 1}`, text: `${d.topic}: ${d.description}`, commentIds: [...new Set(positions.flatMap(p => p.commentIds))] });
+    points.push(...positions);
+  });
+
+  (sections.majorConcerns || []).forEach((c: any, i: number) => {
+    const evidence = c.evidence ? ` Evidence: ${c.evidence}` : "";
+    points.push({ key: `M${i + 1}`, text: `${c.concern} (raised by ${c.raisedBy || "commenters"})${evidence}`, commentIds: ids(c.commentIds) });
+  });
+
+  (sections.keyRecommendations || []).forEach((r: any, i: number) => {
+    const support = r.supportLevel ? ` (${r.supportLevel})` : "";
+    const approach = r.approach ? `${r.approach}: ` : "";
+    points.push({ key: `R${i + 1}`, text: `${approach}${r.recommendation}${support}`, commentIds: ids(r.commentIds) });
+  });
+
+  return points;
+}
+
+export function formatPoints(points: SummaryPoint[]): string {
+  return points
+    .map(p => `${/[a-z]$/.test(p.key) ? "  " : ""}[${p.key}] ${p.text} (${p.commentIds.length} comments)`)
+    .join("\n");
+}
+
+function getSubmitters(db: Database): Map<string, { name: string; isOrganization: boolean }> {
+  const rows = db.prepare("SELECT id, attributes_json FROM comments WHERE withdrawn = 0").all() as { id: string; attributes_json: string }[];
+  return new Map(rows.map(row => {
+    const attrs = JSON.parse(row.attributes_json);
+    const name = attrs.organization || `${attrs.firstName || ""} ${attrs.lastName || ""}`.trim() || "Anonymous";
+    return [row.id, { name, isOrganization: !!attrs.organization }];
+  }));
+}
+
+// Organizations first, as agencies usually cite them, then individuals in comment order
+function citeCommenters(commentIds: string[], submitters: Map<string, { name: string; isOrganization: boolean }>, limit: number): string {
+  const cited = [...commentIds]
+    .sort((a, b) => Number(submitters.get(b)!.isOrganization) - Number(submitters.get(a)!.isOrganization) || a.localeCompare(b));
+  const listed = cited.slice(0, limit).map(id => `${submitters.get(id)!.name} (${id})`);
+  const more = cited.length - listed.length;
+  return listed.join("; ") + (more > 0 ? `; and ${more} more` : "");
+}
+
+function renderMarkdown(
+  meta: { title: string; docketId: string; model: string },
+  drafts: ThemeDraft[],
+  pointsByTheme: Map<string, SummaryPoint[]>,
+  submitters: Map<string, { name: string; isOrganization: boolean }>,
+  citationLimit: number
+): string {
+  const lines = [
+    `# Summary of Public Comments and Responses`,
+    "",
+    meta.title === meta.docketId ? `**${meta.docketId}**` : `**${meta.title}** (${meta.docketId})`,
+    "",
+    `_Draft generated ${new Date().toISOString().split("T")[0]} from the theme summaries with ${meta.model}. Comment summaries should be checked against the cited comments; responses are for agency staff to write._`,
+    "",
+  ];
+
+  for (const draft of drafts) {
+    const points = new Map((pointsByTheme.get(draft.code) || []).map(p => [p.key, p]));
+    lines.push(`## ${draft.code} ${draft.label}`, "");
+
+    for (const issue of draft.issues) {
+      // Withdrawn comments, and IDs the summary got wrong, are left out of the citations
+      const commentIds = [...new Set(issue.sources.flatMap(key => points.get(key)?.commentIds || []))].filter(id => submitters.has(id));
+      lines.push(`### ${issue.heading}`, "");
+      lines.push(`**Comment:** ${issue.comment}`, "");
+      if (commentIds.length > 0) {
+        lines.push(`_Representative comments (${commentIds.length} total): ${citeCommenters(commentIds, submitters, citationLimit)}._`, "");
+      }
+      lines.push(`**Response:** _[Agency response to be drafted.]_`, "");
+    }
+  }
+
+  return lines.join("\n");
+}
+
+async function draftResponses(documentId: string, options: any) {
+  await initDebug(options.debug);
+
+  const db = openDb(documentId);
+  const effectiveModel = getTaskModel('summarizeThemes', options.model);
+  const ai = new AIClient(effectiveModel, db);
+
+  try {
+    let summaries = db.prepare(`
+      SELECT ts.theme_code, ts.structured_sections, th.description
+      FROM theme_summaries ts
+      JOIN theme_hierarchy th ON ts.theme_code = th.code
+    `).all() as { theme_code: string; structured_sections: string; description: string }[];
+    if (summaries.length === 0) {
+      console.log("⏭️  No theme summaries yet, skipping (run summarize-themes-v2 first)");
+      return;
+    }
+    if (options.themes) {
+      const wanted = new Set(options.themes.split(',').map((c: string) => c.trim()));
+      summaries = summaries.filter(s => wanted.has(s.theme_code));
+    }
+    summaries.sort((a, b) => a.theme_code.localeCompare(b.theme_code, undefined, { numeric: true }));
+
+    console.log(`📝 Drafting responses to comments for document ${documentId}`);
+    console.log(`   Using model: ${effectiveModel}`);
+
+    const pending = summaries
+      .map(s => {
+        const points = summaryPoints(JSON.parse(s.structured_sections));
+        const prompt = buildResponseDraftPrompt(`${s.theme_code}: ${s.description}`, formatPoints(points));
+        return { code: s.theme_code, label: themeLabel(s.description), points, prompt };
+      })
+      .filter(p => p.points.length > 0);
+    console.log(`🎯 ${pending.length} themes with points to draft`);
+
+    if (options.dryRun) {
+      const estimator = new CostEstimator(db);
+      for (const { prompt } of pending) estimator.addPrompt(effectiveModel, 'response_draft', prompt);
+      estimator.print();
+      return;
+    }
+
+    setSpendLimit(options.maxCost);
+
+    const concurrency = options.concurrency || getTaskConfig('summarizeThemes', effectiveModel).concurrency || 3;
+    const drafts = new Map<string, ThemeDraft>();
+
+    await runPool(pending, concurrency, async ({ code, label, points, prompt }, index, total) => {
+      console.log(`\n[${index}/${total}] Theme ${code}: ${points.length} points`);
+
+      try {
+        const result = await ai.generateContent(
+          prompt,
+          options.debug ? `response_draft_${code}` : undefined,
+          undefined,
+          {
+            taskType: 'response_draft',
+            taskLevel: 0,
+            params: { themeCode: code, pointCount: points.length }
+          },
+          RESPONSE_DRAFT_SCHEMA
+        );
+
+        const keys = new Set(points.map(p => p.key));
+        const issues = (result?.issues || [])
+          .filter(issue => issue?.heading && issue?.comment)
+          .map(issue => ({ ...issue, sources: ids(issue.sources).filter(key => keys.has(key)) }));
+        drafts.set(code, { code, label, issues });
+        console.log(`   ✅ ${issues.length} issues drafted`);
+      } catch (error) {
+        if (error instanceof BudgetExceededError || error instanceof CancelledError) throw error;
+        console.error(`   ❌ Error:`, error);
+        reportItemFailure("themes", code, error);
+      }
+    }, { label: "themes", itemId: ({ code }) => code });
+
+    const docMeta = db.prepare("SELECT docket_id, title FROM document_metadata LIMIT 1").get() as { docket_id?: string; title?: string } | null;
+    const ordered = pending.map(p => drafts.get(p.code)).filter((d): d is ThemeDraft => !!d);
+    const markdown = renderMarkdown(
+      { title: docMeta?.title || documentId, docketId: docMeta?.docket_id || documentId, model: effectiveModel },
+      ordered,
+      new Map(pending.map(p => [p.code, p.points])),
+      getSubmitters(db),
+      options.citations || 5
+    );
+
+    const output = options.output || `dist/responses/${documentId}.md`;
+    await mkdir(dirname(output), { recursive: true });
+    await writeFile(output, markdown);
+    console.log(`\n✅ Drafted ${ordered.length} of ${pending.length} themes to ${output}`);
+
+    if (options.docx) {
+      const docx = output.replace(/\.(md|markdown)$/i, "") + ".docx";
+      try {
+        await $`pandoc ${output} -f markdown -t docx -o ${docx}`.quiet();
+        console.log(`✅ Wrote ${docx}`);
+      } catch (error) {
+        // The Markdown draft is complete, so finish normally (closing the database) but exit non-zero
+        console.error(`❌ Could not write ${docx} with pandoc (is it installed? pass --no-docx to skip it); the Markdown draft is complete`);
+        process.exitCode = 1;
+      }
+    }
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,61 @@
+import { Command } from "commander";
+import { openDb } from "../lib/database";
+import { initDebug } from "../lib/debug";
+import { getTaskModel } from "../lib/batch-config";
+import { getEmbeddingProvider } from "../lib/embedding-providers";
+import { embedMissing, loadEmbeddingTexts } from "../lib/embeddings";
+import { setSpendLimit } from "../lib/budget";
+
+export const embedCommand = new Command("embed")
+  .description("Compute embeddings of transcriptions and condensed comments for similarity search")
+  .argument("<document-id>", "Document ID (e.g., CMS-2025-0050-0031)")
+  .option("-s, --source <source>", "Text to embed: transcription|condensed|all", "all")
+  .option("-m, --model <model>", "Embedding model to use (overrides batch-config)")
+  .option("-l, --limit <n>", "Embed at most N comments per source", parseInt)
+  .option("--force", "Re-embed comments whose text has not changed")
+  .option("--max-cost <usd>", "Abort once estimated spend exceeds this many USD", parseFloat)
+  .option("-d, --debug", "Enable debug output")
+  .action(embedComments);
+
+// Raw "content" embeddings are made by cluster-comments-fast --method semantic
+const EMBED_SOURCES = ["transcription", "condensed"] as const;
+
+async function embedComments(documentId: string, options: any) {
+  await initDebug(options.debug);
+
+  const sources = options.source === "all" ? [...EMBED_SOURCES] : [options.source];
+  if (!sources.every(s => (EMBED_SOURCES as readonly string[]).includes(s))) {
+    console.log(`❌ Unknown source "${options.source}" (expected transcription, condensed or all)`);
+    return;
+  }
+
+  setSpendLimit(options.maxCost);
+
+  const db = openDb(documentId);
+  const model = getTaskModel("embed", options.model);
+  const provider = getEmbeddingProvider(model, db);
+
+  console.log(`🧮 Embedding comments for ${documentId}`);
+  console.log(`   Using model: ${model}`);
+
+  try {
+    for (const source of sources as (typeof EMBED_SOURCES)[number][]) {
+      console.log();
+      await embedMissing(db, loadEmbeddingTexts(db, source), source, model, provider, {
+        force: options.force,
+        limit: options.limit,
+      });
+    }
+
+    const stored = db.prepare(`
+      SELECT source, COUNT(*) as count, MAX(dimensions) as dimensions
+      FROM comment_embeddings WHERE model = ? GROUP BY source
+    `).all(model) as { source: string; count: number; dimensions: number }[];
+    console.log(`\n✅ Embeddings stored for ${model}:`);
+    for (const row of stored) {
+      console.log(`   ${row.source}: ${row.count} comments (${row.dimensions} dimensions)`);
+    }
+  } finally {
+    db.close();
+  }
+}
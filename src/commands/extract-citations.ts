@@ -0,0 +1,78 @@
+import { Command } from "commander";
+import { openDb, withTransaction } from "../lib/database";
+import { findCitations, cfrTitlesByPart, resolveCfrTitle, type FoundCitation } from "../lib/citations";
+import { htmlToText } from "../lib/rule-text";
+
+export const extractCitationsCommand = new Command("extract-citations")
+  .description("Find CFR, Federal Register, statute, docket and RIN citations in comments and their attachments")
+  .argument("<document-id>", "Document ID (e.g., CMS-2025-0050-0031)")
+  .action(extractCitations);
+
+const KIND_LABELS: Record<FoundCitation["kind"], string> = {
+  cfr: "CFR sections",
+  fr: "Federal Register pages",
+  statute: "Statutes",
+  docket: "Dockets",
+  rin: "RINs",
+};
+
+async function extractCitations(documentId: string) {
+  const db = openDb(documentId);
+
+  try {
+    console.log("📚 Extracting regulatory citations...");
+    const comments = db.prepare(`
+      SELECT c.id, json_extract(c.attributes_json, '$.comment') as comment, t.markdown
+      FROM comments c
+      LEFT JOIN transcriptions t ON t.comment_id = c.id AND t.status = 'completed'
+      WHERE c.withdrawn = 0
+    `).all() as { id: string; comment: string | null; markdown: string | null }[];
+
+    const texts = comments.map(c => ({
+      id: c.id,
+      text: [htmlToText(c.comment || ""), c.markdown || ""].join("\n"),
+    }));
+
+    // "§ 170.315" gets its CFR title from wherever part 170 is cited with one: the loaded rule or other comments
+    const rule = db.prepare("SELECT group_concat(text, char(10)) as text FROM rule_sections").get() as { text: string | null };
+    const titles = cfrTitlesByPart([rule.text || "", ...texts.map(t => t.text)].join("\n"));
+
+    const rows: { commentId: string; kind: string; key: string; variants: string[] }[] = [];
+    for (const { id, text } of texts) {
+      const byKey = new Map<string, { kind: string; variants: Set<string> }>();
+      const citations = findCitations(text).map(c => resolveCfrTitle(c, titles)).filter((c): c is FoundCitation => c !== null);
+      for (const citation of citations) {
+        const entry = byKey.get(citation.key) || { kind: citation.kind, variants: new Set<string>() };
+        entry.variants.add(citation.text);
+        byKey.set(citation.key, entry);
+      }
+      for (const [key, { kind, variants }] of byKey) {
+        rows.push({ commentId: id, kind, key, variants: [...variants] });
+      }
+    }
+
+    withTransaction(db, () => {
+      db.prepare("DELETE FROM comment_citations").run();
+      const insert = db.prepare(`
+        INSERT INTO comment_citations (comment_id, kind, citation_key, variants) VALUES (?, ?, ?, ?)
+      `);
+      for (const row of rows) insert.run(row.commentId, row.kind, row.key, JSON.stringify(row.variants));
+    });
+
+    const citingComments = new Set(rows.map(r => r.commentId)).size;
+    console.log(`✅ ${citingComments} of ${comments.length} comments cite ${new Set(rows.map(r => r.key)).size} distinct references (${rows.length} citations)`);
+
+    const byKind = new Map<string, Map<string, number>>();
+    for (const row of rows) {
+      const counts = byKind.get(row.kind) || new Map<string, number>();
+      counts.set(row.key, (counts.get(row.key) || 0) + 1);
+      byKind.set(row.kind, counts);
+    }
+    for (const [kind, counts] of byKind) {
+      const top = [...counts].sort((a, b) => b[1] - a[1]).slice(0, 3).map(([key, n]) => `${key} (${n})`);
+      console.log(`   ${KIND_LABELS[kind as FoundCitation["kind"]]}: ${counts.size} cited, e.g. ${top.join(", ")}`);
+    }
+  } finally {
+    db.close();
+  }
+}
@@ -1,15 +1,20 @@
 import { Command } from "commander";
+import type { Database } from "bun:sqlite";
 import { openDb, withTransaction } from "../lib/database";
 import { initDebug } from "../lib/debug";
 import { AIClient } from "../lib/ai-client";
 import { checkClusteringStatus } from "../lib/comment-processing";
 import { buildBatchedThemeExtractPrompt } from "../prompts/theme-extract";
-import { parseJsonResponse } from "../lib/json-parser";
 import { runPool } from "../lib/worker-pool";
 import { getTaskConfig, getTaskModel } from "../lib/batch-config";
-import { generateWithGemini3FlashWithMetadata, type UsageMetadata } from "../lib/llm-providers";
-import { createHash } from "crypto";
-import { debugSave } from "../lib/debug";
+import { estimateCost } from "../lib/usage-ledger";
+import { BudgetExceededError, CostEstimator, setSpendLimit } from "../lib/budget";
+import { CancelledError } from "../lib/cancellation";
+import { reportItemFailure } from "../lib/progress";
+import { loadExtractInputs, loadThemeGroups, memberAdditionsHash, pendingThemeGroups, type ThemeGroup } from "../lib/staleness";
+import { beginRun, endRun, promptTemplateHash, type Provenance } from "../lib/provenance";
+import { OutputValidationError } from "../lib/output-schema";
+import { THEME_EXTRACT_SCHEMA } from "../prompts/schemas";
 
 export const extractThemeContentCommand = new Command("extract-theme-content")
   .description("Extract theme-specific content from individual comments")
@@ -17,9 +22,12 @@ export const extractThemeContentCommand = new Command("extract-theme-content")
   .option("-l, --limit <n>", "Process only N comments", parseInt)
   .option("--retry-failed", "Retry previously failed extractions")
   .option("--use-clustering", "Only extract from representative comments, include cluster sizes")
+  .option("--min-addition-words <n>", "With --use-clustering, also extract form-letter members that added at least N words of their own (default: 20)", parseInt)
   .option("-d, --debug", "Enable debug output")
   .option("-c, --concurrency <n>", "Number of parallel API calls (default: 5)", parseInt)
   .option("-m, --model <model>", "AI model to use (overrides config)")
+  .option("--dry-run", "Estimate prompts, tokens and cost without calling the model")
+  .option("--max-cost <usd>", "Abort once estimated spend exceeds this many USD", parseFloat)
   .action(extractThemeContent);
 
 // Helper function to check if a text item should be filtered
@@ -50,7 +58,7 @@ function shouldFilterText(text: string): boolean {
 }
 
 // Helper function to clean extract by removing weak sections
-function cleanExtract(extract: any): any {
+export function cleanExtract(extract: any): any {
   const cleaned = {
     relevance: extract.relevance,
     extract: {} as Record<string, any>
@@ -86,50 +94,55 @@ function cleanExtract(extract: any): any {
   return hasContent ? cleaned : null;
 }
 
-// Group themes by top-level parent (e.g., "3.1" -> "3", "3.1.2" -> "3")
-interface ThemeGroup {
-  parentCode: string;
-  themes: { code: string; description: string; detailed_guidelines?: string }[];
-  hierarchyText: string;
+// Cache monitoring aggregator
+interface CacheStats {
+  totalCalls: number;
+  totalPromptTokens: number;
+  totalCachedTokens: number;
+  totalOutputTokens: number;
 }
 
-function groupThemesByTopLevel(themes: { code: string; description: string; detailed_guidelines?: string }[]): ThemeGroup[] {
-  const groups = new Map<string, ThemeGroup>();
+// Comment text sent with every theme group: commenter identity + full transcription
+export function buildCommentText(comment: { structured_sections: string; markdown: string | null }): string {
+  const sections = JSON.parse(comment.structured_sections || '{}');
+  let commentText = '';
 
-  for (const theme of themes) {
-    const parentCode = theme.code.split('.')[0];
-
-    if (!groups.has(parentCode)) {
-      groups.set(parentCode, {
-        parentCode,
-        themes: [],
-        hierarchyText: ''
-      });
-    }
-    groups.get(parentCode)!.themes.push(theme);
+  if (sections.commenterProfile) {
+    commentText += `## Commenter Profile\n${sections.commenterProfile}\n\n`;
   }
-
-  // Build hierarchy text for each group
-  for (const group of groups.values()) {
-    group.hierarchyText = group.themes.map(t => {
-      const fullDesc = t.detailed_guidelines
-        ? `${t.description}. ${t.detailed_guidelines}`
-        : t.description;
-      return `${t.code}: ${fullDesc}`;
-    }).join("\n");
+  if (sections.oneLineSummary) {
+    commentText += `## Comment Overview\n${sections.oneLineSummary}\n\n`;
   }
 
-  return Array.from(groups.values()).sort((a, b) =>
-    parseInt(a.parentCode) - parseInt(b.parentCode)
-  );
+  commentText += `## Full Comment\n${comment.markdown || JSON.stringify(sections)}`;
+  return commentText;
 }
 
-// Cache monitoring aggregator
-interface CacheStats {
-  totalCalls: number;
-  totalPromptTokens: number;
-  totalCachedTokens: number;
-  totalOutputTokens: number;
+// Form-letter members skipped by --use-clustering, shown with only the passages they added
+function loadMemberAdditions(db: Database, minWords: number) {
+  const rows = db.prepare(`
+    SELECT
+      cma.comment_id,
+      cma.additions_json,
+      cma.representative_comment_id,
+      ccl.cluster_size,
+      c.content_hash
+    FROM cluster_member_additions cma
+    INNER JOIN comment_clusters ccl ON cma.cluster_id = ccl.cluster_id
+    INNER JOIN comments c ON cma.comment_id = c.id
+    WHERE cma.added_word_count >= ?
+    ORDER BY cma.comment_id
+  `).all(minWords) as { comment_id: string; additions_json: string; representative_comment_id: string; cluster_size: number; content_hash: string | null }[];
+
+  return rows.map(row => ({
+    comment_id: row.comment_id,
+    structured_sections: '{}',
+    markdown: `This commenter sent a form letter shared by ${row.cluster_size} comments. The form letter is analyzed separately; below are only the passages this commenter added to it.\n\n` +
+      (JSON.parse(row.additions_json) as string[]).join('\n\n'),
+    // The representative's cluster_size already counts this comment
+    cluster_size: 0,
+    content_hash: memberAdditionsHash(row.content_hash, row.representative_comment_id, row.additions_json),
+  }));
 }
 
 async function extractThemeContent(documentId: string, options: any) {
@@ -155,23 +168,18 @@ async function extractThemeContent(documentId: string, options: any) {
     console.log("🔗 Using stored clustering to process only representative comments");
   }
 
-  // Load theme hierarchy
-  const themes = db.prepare(`
-    SELECT code, description, detailed_guidelines
-    FROM theme_hierarchy
-    ORDER BY code
-  `).all() as { code: string; description: string; detailed_guidelines?: string }[];
+  // Load theme hierarchy, grouped by top-level parent
+  const themeGroups = loadThemeGroups(db);
 
-  if (themes.length === 0) {
+  if (themeGroups.length === 0) {
     console.log("❌ No theme hierarchy found. Run 'discover-themes' first.");
     return;
   }
 
-  // Group themes by top-level parent
-  const themeGroups = groupThemesByTopLevel(themes);
-  console.log(`📊 Loaded ${themes.length} themes in ${themeGroups.length} top-level groups: ${themeGroups.map(g => `${g.parentCode}(${g.themes.length})`).join(', ')}`);
+  const themeCount = themeGroups.reduce((sum, g) => sum + g.themes.length, 0);
+  console.log(`📊 Loaded ${themeCount} themes in ${themeGroups.length} top-level groups: ${themeGroups.map(g => `${g.parentCode}(${g.themes.length})`).join(', ')}`);
 
-  // Get comments that have been condensed but not yet extracted
+  // Get condensed comments; which theme groups each still needs is decided below
   let query: string;
 
   if (options.useClustering) {
@@ -180,18 +188,15 @@ async function extractThemeContent(documentId: string, options: any) {
         cc.comment_id,
         cc.structured_sections,
         t.markdown,
-        ccl.cluster_size
+        ccl.cluster_size,
+        c.content_hash
       FROM condensed_comments cc
+      INNER JOIN comments c ON cc.comment_id = c.id
       INNER JOIN comment_cluster_membership ccm ON cc.comment_id = ccm.comment_id
       INNER JOIN comment_clusters ccl ON ccm.cluster_id = ccl.cluster_id
       LEFT JOIN transcriptions t ON cc.comment_id = t.comment_id AND t.status = 'completed'
-      LEFT JOIN (
-        SELECT DISTINCT comment_id
-        FROM comment_theme_extracts
-      ) cte ON cc.comment_id = cte.comment_id
       WHERE cc.status = 'completed'
         AND ccm.is_representative = 1
-        AND cte.comment_id IS NULL  -- Not yet extracted
       ORDER BY cc.comment_id
     `;
   } else {
@@ -200,39 +205,73 @@ async function extractThemeContent(documentId: string, options: any) {
         cc.comment_id,
         cc.structured_sections,
         t.markdown,
-        1 as cluster_size
+        1 as cluster_size,
+        c.content_hash
       FROM condensed_comments cc
+      INNER JOIN comments c ON cc.comment_id = c.id
       LEFT JOIN transcriptions t ON cc.comment_id = t.comment_id AND t.status = 'completed'
-      LEFT JOIN (
-        SELECT DISTINCT comment_id
-        FROM comment_theme_extracts
-      ) cte ON cc.comment_id = cte.comment_id
       WHERE cc.status = 'completed'
-        AND cte.comment_id IS NULL  -- Not yet extracted
       ORDER BY cc.comment_id
     `;
   }
 
-  const params: any[] = [];
-  if (options.limit) {
-    query += " LIMIT ?";
-    params.push(options.limit);
-  }
-
-  const comments = db.prepare(query).all(...params) as {
+  let candidates = db.prepare(query).all() as {
     comment_id: string;
     structured_sections: string;
     markdown: string | null;
     cluster_size: number;
+    content_hash: string | null;
   }[];
 
-  console.log(`🎯 Found ${comments.length} comments to process (${comments.length * themeGroups.length} total API calls)`);
+  // Personal stories inside form letters would otherwise be lost with the skipped members
+  if (options.useClustering) {
+    const additions = loadMemberAdditions(db, options.minAdditionWords ?? 20);
+    if (additions.length > 0) {
+      console.log(`✍️  ${additions.length} form-letter members added text of their own; extracting their additions too`);
+    }
+    candidates = candidates.concat(additions);
+  }
+
+  // Only groups never extracted, or extracted from an older comment or taxonomy, are re-run
+  const recordedInputs = loadExtractInputs(db);
+  const extractedIds = new Set((db.prepare(`
+    SELECT DISTINCT comment_id FROM comment_theme_extracts
+  `).all() as { comment_id: string }[]).map(r => r.comment_id));
+  let comments = candidates
+    .map(comment => ({
+      ...comment,
+      groups: pendingThemeGroups(themeGroups, recordedInputs.get(comment.comment_id), comment.content_hash, extractedIds.has(comment.comment_id))
+    }))
+    .filter(comment => comment.groups.length > 0);
+  const refreshed = comments.filter(c => recordedInputs.has(c.comment_id)).length;
+  if (options.limit) comments = comments.slice(0, options.limit);
+
+  const totalCalls = comments.reduce((sum, c) => sum + c.groups.length, 0);
+  console.log(`🎯 Found ${comments.length} comments to process (${totalCalls} total API calls)`);
+  if (refreshed > 0) {
+    console.log(`♻️  ${refreshed} of them were extracted before and have a changed comment or theme group`);
+  }
 
   if (comments.length === 0) {
     console.log("✅ No comments to process");
     return;
   }
 
+  if (options.dryRun) {
+    const estimator = new CostEstimator(db);
+    for (const comment of comments) {
+      const commentText = buildCommentText(comment);
+      for (const group of comment.groups) {
+        estimator.addPrompt(effectiveModel, 'theme_extract_batch', buildBatchedThemeExtractPrompt(commentText, group.hierarchyText));
+      }
+    }
+    estimator.print();
+    db.close();
+    return;
+  }
+
+  setSpendLimit(options.maxCost);
+
   const taskConfig = getTaskConfig('extractThemeContent', effectiveModel);
   const concurrency = options.concurrency || taskConfig?.concurrency || 5;
 
@@ -248,223 +287,229 @@ async function extractThemeContent(documentId: string, options: any) {
     totalOutputTokens: 0,
   };
 
-  // Prepare DB statements for local llm_cache
-  const checkCache = db.prepare(`SELECT result FROM llm_cache WHERE prompt_hash = ?`);
-  const checkCacheExists = db.prepare(`SELECT 1 FROM llm_cache WHERE prompt_hash = ?`);
-  const insertCache = db.prepare(`
-    INSERT INTO llm_cache (prompt_hash, task_type, task_level, task_params, result, model)
-    VALUES (?, ?, ?, ?, ?, ?)
-  `);
-
-  await runPool(
-    comments,
-    concurrency,
-    async (comment, index, total) => {
-      console.log(`\n[${index + 1}/${total}] Processing comment ${comment.comment_id} (${themeGroups.length} theme groups)`);
-
-      try {
-        // Parse structured sections for commenter profile
-        const sections = JSON.parse(comment.structured_sections || '{}');
-
-        // Build comment text: commenter identity + full transcription
-        let commentText = '';
-
-        if (sections.commenterProfile) {
-          commentText += `## Commenter Profile\n${sections.commenterProfile}\n\n`;
-        }
-        if (sections.oneLineSummary) {
-          commentText += `## Comment Overview\n${sections.oneLineSummary}\n\n`;
-        }
-
-        commentText += `## Full Comment\n${comment.markdown || JSON.stringify(sections)}`;
+  // Extracts and recorded inputs for themes no longer in the taxonomy can't be refreshed
+  const orphaned = db.prepare(`
+    DELETE FROM comment_theme_extracts WHERE theme_code NOT IN (SELECT code FROM theme_hierarchy)
+  `).run().changes;
+  const groupCodes = themeGroups.map(g => g.parentCode);
+  db.prepare(`
+    DELETE FROM theme_extract_inputs WHERE group_code NOT IN (${groupCodes.map(() => '?').join(',')})
+  `).run(...groupCodes);
+  if (orphaned > 0) {
+    console.log(`🗑️  Removed ${orphaned} extracts for themes no longer in the taxonomy`);
+  }
 
-        // Process each theme group sequentially for cache hits
-        const allExtracts: Record<string, any> = {};
-        let commentCachedTokens = 0;
-        let commentPromptTokens = 0;
-        let commentGroupsFromCache = 0;
+  const run = beginRun(db, 'extract-theme-content', options);
+  try {
+    const provenance: Provenance = {
+      runId: run.runId,
+      model: effectiveModel,
+      promptHash: promptTemplateHash(buildBatchedThemeExtractPrompt('{COMMENT}', '{THEME_GROUP}'))
+    };
 
-        for (let gi = 0; gi < themeGroups.length; gi++) {
-          const group = themeGroups[gi];
+    await runPool(
+      comments,
+      concurrency,
+      async (comment, index, total) => {
+        console.log(`\n[${index + 1}/${total}] Processing comment ${comment.comment_id} (${comment.groups.length} theme groups)`);
 
-          // Build the prompt with comment as prefix (cacheable) and theme group as suffix
-          const prompt = buildBatchedThemeExtractPrompt(commentText, group.hierarchyText);
+        try {
+          const commentText = buildCommentText(comment);
 
-          // Check local llm_cache first
-          const promptHash = createHash('sha256').update(prompt).digest('hex');
-          const cached = checkCache.get(promptHash) as { result: string } | undefined;
+          // Process each theme group sequentially for cache hits
+          const allExtracts: Record<string, any> = {};
+          let commentCachedTokens = 0;
+          let commentPromptTokens = 0;
+          let commentGroupsFromCache = 0;
 
-          let rawResult: string;
-          if (cached) {
-            rawResult = cached.result;
-            commentGroupsFromCache++;
-          } else {
-            // Call LLM - use metadata-returning variant for cache monitoring
-            const debugPrefix = options.debug ? `extract_themes_${comment.comment_id}_g${group.parentCode}` : undefined;
-            const streamingOptions = debugPrefix ? { debugFilename: `${debugPrefix}_response.txt` } : undefined;
+          const parsedGroups: ThemeGroup[] = [];
 
-            if (debugPrefix) {
-              await debugSave(`${debugPrefix}_prompt.txt`, prompt);
-            }
+          for (const group of comment.groups) {
 
-            const result = await generateWithGemini3FlashWithMetadata(prompt, streamingOptions);
-            rawResult = result.text;
-
-            // Track cache stats
-            if (result.usageMetadata) {
-              cacheStats.totalCalls++;
-              cacheStats.totalPromptTokens += result.usageMetadata.promptTokenCount;
-              cacheStats.totalCachedTokens += result.usageMetadata.cachedContentTokenCount;
-              cacheStats.totalOutputTokens += result.usageMetadata.candidatesTokenCount;
-              commentCachedTokens += result.usageMetadata.cachedContentTokenCount;
-              commentPromptTokens += result.usageMetadata.promptTokenCount;
-            }
+            // Build the prompt with comment as prefix (cacheable) and theme group as suffix
+            const prompt = buildBatchedThemeExtractPrompt(commentText, group.hierarchyText);
 
-            // Save to local llm_cache
+            const debugPrefix = options.debug ? `extract_themes_${comment.comment_id}_g${group.parentCode}` : undefined;
             try {
-              if (!checkCacheExists.get(promptHash)) {
-                insertCache.run(
-                  promptHash,
-                  'theme_extract_batch',
-                  0,
-                  JSON.stringify({ commentId: comment.comment_id, group: group.parentCode }),
-                  rawResult,
-                  effectiveModel
-                );
-              }
-            } catch (e) {
-              // Ignore cache write errors
+              const extracts = await ai.generateContent(
+                prompt,
+                debugPrefix,
+                `${comment.comment_id} g${group.parentCode}`,
+                { taskType: 'theme_extract_batch', params: { commentId: comment.comment_id, group: group.parentCode } },
+                THEME_EXTRACT_SCHEMA,
+                undefined,
+                ({ cacheHit, usage }) => {
+                  if (cacheHit) commentGroupsFromCache++;
+                  if (!usage) return;
+                  cacheStats.totalCalls++;
+                  cacheStats.totalPromptTokens += usage.promptTokenCount;
+                  cacheStats.totalCachedTokens += usage.cachedContentTokenCount;
+                  cacheStats.totalOutputTokens += usage.candidatesTokenCount;
+                  commentCachedTokens += usage.cachedContentTokenCount;
+                  commentPromptTokens += usage.promptTokenCount;
+                }
+              );
+              Object.assign(allExtracts, extracts);
+              parsedGroups.push(group);
+            } catch (error) {
+              // An invalid response is not cached, so the group is retried next run
+              if (!(error instanceof OutputValidationError)) throw error;
+              console.warn(`  ⚠️  [${comment.comment_id}] Failed to parse group ${group.parentCode}: ${error.problems.slice(0, 3).join('; ')}`);
             }
           }
 
-          // Parse JSON response
-          try {
-            const groupExtracts = parseJsonResponse(rawResult);
-            Object.assign(allExtracts, groupExtracts);
-          } catch (e) {
-            console.warn(`  ⚠️  [${comment.comment_id}] Failed to parse group ${group.parentCode}: ${e}`);
+          // Log per-comment cache stats
+          if (commentPromptTokens > 0) {
+            const cacheRate = (commentCachedTokens / commentPromptTokens * 100).toFixed(0);
+            console.log(`  📊 Cache: ${cacheRate}% of input tokens cached across ${comment.groups.length} calls`);
+          }
+          if (commentGroupsFromCache > 0) {
+            console.log(`  💾 ${commentGroupsFromCache}/${comment.groups.length} groups from local cache`);
           }
-        }
 
-        // Log per-comment cache stats
-        if (commentPromptTokens > 0) {
-          const cacheRate = (commentCachedTokens / commentPromptTokens * 100).toFixed(0);
-          console.log(`  📊 Cache: ${cacheRate}% of input tokens cached across ${themeGroups.length} calls`);
-        }
-        if (commentGroupsFromCache > 0) {
-          console.log(`  💾 ${commentGroupsFromCache}/${themeGroups.length} groups from local cache`);
-        }
+          // Replace the extracts of every group that came back parseable; the others are retried next run
+          const parsedCodes = new Set(parsedGroups.map(g => g.parentCode));
+          withTransaction(db, () => {
+            const deleteGroupStmt = db.prepare(`
+              DELETE FROM comment_theme_extracts
+              WHERE comment_id = ? AND (theme_code = ? OR theme_code LIKE ? || '.%')
+            `);
+            const recordInputStmt = db.prepare(`
+              INSERT OR REPLACE INTO theme_extract_inputs (comment_id, group_code, content_hash, taxonomy_hash)
+              VALUES (?, ?, ?, ?)
+            `);
+            const insertStmt = db.prepare(`
+              INSERT INTO comment_theme_extracts (comment_id, theme_code, extract_json, cluster_size, run_id, model, prompt_hash)
+              VALUES (?, ?, ?, ?, ?, ?, ?)
+            `);
+
+            for (const group of parsedGroups) {
+              deleteGroupStmt.run(comment.comment_id, group.parentCode, group.parentCode);
+              recordInputStmt.run(comment.comment_id, group.parentCode, comment.content_hash, group.taxonomyHash);
+            }
 
-        // Save extracts for each theme (same as before)
-        withTransaction(db, () => {
-          const insertStmt = db.prepare(`
-            INSERT INTO comment_theme_extracts (comment_id, theme_code, extract_json, cluster_size)
-            VALUES (?, ?, ?, ?)
-          `);
-
-          let relevantThemes = 0;
-          let filteredThemes = 0;
-          let cleanedSections = 0;
-
-          for (const [themeCode, extract] of Object.entries(allExtracts)) {
-            // Only save extracts with relevance score 1 (strongest relevance)
-            if (extract.relevance === 1) {
-              // Clean the extract by removing weak sections
-              const cleanedExtract = cleanExtract(extract);
-
-              if (cleanedExtract) {
-                // Count how many sections were filtered
-                const originalSections = Object.values(extract.extract || {})
-                  .filter(arr => Array.isArray(arr))
-                  .reduce((sum: number, arr: any) => sum + arr.length, 0);
-                const remainingSections = Object.values(cleanedExtract.extract || {})
-                  .filter(arr => Array.isArray(arr))
-                  .reduce((sum: number, arr: any) => sum + arr.length, 0);
-
-                if (remainingSections < originalSections) {
-                  cleanedSections += (originalSections - remainingSections);
+            let relevantThemes = 0;
+            let filteredThemes = 0;
+            let cleanedSections = 0;
+
+            for (const [themeCode, extract] of Object.entries(allExtracts)) {
+              // Only save extracts with relevance score 1 (strongest relevance)
+              if (extract.relevance === 1 && parsedCodes.has(themeCode.split('.')[0])) {
+                // Clean the extract by removing weak sections
+                const cleanedExtract = cleanExtract(extract);
+
+                if (cleanedExtract) {
+                  // Count how many sections were filtered
+                  const originalSections = Object.values(extract.extract || {})
+                    .filter(arr => Array.isArray(arr))
+                    .reduce((sum: number, arr: any) => sum + arr.length, 0);
+                  const remainingSections = Object.values(cleanedExtract.extract || {})
+                    .filter(arr => Array.isArray(arr))
+                    .reduce((sum: number, arr: any) => sum + arr.length, 0);
+
+                  if (remainingSections < originalSections) {
+                    cleanedSections += (originalSections - remainingSections);
+                  }
+
+                  relevantThemes++;
+                  insertStmt.run(
+                    comment.comment_id,
+                    themeCode,
+                    JSON.stringify(cleanedExtract),
+                    comment.cluster_size,
+                    provenance.runId,
+                    provenance.model,
+                    provenance.promptHash
+                  );
+                } else {
+                  filteredThemes++;
                 }
-
-                relevantThemes++;
-                insertStmt.run(
-                  comment.comment_id,
-                  themeCode,
-                  JSON.stringify(cleanedExtract),
-                  comment.cluster_size
-                );
-              } else {
-                filteredThemes++;
               }
             }
-          }
 
-          const messages = [`  ✅ Extracted content for ${relevantThemes} themes`];
-          if (comment.cluster_size > 1) {
-            messages.push(`representing ${comment.cluster_size} similar comments`);
-          }
-          if (filteredThemes > 0) {
-            messages.push(`filtered ${filteredThemes} empty extracts`);
-          }
-          if (cleanedSections > 0) {
-            messages.push(`removed ${cleanedSections} weak sections`);
-          }
-          console.log(messages.join(", "));
-        });
+            const messages = [`  ✅ Extracted content for ${relevantThemes} themes`];
+            if (comment.cluster_size === 0) {
+              messages.push(`from personal additions to a form letter`);
+            } else if (comment.cluster_size > 1) {
+              messages.push(`representing ${comment.cluster_size} similar comments`);
+            }
+            if (filteredThemes > 0) {
+              messages.push(`filtered ${filteredThemes} empty extracts`);
+            }
+            if (cleanedSections > 0) {
+              messages.push(`removed ${cleanedSections} weak sections`);
+            }
+            console.log(messages.join(", "));
+          });
 
-        successful++;
-        processed++;
+          successful++;
+          processed++;
 
-      } catch (error) {
-        failed++;
-        processed++;
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        console.error(`  ❌ Error: ${errorMsg}`);
+        } catch (error) {
+          if (error instanceof BudgetExceededError || error instanceof CancelledError) throw error;
+
+          failed++;
+          processed++;
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          console.error(`  ❌ Error: ${errorMsg}`);
+          reportItemFailure("comments", comment.comment_id, error);
+        }
+      },
+      { label: "comments", itemId: comment => comment.comment_id }
+    );
+
+    // Summary
+    console.log("\n📊 Extraction complete:");
+    console.log(`  ✅ Successful: ${successful}`);
+    console.log(`  ❌ Failed: ${failed}`);
+    console.log(`  📄 Total processed: ${processed}`);
+
+    // Cache monitoring summary
+    if (cacheStats.totalCalls > 0) {
+      const overallCacheRate = (cacheStats.totalCachedTokens / cacheStats.totalPromptTokens * 100).toFixed(1);
+      const estimated = estimateCost(effectiveModel, {
+        inputTokens: cacheStats.totalPromptTokens,
+        cachedInputTokens: cacheStats.totalCachedTokens,
+        outputTokens: cacheStats.totalOutputTokens
+      });
+      const estimatedInputCost = estimated.input;
+      const estimatedOutputCost = estimated.output;
+      const estimatedTotalCost = estimated.total;
+
+      console.log("\n📈 Prompt cache monitoring:");
+      console.log(`  API calls: ${cacheStats.totalCalls}`);
+      console.log(`  Input tokens: ${cacheStats.totalPromptTokens.toLocaleString()} (${cacheStats.totalCachedTokens.toLocaleString()} cached, ${overallCacheRate}%)`);
+      console.log(`  Output tokens: ${cacheStats.totalOutputTokens.toLocaleString()}`);
+      console.log(`  Estimated cost: $${estimatedTotalCost.toFixed(2)} (input: $${estimatedInputCost.toFixed(2)}, output: $${estimatedOutputCost.toFixed(2)})`);
+
+      if (parseFloat(overallCacheRate) < 50) {
+        console.warn("  ⚠️  Cache hit rate below 50% — consider upgrading to explicit caching (see RFC-001)");
       }
     }
-  );
-
-  // Summary
-  console.log("\n📊 Extraction complete:");
-  console.log(`  ✅ Successful: ${successful}`);
-  console.log(`  ❌ Failed: ${failed}`);
-  console.log(`  📄 Total processed: ${processed}`);
-
-  // Cache monitoring summary
-  if (cacheStats.totalCalls > 0) {
-    const overallCacheRate = (cacheStats.totalCachedTokens / cacheStats.totalPromptTokens * 100).toFixed(1);
-    const estimatedInputCost = (cacheStats.totalPromptTokens - cacheStats.totalCachedTokens) * 0.50 / 1_000_000
-      + cacheStats.totalCachedTokens * 0.05 / 1_000_000;
-    const estimatedOutputCost = cacheStats.totalOutputTokens * 3.00 / 1_000_000;
-    const estimatedTotalCost = estimatedInputCost + estimatedOutputCost;
-
-    console.log("\n📈 Gemini cache monitoring:");
-    console.log(`  API calls: ${cacheStats.totalCalls}`);
-    console.log(`  Input tokens: ${cacheStats.totalPromptTokens.toLocaleString()} (${cacheStats.totalCachedTokens.toLocaleString()} cached, ${overallCacheRate}%)`);
-    console.log(`  Output tokens: ${cacheStats.totalOutputTokens.toLocaleString()}`);
-    console.log(`  Estimated cost: $${estimatedTotalCost.toFixed(2)} (input: $${estimatedInputCost.toFixed(2)}, output: $${estimatedOutputCost.toFixed(2)})`);
-
-    if (parseFloat(overallCacheRate) < 50) {
-      console.warn("  ⚠️  Cache hit rate below 50% — consider upgrading to explicit caching (see RFC-001)");
+
+    // Show extraction coverage
+    const coverage = db.prepare(`
+      SELECT
+        th.code,
+        th.description,
+        COUNT(DISTINCT cte.comment_id) as extracted_count
+      FROM theme_hierarchy th
+      LEFT JOIN comment_theme_extracts cte ON th.code = cte.theme_code
+      GROUP BY th.code
+      ORDER BY extracted_count DESC
+      LIMIT 10
+    `).all() as any[];
+
+    console.log("\n📈 Top themes by extraction count:");
+    for (const theme of coverage) {
+      console.log(`  ${theme.code}: ${theme.extracted_count} comments with extracted content`);
     }
-  }
 
-  // Show extraction coverage
-  const coverage = db.prepare(`
-    SELECT
-      th.code,
-      th.description,
-      COUNT(DISTINCT cte.comment_id) as extracted_count
-    FROM theme_hierarchy th
-    LEFT JOIN comment_theme_extracts cte ON th.code = cte.theme_code
-    GROUP BY th.code
-    ORDER BY extracted_count DESC
-    LIMIT 10
-  `).all() as any[];
-
-  console.log("\n📈 Top themes by extraction count:");
-  for (const theme of coverage) {
-    console.log(`  ${theme.code}: ${theme.extracted_count} comments with extracted content`);
+    endRun(db, run, 'completed');
+  } catch (error) {
+    endRun(db, run, 'failed');
+    throw error;
+  } finally {
+    db.close();
   }
-
-  db.close();
 }
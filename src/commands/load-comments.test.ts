@@ -0,0 +1,209 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { DB_DIR, openDb, withTransaction } from "../lib/database";
+import { computeContentHash, getSyncState, saveSyncState } from "../lib/comment-sync";
+import { loadFromApi, type RegulationsApi } from "./load-comments";
+
+const DOCUMENT_ID = "TEST-2025-0001-0001";
+const OBJECT_ID = "0900000000000001";
+
+interface ApiComment {
+  id: string;
+  lastModifiedDate: string;
+  withdrawn?: boolean;
+  comment?: string;
+}
+
+let dir: string;
+const cwd = process.cwd();
+
+// Serves the document, the comment listing (sorted, inclusive lastModifiedDate filter, 250 per
+// page, at most 20 pages like the real API) and comment details. Requested URLs are kept.
+function stubApi(comments: ApiComment[]): RegulationsApi & { listings: URL[] } {
+  const listings: URL[] = [];
+  const json = (body: unknown) => new Response(JSON.stringify(body), { headers: { "Content-Type": "application/json" } });
+
+  return {
+    listings,
+    async sleep() {},
+    async fetchWithRetry(url: string) {
+      const parsed = new URL(url);
+      const path = parsed.pathname.replace("/v4/", "");
+
+      if (path === `documents/${DOCUMENT_ID}`) {
+        return json({ data: { attributes: { objectId: OBJECT_ID, title: "Test rule", agencyId: "TEST" } } });
+      }
+      if (path === "agencies/TEST") {
+        return json({ data: { attributes: { name: "Test Agency" } } });
+      }
+      if (path === "comments") {
+        listings.push(parsed);
+        expect(parsed.searchParams.get("filter[commentOnId]")).toBe(OBJECT_ID);
+        const page = Number(parsed.searchParams.get("page[number]"));
+        if (page > 20) return new Response("page[number] must be 20 or less", { status: 400 });
+        const since = parsed.searchParams.get("filter[lastModifiedDate][ge]");
+        // The filter is Eastern time; the test dates are all in January (UTC-5)
+        const sinceMs = since ? new Date(`${since.replace(" ", "T")}-05:00`).getTime() : 0;
+        const matching = [...comments]
+          .filter(c => new Date(c.lastModifiedDate).getTime() >= sinceMs)
+          .sort((a, b) => a.lastModifiedDate.localeCompare(b.lastModifiedDate) || a.id.localeCompare(b.id));
+        return json({
+          data: matching.slice((page - 1) * 250, page * 250).map(c => ({
+            id: c.id,
+            attributes: { lastModifiedDate: c.lastModifiedDate, withdrawn: !!c.withdrawn },
+          })),
+        });
+      }
+      const comment = comments.find(c => path === `comments/${c.id}`);
+      if (comment) {
+        return json({
+          data: {
+            id: comment.id,
+            attributes: { comment: comment.comment || "", lastModifiedDate: comment.lastModifiedDate },
+            relationships: { attachments: { data: [] } },
+          },
+        });
+      }
+      return new Response("Not found", { status: 404 });
+    },
+  };
+}
+
+// A comment as an earlier sync left it: condensed, extracted and summarized
+function storeComment(comment: ApiComment, themeCode?: string) {
+  const db = openDb(DOCUMENT_ID);
+  try {
+    const attributes = { comment: comment.comment || "", lastModifiedDate: comment.lastModifiedDate };
+    const contentHash = computeContentHash(attributes as any, []);
+    db.prepare(`
+      INSERT INTO comments (id, attributes_json, content_hash, last_modified_date, target_document_id) VALUES (?, ?, ?, ?, ?)
+    `).run(comment.id, JSON.stringify(attributes), contentHash, comment.lastModifiedDate, DOCUMENT_ID);
+    if (!themeCode) return;
+
+    db.prepare(`
+      INSERT INTO condensed_comments (comment_id, structured_sections, status, input_hash) VALUES (?, '{}', 'completed', ?)
+    `).run(comment.id, contentHash);
+    db.prepare("INSERT OR IGNORE INTO theme_hierarchy (code, description, level) VALUES (?, 'Theme', 1)").run(themeCode);
+    db.prepare("INSERT INTO comment_theme_extracts (comment_id, theme_code, extract_json) VALUES (?, ?, '{}')").run(comment.id, themeCode);
+    db.prepare("INSERT INTO theme_extract_inputs (comment_id, group_code, content_hash, taxonomy_hash) VALUES (?, ?, ?, 'taxonomy')")
+      .run(comment.id, themeCode, contentHash);
+    db.prepare(`
+      INSERT OR IGNORE INTO theme_summaries (theme_code, structured_sections, comment_count, word_count) VALUES (?, '{}', 1, 1)
+    `).run(themeCode);
+  } finally {
+    db.close();
+  }
+}
+
+function query(sql: string, ...params: any[]): any[] {
+  const db = openDb(DOCUMENT_ID);
+  try {
+    return db.prepare(sql).all(...params);
+  } finally {
+    db.close();
+  }
+}
+
+function lastRunCounts() {
+  return JSON.parse(query("SELECT last_run_json FROM sync_state WHERE document_id = ?", DOCUMENT_ID)[0].last_run_json);
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "comment-sync-"));
+  // openDb works relative to the current directory
+  process.chdir(dir);
+  mkdirSync(DB_DIR);
+});
+
+afterEach(() => {
+  process.chdir(cwd);
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("incremental API sync", () => {
+  test("lists from the watermark inclusively and loads only what is new", async () => {
+    const old = { id: "C-1", lastModifiedDate: "2025-01-10T15:00:00Z", comment: "First" };
+    const atWatermark = { id: "C-2", lastModifiedDate: "2025-01-11T15:00:00Z", comment: "Second" };
+    const added = { id: "C-3", lastModifiedDate: "2025-01-12T15:00:00Z", comment: "Third" };
+    storeComment(old);
+    storeComment(atWatermark);
+    const db = openDb(DOCUMENT_ID);
+    saveSyncState(db, DOCUMENT_ID, "api", atWatermark.lastModifiedDate);
+    db.close();
+
+    const api = stubApi([old, atWatermark, added]);
+    await loadFromApi(DOCUMENT_ID, { skipAttachments: true }, api);
+
+    expect(api.listings).toHaveLength(1);
+    expect(api.listings[0].searchParams.get("filter[lastModifiedDate][ge]")).toBe("2025-01-11 10:00:00");
+    expect(lastRunCounts()).toEqual({ new: 1, updated: 0, unchanged: 1, withdrawn: 0, skipped: 0 });
+    expect(query("SELECT id FROM comments ORDER BY id").map(r => r.id)).toEqual(["C-1", "C-2", "C-3"]);
+
+    const db2 = openDb(DOCUMENT_ID);
+    expect(getSyncState(db2, DOCUMENT_ID)?.watermark).toBe(added.lastModifiedDate);
+    db2.close();
+  });
+
+  test("withdraws a comment the listing marks withdrawn and drops its analysis", async () => {
+    const comment = { id: "C-1", lastModifiedDate: "2025-01-10T15:00:00Z", comment: "Withdraw me" };
+    storeComment(comment, "1");
+
+    await loadFromApi(DOCUMENT_ID, { skipAttachments: true, fullSync: true }, stubApi([
+      { ...comment, lastModifiedDate: "2025-01-20T15:00:00Z", withdrawn: true },
+    ]));
+
+    expect(lastRunCounts()).toMatchObject({ withdrawn: 1 });
+    expect(query("SELECT withdrawn FROM comments WHERE id = 'C-1'")).toEqual([{ withdrawn: 1 }]);
+    expect(query("SELECT * FROM condensed_comments")).toEqual([]);
+    expect(query("SELECT * FROM comment_theme_extracts")).toEqual([]);
+    expect(query("SELECT * FROM theme_summaries")).toEqual([]);
+  });
+
+  test("sends a comment whose text changed back through the pipeline and keeps metadata-only edits", async () => {
+    const edited = { id: "C-1", lastModifiedDate: "2025-01-10T15:00:00Z", comment: "Original text" };
+    const touched = { id: "C-2", lastModifiedDate: "2025-01-10T16:00:00Z", comment: "Same text" };
+    storeComment(edited, "1");
+    storeComment(touched, "2");
+
+    await loadFromApi(DOCUMENT_ID, { skipAttachments: true, fullSync: true }, stubApi([
+      { ...edited, lastModifiedDate: "2025-01-20T15:00:00Z", comment: "Edited text" },
+      { ...touched, lastModifiedDate: "2025-01-20T16:00:00Z" },
+    ]));
+
+    expect(lastRunCounts()).toMatchObject({ updated: 1, unchanged: 1 });
+    expect(query("SELECT comment_id, status FROM condensed_comments ORDER BY comment_id")).toEqual([
+      { comment_id: "C-1", status: "pending" },
+      { comment_id: "C-2", status: "completed" },
+    ]);
+    expect(query("SELECT comment_id FROM comment_theme_extracts")).toEqual([{ comment_id: "C-2" }]);
+    expect(query("SELECT comment_id FROM theme_extract_inputs")).toEqual([{ comment_id: "C-2" }]);
+    expect(query("SELECT theme_code FROM theme_summaries")).toEqual([{ theme_code: "2" }]);
+  });
+
+  test("restarts the listing from the last date after 20 pages without listing a comment twice", async () => {
+    // Past the API's 20 x 250 paging limit; the comments straddling the page boundary share a date
+    const start = new Date("2025-01-01T15:00:00Z").getTime();
+    const comments: ApiComment[] = Array.from({ length: 5010 }, (_, i) => ({
+      id: `C-${String(i).padStart(5, "0")}`,
+      lastModifiedDate: new Date(start + Math.min(i, 4998) * 1000 + Math.max(0, i - 4999) * 1000).toISOString(),
+    }));
+    // Already loaded, so the sync only has to list them
+    const db = openDb(DOCUMENT_ID);
+    withTransaction(db, () => {
+      const insert = db.prepare("INSERT INTO comments (id, attributes_json, last_modified_date) VALUES (?, '{}', ?)");
+      for (const c of comments) insert.run(c.id, c.lastModifiedDate);
+    });
+    db.close();
+
+    const api = stubApi(comments);
+    await loadFromApi(DOCUMENT_ID, { skipAttachments: true }, api);
+
+    expect(api.listings).toHaveLength(21);
+    const restart = api.listings[20];
+    expect(restart.searchParams.get("page[number]")).toBe("1");
+    expect(restart.searchParams.get("filter[lastModifiedDate][ge]")).toBe("2025-01-01 11:23:18");
+    expect(lastRunCounts()).toEqual({ new: 0, updated: 0, unchanged: 5010, withdrawn: 0, skipped: 0 });
+  });
+});
@@ -5,6 +5,18 @@ import { parse } from "csv-parse";
 import { basename, extname } from "path";
 import { openDb, withTransaction } from "../lib/database";
 import { initDebug, debugLog } from "../lib/debug";
+import {
+  computeContentHash,
+  saveDocketDocument,
+  getStoredComment,
+  getSyncState,
+  invalidateComments,
+  saveSyncState,
+  withdrawComments,
+  type SyncCounts,
+} from "../lib/comment-sync";
+import { getTaskConfig } from "../lib/batch-config";
+import { getRateLimiter, parseRetryAfter, RateLimitedError } from "../lib/rate-limiter";
 import type { CommentAttributes } from "../types";
 
 export const loadCommentsCommand = new Command("load")
@@ -13,9 +25,49 @@ export const loadCommentsCommand = new Command("load")
   .option("-k, --api-key <key>", "Regulations.gov API key", process.env.REGSGOV_API_KEY || "DEMO_KEY")
   .option("--skip-attachments", "Skip downloading attachments")
   .option("-l, --limit <n>", "Stop after N comments", parseInt)
+  .option("--full-sync", "Ignore the saved lastModifiedDate watermark and re-check every comment")
   .option("-d, --debug", "Enable debug output")
   .action(loadComments);
 
+// Upsert shared by both loaders; a re-loaded comment is no longer withdrawn
+const UPSERT_COMMENT_SQL = `
+  INSERT INTO comments (id, attributes_json, content_hash, last_modified_date, target_document_id, withdrawn)
+  VALUES (?, ?, ?, ?, ?, 0)
+  ON CONFLICT(id) DO UPDATE SET
+    attributes_json = excluded.attributes_json,
+    content_hash = excluded.content_hash,
+    last_modified_date = excluded.last_modified_date,
+    target_document_id = excluded.target_document_id,
+    withdrawn = 0,
+    updated_at = CURRENT_TIMESTAMP
+`;
+
+// The API filters lastModifiedDate as Eastern time "yyyy-MM-dd HH:mm:ss" but returns UTC ISO strings
+function toApiDateFilter(isoDate: string): string {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: "America/New_York",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(new Date(isoDate));
+  const get = (type: string) => parts.find(p => p.type === type)?.value || "00";
+  return `${get("year")}-${get("month")}-${get("day")} ${get("hour")}:${get("minute")}:${get("second")}`;
+}
+
+function printSyncCounts(counts: SyncCounts) {
+  console.log(`   🆕 New: ${counts.new}`);
+  console.log(`   ✏️  Updated: ${counts.updated}`);
+  console.log(`   ⏸️  Unchanged: ${counts.unchanged}`);
+  console.log(`   🚫 Withdrawn: ${counts.withdrawn}`);
+  if (counts.skipped > 0) {
+    console.log(`   ⚠️  Skipped: ${counts.skipped}`);
+  }
+}
+
 async function loadComments(source: string, options: any) {
   await initDebug(options.debug);
   
@@ -29,251 +81,427 @@ async function loadComments(source: string, options: any) {
   }
 }
 
-// Load from regulations.gov API
-async function loadFromApi(documentId: string, options: any) {
-  console.log(`📥 Loading comments for document ${documentId} from regulations.gov API`);
+// A document whose comments are pulled into the database
+type TargetDocument = { documentId: string; objectId: string; title: string };
+
+// regulations.gov requests and the pauses between them (tests pass a stub)
+export interface RegulationsApi {
+  fetchWithRetry(url: string, opts?: RequestInit): Promise<Response>;
+  sleep(ms: number): Promise<void>;
+}
+
+export function regulationsApi(apiKey: string): RegulationsApi {
+  const headers = { "X-Api-Key": apiKey };
+
+  // regulations.gov fetches share one rate limiter, which backs off and retries on 429
+  const limiter = getRateLimiter("regulations.gov", {
+    requestsPerMinute: getTaskConfig('loadComments').rateLimiting?.requestsPerMinute,
+  });
+  return {
+    async fetchWithRetry(url: string, opts: RequestInit = {}, maxAttempts = 10): Promise<Response> {
+      return limiter.run(0, async () => {
+        const resp = await fetch(url, { ...opts, headers: { ...headers, ...(opts.headers || {}) } });
+        if (resp.status === 429) {
+          throw new RateLimitedError(`regulations.gov rate limited ${url}`, 429, parseRetryAfter(resp.headers.get("retry-after")));
+        }
+        return resp;
+      }, maxAttempts);
+    },
+    sleep: (ms: number) => new Promise(r => setTimeout(r, ms)),
+  };
+}
+
+// Load from regulations.gov API. The ID may be a single document or a whole
+// docket; a docket pulls comments on every document in it that accepts comments.
+export async function loadFromApi(documentId: string, options: any, api: RegulationsApi = regulationsApi(options.apiKey)) {
+  console.log(`📥 Loading comments for ${documentId} from regulations.gov API`);
   
   const db = openDb(documentId);
-  const headers = { "X-Api-Key": options.apiKey };
-  const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
-
-  // Retry-with-backoff wrapper for regulations.gov fetches
-  async function fetchWithRetry(url: string, opts: RequestInit = {}, maxRetries = 10): Promise<Response> {
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      const resp = await fetch(url, { ...opts, headers: { ...headers, ...(opts.headers || {}) } });
-      if (resp.status === 429) {
-        const backoff = Math.min(5000 * Math.pow(2, attempt), 120000);
-        console.log(`   ⏳ 429 rate limited, waiting ${(backoff/1000).toFixed(0)}s (attempt ${attempt+1}/${maxRetries})...`);
-        await sleep(backoff);
-        continue;
+  const { fetchWithRetry, sleep } = api;
+
+  async function fetchAgencyName(agencyId: string): Promise<string> {
+    try {
+      const agencyResponse = await fetchWithRetry(
+        `https://api.regulations.gov/v4/agencies/${agencyId}`
+      );
+      if (agencyResponse.ok) {
+        const agencyData: any = await agencyResponse.json();
+        return agencyData.data.attributes.name || agencyId;
       }
-      return resp;
+    } catch (e) {
+      console.warn(`⚠️  Could not fetch agency name for ${agencyId}`);
     }
-    // Last attempt, return whatever we get
-    return fetch(url, { ...opts, headers: { ...headers, ...(opts.headers || {}) } });
+    return agencyId;
   }
-  
-  try {
-    // Get document object ID
+
+  const saveMetadata = db.prepare(`
+    INSERT OR REPLACE INTO document_metadata (
+      document_id, title, docket_id, agency_id, agency_name,
+      document_type, posted_date, comment_start_date, comment_end_date,
+      metadata_json, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+  `);
+
+  // Resolve the ID to the documents whose comments we load, saving their metadata
+  async function resolveTargets(): Promise<TargetDocument[]> {
     console.log("🔍 Resolving document object ID...");
     const docResponse = await fetchWithRetry(
       `https://api.regulations.gov/v4/documents/${documentId}`
     );
-    
-    if (!docResponse.ok) {
+
+    if (docResponse.ok) {
+      const docData: any = await docResponse.json();
+      const docAttrs = docData.data.attributes;
+      debugLog(`Object ID: ${docAttrs.objectId}`);
+
+      const agencyId = docAttrs.agencyId || documentId.split('-')[0];
+      saveMetadata.run(
+        documentId,
+        docAttrs.title || documentId,
+        docAttrs.docketId || documentId,
+        agencyId,
+        await fetchAgencyName(agencyId),
+        docAttrs.documentType || 'Unknown',
+        docAttrs.postedDate || null,
+        docAttrs.commentStartDate || null,
+        docAttrs.commentEndDate || null,
+        JSON.stringify(docAttrs)
+      );
+      saveDocketDocument(db, documentId, docAttrs);
+
+      console.log(`💾 Saved document metadata: ${docAttrs.title || documentId}`);
+      return [{ documentId, objectId: docAttrs.objectId, title: docAttrs.title || documentId }];
+    }
+
+    if (docResponse.status !== 404) {
       throw new Error(`Failed to fetch document: ${docResponse.status} ${docResponse.statusText}`);
     }
-    
-    const docData: any = await docResponse.json();
-    const objectId = docData.data.attributes.objectId;
-    debugLog(`Object ID: ${objectId}`);
-    
-    // Save document metadata
-    const docAttrs = docData.data.attributes;
-    const agencyId = docAttrs.agencyId || documentId.split('-')[0];
-    
-    // Fetch agency name if possible
-    let agencyName = agencyId;
-    try {
-      const agencyResponse = await fetchWithRetry(
-        `https://api.regulations.gov/v4/agencies/${agencyId}`
+
+    // Not a document - try it as a docket
+    const docketResponse = await fetchWithRetry(
+      `https://api.regulations.gov/v4/dockets/${documentId}`
+    );
+    if (!docketResponse.ok) {
+      throw new Error(`${documentId} is neither a document nor a docket: ${docketResponse.status} ${docketResponse.statusText}`);
+    }
+    const docketAttrs = (await docketResponse.json() as any).data.attributes;
+    console.log(`📁 ${documentId} is a docket: ${docketAttrs.title || documentId}`);
+
+    const documents: any[] = [];
+    for (let page = 1; ; page++) {
+      const response = await fetchWithRetry(
+        `https://api.regulations.gov/v4/documents?filter[docketId]=${documentId}&page[size]=250&page[number]=${page}`
       );
-      if (agencyResponse.ok) {
-        const agencyData: any = await agencyResponse.json();
-        agencyName = agencyData.data.attributes.name || agencyId;
+      if (!response.ok) {
+        throw new Error(`Failed to list docket documents: ${response.status} ${response.statusText}`);
       }
-    } catch (e) {
-      console.warn(`⚠️  Could not fetch agency name for ${agencyId}`);
+      const data: any = await response.json();
+      documents.push(...(data.data || []));
+      if (!data.data || data.data.length < 250) break;
+      await sleep(1200); // Rate limiting
     }
-    
-    // Insert or update document metadata
-    db.prepare(`
-      INSERT OR REPLACE INTO document_metadata (
-        document_id, title, docket_id, agency_id, agency_name,
-        document_type, posted_date, comment_start_date, comment_end_date,
-        metadata_json, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
-    `).run(
+
+    // Documents that take comments have a comment period, open or closed
+    const commentable = documents.filter(d => d.attributes.openForComment || d.attributes.commentStartDate);
+    if (commentable.length === 0) {
+      throw new Error(`Docket ${documentId} has no documents that accept comments`);
+    }
+
+    const targets: TargetDocument[] = [];
+    for (const doc of commentable) {
+      saveDocketDocument(db, doc.id, doc.attributes);
+      targets.push({ documentId: doc.id, objectId: doc.attributes.objectId, title: doc.attributes.title || doc.id });
+      console.log(`   📄 ${doc.id} (${doc.attributes.documentType}): ${doc.attributes.title}`);
+    }
+
+    const endDates = commentable.map(d => d.attributes.commentEndDate).filter(Boolean).sort();
+    const startDates = commentable.map(d => d.attributes.commentStartDate).filter(Boolean).sort();
+    const agencyId = docketAttrs.agencyId || documentId.split('-')[0];
+    saveMetadata.run(
+      documentId,
+      docketAttrs.title || documentId,
       documentId,
-      docAttrs.title || documentId,
-      docAttrs.docketId || documentId,
       agencyId,
-      agencyName,
-      docAttrs.documentType || 'Unknown',
-      docAttrs.postedDate || null,
-      docAttrs.commentStartDate || null,
-      docAttrs.commentEndDate || null,
-      JSON.stringify(docAttrs)
+      await fetchAgencyName(agencyId),
+      'Docket',
+      null,
+      startDates[0] || null,
+      endDates[endDates.length - 1] || null,
+      JSON.stringify(docketAttrs)
     );
-    
-    console.log(`💾 Saved document metadata: ${docAttrs.title || documentId}`);
+
+    console.log(`💾 Saved docket metadata: ${targets.length} documents accept comments`);
+    return targets;
+  }
+  
+  try {
+    const targets = await resolveTargets();
     
     // Get existing comment count
     const existingCount = db.prepare("SELECT COUNT(*) as count FROM comments").get() as { count: number };
     console.log(`📊 Existing comments in database: ${existingCount.count}`);
     
-    // List all comment IDs
-    console.log("📋 Fetching comment list...");
-    const commentIds: string[] = [];
-    let page = 1;
-    
-    while (true) {
-      const url = `https://api.regulations.gov/v4/comments?filter[commentOnId]=${objectId}&page[size]=250&page[number]=${page}`;
-      const response = await fetchWithRetry(url);
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch comments: ${response.status} ${response.statusText}`);
-      }
-      
-      const data: any = await response.json();
-      if (!data.data || data.data.length === 0) break;
-      
-      commentIds.push(...data.data.map((c: any) => c.id));
-      console.log(`  Page ${page}: ${data.data.length} comments (total: ${commentIds.length})`);
-      
-      if (data.data.length < 250) break;
-      page++;
-      await sleep(1200); // Rate limiting
-    }
-    
-    console.log(`📊 Total comments available: ${commentIds.length}`);
-    
-    // Filter out already loaded comments
-    const loadedIds = db.prepare("SELECT id FROM comments").all().map((r: any) => r.id);
-    const newIds = commentIds.filter(id => !loadedIds.includes(id));
-    console.log(`🆕 New comments to load: ${newIds.length}`);
-    
-    // Apply limit if specified
-    const idsToLoad = options.limit ? newIds.slice(0, options.limit - existingCount.count) : newIds;
-    console.log(`🎯 Will load ${idsToLoad.length} comments`);
-    
     // Prepare statements
-    const insertComment = db.prepare("INSERT OR REPLACE INTO comments (id, attributes_json) VALUES (?, ?)");
+    const upsertComment = db.prepare(UPSERT_COMMENT_SQL);
+    const setLastModified = db.prepare(`
+      UPDATE comments SET last_modified_date = ?, target_document_id = COALESCE(target_document_id, ?) WHERE id = ?
+    `);
+    const deleteAttachments = db.prepare("DELETE FROM attachments WHERE comment_id = ?");
     const insertAttachment = db.prepare(`
       INSERT OR REPLACE INTO attachments (id, comment_id, format, file_name, url, size, blob_data)
       VALUES (?, ?, ?, ?, ?, ?, ?)
     `);
     
-    let loaded = 0;
-    let skipped = 0;
+    const counts: SyncCounts = { new: 0, updated: 0, unchanged: 0, withdrawn: 0, skipped: 0 };
+    let staleSummaries = 0;
+    
+    targets: for (const target of targets) {
+      if (targets.length > 1) {
+        console.log(`\n📄 ${target.documentId}: ${target.title}`);
+      }
+
+      const syncState = options.fullSync ? null : getSyncState(db, target.documentId);
+      let watermark = syncState?.watermark || null;
+      if (watermark) {
+        console.log(`🔖 Syncing comments modified since ${watermark} (last sync: ${syncState?.lastSyncedAt})`);
+      }
+    
+      // List comments modified since the watermark, oldest first. The API stops
+      // paging at 20 pages, so after that restart the listing from the last date seen.
+      console.log("📋 Fetching comment list...");
+      type ListedComment = { id: string; lastModifiedDate: string; withdrawn: boolean };
+      const listed = new Map<string, ListedComment>();
+      let since = watermark;
+      let page = 1;
     
-    for (const commentId of idsToLoad) {
-      try {
-        // 1️⃣ Fetch comment details with relationships to attachments
-        const url = `https://api.regulations.gov/v4/comments/${commentId}?include=attachments`;
+      while (true) {
+        let url = `https://api.regulations.gov/v4/comments?filter[commentOnId]=${target.objectId}&sort=lastModifiedDate,documentId&page[size]=250&page[number]=${page}`;
+        if (since) {
+          url += `&filter[lastModifiedDate][ge]=${encodeURIComponent(toApiDateFilter(since))}`;
+        }
         const response = await fetchWithRetry(url);
+      
         if (!response.ok) {
-          console.error(`❌ Failed to fetch comment ${commentId}: ${response.status}`);
-          continue;
+          throw new Error(`Failed to fetch comments: ${response.status} ${response.statusText}`);
         }
-
+      
         const data: any = await response.json();
-
-        // 2️⃣ Gather attachment metadata (+ optional binary)
-        type APIAttachment = {
-          id: string;
-        };
-
-        type AttachmentRecord = {
-          id: string;
-          fmt: string;
-          fileName: string;
-          url: string;
-          size: number | null;
-          blob: Uint8Array | null;
-        };
-
-        const attachments: AttachmentRecord[] = [];
-        let attachmentFailures = 0;
-
-        const relationshipData: APIAttachment[] = data.data.relationships?.attachments?.data || [];
-
-        for (const rel of relationshipData) {
-          const attUrl = `https://api.regulations.gov/v4/attachments/${rel.id}?include=fileFormats`;
-          const attResp = await fetchWithRetry(attUrl);
-          if (!attResp.ok) {
-            console.error(`\n❌ Failed to fetch attachment metadata ${rel.id}: ${attResp.status}`);
-            attachmentFailures++;
+        if (!data.data || data.data.length === 0) break;
+      
+        for (const c of data.data) {
+          listed.set(c.id, {
+            id: c.id,
+            lastModifiedDate: c.attributes.lastModifiedDate,
+            withdrawn: !!c.attributes.withdrawn,
+          });
+        }
+        console.log(`  Page ${page}: ${data.data.length} comments (total: ${listed.size})`);
+      
+        if (data.data.length < 250) break;
+        if (page === 20) {
+          const lastDate = data.data[data.data.length - 1].attributes.lastModifiedDate;
+          if (lastDate === since) {
+            throw new Error(`More than 5000 comments share lastModifiedDate ${lastDate}; cannot page past them`);
+          }
+          since = lastDate;
+          page = 1;
+        } else {
+          page++;
+        }
+        await sleep(1200); // Rate limiting
+      }
+    
+      const queue = Array.from(listed.values())
+        .sort((a, b) => a.lastModifiedDate.localeCompare(b.lastModifiedDate) || a.id.localeCompare(b.id));
+      console.log(`📊 Comments new or modified since last sync: ${queue.length}`);
+      // The watermark only moves past comments that were fully handled, so a
+      // failed or interrupted comment is listed again on the next run
+      let watermarkBlocked = false;
+      const advanceWatermark = (lastModifiedDate: string) => {
+        if (watermarkBlocked) return;
+        watermark = lastModifiedDate;
+        saveSyncState(db, target.documentId, "api", watermark);
+      };
+    
+      let synced = 0;
+      for (const item of queue) {
+        const commentId = item.id;
+        const stored = getStoredComment(db, commentId);
+      
+        if (item.withdrawn) {
+          if (stored && !stored.withdrawn) {
+            withTransaction(db, () => {
+              staleSummaries += withdrawComments(db, [commentId]).staleSummaries;
+              setLastModified.run(item.lastModifiedDate, target.documentId, commentId);
+            });
+            counts.withdrawn++;
+          }
+          advanceWatermark(item.lastModifiedDate);
+          continue;
+        }
+      
+        if (stored && !stored.withdrawn) {
+          if (stored.last_modified_date === item.lastModifiedDate) {
+            counts.unchanged++;
+            advanceWatermark(item.lastModifiedDate);
             continue;
           }
+          // Loaded before sync tracking existed: record the date rather than re-fetching everything
+          if (!stored.last_modified_date) {
+            setLastModified.run(item.lastModifiedDate, target.documentId, commentId);
+            counts.unchanged++;
+            advanceWatermark(item.lastModifiedDate);
+            continue;
+          }
+        }
+      
+        // Apply limit to newly loaded comments
+        if (!stored && options.limit && existingCount.count + counts.new >= options.limit) {
+          console.log(`\n🛑 Reached limit of ${options.limit} comments`);
+          break targets;
+        }
+      
+        try {
+          // 1️⃣ Fetch comment details with relationships to attachments
+          const url = `https://api.regulations.gov/v4/comments/${commentId}?include=attachments`;
+          const response = await fetchWithRetry(url);
+          if (!response.ok) {
+            console.error(`❌ Failed to fetch comment ${commentId}: ${response.status}`);
+            watermarkBlocked = true;
+            continue;
+          }
+
+          const data: any = await response.json();
+
+          // 2️⃣ Gather attachment metadata (+ optional binary)
+          type APIAttachment = {
+            id: string;
+          };
 
-          const attData: any = await attResp.json();
+          type AttachmentRecord = {
+            id: string;
+            fmt: string;
+            fileName: string;
+            url: string;
+            size: number | null;
+            blob: Uint8Array | null;
+          };
 
-          for (const format of attData.data.attributes.fileFormats || []) {
-            const fileUrl: string | undefined = format.downloadUrl || format.fileUrl;
-            if (!fileUrl) continue;
+          const attachments: AttachmentRecord[] = [];
+          let attachmentFailures = 0;
 
-            const fmt = (format.fileFormat || format.format || "bin").toLowerCase();
-            const fileName = `${rel.id}.${fmt}`;
+          const relationshipData: APIAttachment[] = data.data.relationships?.attachments?.data || [];
 
-            let blob: Uint8Array | null = null;
-            let size: number | null = format.size || null;
+          for (const rel of relationshipData) {
+            const attUrl = `https://api.regulations.gov/v4/attachments/${rel.id}?include=fileFormats`;
+            const attResp = await fetchWithRetry(attUrl);
+            if (!attResp.ok) {
+              console.error(`\n❌ Failed to fetch attachment metadata ${rel.id}: ${attResp.status}`);
+              attachmentFailures++;
+              continue;
+            }
 
-            if (!options.skipAttachments) {
-              try {
-                const binResp = await fetchWithRetry(fileUrl, { headers: { "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36", "Accept": "application/pdf,*/*" } });
-                if (binResp.ok) {
-                  const buffer = new Uint8Array(await binResp.arrayBuffer());
-                  blob = buffer;
-                  size = buffer.length;
-                  debugLog(`Downloaded ${fileName}: ${size} bytes`);
-                } else {
-                  console.error(`\n❌ Failed to download attachment ${fileName}: ${binResp.status}`);
+            const attData: any = await attResp.json();
+
+            for (const format of attData.data.attributes.fileFormats || []) {
+              const fileUrl: string | undefined = format.downloadUrl || format.fileUrl;
+              if (!fileUrl) continue;
+
+              const fmt = (format.fileFormat || format.format || "bin").toLowerCase();
+              const fileName = `${rel.id}.${fmt}`;
+
+              let blob: Uint8Array | null = null;
+              let size: number | null = format.size || null;
+
+              if (!options.skipAttachments) {
+                try {
+                  const binResp = await fetchWithRetry(fileUrl, { headers: { "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36", "Accept": "application/pdf,*/*" } });
+                  if (binResp.ok) {
+                    const buffer = new Uint8Array(await binResp.arrayBuffer());
+                    blob = buffer;
+                    size = buffer.length;
+                    debugLog(`Downloaded ${fileName}: ${size} bytes`);
+                  } else {
+                    console.error(`\n❌ Failed to download attachment ${fileName}: ${binResp.status}`);
+                    attachmentFailures++;
+                    break; // Skip this comment entirely
+                  }
+                } catch (e) {
+                  console.error(`\n❌ Error downloading attachment ${fileName}:`, e);
                   attachmentFailures++;
                   break; // Skip this comment entirely
                 }
-              } catch (e) {
-                console.error(`\n❌ Error downloading attachment ${fileName}:`, e);
-                attachmentFailures++;
-                break; // Skip this comment entirely
               }
+
+              attachments.push({ id: format.formatId || rel.id, fmt, fileName, url: fileUrl, size, blob });
             }
 
-            attachments.push({ id: format.formatId || rel.id, fmt, fileName, url: fileUrl, size, blob });
+            // If we had failures, skip this comment
+            if (attachmentFailures > 0) break;
+
+            // modest delay to respect rate limits
+            await sleep(1000);
           }
 
-          // If we had failures, skip this comment
-          if (attachmentFailures > 0) break;
+          // 3️⃣ Only save comment if all attachments were successfully downloaded (or skipped)
+          if (attachmentFailures > 0 && !options.skipAttachments) {
+            console.error(`\n⚠️  Skipping comment ${commentId} due to ${attachmentFailures} attachment failure(s)`);
+            counts.skipped++;
+            watermarkBlocked = true;
+            continue;
+          }
 
-          // modest delay to respect rate limits
-          await sleep(1000);
-        }
+          const attributes = data.data.attributes;
+          const contentHash = computeContentHash(attributes, attachments.map(a => a.url));
+          // Metadata-only edits keep the existing transcription and analysis
+          const contentChanged = !!stored && stored.content_hash !== contentHash;
 
-        // 3️⃣ Only save comment if all attachments were successfully downloaded (or skipped)
-        if (attachmentFailures > 0 && !options.skipAttachments) {
-          console.error(`\n⚠️  Skipping comment ${commentId} due to ${attachmentFailures} attachment failure(s)`);
-          skipped++;
-          continue;
-        }
+          withTransaction(db, () => {
+            upsertComment.run(commentId, JSON.stringify(attributes), contentHash, attributes.lastModifiedDate || item.lastModifiedDate, target.documentId);
+            deleteAttachments.run(commentId);
+            if (contentChanged) {
+              staleSummaries += invalidateComments(db, [commentId]).staleSummaries;
+            }
+            for (const att of attachments) {
+              insertAttachment.run(
+                att.id,
+                commentId,
+                att.fmt,
+                att.fileName,
+                att.url,
+                att.size,
+                att.blob
+              );
+            }
+          });
 
-        withTransaction(db, () => {
-          insertComment.run(commentId, JSON.stringify(data.data.attributes));
-          for (const att of attachments) {
-            insertAttachment.run(
-              att.id,
-              commentId,
-              att.fmt,
-              att.fileName,
-              att.url,
-              att.size,
-              att.blob
-            );
+          if (!stored) {
+            counts.new++;
+          } else if (contentChanged || stored.withdrawn) {
+            counts.updated++;
+          } else {
+            counts.unchanged++;
           }
-        });
+          advanceWatermark(item.lastModifiedDate);
+          process.stdout.write(`\r✅ Synced ${++synced}/${queue.length} comments`);
 
-        loaded++;
-        process.stdout.write(`\r✅ Loaded ${loaded}/${idsToLoad.length} comments`);
-
-        await sleep(1200); // Rate limiting between comments
-      } catch (error) {
-        console.error(`\n❌ Error loading comment ${commentId}:`, error);
+          await sleep(1200); // Rate limiting between comments
+        } catch (error) {
+          console.error(`\n❌ Error loading comment ${commentId}:`, error);
+          watermarkBlocked = true;
+        }
       }
     }
     
-    console.log(`\n✅ Successfully loaded ${loaded} comments`);
-    if (skipped > 0) {
-      console.log(`⚠️  Skipped ${skipped} comments due to attachment failures`);
-      console.log(`💡 To retry these comments, run the load command again`);
+    saveSyncState(db, documentId, "api", null, counts);
+    
+    console.log(`\n✅ Sync complete`);
+    printSyncCounts(counts);
+    if (staleSummaries > 0) {
+      console.log(`   🔄 ${staleSummaries} theme summaries will be regenerated`);
+    }
+    if (counts.skipped > 0) {
+      console.log(`💡 To retry skipped comments, run the load command again`);
     }
     
   } finally {
@@ -294,7 +522,12 @@ async function loadFromCsv(csvPath: string, options: any) {
   const db = openDb(documentId);
   
   // Prepare statements
-  const insertComment = db.prepare("INSERT OR REPLACE INTO comments (id, attributes_json) VALUES (?, ?)");
+  const upsertComment = db.prepare(UPSERT_COMMENT_SQL);
+  const setContentHash = db.prepare(`
+    UPDATE comments SET content_hash = ?, target_document_id = COALESCE(target_document_id, ?) WHERE id = ?
+  `);
+  const seenTargets = new Set<string>();
+  const deleteAttachments = db.prepare("DELETE FROM attachments WHERE comment_id = ?");
   const insertAttachment = db.prepare(`
     INSERT OR REPLACE INTO attachments (id, comment_id, format, file_name, url, size, blob_data)
     VALUES (?, ?, ?, ?, ?, ?, ?)
@@ -322,7 +555,6 @@ async function loadFromCsv(csvPath: string, options: any) {
   
   // Get existing count
   const existingCount = db.prepare("SELECT COUNT(*) as count FROM comments").get() as { count: number };
-  const skipCount = existingCount.count;
   console.log(`📊 Existing comments: ${existingCount.count}`);
   
   // Parse CSV
@@ -334,24 +566,40 @@ async function loadFromCsv(csvPath: string, options: any) {
   );
   
   let processed = 0;
-  let loaded = 0;
-  let skipped = 0;
+  const counts: SyncCounts = { new: 0, updated: 0, unchanged: 0, withdrawn: 0, skipped: 0 };
+  let staleSummaries = 0;
   
   try {
     for await (const row of parser) {
       processed++;
       
-      // Skip already loaded rows
-      if (processed <= skipCount) continue;
+      const commentId = row["Document ID"] || `row${processed}`;
+      const stored = getStoredComment(db, commentId);
+      
+      // Docket-wide bulk downloads carry the document each comment was made on
+      const targetDocumentId = row["Comment on Document ID"] || documentId;
+      if (!seenTargets.has(targetDocumentId)) {
+        seenTargets.add(targetDocumentId);
+        saveDocketDocument(db, targetDocumentId);
+      }
+      
+      // Rows are matched by comment ID, so a re-exported CSV in a different order is fine
+      if (row["Is Withdrawn?"] === "true") {
+        if (stored && !stored.withdrawn) {
+          withTransaction(db, () => {
+            staleSummaries += withdrawComments(db, [commentId]).staleSummaries;
+          });
+          counts.withdrawn++;
+        }
+        continue;
+      }
       
       // Check limit
-      if (options.limit && loaded >= options.limit) {
+      if (!stored && options.limit && counts.new >= options.limit) {
         console.log(`\n🛑 Reached limit of ${options.limit} comments`);
         break;
       }
       
-      const commentId = row["Document ID"] || `row${processed}`;
-      
       // Build attributes object
       const attributes: CommentAttributes = {};
       for (const [csvField, attrField] of Object.entries(fieldMap)) {
@@ -388,6 +636,20 @@ async function loadFromCsv(csvPath: string, options: any) {
         .map(u => u.trim())
         .filter(Boolean);
 
+      const contentHash = computeContentHash(attributes, urls);
+      if (stored && !stored.withdrawn) {
+        if (stored.content_hash === contentHash) {
+          counts.unchanged++;
+          continue;
+        }
+        // Loaded before content hashes were tracked: record the hash, keep the analysis
+        if (!stored.content_hash) {
+          setContentHash.run(contentHash, targetDocumentId, commentId);
+          counts.unchanged++;
+          continue;
+        }
+      }
+
       type AttachmentData = {
         attachId: string;
         fmt: string;
@@ -435,13 +697,17 @@ async function loadFromCsv(csvPath: string, options: any) {
       // Only save comment if all attachments were successfully downloaded (or skipped)
       if (attachmentFailures > 0 && !options.skipAttachments) {
         console.error(`⚠️  Skipping comment ${commentId} due to ${attachmentFailures} attachment failure(s)`);
-        skipped++;
+        counts.skipped++;
         continue;
       }
 
       // Save comment & attachments inside a single transaction (sync)
       withTransaction(db, () => {
-        insertComment.run(commentId, JSON.stringify(attributes));
+        upsertComment.run(commentId, JSON.stringify(attributes), contentHash, null, targetDocumentId);
+        deleteAttachments.run(commentId);
+        if (stored && !stored.withdrawn) {
+          staleSummaries += invalidateComments(db, [commentId]).staleSummaries;
+        }
 
         for (const att of attachments) {
           insertAttachment.run(
@@ -456,17 +722,27 @@ async function loadFromCsv(csvPath: string, options: any) {
         }
       });
       
-      loaded++;
+      if (stored) {
+        counts.updated++;
+      } else {
+        counts.new++;
+      }
       
+      const loaded = counts.new + counts.updated;
       if (loaded % 5 === 0 || loaded === 1) {
-        process.stdout.write(`\r📥 Loaded ${loaded} comments (${skipped} skipped)...`);
+        process.stdout.write(`\r📥 Loaded ${loaded} comments (${counts.skipped} skipped)...`);
       }
     }
     
-    console.log(`\n✅ Successfully loaded ${loaded} new comments (${existingCount.count + loaded} total)`);
-    if (skipped > 0) {
-      console.log(`⚠️  Skipped ${skipped} comments due to attachment failures`);
-      console.log(`💡 To retry these comments, run the load command again`);
+    saveSyncState(db, documentId, "csv", null, counts);
+    
+    console.log(`\n✅ Sync complete (${existingCount.count + counts.new} comments total)`);
+    printSyncCounts(counts);
+    if (staleSummaries > 0) {
+      console.log(`   🔄 ${staleSummaries} theme summaries will be regenerated`);
+    }
+    if (counts.skipped > 0) {
+      console.log(`💡 To retry skipped comments, run the load command again`);
     }
     
   } finally {
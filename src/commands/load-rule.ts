@@ -0,0 +1,169 @@
+import { Command } from "commander";
+import type { Database } from "bun:sqlite";
+import { readFile } from "fs/promises";
+import { extname } from "path";
+import { createHash } from "crypto";
+import { $ } from "bun";
+import { openDb, withTransaction } from "../lib/database";
+import { htmlToText, xmlToText, parseRuleSections, findRuleCitations, resolveCitation } from "../lib/rule-text";
+
+type RuleFormat = "html" | "xml" | "pdf" | "text";
+
+const FORMATS_BY_EXTENSION: Record<string, RuleFormat> = {
+  ".html": "html",
+  ".htm": "html",
+  ".xml": "xml",
+  ".pdf": "pdf",
+  ".txt": "text",
+};
+
+export const loadRuleCommand = new Command("load-rule")
+  .description("Load the proposed rule's text from a local HTML, XML or PDF file and split it into sections")
+  .argument("<document-id>", "Document ID (e.g., CMS-2025-0050-0031)")
+  .argument("<file>", "Rule document (Federal Register HTML or XML, eCFR XML, PDF or plain text)")
+  .option("--format <format>", "html, xml, pdf or text (default: from the file extension)")
+  .option("--title <title>", "Title to show for the rule (default: the docket's document title)")
+  .action(loadRule);
+
+export const linkRuleCommand = new Command("link-rule")
+  .description("Link comments and theme extracts to the rule sections they cite")
+  .argument("<document-id>", "Document ID (e.g., CMS-2025-0050-0031)")
+  .action(async (documentId: string) => {
+    const db = openDb(documentId);
+    try {
+      linkRuleSections(db);
+    } finally {
+      db.close();
+    }
+  });
+
+async function readRuleText(path: string, format: RuleFormat): Promise<string> {
+  if (format === "pdf") {
+    // Federal Register PDFs are set in three columns; reading order (no -layout) keeps paragraphs whole
+    return await $`pdftotext -enc UTF-8 ${path} -`.text();
+  }
+  const raw = await readFile(path, "utf-8");
+  if (format === "html") return htmlToText(raw);
+  if (format === "xml") return xmlToText(raw);
+  return raw;
+}
+
+async function loadRule(documentId: string, file: string, options: any) {
+  const format: RuleFormat | undefined = options.format || FORMATS_BY_EXTENSION[extname(file).toLowerCase()];
+  if (!format || !["html", "xml", "pdf", "text"].includes(format)) {
+    console.error(`❌ Can't tell the format of ${file}; pass --format html|xml|pdf|text`);
+    process.exit(1);
+  }
+
+  const db = openDb(documentId);
+
+  try {
+    console.log(`📜 Loading rule text from ${file} (${format})`);
+    const text = await readRuleText(file, format);
+    const sections = parseRuleSections(text);
+    if (sections.length === 0) {
+      console.error("❌ No section headings found (expected a preamble outline like 'I. Background' or '§ 170.315 ...' headings)");
+      process.exit(1);
+    }
+
+    const docMeta = db.prepare("SELECT title FROM document_metadata LIMIT 1").get() as { title: string | null } | null;
+    const title = options.title || docMeta?.title || null;
+
+    withTransaction(db, () => {
+      db.prepare("DELETE FROM comment_rule_sections").run();
+      db.prepare("DELETE FROM rule_sections").run();
+      db.prepare(`
+        INSERT OR REPLACE INTO rule_document (id, source_path, format, title, content_hash, loaded_at)
+        VALUES (1, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      `).run(file, format, title, createHash("sha256").update(text).digest("hex"));
+
+      const insert = db.prepare(`
+        INSERT INTO rule_sections (section_id, parent_id, kind, heading, text, position)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `);
+      for (const section of sections) {
+        insert.run(section.id, section.parentId, section.kind, section.heading, section.text, section.position);
+      }
+    });
+
+    const byKind = new Map<string, number>();
+    for (const section of sections) byKind.set(section.kind, (byKind.get(section.kind) || 0) + 1);
+    console.log(`✅ Stored ${sections.length} rule sections (${[...byKind].map(([kind, n]) => `${n} ${kind}`).join(", ")})`);
+
+    linkRuleSections(db);
+  } finally {
+    db.close();
+  }
+}
+
+function extractText(extractJson: string): string {
+  try {
+    const parsed = JSON.parse(extractJson);
+    return Object.values(parsed.extract || {})
+      .flatMap(items => (Array.isArray(items) ? items : []))
+      .join("\n");
+  } catch {
+    return "";
+  }
+}
+
+// Citations are matched in each comment's text (and its transcribed attachments) and in each of
+// its theme extracts, so a section can be browsed by the themes comments raise about it
+function linkRuleSections(db: Database) {
+  const known = new Set((db.prepare("SELECT section_id FROM rule_sections").all() as { section_id: string }[]).map(r => r.section_id));
+  if (known.size === 0) {
+    console.log("⏭️  No rule loaded, skipping rule section links (run 'load-rule' first)");
+    return;
+  }
+
+  console.log("🔗 Linking comments to rule sections...");
+  const comments = db.prepare(`
+    SELECT c.id, json_extract(c.attributes_json, '$.comment') as comment, t.markdown
+    FROM comments c
+    LEFT JOIN transcriptions t ON t.comment_id = c.id AND t.status = 'completed'
+    WHERE c.withdrawn = 0
+  `).all() as { id: string; comment: string | null; markdown: string | null }[];
+  const extracts = db.prepare(`
+    SELECT cte.comment_id, cte.theme_code, cte.extract_json
+    FROM comment_theme_extracts cte
+    JOIN comments c ON c.id = cte.comment_id
+    WHERE c.withdrawn = 0
+  `).all() as { comment_id: string; theme_code: string; extract_json: string }[];
+
+  const links = new Map<string, { commentId: string; sectionId: string; themeCode: string; citation: string }>();
+  const unresolved = new Map<string, number>();
+  const addLinks = (commentId: string, themeCode: string, text: string) => {
+    for (const { citation, sectionId } of findRuleCitations(text)) {
+      const resolved = resolveCitation(sectionId, known);
+      if (!resolved) {
+        unresolved.set(sectionId, (unresolved.get(sectionId) || 0) + 1);
+        continue;
+      }
+      const key = `${commentId}\t${resolved}\t${themeCode}`;
+      if (!links.has(key)) links.set(key, { commentId, sectionId: resolved, themeCode, citation });
+    }
+  };
+
+  for (const comment of comments) {
+    addLinks(comment.id, "", [htmlToText(comment.comment || ""), comment.markdown || ""].join("\n"));
+  }
+  for (const extract of extracts) {
+    addLinks(extract.comment_id, extract.theme_code, extractText(extract.extract_json));
+  }
+
+  withTransaction(db, () => {
+    db.prepare("DELETE FROM comment_rule_sections").run();
+    const insert = db.prepare(`
+      INSERT INTO comment_rule_sections (comment_id, section_id, theme_code, citation) VALUES (?, ?, ?, ?)
+    `);
+    for (const link of links.values()) insert.run(link.commentId, link.sectionId, link.themeCode, link.citation);
+  });
+
+  const linkedComments = new Set([...links.values()].map(l => l.commentId)).size;
+  const linkedSections = new Set([...links.values()].map(l => l.sectionId)).size;
+  console.log(`✅ ${linkedComments} of ${comments.length} comments cite ${linkedSections} rule sections (${links.size} links)`);
+  if (unresolved.size > 0) {
+    const top = [...unresolved].sort((a, b) => b[1] - a[1]).slice(0, 5).map(([id, n]) => `${id} (${n})`);
+    console.log(`   ${unresolved.size} cited sections aren't in the loaded rule, e.g. ${top.join(", ")}`);
+  }
+}
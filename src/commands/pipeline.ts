@@ -1,4 +1,4 @@
-import { Command } from "commander";
+import { Command, Option } from "commander";
 import { basename, extname } from "path";
 import { loadCommentsCommand } from "./load-comments";
 import { clusterCommentsFastCommand } from "./cluster-comments-fast";
@@ -7,11 +7,22 @@ import { condenseCommand } from "./condense";
 import { discoverThemesCommand } from "./discover-themes";
 import { extractThemeContentCommand } from "./extract-theme-content";
 import { summarizeThemesV2Command } from "./summarize-themes-v2";
+import { questionsCommand } from "./questions";
+import { verifyCommand } from "./verify";
 import { discoverEntitiesV2Command } from "./discover-entities-v2";
+import { extractCitationsCommand } from "./extract-citations";
+import { detectCampaignsCommand } from "./detect-campaigns";
+import { linkRuleCommand } from "./load-rule";
 import { buildWebsiteCommand } from "../website-build-script";
 import { vacuumDbCommand } from "./vacuum-db";
 import { openDb } from "../lib/database";
 import { checkClusteringStatus } from "../lib/comment-processing";
+import { BudgetExceededError, setSpendLimit } from "../lib/budget";
+import { cancellableSleep, CancelledError } from "../lib/cancellation";
+import { commandDepth, emitProgress, endCommands } from "../lib/progress";
+import { beginRun, endRun } from "../lib/provenance";
+import { getStaleness } from "../lib/staleness";
+import { rateLimitOf } from "../lib/rate-limiter";
 
 export const pipelineCommand = new Command("pipeline")
   .description("Run the complete analysis pipeline: load, cluster, condense, discover themes, extract theme content, summarize themes, discover entities, build website, and vacuum database")
@@ -23,10 +34,14 @@ export const pipelineCommand = new Command("pipeline")
   .option("--start-at <step>", "Start at a specific step (1-10): 1=load, 2=cluster, 3=transcribe, 4=condense, 5=discover-themes, 6=extract-theme-content, 7=summarize-themes, 8=discover-entities, 9=build-website, 10=vacuum-db")
   .option("-c, --concurrency <N>", "Number of concurrent operations")
   .option("--max-crashes <N>", "Maximum number of crashes before giving up (default: 10)", parseInt)
-  .option("-m, --model <model>", "AI model to use (gemini-pro, gemini-flash, gemini-flash-lite, claude)")
+  .option("-m, --model <model>", "AI model to use (gemini-3-flash, gemini-pro, gemini-flash, gemini-flash-lite, claude, mock, or a model from batch-config.json)")
   .option("--no-clustering", "Skip clustering entirely (process all comments)")
   .option("--recluster", "Force reclustering even if it exists")
-  .option("--similarity-threshold <N>", "Similarity threshold for clustering (default: 0.8)", parseFloat)
+  .addOption(new Option("--cluster-method <method>", "Clustering method (default: ngram)").choices(["ngram", "semantic"]))
+  .option("--similarity-threshold <N>", "Similarity threshold for clustering (default: 0.8 ngram, 0.9 semantic)", parseFloat)
+  .option("--dry-run", "Project LLM cost of the remaining steps from the current database without calling the model")
+  .option("--max-cost <usd>", "Stop the pipeline once estimated spend exceeds this many USD", parseFloat)
+  .option("--codebook <file>", "Fixed top-level themes for discover-themes (see discover-themes --codebook)")
   .action(async (sourceArg: string, options: any) => {
     // Detect if first argument is a CSV path (contains '.' or '/' or ends with .csv)
     const isCsv = sourceArg.includes("/") || sourceArg.toLowerCase().endsWith(".csv");
@@ -41,8 +56,30 @@ export const pipelineCommand = new Command("pipeline")
       process.exit(1);
     }
     
+    if (options.dryRun) {
+      await dryRunPipeline(documentId, options);
+      return;
+    }
+    
     console.log(`🚀 Starting pipeline for ${documentId} (source: ${loadSource}) at step ${startStep}\n`);
     console.log(`🛡️  Max crashes allowed: ${maxCrashes}`);
+    setSpendLimit(options.maxCost);
+    
+    // Every step joins this run, so all artifacts it writes share one run ID
+    const runDb = openDb(documentId);
+    const run = beginRun(runDb, 'pipeline', { source: sourceArg, ...options });
+    // Steps skip work that is up to date, so a rerun only recomputes what these counts show
+    const stale = getStaleness(runDb);
+    const staleExtracts = stale.extracts.staleTaxonomy + stale.extracts.staleContent;
+    if (stale.condensed.stale + staleExtracts + stale.summaries.stale > 0) {
+      console.log(`♻️  Stale from earlier runs: ${stale.condensed.stale} condensed comments, ${staleExtracts} comments' theme extracts, ${stale.summaries.stale} theme summaries`);
+    }
+    runDb.close();
+    const finishRun = (status: 'completed' | 'failed') => {
+      const db = openDb(documentId);
+      endRun(db, run, status);
+      db.close();
+    };
     
     const steps = [
       {
@@ -69,22 +106,31 @@ export const pipelineCommand = new Command("pipeline")
             return;
           }
           
-          // Check if clustering already exists
+          // Check if clustering already exists and predates no loaded, edited or withdrawn comments
           const db = openDb(documentId);
           const clusteringExists = checkClusteringStatus(db);
+          const changedSinceClustering = clusteringExists ? (db.prepare(`
+            SELECT COUNT(*) as count
+            FROM comments
+            WHERE COALESCE(updated_at, created_at) > (SELECT MAX(created_at) FROM clustering_status)
+          `).get() as { count: number }).count : 0;
           db.close();
           
-          if (clusteringExists && !options.recluster) {
+          if (clusteringExists && !options.recluster && changedSinceClustering === 0) {
             console.log("📊 Clustering already exists, skipping");
             return;
           }
+          if (clusteringExists && changedSinceClustering > 0) {
+            console.log(`🆕 ${changedSinceClustering} comments added or changed since the last clustering, reclustering`);
+          }
           
           await clusterCommentsFastCommand.parseAsync([
             'bun', 'cli.ts',
             documentId,
+            ...(options.clusterMethod ? ['--method', options.clusterMethod] : []),
             ...(options.similarityThreshold ? ['--similarity-threshold', options.similarityThreshold] : []),
             ...(options.debug ? ['--debug'] : []),
-            ...(options.recluster ? ['--force'] : [])
+            ...(clusteringExists ? ['--force'] : [])
           ]);
         }
       },
@@ -129,6 +175,7 @@ export const pipelineCommand = new Command("pipeline")
             ...(options.concurrency ? ['--concurrency', options.concurrency] : []),
             ...(options.model ? ['--model', options.model] : []),
             ...(!!options.clustering ? ['--use-clustering'] : []),
+            ...(options.codebook ? ['--codebook', options.codebook] : []),
           ]);
         }
       },
@@ -145,6 +192,16 @@ export const pipelineCommand = new Command("pipeline")
             ...(options.model ? ['--model', options.model] : []),
             ...(!!options.clustering ? ['--use-clustering'] : []),
           ]);
+          // RFI question answers; skipped unless 'questions load' has been run
+          await questionsCommand.parseAsync([
+            'bun', 'cli.ts',
+            'extract',
+            documentId,
+            ...(options.debug ? ['--debug'] : []),
+            ...(options.concurrency ? ['--concurrency', options.concurrency] : []),
+            ...(options.model ? ['--model', options.model] : []),
+            ...(!!options.clustering ? ['--use-clustering'] : []),
+          ]);
         }
       },
       {
@@ -160,6 +217,16 @@ export const pipelineCommand = new Command("pipeline")
             ...(options.model ? ['--model', options.model] : []),
             ...(!!options.clustering ? ['--use-clustering'] : []),
           ]);
+          await questionsCommand.parseAsync([
+            'bun', 'cli.ts',
+            'summarize',
+            documentId,
+            ...(options.debug ? ['--debug'] : []),
+            ...(options.concurrency ? ['--concurrency', options.concurrency] : []),
+            ...(options.model ? ['--model', options.model] : []),
+          ]);
+          // Check the new summaries' quotations and citations against the comments
+          await verifyCommand.parseAsync(['bun', 'cli.ts', documentId]);
         }
       },
       {
@@ -173,6 +240,11 @@ export const pipelineCommand = new Command("pipeline")
             ...(options.debug ? ['--debug'] : []),
             ...(options.model ? ['--model', options.model] : []),
           ]);
+          // Citations are matched by pattern rather than through the entity taxonomy
+          await extractCitationsCommand.parseAsync([
+            'bun', 'cli.ts',
+            documentId,
+          ]);
         }
       },
       {
@@ -180,6 +252,15 @@ export const pipelineCommand = new Command("pipeline")
         name: "Building website files",
         icon: "🏗️",
         execute: async () => {
+          // Cheap and LLM-free, so the campaign report and rule links are refreshed with every build
+          await detectCampaignsCommand.parseAsync([
+            'bun', 'cli.ts',
+            documentId,
+          ]);
+          await linkRuleCommand.parseAsync([
+            'bun', 'cli.ts',
+            documentId,
+          ]);
           await buildWebsiteCommand.parseAsync([
             'bun', 'cli.ts', 
             documentId,
@@ -203,6 +284,8 @@ export const pipelineCommand = new Command("pipeline")
     
     let crashCount = 0;
     let currentStep = startStep;
+    // Step commands that crash are ended here, not by the CLI, since the pipeline carries on
+    const pipelineDepth = commandDepth();
     
     while (currentStep <= 9 && crashCount < maxCrashes) {
       try {
@@ -210,6 +293,7 @@ export const pipelineCommand = new Command("pipeline")
         for (const step of steps) {
           if (step.num >= currentStep) {
             console.log(`\n${step.icon} Step ${step.num}/9: ${step.name}...`);
+            emitProgress({ type: "pipeline_step", step: step.num, steps: 9, name: step.name });
             await step.execute();
             currentStep = step.num + 1; // Move to next step on success
           } else {
@@ -220,6 +304,7 @@ export const pipelineCommand = new Command("pipeline")
         }
         
         // If we get here, all steps completed successfully
+        finishRun('completed');
         console.log("\n✅ Pipeline completed successfully!");
         console.log(`📁 Website files are in: ${options.output}`);
         console.log(`🌐 Copy to dashboard/public/data/ and run the dashboard`);
@@ -227,43 +312,113 @@ export const pipelineCommand = new Command("pipeline")
         break; // Exit the retry loop
         
       } catch (error) {
+        const stopped = error instanceof BudgetExceededError || error instanceof CancelledError;
+        endCommands(stopped ? "stopped" : "failed", error, pipelineDepth);
+        
+        // Spending more won't fix itself on retry; completed work is kept for the next run
+        if (error instanceof BudgetExceededError) {
+          console.error(`\n🛑 ${error.message}`);
+          console.error(`   Stopped at step ${currentStep}. Re-run with a higher --max-cost (and --start-at ${currentStep}) to continue.`);
+          finishRun('failed');
+          process.exit(1);
+        }
+        
+        // Ctrl-C is not a crash to restart from
+        if (error instanceof CancelledError) {
+          console.error(`\n🛑 Stopped at step ${currentStep}. Completed work is saved; re-run with --start-at ${currentStep} to resume.`);
+          finishRun('failed');
+          process.exit(130);
+        }
+        
         crashCount++;
         console.error(`💥 Pipeline crashed at step ${currentStep} (crash ${crashCount}/${maxCrashes}):`, error);
         
         if (crashCount >= maxCrashes) {
           console.error(`❌ Pipeline failed after ${maxCrashes} crashes. Giving up.`);
+          finishRun('failed');
           process.exit(1);
         } else {
-          let retryDelaySeconds = 5; // Default retry delay
-          try {
-            const errorMessage = (error as Error).message || '';
-            if (errorMessage.includes('429')) {
-              const jsonMatch = errorMessage.match(/{.*}/s);
-              if (jsonMatch) {
-                const outerJson = JSON.parse(jsonMatch[0]);
-                if (outerJson.error && typeof outerJson.error.message === 'string') {
-                  const innerJson = JSON.parse(outerJson.error.message);
-                  if (innerJson.error && Array.isArray(innerJson.error.details)) {
-                    const retryInfo = innerJson.error.details.find(
-                      (detail: any) => detail['@type'] === 'type.googleapis.com/google.rpc.RetryInfo'
-                    );
-                    if (retryInfo && typeof retryInfo.retryDelay === 'string') {
-                      const seconds = parseInt(retryInfo.retryDelay.replace('s', ''), 10);
-                      if (!isNaN(seconds)) {
-                        retryDelaySeconds = seconds + 2; // Add a small buffer
-                      }
-                    }
-                  }
-                }
-              }
-            }
-          } catch (e) {
-            console.warn('Could not parse retry delay from 429 error, using default 5s.');
-          }
+          // A rate limit that outlasted the limiter's retries: wait as long as the provider asked
+          const retryAfterMs = rateLimitOf(error)?.retryAfterMs;
+          const retryDelaySeconds = retryAfterMs !== undefined ? Math.ceil(retryAfterMs / 1000) + 2 : 5;
           
           console.log(`🔄 Restarting from step ${currentStep} in ${retryDelaySeconds} seconds...`);
-          await new Promise(resolve => setTimeout(resolve, retryDelaySeconds * 1000)); // Wait before retry
+          // Wait before retry; Ctrl-C during the wait stops the pipeline
+          await cancellableSleep(retryDelaySeconds * 1000).catch(error => {
+            finishRun('failed');
+            throw error;
+          });
         }
       }
     }
   }); 
+
+// Runs the --dry-run of each LLM step that has its inputs in the database.
+// Steps whose inputs come from an earlier step that hasn't run yet can't be projected.
+async function dryRunPipeline(documentId: string, options: any) {
+  const db = openDb(documentId);
+  const count = (sql: string) => (db.prepare(sql).get() as { count: number }).count;
+  const transcribed = count(`SELECT COUNT(*) as count FROM transcriptions WHERE status = 'completed'`);
+  const themes = count(`SELECT COUNT(*) as count FROM theme_hierarchy`);
+  const condensed = count(`SELECT COUNT(*) as count FROM condensed_comments WHERE status = 'completed'`);
+  const extracts = count(`SELECT COUNT(*) as count FROM comment_theme_extracts`);
+  const questions = count(`SELECT COUNT(*) as count FROM agency_questions`);
+  const answers = count(`SELECT COUNT(*) as count FROM comment_question_answers`);
+  const useClustering = !!options.clustering && checkClusteringStatus(db);
+  db.close();
+  
+  console.log(`💰 Dry run for ${documentId}: projecting cost from the current database\n`);
+  console.log(`⏭️  Not projected: transcribe, discover-themes, discover-entities`);
+  
+  const commonArgs = [
+    documentId,
+    '--dry-run',
+    ...(options.model ? ['--model', options.model] : []),
+  ];
+  
+  console.log(`\n📝 Condensing comments`);
+  if (transcribed === 0) {
+    console.log(`   ⏭️  No transcriptions yet - run the pipeline through step 3 first`);
+  } else {
+    await condenseCommand.parseAsync(['bun', 'cli.ts', ...commonArgs]);
+  }
+  
+  console.log(`\n🎯 Extracting theme content`);
+  if (themes === 0 || condensed === 0) {
+    console.log(`   ⏭️  Needs condensed comments and a theme hierarchy - run the pipeline through step 5 first`);
+  } else {
+    await extractThemeContentCommand.parseAsync([
+      'bun', 'cli.ts', ...commonArgs,
+      ...(useClustering ? ['--use-clustering'] : []),
+    ]);
+  }
+  
+  console.log(`\n📊 Summarizing themes`);
+  if (extracts === 0) {
+    console.log(`   ⏭️  No theme extracts yet - run the pipeline through step 6 first`);
+  } else {
+    await summarizeThemesV2Command.parseAsync([
+      'bun', 'cli.ts', ...commonArgs,
+      ...(useClustering ? ['--use-clustering'] : []),
+    ]);
+  }
+  
+  if (questions > 0) {
+    console.log(`\n❓ Answering agency questions`);
+    if (condensed === 0) {
+      console.log(`   ⏭️  No condensed comments yet - run the pipeline through step 4 first`);
+    } else {
+      await questionsCommand.parseAsync([
+        'bun', 'cli.ts', 'extract', ...commonArgs,
+        ...(useClustering ? ['--use-clustering'] : []),
+      ]);
+    }
+    
+    console.log(`\n📊 Summarizing question answers`);
+    if (answers === 0) {
+      console.log(`   ⏭️  No answers yet - run the pipeline through step 6 first`);
+    } else {
+      await questionsCommand.parseAsync(['bun', 'cli.ts', 'summarize', ...commonArgs]);
+    }
+  }
+}
@@ -0,0 +1,413 @@
+import { Command } from "commander";
+import type { Database } from "bun:sqlite";
+import { readFile } from "fs/promises";
+import { extname } from "path";
+import { openDb, withTransaction } from "../lib/database";
+import { initDebug } from "../lib/debug";
+import { AIClient } from "../lib/ai-client";
+import { runPool } from "../lib/worker-pool";
+import { getBatchOptions, getTaskConfig, getTaskModel } from "../lib/batch-config";
+import { checkClusteringStatus } from "../lib/comment-processing";
+import { BudgetExceededError, CostEstimator, setSpendLimit } from "../lib/budget";
+import { CancelledError } from "../lib/cancellation";
+import { reportItemFailure } from "../lib/progress";
+import { beginRun, endRun, promptTemplateHash } from "../lib/provenance";
+import { inputHash } from "../lib/staleness";
+import { htmlToText } from "../lib/rule-text";
+import { parseQuestionList, questionsFromRuleSections, formatQuestionList, type AgencyQuestion } from "../lib/agency-questions";
+import { buildQuestionAnswerPrompt } from "../prompts/question-answer";
+import { THEME_SUMMARY_FROM_EXTRACTS_PROMPT, EXTRACT_MERGE_PROMPT } from "../prompts/theme-extract";
+import { THEME_SUMMARY_STRUCTURE_PROMPT } from "../prompts/theme-summary";
+import { QUESTION_ANSWER_SCHEMA } from "../prompts/schemas";
+import { buildCommentText, cleanExtract } from "./extract-theme-content";
+import { summarizeExtracts, summaryCheckpoints, estimateThemeSummary, type ThemeExtract, type ThemeInfo } from "./summarize-themes-v2";
+
+export const questionsCommand = new Command("questions")
+  .description("Map comments to an RFI's numbered questions and summarize the answers to each");
+
+questionsCommand
+  .command("load")
+  .description("Load the agency's question list from a file or from the loaded rule text")
+  .argument("<document-id>", "Document ID (e.g., CMS-2025-0050-0031)")
+  .argument("[file]", "Question list (.txt or .md with one numbered question per line, .html, or .json)")
+  .option("--from-rule", "Read the questions from the rule loaded with 'load-rule'")
+  .action(loadQuestions);
+
+questionsCommand
+  .command("extract")
+  .description("Find each comment's answer to each question")
+  .argument("<document-id>", "Document ID (e.g., CMS-2025-0050-0031)")
+  .option("-l, --limit <n>", "Process only N comments", parseInt)
+  .option("--use-clustering", "Only read representative comments, include cluster sizes")
+  .option("-d, --debug", "Enable debug output")
+  .option("-c, --concurrency <n>", "Number of parallel API calls (default: 5)", parseInt)
+  .option("-m, --model <model>", "AI model to use (overrides config)")
+  .option("--dry-run", "Estimate prompts, tokens and cost without calling the model")
+  .option("--max-cost <usd>", "Abort once estimated spend exceeds this many USD", parseFloat)
+  .action(extractAnswers);
+
+questionsCommand
+  .command("summarize")
+  .description("Summarize the answers to each question, structured like the theme summaries")
+  .argument("<document-id>", "Document ID (e.g., CMS-2025-0050-0031)")
+  .option("--questions <codes>", "Comma-separated list of question codes to summarize (default: all)")
+  .option("--min-comments <n>", "Minimum answers required for a question (default: 1)", parseInt)
+  .option("-d, --debug", "Enable debug output")
+  .option("-c, --concurrency <n>", "Number of parallel API calls (default: 3)", parseInt)
+  .option("-m, --model <model>", "AI model to use (overrides config)")
+  .option("--dry-run", "Estimate prompts, tokens and cost without calling the model")
+  .option("--max-cost <usd>", "Abort once estimated spend exceeds this many USD", parseFloat)
+  .action(summarizeAnswers);
+
+function loadStoredQuestions(db: Database): AgencyQuestion[] {
+  return (db.prepare(`
+    SELECT code, question, position, section_id FROM agency_questions ORDER BY position
+  `).all() as { code: string; question: string; position: number; section_id: string | null }[])
+    .map(q => ({ code: q.code, question: q.question, position: q.position, sectionId: q.section_id }));
+}
+
+// Any change to the list re-reads every comment, as a changed theme group does for its extracts
+function questionsHash(questions: AgencyQuestion[]): string {
+  return inputHash(formatQuestionList(questions));
+}
+
+async function readQuestionFile(file: string): Promise<AgencyQuestion[]> {
+  const raw = await readFile(file, "utf-8");
+  const ext = extname(file).toLowerCase();
+
+  if (ext === ".json") {
+    const data = JSON.parse(raw);
+    const items = Array.isArray(data) ? data : data.questions;
+    if (!Array.isArray(items)) {
+      throw new Error("expected an array of questions, or { \"questions\": [...] }");
+    }
+    return items.map((item: any, position: number) => typeof item === "string"
+      ? { code: String(position + 1), question: item, position, sectionId: null }
+      : { code: String(item.code ?? position + 1), question: String(item.question ?? ""), position, sectionId: item.section ?? null });
+  }
+
+  const text = ext === ".html" || ext === ".htm" ? htmlToText(raw) : raw;
+  return parseQuestionList(text).map((q, position) => ({ ...q, position, sectionId: null }));
+}
+
+async function loadQuestions(documentId: string, file: string | undefined, options: any) {
+  if (!file === !options.fromRule) {
+    console.error("❌ Give either a question file or --from-rule");
+    process.exit(1);
+  }
+
+  const db = openDb(documentId);
+
+  try {
+    let questions: AgencyQuestion[];
+    if (options.fromRule) {
+      const sections = db.prepare("SELECT section_id, text FROM rule_sections ORDER BY position").all() as { section_id: string; text: string }[];
+      if (sections.length === 0) {
+        console.error("❌ No rule loaded. Run 'load-rule' first, or give a question file.");
+        process.exit(1);
+      }
+      questions = questionsFromRuleSections(sections);
+    } else {
+      try {
+        questions = await readQuestionFile(file!);
+      } catch (error) {
+        console.error(`❌ Can't read questions from ${file}: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+      }
+    }
+
+    const errors: string[] = [];
+    const seen = new Set<string>();
+    for (const q of questions) {
+      if (!q.question.trim()) errors.push(`Question ${q.code} has no text`);
+      if (seen.has(q.code)) errors.push(`Question code ${q.code} appears more than once`);
+      seen.add(q.code);
+    }
+    if (questions.length === 0) errors.push("No questions found (expected lines like '1. How should...?')");
+    if (errors.length > 0) {
+      for (const error of errors) console.error(`❌ ${error}`);
+      process.exit(1);
+    }
+
+    // Answers and summaries of questions that were dropped or reworded no longer apply
+    const previous = new Map(loadStoredQuestions(db).map(q => [q.code, q.question]));
+    const changed = [...previous].filter(([code, question]) => questions.find(q => q.code === code)?.question !== question).map(([code]) => code);
+
+    withTransaction(db, () => {
+      for (const code of changed) {
+        db.prepare("DELETE FROM comment_question_answers WHERE question_code = ?").run(code);
+        db.prepare("DELETE FROM question_summaries WHERE question_code = ?").run(code);
+      }
+      db.prepare("DELETE FROM agency_questions").run();
+      const insert = db.prepare("INSERT INTO agency_questions (code, question, position, section_id) VALUES (?, ?, ?, ?)");
+      for (const q of questions) insert.run(q.code, q.question, q.position, q.sectionId);
+    });
+
+    console.log(`📋 Loaded ${questions.length} agency questions from ${options.fromRule ? "the rule text" : file}`);
+    for (const q of questions.slice(0, 5)) {
+      console.log(`   ${q.code}: ${q.question.length > 100 ? q.question.substring(0, 97) + "..." : q.question}`);
+    }
+    if (questions.length > 5) console.log(`   ... and ${questions.length - 5} more`);
+    if (changed.length > 0) console.log(`🗑️  Dropped answers to ${changed.length} removed or reworded questions`);
+  } finally {
+    db.close();
+  }
+}
+
+async function extractAnswers(documentId: string, options: any) {
+  await initDebug(options.debug);
+
+  const db = openDb(documentId);
+  const effectiveModel = getTaskModel('extractThemeContent', options.model);
+  const ai = new AIClient(effectiveModel, db);
+
+  try {
+    const questions = loadStoredQuestions(db);
+    if (questions.length === 0) {
+      console.log("⏭️  No agency questions loaded, skipping (run 'questions load' first)");
+      return;
+    }
+
+    console.log(`❓ Mapping comments to ${questions.length} agency questions for document ${documentId}`);
+    console.log(`   Using model: ${effectiveModel}`);
+
+    if (options.useClustering && !checkClusteringStatus(db)) {
+      console.error("❌ No clustering data found. Run 'cluster-comments-fast' first.");
+      process.exit(1);
+    }
+
+    const questionsText = formatQuestionList(questions);
+    const listHash = questionsHash(questions);
+
+    const candidates = db.prepare(`
+      SELECT
+        cc.comment_id,
+        cc.structured_sections,
+        t.markdown,
+        ${options.useClustering ? "ccl.cluster_size" : "1 as cluster_size"},
+        c.content_hash,
+        qai.content_hash as answered_content_hash,
+        qai.questions_hash as answered_questions_hash
+      FROM condensed_comments cc
+      INNER JOIN comments c ON cc.comment_id = c.id
+      ${options.useClustering ? `INNER JOIN comment_cluster_membership ccm ON cc.comment_id = ccm.comment_id AND ccm.is_representative = 1
+      INNER JOIN comment_clusters ccl ON ccm.cluster_id = ccl.cluster_id` : ""}
+      LEFT JOIN transcriptions t ON cc.comment_id = t.comment_id AND t.status = 'completed'
+      LEFT JOIN question_answer_inputs qai ON cc.comment_id = qai.comment_id
+      WHERE cc.status = 'completed' AND c.withdrawn = 0
+      ORDER BY cc.comment_id
+    `).all() as {
+      comment_id: string;
+      structured_sections: string;
+      markdown: string | null;
+      cluster_size: number;
+      content_hash: string | null;
+      answered_content_hash: string | null;
+      answered_questions_hash: string | null;
+    }[];
+
+    let comments = candidates.filter(c => c.answered_questions_hash !== listHash || c.answered_content_hash !== c.content_hash);
+    if (options.limit) comments = comments.slice(0, options.limit);
+
+    console.log(`🎯 Found ${comments.length} comments to read (${candidates.length - comments.length} already current)`);
+    if (comments.length === 0) {
+      console.log("✅ No comments to process");
+      return;
+    }
+
+    if (options.dryRun) {
+      const estimator = new CostEstimator(db);
+      for (const comment of comments) {
+        estimator.addPrompt(effectiveModel, 'question_answer', buildQuestionAnswerPrompt(buildCommentText(comment), questionsText));
+      }
+      estimator.print();
+      return;
+    }
+
+    setSpendLimit(options.maxCost);
+
+    const run = beginRun(db, 'questions extract', options);
+    try {
+      const promptHash = promptTemplateHash(buildQuestionAnswerPrompt('{COMMENT}', '{QUESTIONS}'));
+      const codes = new Set(questions.map(q => q.code));
+      const concurrency = options.concurrency || getTaskConfig('extractThemeContent', effectiveModel)?.concurrency || 5;
+      let successful = 0;
+      let failed = 0;
+
+      await runPool(comments, concurrency, async (comment, index, total) => {
+        console.log(`\n[${index}/${total}] Reading comment ${comment.comment_id}`);
+
+        try {
+          const answers = await ai.generateContent(
+            buildQuestionAnswerPrompt(buildCommentText(comment), questionsText),
+            options.debug ? `question_answer_${comment.comment_id}` : undefined,
+            undefined,
+            {
+              taskType: 'question_answer',
+              taskLevel: 0,
+              params: { commentId: comment.comment_id, questionCount: questions.length }
+            },
+            QUESTION_ANSWER_SCHEMA
+          );
+
+          let answered = 0;
+          withTransaction(db, () => {
+            db.prepare("DELETE FROM comment_question_answers WHERE comment_id = ?").run(comment.comment_id);
+            const insert = db.prepare(`
+              INSERT INTO comment_question_answers (comment_id, question_code, extract_json, cluster_size, run_id, model, prompt_hash)
+              VALUES (?, ?, ?, ?, ?, ?, ?)
+            `);
+            for (const [code, answer] of Object.entries(answers || {})) {
+              if (!codes.has(code) || answer?.relevance !== 1) continue;
+              const cleaned = cleanExtract(answer);
+              if (!cleaned) continue;
+              insert.run(comment.comment_id, code, JSON.stringify(cleaned), comment.cluster_size, run.runId, effectiveModel, promptHash);
+              answered++;
+            }
+            db.prepare(`
+              INSERT OR REPLACE INTO question_answer_inputs (comment_id, content_hash, questions_hash) VALUES (?, ?, ?)
+            `).run(comment.comment_id, comment.content_hash, listHash);
+          });
+
+          console.log(`  ✅ Answers ${answered} of ${questions.length} questions`);
+          successful++;
+        } catch (error) {
+          if (error instanceof BudgetExceededError || error instanceof CancelledError) throw error;
+          failed++;
+          console.error(`  ❌ Error: ${error instanceof Error ? error.message : String(error)}`);
+          reportItemFailure("comments", comment.comment_id, error);
+        }
+      }, { label: "comments", itemId: comment => comment.comment_id });
+
+      console.log("\n📊 Question mapping complete:");
+      console.log(`  ✅ Successful: ${successful}`);
+      console.log(`  ❌ Failed: ${failed}`);
+
+      const coverage = db.prepare(`
+        SELECT aq.code, COUNT(cqa.comment_id) as answers
+        FROM agency_questions aq
+        LEFT JOIN comment_question_answers cqa ON aq.code = cqa.question_code
+        GROUP BY aq.code
+        ORDER BY aq.position
+      `).all() as { code: string; answers: number }[];
+      console.log("\n📈 Answers per question:");
+      for (const row of coverage) console.log(`  ${row.code}: ${row.answers}`);
+
+      endRun(db, run, 'completed');
+    } catch (error) {
+      endRun(db, run, 'failed');
+      throw error;
+    }
+  } finally {
+    db.close();
+  }
+}
+
+function getAnswers(db: Database, code: string): ThemeExtract[] {
+  return db.prepare(`
+    SELECT cqa.comment_id, cqa.extract_json, cqa.cluster_size, cc.structured_sections
+    FROM comment_question_answers cqa
+    LEFT JOIN condensed_comments cc ON cqa.comment_id = cc.comment_id
+    WHERE cqa.question_code = ?
+    ORDER BY cqa.cluster_size DESC, cqa.comment_id
+  `).all(code) as ThemeExtract[];
+}
+
+// The theme summary prompts take the question in place of a theme description
+function questionAsTheme(question: AgencyQuestion): ThemeInfo {
+  return { code: question.code, description: `Agency question ${question.code}: ${question.question}` };
+}
+
+async function summarizeAnswers(documentId: string, options: any) {
+  await initDebug(options.debug);
+
+  const db = openDb(documentId);
+  const effectiveModel = getTaskModel('summarizeThemes', options.model);
+  const ai = new AIClient(effectiveModel, db);
+
+  try {
+    let questions = loadStoredQuestions(db);
+    if (questions.length === 0) {
+      console.log("⏭️  No agency questions loaded, skipping (run 'questions load' first)");
+      return;
+    }
+    if (options.questions) {
+      const wanted = new Set(options.questions.split(',').map((c: string) => c.trim()));
+      questions = questions.filter(q => wanted.has(q.code));
+    }
+
+    console.log(`📝 Summarizing answers to agency questions for document ${documentId}`);
+    console.log(`   Using model: ${effectiveModel}`);
+
+    // Every answered question is part of the deliverable, so by default even one answer is summarized
+    const minComments = options.minComments || 1;
+    const recorded = new Map((db.prepare("SELECT question_code, input_hash FROM question_summaries").all() as { question_code: string; input_hash: string | null }[])
+      .map(r => [r.question_code, r.input_hash]));
+
+    const pending = questions
+      .map(q => {
+        const answers = getAnswers(db, q.code);
+        const hash = inputHash(q.code, q.question, ...answers.map(a => `${a.comment_id}\t${a.extract_json}`));
+        return { question: q, answers, hash };
+      })
+      .filter(p => p.answers.length >= minComments && recorded.get(p.question.code) !== p.hash);
+
+    if (pending.length === 0) {
+      console.log("✅ All answered questions already summarized");
+      return;
+    }
+    console.log(`🆕 ${pending.length} questions need summarization`);
+
+    const batchConfig = getBatchOptions('summarizeThemes');
+    const batchOptions = {
+      totalWordLimit: batchConfig?.triggerWordLimit || 200000,
+      batchWordLimit: batchConfig?.batchWordLimit || 125000
+    };
+
+    if (options.dryRun) {
+      const estimator = new CostEstimator(db);
+      for (const { question, answers } of pending) {
+        estimateThemeSummary(estimator, effectiveModel, questionAsTheme(question), answers, batchOptions);
+      }
+      estimator.print();
+      return;
+    }
+
+    setSpendLimit(options.maxCost);
+
+    const run = beginRun(db, 'questions summarize', options);
+    try {
+      const promptHash = promptTemplateHash(THEME_SUMMARY_FROM_EXTRACTS_PROMPT, EXTRACT_MERGE_PROMPT, THEME_SUMMARY_STRUCTURE_PROMPT);
+      const concurrency = options.concurrency || getTaskConfig('summarizeThemes', effectiveModel).concurrency || 3;
+
+      await runPool(pending, concurrency, async ({ question, answers, hash }, index, total) => {
+        console.log(`\n[${index}/${total}] Question ${question.code}: ${answers.length} answers`);
+
+        try {
+          const checkpoints = summaryCheckpoints(db, `questions:${question.code}`, effectiveModel, promptHash, answers, batchOptions);
+          const sections = await summarizeExtracts(ai, questionAsTheme(question), answers, batchOptions, options.debug, checkpoints);
+          db.prepare(`
+            INSERT OR REPLACE INTO question_summaries (question_code, structured_sections, comment_count, input_hash, run_id, model, prompt_hash)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+          `).run(question.code, JSON.stringify(sections), answers.length, hash, run.runId, effectiveModel, promptHash);
+          checkpoints.clear();
+          console.log(`   ✅ Summary generated successfully`);
+        } catch (error) {
+          if (error instanceof BudgetExceededError || error instanceof CancelledError) throw error;
+          console.error(`   ❌ Error:`, error);
+          reportItemFailure("questions", question.code, error);
+        }
+      }, { label: "questions", itemId: ({ question }) => question.code });
+
+      const summaryCount = db.prepare("SELECT COUNT(*) as count FROM question_summaries").get() as { count: number };
+      console.log(`\n✅ Question summaries: ${summaryCount.count} of ${loadStoredQuestions(db).length} questions`);
+
+      endRun(db, run, 'completed');
+    } catch (error) {
+      endRun(db, run, 'failed');
+      throw error;
+    }
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,88 @@
+import { Command } from "commander";
+import { openDb } from "../lib/database";
+import { getTaskModel } from "../lib/batch-config";
+import { getEmbeddingProvider } from "../lib/embedding-providers";
+import {
+  EMBEDDING_SOURCES,
+  findSimilarComments,
+  getEmbeddingModels,
+  searchByVector,
+  type EmbeddingSource,
+  type SimilarComment,
+} from "../lib/embeddings";
+
+export const similarCommand = new Command("similar")
+  .description("Find comments semantically similar to a comment or a text query (needs 'embed')")
+  .argument("<document-id>", "Document ID (e.g., CMS-2025-0050-0031)")
+  .argument("[comment-id]", "Comment to find neighbours of")
+  .option("-t, --text <query>", "Search by text instead of a comment")
+  .option("-s, --source <source>", "Embeddings to search: transcription|condensed|content", "condensed")
+  .option("-m, --model <model>", "Embedding model (default: the one with the most stored embeddings)")
+  .option("-n, --top <n>", "Number of results", parseInt)
+  .option("--min-similarity <n>", "Only show results at or above this cosine similarity", parseFloat)
+  .option("--json", "Output results as JSON")
+  .action(findSimilar);
+
+async function findSimilar(documentId: string, commentId: string | undefined, options: any) {
+  const source = options.source as EmbeddingSource;
+  if (!EMBEDDING_SOURCES.includes(source)) {
+    console.log(`❌ Unknown source "${options.source}" (expected transcription, condensed or content)`);
+    return;
+  }
+  if (!commentId && !options.text) {
+    console.log("❌ Give a comment ID or --text to search for");
+    return;
+  }
+
+  const db = openDb(documentId);
+
+  try {
+    const model = options.model || getEmbeddingModels(db, source)[0] || getTaskModel("embed");
+    const similarityOptions = {
+      source,
+      model,
+      limit: options.top || 10,
+      minSimilarity: options.minSimilarity,
+    };
+
+    let results: SimilarComment[];
+    if (options.text) {
+      const [vector] = await getEmbeddingProvider(model, db).embed([options.text]);
+      results = searchByVector(db, vector, similarityOptions);
+    } else {
+      results = findSimilarComments(db, commentId!, similarityOptions);
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify(results, null, 2));
+      return;
+    }
+
+    const describe = db.prepare(`
+      SELECT
+        COALESCE(
+          json_extract(c.attributes_json, '$.organization'),
+          TRIM(COALESCE(json_extract(c.attributes_json, '$.firstName'), '') || ' ' || COALESCE(json_extract(c.attributes_json, '$.lastName'), ''))
+        ) as submitter,
+        json_extract(cc.structured_sections, '$.oneLineSummary') as summary
+      FROM comments c
+      LEFT JOIN condensed_comments cc ON cc.comment_id = c.id
+      WHERE c.id = ?
+    `);
+
+    console.log(`\n🔎 ${options.text ? `Comments like "${options.text}"` : `Comments like ${commentId}`} (${source}, ${model})\n`);
+    if (results.length === 0) {
+      console.log("   No similar comments found");
+      return;
+    }
+    for (const result of results) {
+      const info = describe.get(result.commentId) as { submitter: string | null; summary: string | null } | null;
+      console.log(`   ${result.similarity.toFixed(3)}  ${result.commentId}  ${info?.submitter || "Anonymous"}`);
+      if (info?.summary) {
+        console.log(`          ${info.summary.substring(0, 140)}${info.summary.length > 140 ? "..." : ""}`);
+      }
+    }
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,80 @@
+import { Command } from "commander";
+import { openDb, getProcessingStatus } from "../lib/database";
+import { getStaleness, type StalenessReport } from "../lib/staleness";
+
+export const statusCommand = new Command("status")
+  .description("Report which analysis artifacts are missing or stale and need recomputing")
+  .argument("<document-id>", "Document ID (e.g., CMS-2025-0050-0031)")
+  .option("--json", "Output the report as JSON")
+  .action(showStatus);
+
+// First pipeline step with work to redo, for the --start-at hint
+function firstStaleStep(report: StalenessReport, transcriptionsPending: number): number | null {
+  if (transcriptionsPending > 0) return 3;
+  if (report.condensed.stale > 0 || report.condensed.pending > 0) return 4;
+  if (report.extracts.staleTaxonomy > 0 || report.extracts.staleContent > 0 || report.extracts.orphaned > 0) return 6;
+  if (report.summaries.stale > 0 || report.summaries.orphaned > 0) return 7;
+  return null;
+}
+
+async function showStatus(documentId: string, options: any) {
+  const db = openDb(documentId);
+
+  try {
+    const comments = db.prepare(`
+      SELECT COUNT(*) as total, SUM(CASE WHEN withdrawn = 1 THEN 1 ELSE 0 END) as withdrawn FROM comments
+    `).get() as { total: number; withdrawn: number | null };
+    const transcriptions = getProcessingStatus(db, "transcriptions");
+    const report = getStaleness(db);
+    const nextStep = firstStaleStep(report, transcriptions.pending || 0);
+
+    if (options.json) {
+      console.log(JSON.stringify({ documentId, comments, transcriptions, ...report, nextStep }, null, 2));
+      return;
+    }
+
+    console.log(`📋 Analysis status for ${documentId}`);
+    console.log(`\n   Comments: ${comments.total} (${comments.withdrawn || 0} withdrawn)`);
+    console.log(`   Transcriptions: ${transcriptions.completed || 0} completed, ${transcriptions.pending || 0} pending, ${transcriptions.failed || 0} failed`);
+
+    const { condensed, taxonomy, extracts, summaries } = report;
+    console.log(`\n   Condensed comments: ${condensed.current} current, ${condensed.stale} stale, ${condensed.pending} pending`);
+    if (condensed.untracked > 0) {
+      console.log(`     ${condensed.untracked} condensed before input tracking (not checked)`);
+    }
+
+    if (taxonomy.themes === 0) {
+      console.log(`\n   Taxonomy: not discovered yet`);
+    } else {
+      console.log(`\n   Taxonomy: ${taxonomy.themes} themes in ${taxonomy.groups} groups`);
+      if (taxonomy.condensedSince > 0) {
+        console.log(`     ${taxonomy.condensedSince} comments were condensed after it was built (rediscover themes to include them)`);
+      }
+    }
+
+    console.log(`\n   Theme extracts: ${extracts.comments} comments extracted`);
+    console.log(`     ${extracts.staleTaxonomy} stale from taxonomy changes, ${extracts.staleContent} stale from comment changes`);
+    if (extracts.orphaned > 0) {
+      console.log(`     ${extracts.orphaned} extracts for themes no longer in the taxonomy`);
+    }
+    if (extracts.untracked > 0) {
+      console.log(`     ${extracts.untracked} comments extracted before input tracking (not checked)`);
+    }
+
+    console.log(`\n   Theme summaries: ${summaries.current} current, ${summaries.stale} stale`);
+    if (summaries.orphaned > 0) {
+      console.log(`     ${summaries.orphaned} summaries for themes no longer in the taxonomy`);
+    }
+    if (summaries.untracked > 0) {
+      console.log(`     ${summaries.untracked} written before input tracking (not checked)`);
+    }
+
+    if (nextStep) {
+      console.log(`\n🔄 Recompute what changed with: bun run cli pipeline ${documentId} --start-at ${nextStep}`);
+    } else {
+      console.log(`\n✅ Nothing stale`);
+    }
+  } finally {
+    db.close();
+  }
+}
@@ -5,11 +5,22 @@ import { initDebug } from "../lib/debug";
 import { AIClient } from "../lib/ai-client";
 import { THEME_SUMMARY_FROM_EXTRACTS_PROMPT, EXTRACT_MERGE_PROMPT } from "../prompts/theme-extract";
 import { THEME_SUMMARY_STRUCTURE_PROMPT } from "../prompts/theme-summary";
-import { parseJsonResponse } from "../lib/json-parser";
+import { THEME_SUMMARY_STRUCTURE_SCHEMA } from "../prompts/schemas";
 import { runPool } from "../lib/worker-pool";
 import { getTaskConfig, getTaskModel, getBatchOptions } from "../lib/batch-config";
 import { createEvenBatches } from "../lib/batch-processor";
 import { checkClusteringStatus, getStoredRepresentativeIds } from "../lib/comment-processing";
+import { BudgetExceededError, CostEstimator, getExpectedOutputTokens, setSpendLimit } from "../lib/budget";
+import { CancelledError } from "../lib/cancellation";
+import { reportItemFailure } from "../lib/progress";
+import { estimateTokens } from "../lib/usage-ledger";
+import { beginRun, endRun, promptTemplateHash } from "../lib/provenance";
+import { inputHash, summaryInputHash } from "../lib/staleness";
+import { TaskQueue, buildHierarchicalTasks } from "../lib/task-queue";
+import { TaskCheckpoints } from "../lib/checkpoints";
+
+export type ThemeInfo = { code: string; description: string; detailed_guidelines?: string };
+export type ThemeExtract = { comment_id: string; extract_json: string; cluster_size: number; structured_sections: string };
 
 export const summarizeThemesV2Command = new Command("summarize-themes-v2")
   .description("Generate theme summaries from pre-extracted theme-specific content")
@@ -22,6 +33,8 @@ export const summarizeThemesV2Command = new Command("summarize-themes-v2")
   .option("-c, --concurrency <n>", "Number of parallel API calls (default: 3)", parseInt)
   .option("-m, --model <model>", "AI model to use (overrides config)")
   .option("--use-clustering", "Use clustering data and weight by cluster sizes")
+  .option("--dry-run", "Estimate prompts, tokens and cost without calling the model")
+  .option("--max-cost <usd>", "Abort once estimated spend exceeds this many USD", parseFloat)
   .action(summarizeThemesV2);
 
 async function summarizeThemesV2(documentId: string, options: any) {
@@ -45,6 +58,10 @@ async function summarizeThemesV2(documentId: string, options: any) {
       process.exit(1);
     }
     representativeIds = getStoredRepresentativeIds(db) || undefined;
+    // Members' personal additions to form letters are extracted on their own and summarized too
+    for (const row of db.prepare("SELECT comment_id FROM cluster_member_additions").all() as { comment_id: string }[]) {
+      representativeIds?.add(row.comment_id);
+    }
     console.log(`🔗 Using stored clustering (${representativeIds?.size || 0} representative comments)`);
   }
   
@@ -100,18 +117,25 @@ async function summarizeThemesV2(documentId: string, options: any) {
   
   console.log(`📊 Found ${themes.length} themes to analyze`);
   
-  // Check for existing summaries
-  const existingSummaries = db.prepare("SELECT theme_code FROM theme_summaries").all() as { theme_code: string }[];
-  const existingCodes = new Set(existingSummaries.map(s => s.theme_code));
+  // Check for existing summaries; one whose theme wording or extracts changed since is rewritten
+  const existingSummaries = db.prepare("SELECT theme_code, input_hash FROM theme_summaries").all() as { theme_code: string; input_hash: string | null }[];
+  const existingHashes = new Map(existingSummaries.map(s => [s.theme_code, s.input_hash]));
   
-  const themesToProcess = themes.filter(t => !existingCodes.has(t.code));
+  const themesToProcess = themes
+    .map(t => ({ ...t, input_hash: summaryInputHash(db, t) }))
+    .filter(t => {
+      if (!existingHashes.has(t.code)) return true;
+      const recorded = existingHashes.get(t.code);
+      return !!recorded && recorded !== t.input_hash;
+    });
   
   if (themesToProcess.length === 0) {
     console.log("✅ All themes already summarized");
     return;
   }
   
-  console.log(`🆕 ${themesToProcess.length} themes need summarization`);
+  const staleCount = themesToProcess.filter(t => existingHashes.has(t.code)).length;
+  console.log(`🆕 ${themesToProcess.length} themes need summarization${staleCount > 0 ? ` (${staleCount} stale)` : ''}`);
   
   const concurrency = options.concurrency || taskConfig.concurrency || 3;
   const batchConfig = getBatchOptions('summarizeThemes');
@@ -120,152 +144,249 @@ async function summarizeThemesV2(documentId: string, options: any) {
     batchWordLimit: options.batchSize || batchConfig?.batchWordLimit || 125000
   };
   
-  await runPool(
-    themesToProcess,
-    concurrency,
-    async (theme, index, total) => {
-      console.log(`\n[${index}/${total}] Processing theme ${theme.code}: ${theme.description}`);
-      console.log(`   Extracts: ${theme.extract_count}`);
+  if (options.dryRun) {
+    const estimator = new CostEstimator(db);
+    for (const theme of themesToProcess) {
+      estimateThemeSummary(estimator, effectiveModel, theme, getThemeExtracts(db, theme.code, representativeIds), batchOptions);
+    }
+    estimator.print();
+    db.close();
+    return;
+  }
+  
+  setSpendLimit(options.maxCost);
+  
+  // Summaries of themes dropped from the taxonomy can't be refreshed
+  const orphaned = db.prepare(`
+    DELETE FROM theme_summaries WHERE theme_code NOT IN (SELECT code FROM theme_hierarchy)
+  `).run().changes;
+  if (orphaned > 0) {
+    console.log(`🗑️  Removed ${orphaned} summaries for themes no longer in the taxonomy`);
+  }
+  
+  const run = beginRun(db, 'summarize-themes-v2', options);
+  try {
+    const promptHash = promptTemplateHash(THEME_SUMMARY_FROM_EXTRACTS_PROMPT, EXTRACT_MERGE_PROMPT, THEME_SUMMARY_STRUCTURE_PROMPT);
+  
+    await runPool(
+      themesToProcess,
+      concurrency,
+      async (theme, index, total) => {
+        console.log(`\n[${index}/${total}] Processing theme ${theme.code}: ${theme.description}`);
+        console.log(`   Extracts: ${theme.extract_count}`);
       
-      try {
-        // Get extracts for this theme with commenter metadata (optionally filtered to representatives)
-        let extractQuery = `
-          SELECT 
-            cte.comment_id,
-            cte.extract_json,
-            cte.cluster_size,
-            cc.structured_sections
-          FROM comment_theme_extracts cte
-          JOIN condensed_comments cc ON cte.comment_id = cc.comment_id
-          WHERE cte.theme_code = ?
-        `;
-        const extractParams: any[] = [theme.code];
-        
-        // Add filter for representative comments if requested
-        if (representativeIds && representativeIds.size > 0) {
-          const placeholders = Array.from(representativeIds).map(() => '?').join(',');
-          extractQuery += ` AND cte.comment_id IN (${placeholders})`;
-          extractParams.push(...Array.from(representativeIds));
-        }
-        
-        extractQuery += ` ORDER BY cte.cluster_size DESC, cte.comment_id`;
-        
-        const extracts = db.prepare(extractQuery).all(...extractParams) as {
-          comment_id: string;
-          extract_json: string;
-          cluster_size: number;
-          structured_sections: string;
-        }[];
-        
-        // Calculate total word count from extracts and structured sections
-        const totalWords = extracts.reduce((sum, e) => {
-          const extract = JSON.parse(e.extract_json);
-          const sections = JSON.parse(e.structured_sections || '{}');
-          
-          // Count words in extract content
-          const extractText = [
-            ...(extract.extract.positions || []),
-            ...(extract.extract.concerns || []),
-            ...(extract.extract.recommendations || []),
-            ...(extract.extract.experiences || []),
-            ...(extract.extract.key_quotes || [])
-          ].join(' ');
-          
-          // Count words in commenter profile
-          const profileText = sections.commenterProfile || '';
-          
-          const totalText = extractText + ' ' + profileText;
-          return sum + totalText.split(/\s+/).filter(w => w.length > 0).length;
-        }, 0);
-        
-        console.log(`   Total word count: ${totalWords}`);
-        
-        let finalAnalysis: string;
-        
-        if (totalWords <= batchOptions.totalWordLimit) {
-          // Process in single batch
-          console.log(`   Processing as single batch`);
-          finalAnalysis = await analyzeThemeExtracts(ai, theme, extracts, options.debug, 1, 1);
-        } else {
-          // Process in batches and merge
-          console.log(`   Large theme - using batching`);
-          finalAnalysis = await processThemeInBatches(ai, theme, extracts, batchOptions, options.debug);
-        }
+        try {
+          const extracts = getThemeExtracts(db, theme.code, representativeIds);
+          const checkpoints = summaryCheckpoints(db, `summarize-themes-v2:${theme.code}`, effectiveModel, promptHash, extracts, batchOptions);
+          const finalSections = await summarizeExtracts(ai, theme, extracts, batchOptions, options.debug, checkpoints);
+
+          // Save summary
+          withTransaction(db, () => {
+            db.prepare(`
+              INSERT OR REPLACE INTO theme_summaries (
+                theme_code, structured_sections, 
+                comment_count, word_count, input_hash,
+                run_id, model, prompt_hash
+              )
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+            `).run(
+              theme.code,
+              JSON.stringify(finalSections),
+              extracts.length,
+              0, // We don't track word count in v2
+              theme.input_hash,
+              run.runId,
+              effectiveModel,
+              promptHash
+            );
+          });
+          checkpoints.clear();
         
-        // Structure the final summary into JSON
-        console.log(`   Structuring final summary...`);
-        const fullThemeDescription = theme.detailed_guidelines 
-          ? `${theme.description}. ${theme.detailed_guidelines}`
-          : theme.description;
-          
-        const structurePrompt = THEME_SUMMARY_STRUCTURE_PROMPT
-          .replace('{THEME_ANALYSIS}', finalAnalysis)
-          .replace('{THEME_CODE}', theme.code)
-          .replace('{THEME_DESCRIPTION}', fullThemeDescription);
+          console.log(`   ✅ Summary generated successfully`);
         
-        const finalSections = await ai.generateContent<any>(
-          structurePrompt,
-          options.debug ? `theme_summary_v2_structured_${theme.code}` : undefined,
-          undefined,
-          {
-            taskType: 'theme_summary_structure',
-            taskLevel: 0,
-            params: {
-              themeCode: theme.code,
-              extractCount: extracts.length
-            }
-          },
-          parseJsonResponse
-        );
-
-        // Post-process: fix partial/abbreviated comment IDs
-        const knownIds = new Set(extracts.map(e => e.comment_id));
-        const fixedCount = fixPartialCommentIds(finalSections, knownIds);
-        if (fixedCount > 0) {
-          console.log(`   🔧 Fixed ${fixedCount} partial comment IDs`);
+        } catch (error) {
+          if (error instanceof BudgetExceededError || error instanceof CancelledError) throw error;
+          console.error(`   ❌ Error:`, error);
+          reportItemFailure("themes", theme.code, error);
         }
+      },
+      { label: "themes", itemId: theme => theme.code }
+    );
+  
+    // Summary
+    const summaryCount = db.prepare("SELECT COUNT(*) as count FROM theme_summaries").get() as { count: number };
+  
+    console.log("\n✅ Theme summarization complete!");
+    console.log(`   Total summaries: ${summaryCount.count}`);
+  
+    endRun(db, run, 'completed');
+  } catch (error) {
+    endRun(db, run, 'failed');
+    throw error;
+  } finally {
+    db.close();
+  }
+}
 
-        // Save summary
-        withTransaction(db, () => {
-          db.prepare(`
-            INSERT INTO theme_summaries (
-              theme_code, structured_sections, 
-              comment_count, word_count
-            )
-            VALUES (?, ?, ?, ?)
-          `).run(
-            theme.code,
-            JSON.stringify(finalSections),
-            extracts.length,
-            0 // We don't track word count in v2
-          );
-        });
-        
-        console.log(`   ✅ Summary generated successfully`);
-        
-      } catch (error) {
-        console.error(`   ❌ Error:`, error);
+// Analysis of a theme's extracts (batched and merged when large), structured into the JSON
+// stored in theme_summaries. Agency questions are summarized the same way (see questions.ts).
+export async function summarizeExtracts(
+  ai: AIClient,
+  theme: ThemeInfo,
+  extracts: ThemeExtract[],
+  batchOptions: any,
+  debug: boolean,
+  checkpoints?: TaskCheckpoints<string>
+): Promise<any> {
+  // Calculate total word count from extracts and structured sections
+  const totalWords = extracts.reduce((sum, e) => sum + countExtractWords(e), 0);
+  
+  console.log(`   Total word count: ${totalWords}`);
+  
+  let finalAnalysis: string;
+  
+  if (totalWords <= batchOptions.totalWordLimit) {
+    // Process in single batch
+    console.log(`   Processing as single batch`);
+    finalAnalysis = await analyzeThemeExtracts(ai, theme, extracts, debug, 1, 1);
+  } else {
+    // Process in batches and merge
+    console.log(`   Large theme - using batching`);
+    finalAnalysis = await processThemeInBatches(ai, theme, extracts, batchOptions, debug, checkpoints);
+  }
+  
+  // Structure the final summary into JSON
+  console.log(`   Structuring final summary...`);
+  const structurePrompt = buildThemeStructurePrompt(theme, finalAnalysis);
+  
+  const finalSections = await ai.generateContent<any>(
+    structurePrompt,
+    debug ? `theme_summary_v2_structured_${theme.code}` : undefined,
+    undefined,
+    {
+      taskType: 'theme_summary_structure',
+      taskLevel: 0,
+      params: {
+        themeCode: theme.code,
+        extractCount: extracts.length
       }
-    }
+    },
+    THEME_SUMMARY_STRUCTURE_SCHEMA
   );
+
+  // Post-process: fix partial/abbreviated comment IDs
+  const knownIds = new Set(extracts.map(e => e.comment_id));
+  const fixedCount = fixPartialCommentIds(finalSections, knownIds);
+  if (fixedCount > 0) {
+    console.log(`   🔧 Fixed ${fixedCount} partial comment IDs`);
+  }
+
+  return finalSections;
+}
+
+// Checkpoints for the batches and merge of one theme (or question), valid while the model,
+// prompts, batching and extracts stay the same
+export function summaryCheckpoints(
+  db: Database,
+  job: string,
+  model: string,
+  promptHash: string,
+  extracts: ThemeExtract[],
+  batchOptions: any
+): TaskCheckpoints<string> {
+  return new TaskCheckpoints<string>(db, job, inputHash(
+    model,
+    promptHash,
+    JSON.stringify(batchOptions),
+    ...extracts.map(e => `${e.comment_id}\t${e.extract_json}`)
+  ));
+}
+
+// Extracts for one theme with commenter metadata (optionally filtered to representatives)
+function getThemeExtracts(db: Database, themeCode: string, representativeIds?: Set<string>): ThemeExtract[] {
+  let extractQuery = `
+    SELECT 
+      cte.comment_id,
+      cte.extract_json,
+      cte.cluster_size,
+      cc.structured_sections
+    FROM comment_theme_extracts cte
+    LEFT JOIN condensed_comments cc ON cte.comment_id = cc.comment_id
+    WHERE cte.theme_code = ?
+  `;
+  const extractParams: any[] = [themeCode];
   
-  // Summary
-  const summaryCount = db.prepare("SELECT COUNT(*) as count FROM theme_summaries").get() as { count: number };
+  if (representativeIds && representativeIds.size > 0) {
+    const placeholders = Array.from(representativeIds).map(() => '?').join(',');
+    extractQuery += ` AND cte.comment_id IN (${placeholders})`;
+    extractParams.push(...Array.from(representativeIds));
+  }
   
-  console.log("\n✅ Theme summarization complete!");
-  console.log(`   Total summaries: ${summaryCount.count}`);
+  extractQuery += ` ORDER BY cte.cluster_size DESC, cte.comment_id`;
   
-  db.close();
+  return db.prepare(extractQuery).all(...extractParams) as ThemeExtract[];
 }
 
-async function analyzeThemeExtracts(
-  ai: AIClient,
-  theme: { code: string; description: string; detailed_guidelines?: string },
-  extracts: { comment_id: string; extract_json: string; cluster_size: number; structured_sections: string }[],
-  debug: boolean,
-  batchNum?: number,
-  totalBatches?: number
-): Promise<string> {
+// Words in an extract's content plus the commenter profile
+function countExtractWords(e: ThemeExtract): number {
+  const extract = JSON.parse(e.extract_json);
+  const sections = JSON.parse(e.structured_sections || '{}');
+  
+  const extractText = [
+    ...(extract.extract.positions || []),
+    ...(extract.extract.concerns || []),
+    ...(extract.extract.recommendations || []),
+    ...(extract.extract.experiences || []),
+    ...(extract.extract.key_quotes || [])
+  ].join(' ');
+  
+  const profileText = sections.commenterProfile || '';
+  
+  const totalText = extractText + ' ' + profileText;
+  return totalText.split(/\s+/).filter(w => w.length > 0).length;
+}
+
+function splitExtractsIntoBatches(extracts: ThemeExtract[], batchOptions: any) {
+  const items = extracts.map(e => ({
+    ...e,
+    wordCount: countExtractWords(e)
+  }));
+  
+  return createEvenBatches(items, {
+    batchWordLimit: batchOptions.batchWordLimit,
+    totalWordLimit: 0 // Force batching
+  });
+}
+
+// Mirror the run's prompt sequence: exact first-stage prompts, projected merge/structure prompts
+export function estimateThemeSummary(
+  estimator: CostEstimator,
+  model: string,
+  theme: ThemeInfo,
+  extracts: ThemeExtract[],
+  batchOptions: any
+) {
+  const totalWords = extracts.reduce((sum, e) => sum + countExtractWords(e), 0);
+  let analysisTokens: number;
+  
+  if (totalWords <= batchOptions.totalWordLimit) {
+    estimator.addPrompt(model, 'theme_summary_v2', buildThemeAnalysisPrompt(theme, extracts));
+    analysisTokens = getExpectedOutputTokens('theme_summary_v2');
+  } else {
+    const batches = splitExtractsIntoBatches(extracts, batchOptions);
+    for (const batch of batches) {
+      estimator.addPrompt(model, 'theme_summary_v2', buildThemeAnalysisPrompt(theme, batch.items));
+    }
+    estimator.addProjected(model, 'theme_summary_v2_merge',
+      estimateTokens(EXTRACT_MERGE_PROMPT) + batches.length * getExpectedOutputTokens('theme_summary_v2'));
+    analysisTokens = getExpectedOutputTokens('theme_summary_v2_merge');
+  }
+  
+  estimator.addProjected(model, 'theme_summary_structure',
+    estimateTokens(THEME_SUMMARY_STRUCTURE_PROMPT) + analysisTokens);
+}
+
+export function buildThemeAnalysisPrompt(theme: ThemeInfo, extracts: ThemeExtract[]): string {
   // Calculate total comments represented
   const totalComments = extracts.reduce((sum, e) => sum + e.cluster_size, 0);
   const uniquePerspectives = extracts.length;
@@ -283,6 +404,8 @@ async function analyzeThemeExtracts(
       clusterLabel = `[CLUSTER - ${e.cluster_size} similar submissions]`;
     } else if (e.cluster_size > 1) {
       clusterLabel = `[SMALL CLUSTER - ${e.cluster_size} similar comments]`;
+    } else if (e.cluster_size === 0) {
+      clusterLabel = '[PERSONAL ADDITION TO A FORM LETTER]';
     } else {
       clusterLabel = '[INDIVIDUAL]';
     }
@@ -358,10 +481,32 @@ IMPORTANT CONTEXT:
     ? `${theme.description}. ${theme.detailed_guidelines}`
     : theme.description;
     
-  const prompt = THEME_SUMMARY_FROM_EXTRACTS_PROMPT
+  return THEME_SUMMARY_FROM_EXTRACTS_PROMPT
     .replace('{THEME_CODE}', theme.code)
     .replace('{THEME_DESCRIPTION}', fullThemeDescription)
     .replace('{EXTRACTS}', clusteringContext + extractBlocks);
+}
+
+export function buildThemeStructurePrompt(theme: ThemeInfo, analysis: string): string {
+  const fullThemeDescription = theme.detailed_guidelines 
+    ? `${theme.description}. ${theme.detailed_guidelines}`
+    : theme.description;
+    
+  return THEME_SUMMARY_STRUCTURE_PROMPT
+    .replace('{THEME_ANALYSIS}', analysis)
+    .replace('{THEME_CODE}', theme.code)
+    .replace('{THEME_DESCRIPTION}', fullThemeDescription);
+}
+
+async function analyzeThemeExtracts(
+  ai: AIClient,
+  theme: ThemeInfo,
+  extracts: ThemeExtract[],
+  debug: boolean,
+  batchNum?: number,
+  totalBatches?: number
+): Promise<string> {
+  const prompt = buildThemeAnalysisPrompt(theme, extracts);
   
   const debugId = batchNum 
     ? `theme_summary_v2_${theme.code}_batch_${batchNum}-of-${totalBatches}` 
@@ -388,56 +533,43 @@ IMPORTANT CONTEXT:
 
 async function processThemeInBatches(
   ai: AIClient,
-  theme: { code: string; description: string; detailed_guidelines?: string },
-  extracts: { comment_id: string; extract_json: string; cluster_size: number; structured_sections: string }[],
+  theme: ThemeInfo,
+  extracts: ThemeExtract[],
   batchOptions: any,
-  debug: boolean
+  debug: boolean,
+  checkpoints?: TaskCheckpoints<string>
 ): Promise<string> {
-  // Create extract items with word counts
-  const items = extracts.map(e => {
-    const extract = JSON.parse(e.extract_json);
-    const sections = JSON.parse(e.structured_sections || '{}');
-    
-    // Count words in extract content
-    const extractText = [
-      ...(extract.extract.positions || []),
-      ...(extract.extract.concerns || []),
-      ...(extract.extract.recommendations || []),
-      ...(extract.extract.experiences || []),
-      ...(extract.extract.key_quotes || [])
-    ].join(' ');
-    
-    // Count words in commenter profile
-    const profileText = sections.commenterProfile || '';
-    
-    const totalText = extractText + ' ' + profileText;
-    const wordCount = totalText.split(/\s+/).filter(w => w.length > 0).length;
-    
-    return {
-      ...e,
-      wordCount
-    };
-  });
-  
   // Create batches based on word count
-  const batches = createEvenBatches(items, {
-    batchWordLimit: batchOptions.batchWordLimit,
-    totalWordLimit: 0 // Force batching
-  });
+  const batches = splitExtractsIntoBatches(extracts, batchOptions);
   
   console.log(`   Split into ${batches.length} batches`);
   batches.forEach((batch, i) => {
     console.log(`   Batch ${i + 1}: ${batch.items.length} extracts, ${batch.wordCount} words`);
   });
   
-  // Process each batch
-  const batchResults: string[] = [];
-  for (let i = 0; i < batches.length; i++) {
-    console.log(`   Processing batch ${i + 1}/${batches.length}`);
-    const result = await analyzeThemeExtracts(ai, theme, batches[i].items, debug, i + 1, batches.length);
-    batchResults.push(result);
-  }
+  // All batches feed one merge. Batches run one at a time (themes already run in parallel), and
+  // finished batches are checkpointed so an interrupted theme doesn't redo them.
+  const tasks = buildHierarchicalTasks(batches, (_, i) => `batch_${i}`, 'merge', batches.length, true);
+  const queue = new TaskQueue<any, string>(tasks, { concurrency: 1, checkpoints, label: `theme ${theme.code} batches` });
   
+  const results = await queue.process(async (task, getResult) => {
+    if (task.data.type === 'initial') {
+      const i = batches.indexOf(task.data.item);
+      console.log(`   Processing batch ${i + 1}/${batches.length}`);
+      return analyzeThemeExtracts(ai, theme, task.data.item.items, debug, i + 1, batches.length);
+    }
+    return mergeBatchAnalyses(ai, theme, task.data.inputs.map((id: string) => getResult(id)!), debug);
+  });
+  
+  return results.get(tasks[tasks.length - 1].id)!;
+}
+
+async function mergeBatchAnalyses(
+  ai: AIClient,
+  theme: ThemeInfo,
+  batchResults: string[],
+  debug: boolean
+): Promise<string> {
   // Merge results
   console.log(`   Merging ${batchResults.length} batch results...`);
   
@@ -464,7 +596,7 @@ async function processThemeInBatches(
       taskLevel: 0,
       params: {
         themeCode: theme.code,
-        batchCount: batches.length
+        batchCount: batchResults.length
       }
     }
   );
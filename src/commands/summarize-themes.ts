@@ -5,10 +5,12 @@ import { initDebug, debugSave } from "../lib/debug";
 import { AIClient } from "../lib/ai-client";
 import { createEvenBatches, DEFAULT_BATCH_OPTIONS } from "../lib/batch-processor";
 import { THEME_SUMMARY_PROMPT, THEME_SUMMARY_MERGE_NWAY_PROMPT, THEME_SUMMARY_STRUCTURE_PROMPT } from "../prompts/theme-summary";
-import { parseJsonResponse } from "../lib/json-parser";
+import { THEME_SUMMARY_STRUCTURE_SCHEMA } from "../prompts/schemas";
 import { runPool } from "../lib/worker-pool";
+import { reportItemFailure } from "../lib/progress";
 import { TaskQueue, buildHierarchicalTasks } from "../lib/task-queue";
 import { getTaskConfig, getBatchOptions, getTaskModel } from "../lib/batch-config";
+import { beginRun, endRun, promptTemplateHash } from "../lib/provenance";
 
 export const summarizeThemesCommand = new Command("summarize-themes")
   .description("Generate narrative summaries for themes based on relevant comments")
@@ -127,158 +129,174 @@ async function summarizeThemes(documentId: string, options: any) {
   const concurrency = options.concurrency || taskConfig.concurrency;
   console.log(`🔄 Using concurrency: ${concurrency}`);
   
-  await runPool(
-    uniqueThemes,
-    concurrency,
-    async (theme, index, total) => {
-      const workerId = `worker-${index}`;
-      console.log(`\n[${workerId}][${index}/${total}] Starting to process theme ${theme.code}: ${theme.description}`);
-      console.log(`   [${workerId}] Comments: ${theme.comment_count}`);
-      console.log(`   [${workerId}] Worker started at: ${new Date().toISOString()}`);
+  const run = beginRun(db, 'summarize-themes', options);
+  try {
+    const promptHash = promptTemplateHash(THEME_SUMMARY_PROMPT, THEME_SUMMARY_MERGE_NWAY_PROMPT, THEME_SUMMARY_STRUCTURE_PROMPT);
+  
+    await runPool(
+      uniqueThemes,
+      concurrency,
+      async (theme, index, total) => {
+        const workerId = `worker-${index}`;
+        console.log(`\n[${workerId}][${index}/${total}] Starting to process theme ${theme.code}: ${theme.description}`);
+        console.log(`   [${workerId}] Comments: ${theme.comment_count}`);
+        console.log(`   [${workerId}] Worker started at: ${new Date().toISOString()}`);
       
-      try {
-      // Get comments for this theme with structured sections
-      const comments = db.prepare(`
-        SELECT DISTINCT
-          cc.comment_id,
-          cc.structured_sections,
-          ct.score
-        FROM comment_themes ct
-        JOIN condensed_comments cc ON ct.comment_id = cc.comment_id
-        WHERE ct.theme_code = ? AND ct.score = 1
-        ORDER BY ct.score ASC, cc.comment_id
-      `).all(theme.code) as {
-        comment_id: string;
-        structured_sections: string;
-        score: number;
-      }[];
+        try {
+        // Get comments for this theme with structured sections
+        const comments = db.prepare(`
+          SELECT DISTINCT
+            cc.comment_id,
+            cc.structured_sections,
+            ct.score
+          FROM comment_themes ct
+          JOIN condensed_comments cc ON ct.comment_id = cc.comment_id
+          WHERE ct.theme_code = ? AND ct.score = 1
+          ORDER BY ct.score ASC, cc.comment_id
+        `).all(theme.code) as {
+          comment_id: string;
+          structured_sections: string;
+          score: number;
+        }[];
       
-      // Calculate total word count
-      const totalWords = comments.reduce((sum, c) => {
-        const sections = JSON.parse(c.structured_sections || '{}');
-        const relevantText = [
-          sections.commenterProfile || '',
-          sections.corePosition || '',
-          sections.keyRecommendations || '',
-          sections.mainConcerns || '',
-          sections.keyQuotations || ''
-        ].join(' ');
-        return sum + relevantText.split(/\s+/).length;
-      }, 0);
+        // Calculate total word count
+        const totalWords = comments.reduce((sum, c) => {
+          const sections = JSON.parse(c.structured_sections || '{}');
+          const relevantText = [
+            sections.commenterProfile || '',
+            sections.corePosition || '',
+            sections.keyRecommendations || '',
+            sections.mainConcerns || '',
+            sections.keyQuotations || ''
+          ].join(' ');
+          return sum + relevantText.split(/\s+/).length;
+        }, 0);
       
-      console.log(`   Total word count: ${totalWords}`);
+        console.log(`   Total word count: ${totalWords}`);
       
-      // Determine if batching is needed
-      const batchConfig = getBatchOptions('summarizeThemes');
-      const batchOptions = {
-        totalWordLimit: options.batchLimit || batchConfig?.triggerWordLimit || 200000,
-        batchWordLimit: options.batchSize || batchConfig?.batchWordLimit || 125000
-      };
+        // Determine if batching is needed
+        const batchConfig = getBatchOptions('summarizeThemes');
+        const batchOptions = {
+          totalWordLimit: options.batchLimit || batchConfig?.triggerWordLimit || 200000,
+          batchWordLimit: options.batchSize || batchConfig?.batchWordLimit || 125000
+        };
       
-      let finalSummaryText: string;
+        let finalSummaryText: string;
       
-      if (totalWords <= batchOptions.totalWordLimit) {
-        // Single batch
-        console.log(`   Processing as single batch`);
-        finalSummaryText = await generateThemeSummary(
-          ai, theme, comments, options.debug, 1, 1
-        );
-      } else {
-        // Multiple batches needed
-        console.log(`   Large theme - using batching`);
-        finalSummaryText = await processThemeInBatches(
-          db, ai, theme, comments, batchOptions, 1, options.debug, options.mergeWidth || taskConfig.mergeWidth
-        );
-      }
+        if (totalWords <= batchOptions.totalWordLimit) {
+          // Single batch
+          console.log(`   Processing as single batch`);
+          finalSummaryText = await generateThemeSummary(
+            ai, theme, comments, options.debug, 1, 1
+          );
+        } else {
+          // Multiple batches needed
+          console.log(`   Large theme - using batching`);
+          finalSummaryText = await processThemeInBatches(
+            db, ai, theme, comments, batchOptions, 1, options.debug, options.mergeWidth || taskConfig.mergeWidth
+          );
+        }
       
-      // Structure the final summary into JSON
-      console.log(`   Structuring final summary...`);
-      const fullThemeDescription = theme.detailed_guidelines 
-        ? `${theme.description}. ${theme.detailed_guidelines}`
-        : theme.description;
+        // Structure the final summary into JSON
+        console.log(`   Structuring final summary...`);
+        const fullThemeDescription = theme.detailed_guidelines 
+          ? `${theme.description}. ${theme.detailed_guidelines}`
+          : theme.description;
         
-      const structurePrompt = THEME_SUMMARY_STRUCTURE_PROMPT
-        .replace('{THEME_ANALYSIS}', finalSummaryText)
-        .replace('{THEME_CODE}', theme.code)
-        .replace('{THEME_DESCRIPTION}', fullThemeDescription);
+        const structurePrompt = THEME_SUMMARY_STRUCTURE_PROMPT
+          .replace('{THEME_ANALYSIS}', finalSummaryText)
+          .replace('{THEME_CODE}', theme.code)
+          .replace('{THEME_DESCRIPTION}', fullThemeDescription);
       
-      await debugSave(
-        `theme_summary_structured_${theme.code}_final_prompt.txt`, 
-        structurePrompt
-      );
+        await debugSave(
+          `theme_summary_structured_${theme.code}_final_prompt.txt`, 
+          structurePrompt
+        );
 
-      const finalSections = await ai.generateContent<any>(
-        structurePrompt,
-        options.debug ? `theme_summary_structured_${theme.code}_final` : undefined,
-        undefined,
-        {
-          taskType: 'theme_summary_structure',
-          taskLevel: 0,
-          params: {
-            themeCode: theme.code,
-            commentCount: comments.length,
-            wordCount: totalWords
-          }
-        },
-        parseJsonResponse  // postProcess function
-      );
+        const finalSections = await ai.generateContent<any>(
+          structurePrompt,
+          options.debug ? `theme_summary_structured_${theme.code}_final` : undefined,
+          undefined,
+          {
+            taskType: 'theme_summary_structure',
+            taskLevel: 0,
+            params: {
+              themeCode: theme.code,
+              commentCount: comments.length,
+              wordCount: totalWords
+            }
+          },
+          THEME_SUMMARY_STRUCTURE_SCHEMA
+        );
       
-      // Save summary
-      withTransaction(db, () => {
-        // Log the write attempt
-        console.log(`   📝 [${theme.code}] Attempting to write to theme_summaries (summarize-themes.ts:203)`);
-        console.log(`      Caller: runPool worker processing theme ${theme.code}`);
-        console.log(`      Comment count: ${comments.length}, Word count: ${totalWords}`);
+        // Save summary
+        withTransaction(db, () => {
+          // Log the write attempt
+          console.log(`   📝 [${theme.code}] Attempting to write to theme_summaries (summarize-themes.ts:203)`);
+          console.log(`      Caller: runPool worker processing theme ${theme.code}`);
+          console.log(`      Comment count: ${comments.length}, Word count: ${totalWords}`);
         
-        // Double-check if already exists
-        const existing = db.prepare(
-          "SELECT theme_code FROM theme_summaries WHERE theme_code = ?"
-        ).get(theme.code);
+          // Double-check if already exists
+          const existing = db.prepare(
+            "SELECT theme_code FROM theme_summaries WHERE theme_code = ?"
+          ).get(theme.code);
         
-        if (existing) {
-          console.log(`   [${theme.code}] ⚠️  Theme already exists in database, skipping insert`);
-          return;
-        }
+          if (existing) {
+            console.log(`   [${theme.code}] ⚠️  Theme already exists in database, skipping insert`);
+            return;
+          }
         
-        try {
-          db.prepare(`
-            INSERT INTO theme_summaries (
-              theme_code, structured_sections, 
-              comment_count, word_count
-            )
-            VALUES (?, ?, ?, ?)
-          `).run(
-            theme.code,
-            JSON.stringify(finalSections),
-            comments.length,
-            totalWords
-          );
-          console.log(`   ✅ [${theme.code}] Successfully wrote to theme_summaries`);
-        } catch (insertError) {
-          console.error(`   ❌ [${theme.code}] Failed to write to theme_summaries:`, insertError);
-          throw insertError;
-        }
-      });
+          try {
+            db.prepare(`
+              INSERT INTO theme_summaries (
+                theme_code, structured_sections, 
+                comment_count, word_count,
+                run_id, model, prompt_hash
+              )
+              VALUES (?, ?, ?, ?, ?, ?, ?)
+            `).run(
+              theme.code,
+              JSON.stringify(finalSections),
+              comments.length,
+              totalWords,
+              run.runId,
+              effectiveModel,
+              promptHash
+            );
+            console.log(`   ✅ [${theme.code}] Successfully wrote to theme_summaries`);
+          } catch (insertError) {
+            console.error(`   ❌ [${theme.code}] Failed to write to theme_summaries:`, insertError);
+            throw insertError;
+          }
+        });
       
-        console.log(`   [${workerId}][${theme.code}] ✅ Summary generated successfully`);
-        console.log(`   [${workerId}] Worker completed at: ${new Date().toISOString()}`);
+          console.log(`   [${workerId}][${theme.code}] ✅ Summary generated successfully`);
+          console.log(`   [${workerId}] Worker completed at: ${new Date().toISOString()}`);
         
-      } catch (error) {
-        console.error(`   [${workerId}][${theme.code}] ❌ Error:`, error);
-        console.log(`   [${workerId}] Worker failed at: ${new Date().toISOString()}`);
-        // Don't rethrow - just log and continue
-        // This prevents one theme's failure from affecting others
-      }
-    }
-  );
-  
-  // Summary
-  const summaryCount = db.prepare("SELECT COUNT(*) as count FROM theme_summaries").get() as { count: number };
-  
-  console.log("\n✅ Theme summarization complete!");
-  console.log(`   Total summaries: ${summaryCount.count}`);
-  
-  db.close();
+        } catch (error) {
+          console.error(`   [${workerId}][${theme.code}] ❌ Error:`, error);
+          console.log(`   [${workerId}] Worker failed at: ${new Date().toISOString()}`);
+          reportItemFailure("themes", theme.code, error);
+          // Don't rethrow - just log and continue
+          // This prevents one theme's failure from affecting others
+        }
+      },
+      { label: "themes", itemId: theme => theme.code }
+    );
+  
+    // Summary
+    const summaryCount = db.prepare("SELECT COUNT(*) as count FROM theme_summaries").get() as { count: number };
+  
+    console.log("\n✅ Theme summarization complete!");
+    console.log(`   Total summaries: ${summaryCount.count}`);
+  
+    endRun(db, run, 'completed');
+  } catch (error) {
+    endRun(db, run, 'failed');
+    throw error;
+  } finally {
+    db.close();
+  }
 }
 
 // Generate summary for a single batch of comments
@@ -430,6 +448,7 @@ async function processThemeInBatches(
   // Process using TaskQueue
   const taskQueue = new TaskQueue(tasks, {
     concurrency,
+    label: `theme ${theme.code} batches`,
     onTaskStart: (task) => {
       if (task.id.startsWith('batch_')) {
         console.log(`   🔄 Processing ${task.id}`);
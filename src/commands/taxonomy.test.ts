@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { DB_DIR, openDb } from "../lib/database";
+import { groupThemesByTopLevel, summaryInputHash } from "../lib/staleness";
+import { taxonomyCommand } from "./taxonomy";
+
+const DOCUMENT_ID = "TEST-2025-0001-0001";
+
+// 1.1 and 1.2 are merged into 1.1, 2.1 is deleted and 2.2 is renumbered to 2.1
+const OLD_THEMES = [
+  { code: "1", description: "Access" },
+  { code: "1.1", description: "Patient portals" },
+  { code: "1.2", description: "Patient apps" },
+  { code: "2", description: "Burden" },
+  { code: "2.1", description: "Reporting burden" },
+  { code: "2.2", description: "Documentation burden" },
+];
+
+const EDITED_FILE = {
+  themes: [
+    { code: "1", parent: null, description: "Access", was: "1" },
+    { code: "1.1", parent: "1", description: "Patient portals and apps", was: ["1.1", "1.2"] },
+    { code: "2", parent: null, description: "Burden", was: "2" },
+    { code: "2.1", parent: "2", description: "Documentation burden", was: "2.2" },
+  ],
+};
+
+let dir: string;
+let file: string;
+const cwd = process.cwd();
+
+function extract(...positions: string[]): string {
+  return JSON.stringify({ relevance: 1, extract: { positions } });
+}
+
+function seed() {
+  const db = openDb(DOCUMENT_ID);
+  try {
+    for (const theme of OLD_THEMES) {
+      const parent = theme.code.includes(".") ? theme.code.split(".")[0] : null;
+      db.prepare("INSERT INTO theme_hierarchy (code, description, level, parent_code) VALUES (?, ?, ?, ?)")
+        .run(theme.code, theme.description, theme.code.split(".").length, parent);
+    }
+    for (const id of ["c1", "c2"]) {
+      db.prepare("INSERT INTO comments (id, attributes_json, content_hash) VALUES (?, '{}', ?)").run(id, `hash-${id}`);
+    }
+
+    const extracts: [string, string, string][] = [
+      ["c1", "1.1", extract("portals are slow")],
+      ["c1", "1.2", extract("apps need APIs")],
+      ["c1", "2.1", extract("too many reports")],
+      ["c2", "1.2", extract("apps are hard to find")],
+      ["c2", "2.2", extract("notes take too long")],
+    ];
+    for (const [id, code, json] of extracts) {
+      db.prepare("INSERT INTO comment_theme_extracts (comment_id, theme_code, extract_json) VALUES (?, ?, ?)").run(id, code, json);
+    }
+
+    const scores: [string, string, number][] = [["c1", "1.1", 2], ["c1", "1.2", 1], ["c1", "2.1", 1], ["c2", "2.2", 3]];
+    for (const [id, code, score] of scores) {
+      db.prepare("INSERT INTO comment_themes (comment_id, theme_code, score) VALUES (?, ?, ?)").run(id, code, score);
+    }
+
+    for (const theme of OLD_THEMES.filter(t => t.code.includes("."))) {
+      db.prepare(`
+        INSERT INTO theme_summaries (theme_code, structured_sections, comment_count, word_count, input_hash) VALUES (?, ?, 1, 1, ?)
+      `).run(theme.code, JSON.stringify({ summary: theme.description }), summaryInputHash(db, theme));
+    }
+
+    for (const group of groupThemesByTopLevel(OLD_THEMES)) {
+      for (const id of ["c1", "c2"]) {
+        db.prepare("INSERT INTO theme_extract_inputs (comment_id, group_code, content_hash, taxonomy_hash) VALUES (?, ?, ?, ?)")
+          .run(id, group.parentCode, `hash-${id}`, group.taxonomyHash);
+      }
+    }
+  } finally {
+    db.close();
+  }
+}
+
+function snapshot() {
+  const db = openDb(DOCUMENT_ID);
+  try {
+    return {
+      themes: db.prepare("SELECT code, description FROM theme_hierarchy ORDER BY code").all(),
+      extracts: db.prepare("SELECT comment_id, theme_code, extract_json FROM comment_theme_extracts ORDER BY comment_id, theme_code").all(),
+      scores: db.prepare("SELECT comment_id, theme_code, score FROM comment_themes ORDER BY comment_id, theme_code").all(),
+      summaries: db.prepare("SELECT theme_code, structured_sections, input_hash FROM theme_summaries ORDER BY theme_code").all(),
+      inputs: db.prepare("SELECT comment_id, group_code, content_hash, taxonomy_hash FROM theme_extract_inputs ORDER BY comment_id, group_code").all(),
+      runs: db.prepare("SELECT command, status FROM pipeline_runs").all(),
+    } as Record<string, any[]>;
+  } finally {
+    db.close();
+  }
+}
+
+async function runImport(...flags: string[]) {
+  await taxonomyCommand.parseAsync(["import", DOCUMENT_ID, file, ...flags], { from: "user" });
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "taxonomy-import-"));
+  // openDb works relative to the current directory
+  process.chdir(dir);
+  mkdirSync(DB_DIR);
+  file = join(dir, "taxonomy.json");
+  writeFileSync(file, JSON.stringify(EDITED_FILE));
+  seed();
+});
+
+afterEach(() => {
+  process.chdir(cwd);
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("taxonomy import", () => {
+  test("--dry-run changes nothing", async () => {
+    const before = snapshot();
+    await runImport("--dry-run");
+    expect(snapshot()).toEqual(before);
+  });
+
+  test("moves extracts and scores to the new codes, merging and dropping as edited", async () => {
+    await runImport();
+    const after = snapshot();
+
+    expect(after.themes.map(t => t.code)).toEqual(["1", "1.1", "2", "2.1"]);
+    expect(after.extracts).toEqual([
+      { comment_id: "c1", theme_code: "1.1", extract_json: extract("portals are slow", "apps need APIs") },
+      { comment_id: "c2", theme_code: "1.1", extract_json: extract("apps are hard to find") },
+      { comment_id: "c2", theme_code: "2.1", extract_json: extract("notes take too long") },
+    ]);
+    // A merged theme keeps the strongest (lowest) score
+    expect(after.scores).toEqual([
+      { comment_id: "c1", theme_code: "1.1", score: 1 },
+      { comment_id: "c2", theme_code: "2.1", score: 3 },
+    ]);
+    expect(after.runs).toEqual([{ command: "taxonomy import", status: "completed" }]);
+  });
+
+  test("carries over the renumbered theme's summary and drops the merged and deleted ones", async () => {
+    await runImport();
+    const { summaries } = snapshot();
+
+    expect(summaries.map(s => s.theme_code)).toEqual(["2.1"]);
+    expect(JSON.parse(summaries[0].structured_sections)).toEqual({ summary: "Documentation burden" });
+    // Its wording is unchanged, so the summary stays current under the new code
+    const db = openDb(DOCUMENT_ID);
+    try {
+      expect(summaries[0].input_hash).toBe(summaryInputHash(db, { code: "2.1", description: "Documentation burden" }));
+    } finally {
+      db.close();
+    }
+  });
+
+  test("queues only the group with the merge for re-extraction", async () => {
+    await runImport();
+    const newGroups = new Map(groupThemesByTopLevel(EDITED_FILE.themes).map(g => [g.parentCode, g.taxonomyHash]));
+
+    expect(snapshot().inputs).toEqual([
+      { comment_id: "c1", group_code: "1", content_hash: "hash-c1", taxonomy_hash: "" },
+      { comment_id: "c1", group_code: "2", content_hash: "hash-c1", taxonomy_hash: newGroups.get("2") },
+      { comment_id: "c2", group_code: "1", content_hash: "hash-c2", taxonomy_hash: "" },
+      { comment_id: "c2", group_code: "2", content_hash: "hash-c2", taxonomy_hash: newGroups.get("2") },
+    ]);
+  });
+});
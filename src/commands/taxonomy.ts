@@ -0,0 +1,407 @@
+import { Command } from "commander";
+import type { Database } from "bun:sqlite";
+import { readFile, writeFile } from "fs/promises";
+import { extname } from "path";
+import { openDb, withTransaction } from "../lib/database";
+import { beginRun, endRun } from "../lib/provenance";
+import { groupThemesByTopLevel, summaryInputHash } from "../lib/staleness";
+
+// One theme in an export file. `was` names the theme(s) in the database it came from, so
+// import can carry their extracts and summaries over; leave it out for a brand-new theme.
+interface TaxonomyFileTheme {
+  code: string;
+  parent?: string | null;
+  description: string;
+  detailed_guidelines?: string | null;
+  was?: string | string[];
+}
+
+interface TaxonomyFile {
+  documentId?: string;
+  exportedAt?: string;
+  themes: TaxonomyFileTheme[];
+}
+
+interface StoredTheme {
+  code: string;
+  description: string;
+  level: number;
+  parent_code: string | null;
+  quotes_json: string | null;
+  detailed_guidelines: string | null;
+  run_id: string | null;
+  model: string | null;
+  prompt_hash: string | null;
+}
+
+const CODE_PATTERN = /^\d+(\.\d+)*$/;
+
+const YAML_HEADER = `# Theme taxonomy. Edit, then load with: bun run cli taxonomy import <document-id> <file>
+#   rename / reword:  edit description or detailed_guidelines
+#   move / renumber:  change code and parent, keep was
+#   merge:            one theme with was: [old codes...]
+#   split:            several themes with the same was (their extracts are re-extracted)
+#   delete:           remove the entry (its extracts and summary are dropped)
+#   add:              new entry without was
+`;
+
+// Bun.YAML ships with Bun 1.2.21+
+function yaml(): { parse(text: string): unknown; stringify(value: unknown, replacer?: null, space?: number): string } {
+  const impl = (Bun as unknown as { YAML?: ReturnType<typeof yaml> }).YAML;
+  if (!impl) {
+    throw new Error("YAML taxonomy files need Bun 1.2.21 or newer; use a .json file instead");
+  }
+  return impl;
+}
+
+function isYamlPath(path: string): boolean {
+  return [".yaml", ".yml"].includes(extname(path).toLowerCase());
+}
+
+function parentOf(code: string): string | null {
+  const parts = code.split(".");
+  return parts.length > 1 ? parts.slice(0, -1).join(".") : null;
+}
+
+function sources(theme: TaxonomyFileTheme): string[] {
+  if (theme.was === undefined || theme.was === null) return [];
+  return (Array.isArray(theme.was) ? theme.was : [theme.was]).map(String);
+}
+
+function compareCodes(a: string, b: string): number {
+  const pa = a.split(".").map(Number);
+  const pb = b.split(".").map(Number);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    if (pa[i] === undefined) return -1;
+    if (pb[i] === undefined) return 1;
+    if (pa[i] !== pb[i]) return pa[i] - pb[i];
+  }
+  return 0;
+}
+
+export const taxonomyCommand = new Command("taxonomy")
+  .description("Export the theme taxonomy for editing and import the edited version");
+
+taxonomyCommand
+  .command("export")
+  .description("Write theme_hierarchy to an editable JSON or YAML file")
+  .argument("<document-id>", "Document ID (e.g., CMS-2025-0050-0031)")
+  .argument("<file>", "Output file (.json, .yaml or .yml)")
+  .action(async (documentId: string, file: string) => {
+    const db = openDb(documentId);
+
+    try {
+      const themes = (db.prepare(`
+        SELECT code, parent_code, description, detailed_guidelines FROM theme_hierarchy
+      `).all() as { code: string; parent_code: string | null; description: string; detailed_guidelines: string | null }[])
+        .sort((a, b) => compareCodes(a.code, b.code));
+
+      if (themes.length === 0) {
+        console.error("❌ No theme hierarchy found. Run 'discover-themes' first.");
+        process.exit(1);
+      }
+
+      const data: TaxonomyFile = {
+        documentId,
+        exportedAt: new Date().toISOString(),
+        themes: themes.map(t => ({
+          code: t.code,
+          parent: t.parent_code,
+          description: t.description,
+          detailed_guidelines: t.detailed_guidelines,
+          was: t.code,
+        })),
+      };
+
+      const text = isYamlPath(file)
+        ? YAML_HEADER + yaml().stringify(data, null, 2)
+        : JSON.stringify(data, null, 2);
+      await writeFile(file, text);
+      console.log(`📤 Exported ${themes.length} themes to ${file}`);
+    } finally {
+      db.close();
+    }
+  });
+
+taxonomyCommand
+  .command("import")
+  .description("Replace theme_hierarchy from an edited file, remapping existing extracts and summaries")
+  .argument("<document-id>", "Document ID (e.g., CMS-2025-0050-0031)")
+  .argument("<file>", "Taxonomy file written by 'taxonomy export' (.json, .yaml or .yml)")
+  .option("--dry-run", "Validate and show what would change without writing")
+  .action(importTaxonomy);
+
+// Every problem in the file, so an analyst can fix them in one pass
+function validateTaxonomy(data: any, existingCodes: Set<string>): string[] {
+  if (!data || !Array.isArray(data.themes)) return ["File must contain a 'themes' list"];
+  if (data.themes.length === 0) return ["'themes' is empty"];
+
+  const errors: string[] = [];
+  const codes = new Set<string>();
+  for (const [i, theme] of (data.themes as any[]).entries()) {
+    const where = `themes[${i}]${theme?.code ? ` (${theme.code})` : ""}`;
+    const code = theme?.code === undefined ? "" : String(theme.code);
+    if (!CODE_PATTERN.test(code)) {
+      errors.push(`${where}: code must look like 1, 1.2 or 1.2.3`);
+      continue;
+    }
+    if (codes.has(code)) errors.push(`${where}: duplicate code`);
+    codes.add(code);
+    if (typeof theme.description !== "string" || !theme.description.trim()) {
+      errors.push(`${where}: description is required`);
+    }
+    if (theme.parent !== undefined && (theme.parent === null ? null : String(theme.parent)) !== parentOf(code)) {
+      errors.push(`${where}: parent ${theme.parent === null ? "null" : `'${theme.parent}'`} doesn't match the code (expected ${parentOf(code) ? `'${parentOf(code)}'` : "null"})`);
+    }
+    for (const source of sources(theme)) {
+      if (!existingCodes.has(source)) errors.push(`${where}: was '${source}' is not a theme in the database`);
+    }
+  }
+
+  for (const code of codes) {
+    const parent = parentOf(code);
+    if (parent && !codes.has(parent)) errors.push(`${code}: parent theme '${parent}' is missing`);
+  }
+  return errors;
+}
+
+// Combine extracts of merged themes for one comment: section lists are concatenated
+function mergeExtracts(jsons: string[]): string {
+  const merged: { relevance: number; extract: Record<string, string[]> } = { relevance: 1, extract: {} };
+  for (const json of jsons) {
+    const parsed = JSON.parse(json);
+    for (const [section, items] of Object.entries(parsed.extract || {})) {
+      if (!Array.isArray(items)) continue;
+      merged.extract[section] = [...(merged.extract[section] || []), ...items.filter(item => !merged.extract[section]?.includes(item))];
+    }
+  }
+  return JSON.stringify(merged);
+}
+
+async function importTaxonomy(documentId: string, file: string, options: any) {
+  const text = await readFile(file, "utf-8");
+  let data: TaxonomyFile;
+  try {
+    data = (isYamlPath(file) ? yaml().parse(text) : JSON.parse(text)) as TaxonomyFile;
+  } catch (error) {
+    console.error(`❌ Could not parse ${file}: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
+  const db = openDb(documentId);
+
+  try {
+    const oldThemes = new Map((db.prepare(`SELECT * FROM theme_hierarchy`).all() as StoredTheme[]).map(t => [t.code, t]));
+
+    const errors = validateTaxonomy(data, new Set(oldThemes.keys()));
+    if (errors.length > 0) {
+      console.error(`❌ ${file} has ${errors.length} problem(s):`);
+      errors.forEach(e => console.error(`   - ${e}`));
+      process.exit(1);
+    }
+
+    const newThemes = data.themes.map(t => ({
+      ...t,
+      code: String(t.code),
+      description: t.description.trim(),
+      detailed_guidelines: t.detailed_guidelines?.trim() || null,
+      sources: sources(t),
+    }));
+
+    // How many new themes claim each old one; a theme claimed twice was split
+    const claims = new Map<string, number>();
+    for (const theme of newThemes) {
+      for (const source of theme.sources) claims.set(source, (claims.get(source) || 0) + 1);
+    }
+    // Old code -> new code, for themes whose extracts can be carried over
+    const remap = new Map<string, string>();
+    for (const theme of newThemes) {
+      for (const source of theme.sources) {
+        if (claims.get(source) === 1) remap.set(source, theme.code);
+      }
+    }
+    // New themes that are an old theme, possibly renumbered, with the same wording
+    const unchanged = new Map<string, StoredTheme>();
+    for (const theme of newThemes) {
+      if (theme.sources.length !== 1 || claims.get(theme.sources[0]) !== 1) continue;
+      const old = oldThemes.get(theme.sources[0])!;
+      if (old.description === theme.description && (old.detailed_guidelines || null) === theme.detailed_guidelines) {
+        unchanged.set(theme.code, old);
+      }
+    }
+
+    const removed = [...oldThemes.keys()].filter(code => !claims.has(code));
+    const split = [...claims.entries()].filter(([, count]) => count > 1).map(([code]) => code);
+    const merged = newThemes.filter(t => t.sources.length > 1);
+    const added = newThemes.filter(t => t.sources.length === 0);
+    const moved = newThemes.filter(t => t.sources.length === 1 && claims.get(t.sources[0]) === 1 && t.sources[0] !== t.code);
+    const reworded = newThemes.filter(t => t.sources.length === 1 && claims.get(t.sources[0]) === 1 && !unchanged.has(t.code));
+
+    console.log(`📥 Importing ${newThemes.length} themes from ${file} (${oldThemes.size} in the database)`);
+    console.log(`   Unchanged: ${unchanged.size - moved.filter(t => unchanged.has(t.code)).length}, reworded: ${reworded.length}, moved/renumbered: ${moved.length}`);
+    console.log(`   Merged: ${merged.length}, split: ${split.length}, added: ${added.length}, removed: ${removed.length}`);
+    if (removed.length > 0) console.log(`   Removed themes: ${removed.join(", ")}`);
+    if (split.length > 0) console.log(`   Split themes (extracts dropped): ${split.join(", ")}`);
+
+    if (options.dryRun) {
+      console.log("\n🔍 Dry run: nothing written");
+      return;
+    }
+
+    const run = beginRun(db, "taxonomy import", { file });
+    try {
+      withTransaction(db, () => {
+        // Theme hierarchy: unchanged themes keep their provenance, everything else is credited to this import
+        db.prepare(`DELETE FROM theme_hierarchy`).run();
+        const insertTheme = db.prepare(`
+          INSERT INTO theme_hierarchy (code, description, level, parent_code, quotes_json, detailed_guidelines, run_id, model, prompt_hash)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `);
+        for (const theme of newThemes) {
+          const old = unchanged.get(theme.code);
+          insertTheme.run(
+            theme.code,
+            theme.description,
+            theme.code.split(".").length,
+            parentOf(theme.code),
+            old?.quotes_json ?? null,
+            theme.detailed_guidelines,
+            old ? old.run_id : run.runId,
+            old ? old.model : null,
+            old ? old.prompt_hash : null
+          );
+        }
+
+        remapExtracts(db, remap);
+        remapCommentThemes(db, remap);
+        remapSummaries(db, newThemes, remap, unchanged);
+        remapExtractInputs(db, [...oldThemes.values()], newThemes, unchanged);
+      });
+
+      endRun(db, run, "completed");
+    } catch (error) {
+      endRun(db, run, "failed");
+      throw error;
+    }
+    console.log(`\n✅ Taxonomy imported. Run 'bun run cli status ${documentId}' to see what needs re-extracting.`);
+  } finally {
+    db.close();
+  }
+}
+
+function remapExtracts(db: Database, remap: Map<string, string>) {
+  const rows = db.prepare(`SELECT * FROM comment_theme_extracts`).all() as any[];
+  const byKey = new Map<string, any[]>();
+  for (const row of rows) {
+    const code = remap.get(row.theme_code);
+    if (!code) continue;
+    const key = `${row.comment_id}\t${code}`;
+    if (!byKey.has(key)) byKey.set(key, []);
+    byKey.get(key)!.push({ ...row, theme_code: code });
+  }
+
+  db.prepare(`DELETE FROM comment_theme_extracts`).run();
+  const insert = db.prepare(`
+    INSERT INTO comment_theme_extracts (comment_id, theme_code, extract_json, cluster_size, run_id, model, prompt_hash, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  for (const group of byKey.values()) {
+    const first = group[0];
+    const extractJson = group.length > 1 ? mergeExtracts(group.map(r => r.extract_json)) : first.extract_json;
+    insert.run(first.comment_id, first.theme_code, extractJson, first.cluster_size, first.run_id, first.model, first.prompt_hash, first.created_at);
+  }
+}
+
+// Scores from the older summarize-themes flow; a merged theme keeps the strongest score
+function remapCommentThemes(db: Database, remap: Map<string, string>) {
+  const rows = db.prepare(`SELECT comment_id, theme_code, score, created_at FROM comment_themes`).all() as any[];
+  const byKey = new Map<string, any>();
+  for (const row of rows) {
+    const code = remap.get(row.theme_code);
+    if (!code) continue;
+    const key = `${row.comment_id}\t${code}`;
+    const existing = byKey.get(key);
+    if (!existing || row.score < existing.score) byKey.set(key, { ...row, theme_code: code });
+  }
+
+  db.prepare(`DELETE FROM comment_themes`).run();
+  const insert = db.prepare(`INSERT INTO comment_themes (comment_id, theme_code, score, created_at) VALUES (?, ?, ?, ?)`);
+  for (const row of byKey.values()) insert.run(row.comment_id, row.theme_code, row.score, row.created_at);
+}
+
+// A summary follows its theme when nothing was merged into or split from it. It stays current
+// if the wording is unchanged; otherwise its old input hash marks it stale for summarize-themes-v2.
+function remapSummaries(
+  db: Database,
+  newThemes: { code: string; description: string; detailed_guidelines: string | null; sources: string[] }[],
+  remap: Map<string, string>,
+  unchanged: Map<string, StoredTheme>
+) {
+  const rows = db.prepare(`SELECT * FROM theme_summaries`).all() as any[];
+  const themesByCode = new Map(newThemes.map(t => [t.code, t]));
+
+  db.prepare(`DELETE FROM theme_summaries`).run();
+  const insert = db.prepare(`
+    INSERT INTO theme_summaries (theme_code, structured_sections, comment_count, word_count, input_hash, run_id, model, prompt_hash, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  for (const row of rows) {
+    const code = remap.get(row.theme_code);
+    const theme = code ? themesByCode.get(code) : undefined;
+    if (!code || !theme || theme.sources.length !== 1) continue;
+    const inputHash = unchanged.has(code) && row.input_hash ? summaryInputHash(db, theme) : row.input_hash;
+    insert.run(code, row.structured_sections, row.comment_count, row.word_count, inputHash, row.run_id, row.model, row.prompt_hash, row.created_at);
+  }
+}
+
+// A theme group whose themes all came over unchanged keeps each comment's extraction record
+// (if the comment was current for every group they came from). Other groups are marked for
+// re-extraction, so extract-theme-content only redoes the groups the edit touched.
+function remapExtractInputs(
+  db: Database,
+  oldThemes: StoredTheme[],
+  newThemes: { code: string; description: string; detailed_guidelines: string | null; sources: string[] }[],
+  unchanged: Map<string, StoredTheme>
+) {
+  const oldGroupHashes = new Map(groupThemesByTopLevel(oldThemes.map(t => ({
+    code: t.code,
+    description: t.description,
+    detailed_guidelines: t.detailed_guidelines || undefined,
+  }))).map(g => [g.parentCode, g.taxonomyHash]));
+  const newGroups = groupThemesByTopLevel(newThemes.map(t => ({
+    code: t.code,
+    description: t.description,
+    detailed_guidelines: t.detailed_guidelines || undefined,
+  })));
+
+  const rows = db.prepare(`SELECT comment_id, group_code, content_hash, taxonomy_hash FROM theme_extract_inputs`).all() as {
+    comment_id: string; group_code: string; content_hash: string | null; taxonomy_hash: string;
+  }[];
+  const byComment = new Map<string, Map<string, { content_hash: string | null; taxonomy_hash: string }>>();
+  for (const row of rows) {
+    if (!byComment.has(row.comment_id)) byComment.set(row.comment_id, new Map());
+    byComment.get(row.comment_id)!.set(row.group_code, row);
+  }
+
+  db.prepare(`DELETE FROM theme_extract_inputs`).run();
+  const insert = db.prepare(`
+    INSERT INTO theme_extract_inputs (comment_id, group_code, content_hash, taxonomy_hash) VALUES (?, ?, ?, ?)
+  `);
+
+  for (const group of newGroups) {
+    const carried = group.themes.every(t => unchanged.has(t.code));
+    const sourceGroups = carried
+      ? [...new Set(group.themes.map(t => unchanged.get(t.code)!.code.split(".")[0]))]
+      : [];
+
+    for (const [commentId, recorded] of byComment) {
+      const inputs = sourceGroups.map(code => ({ code, input: recorded.get(code) }));
+      const current = carried
+        && inputs.every(({ code, input }) => input && input.taxonomy_hash === oldGroupHashes.get(code))
+        && new Set(inputs.map(({ input }) => input!.content_hash)).size === 1;
+      const contentHash = inputs[0]?.input?.content_hash ?? recorded.values().next().value!.content_hash;
+      // An empty taxonomy hash never matches, which queues the group for this comment
+      insert.run(commentId, group.parentCode, contentHash, current ? group.taxonomyHash : "");
+    }
+  }
+}
@@ -1,5 +1,5 @@
 import { Command } from "commander";
-import { openDb, withTransaction, getProcessingStatus } from "../lib/database";
+import { openDb, withTransaction, getProcessingStatus, resetInterruptedRows } from "../lib/database";
 import { initDebug } from "../lib/debug";
 import { AIClient } from "../lib/ai-client";
 import { loadComments, checkClusteringStatus } from "../lib/comment-processing";
@@ -7,6 +7,9 @@ import { TRANSCRIBE_PROMPT } from "../prompts/transcribe";
 import type { RawComment, CommentAttributes, Attachment } from "../types";
 import { runPool } from "../lib/worker-pool";
 import { getTaskConfig, getTaskModel } from "../lib/batch-config";
+import { BudgetExceededError } from "../lib/budget";
+import { CancelledError } from "../lib/cancellation";
+import { reportItemFailure } from "../lib/progress";
 import { createPartFromBase64 } from "@google/genai";
 import type { Part } from "@google/genai";
 import { mkdtemp, writeFile, unlink } from "fs/promises";
@@ -160,6 +163,8 @@ async function transcribeComments(documentId: string, options: any) {
     console.log("🔗 Using stored clustering to transcribe only representative comments");
   }
 
+  resetInterruptedRows(db, "transcriptions");
+
   // Get processing status
   const status = getProcessingStatus(db, "transcriptions");
   console.log(`📊 Status: ${status.completed} completed, ${status.failed} failed, ${status.pending} pending`);
@@ -176,6 +181,7 @@ async function transcribeComments(documentId: string, options: any) {
       INNER JOIN comment_cluster_membership ccm ON c.id = ccm.comment_id
       LEFT JOIN transcriptions t ON c.id = t.comment_id
       WHERE ccm.is_representative = 1
+        AND c.withdrawn = 0
         AND (t.comment_id IS NULL OR t.status IN ('pending', 'processing'))
       ORDER BY c.id
     `;
@@ -208,7 +214,8 @@ async function transcribeComments(documentId: string, options: any) {
       SELECT c.id, c.attributes_json
       FROM comments c
       LEFT JOIN transcriptions t ON c.id = t.comment_id
-      WHERE t.comment_id IS NULL OR t.status IN ('pending', 'processing')
+      WHERE c.withdrawn = 0
+        AND (t.comment_id IS NULL OR t.status IN ('pending', 'processing'))
       ORDER BY c.id
     `;
     if (options.limit) {
@@ -303,16 +310,19 @@ async function transcribeComments(documentId: string, options: any) {
       console.log(`  [${comment.id}] ✅ Transcribed (${wordCount} words)`);
 
     } catch (error) {
+      if (error instanceof BudgetExceededError || error instanceof CancelledError) throw error;
+      
       failed++;
       const errorMsg = error instanceof Error ? error.message : String(error);
       console.error(`  [${comment.id}] ❌ Error: ${errorMsg}`);
       updateFailed.run(comment.id, errorMsg);
+      reportItemFailure("comments", comment.id, error);
     }
   }
 
   await runPool(comments, concurrency, async (comment, index) => {
     await processComment(comment);
-  });
+  }, { label: "comments", itemId: comment => comment.id });
 
   // Final summary
   console.log("\n📊 Transcription complete:");
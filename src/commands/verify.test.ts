@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { DB_DIR, openDb } from "../lib/database";
+import { verifyCommand } from "./verify";
+
+const DOCUMENT_ID = "TEST-2025-0001-0001";
+
+const COMMENTS: Record<string, string> = {
+  "C-1": "Small practices cannot afford the additional staff time this reporting requirement demands.",
+  "C-2": "Patients in rural areas will lose access to specialists if telehealth flexibilities end.",
+  // Not among the comments the summary was written from
+  "C-3": "The proposed payment cut will force our hospital to close its maternity ward.",
+};
+
+let dir: string;
+const cwd = process.cwd();
+
+function seed(keyQuotations: { quote: string; commentId?: string }[]) {
+  const db = openDb(DOCUMENT_ID);
+  try {
+    for (const [id, comment] of Object.entries(COMMENTS)) {
+      db.prepare("INSERT INTO comments (id, attributes_json) VALUES (?, ?)").run(id, JSON.stringify({ comment }));
+    }
+    db.prepare("INSERT INTO theme_hierarchy (code, description, level) VALUES ('1', 'Burden', 1)").run();
+    for (const id of ["C-1", "C-2"]) {
+      db.prepare("INSERT INTO comment_theme_extracts (comment_id, theme_code, extract_json) VALUES (?, '1', '{}')").run(id);
+    }
+    db.prepare(`
+      INSERT INTO theme_summaries (theme_code, structured_sections, comment_count, word_count) VALUES ('1', ?, 2, 100)
+    `).run(JSON.stringify({ keyQuotations }));
+  } finally {
+    db.close();
+  }
+}
+
+async function quoteResults() {
+  await verifyCommand.parseAsync([DOCUMENT_ID], { from: "user" });
+  const db = openDb(DOCUMENT_ID);
+  try {
+    return db.prepare(`
+      SELECT item, comment_id, status, found_in FROM verification_results WHERE kind = 'quote' ORDER BY item
+    `).all();
+  } finally {
+    db.close();
+  }
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "verify-"));
+  // openDb works relative to the current directory
+  process.chdir(dir);
+  mkdirSync(DB_DIR);
+});
+
+afterEach(() => {
+  process.chdir(cwd);
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("verify summary quotations", () => {
+  test("finds a quote attributed to the wrong comment among the comments the summary was written from", async () => {
+    seed([
+      { quote: "Small practices cannot afford the additional staff time", commentId: "C-1" },
+      { quote: "rural areas will lose access to specialists", commentId: "C-1" },
+      { quote: "rural areas will lose access to specialists" },
+      { quote: "force our hospital to close its maternity ward", commentId: "C-1" },
+    ]);
+
+    expect(await quoteResults()).toEqual([
+      { item: "keyQuotations[0]", comment_id: "C-1", status: "verified", found_in: null },
+      { item: "keyQuotations[1]", comment_id: "C-1", status: "misattributed", found_in: "C-2" },
+      // Without a comment ID, finding the quote anywhere it could come from is enough
+      { item: "keyQuotations[2]", comment_id: "", status: "verified", found_in: "C-2" },
+      // C-3 has no extract for the theme, so it isn't searched
+      { item: "keyQuotations[3]", comment_id: "C-1", status: "not_found", found_in: null },
+    ]);
+  });
+});
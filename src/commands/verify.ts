@@ -0,0 +1,216 @@
+import { Command } from "commander";
+import type { Database } from "bun:sqlite";
+import { openDb, withTransaction } from "../lib/database";
+import { htmlToText } from "../lib/rule-text";
+import { inputHash } from "../lib/staleness";
+import { matchSource, scoreQuote, quoteStatus, type MatchSource } from "../lib/quote-match";
+
+export const verifyCommand = new Command("verify")
+  .description("Check summary and extract quotations against the quoted comments, and that cited comments address the theme")
+  .argument("<document-id>", "Document ID (e.g., CMS-2025-0050-0031)")
+  .option("--strict", "Exit with an error if any quote is not found or misattributed, or any citation is unsupported")
+  .action(verify);
+
+type CheckSource = "theme_summary" | "theme_extract" | "question_summary" | "question_answer";
+
+interface Check {
+  source: CheckSource;
+  targetCode: string;
+  item: string;
+  commentId: string;
+  kind: "quote" | "citation";
+  status: string;
+  score: number | null;
+  foundIn: string | null;
+  contentHash: string;
+}
+
+const SOURCE_LABELS: Record<CheckSource, string> = {
+  theme_summary: "Theme summaries",
+  theme_extract: "Theme extracts",
+  question_summary: "Question summaries",
+  question_answer: "Question answers",
+};
+
+const PROBLEM_STATUSES = new Set(["not_found", "misattributed", "no_source", "unsupported", "unknown_comment"]);
+const MAX_LISTED = 20;
+
+// Comment text and transcribed attachments, matched lazily since most comments are never quoted
+class CommentTexts {
+  private texts = new Map<string, string>();
+  private sources = new Map<string, MatchSource | null>();
+
+  constructor(db: Database) {
+    const rows = db.prepare(`
+      SELECT c.id, json_extract(c.attributes_json, '$.comment') as comment, t.markdown
+      FROM comments c
+      LEFT JOIN transcriptions t ON t.comment_id = c.id AND t.status = 'completed'
+      WHERE c.withdrawn = 0
+    `).all() as { id: string; comment: string | null; markdown: string | null }[];
+    for (const row of rows) this.texts.set(row.id, [htmlToText(row.comment || ""), row.markdown || ""].join("\n"));
+  }
+
+  has(commentId: string): boolean {
+    return this.texts.has(commentId);
+  }
+
+  source(commentId: string): MatchSource | null {
+    if (!this.sources.has(commentId)) {
+      const text = this.texts.get(commentId)?.trim();
+      this.sources.set(commentId, text ? matchSource(text) : null);
+    }
+    return this.sources.get(commentId)!;
+  }
+}
+
+// Every comment ID a summary cites, with where it is cited
+function citations(value: any, path = ""): { item: string; commentId: string }[] {
+  if (Array.isArray(value)) return value.flatMap((v, i) => citations(v, `${path}[${i}]`));
+  if (!value || typeof value !== "object") return [];
+  return Object.entries(value).flatMap(([key, v]) => {
+    const item = path ? `${path}.${key}` : key;
+    if (key === "commentIds" && Array.isArray(v)) return v.filter(id => typeof id === "string").map(id => ({ item, commentId: id }));
+    if (key === "commentId" && typeof v === "string") return [{ item, commentId: v }];
+    return citations(v, item);
+  });
+}
+
+// A summary's quotations must appear in the comment they are attributed to, and the comments it
+// cites must be among those it was written from (the ones with an extract or answer for it)
+function checkSummary(texts: CommentTexts, source: CheckSource, code: string, sectionsJson: string, writtenFrom: Set<string>): Check[] {
+  const contentHash = inputHash(sectionsJson);
+  const sections = JSON.parse(sectionsJson);
+  const checks: Check[] = [];
+
+  (sections.keyQuotations || []).forEach((quotation: any, i: number) => {
+    if (typeof quotation?.quote !== "string" || !quotation.quote.trim()) return;
+    const cited = typeof quotation.commentId === "string" ? quotation.commentId : "";
+    const own = cited ? texts.source(cited) : null;
+    let score = own ? scoreQuote(quotation.quote, own) : 0;
+    // no_source: the cited comment exists but has no text to check against
+    let status: string = own ? quoteStatus(score) : cited && texts.has(cited) ? "no_source" : "not_found";
+    let foundIn: string | null = null;
+
+    if (status !== "verified") {
+      for (const commentId of writtenFrom) {
+        const other = commentId !== cited ? texts.source(commentId) : null;
+        const otherScore = other ? scoreQuote(quotation.quote, other) : 0;
+        if (quoteStatus(otherScore) === "verified" && otherScore > score) {
+          score = otherScore;
+          foundIn = commentId;
+        }
+      }
+      if (foundIn) status = cited ? "misattributed" : "verified";
+    }
+
+    checks.push({ source, targetCode: code, item: `keyQuotations[${i}]`, commentId: cited, kind: "quote", status, score, foundIn, contentHash });
+  });
+
+  for (const { item, commentId } of citations(sections)) {
+    const status = !texts.has(commentId) ? "unknown_comment" : writtenFrom.has(commentId) ? "supported" : "unsupported";
+    checks.push({ source, targetCode: code, item, commentId, kind: "citation", status, score: null, foundIn: null, contentHash });
+  }
+
+  return checks;
+}
+
+function checkExtract(texts: CommentTexts, source: CheckSource, code: string, commentId: string, extractJson: string): Check[] {
+  const contentHash = inputHash(extractJson);
+  const parsed = JSON.parse(extractJson);
+  const quotes: unknown[] = (parsed.extract || parsed).key_quotes || [];
+  const own = texts.source(commentId);
+
+  return quotes.flatMap((quote, i) => {
+    if (typeof quote !== "string" || !quote.trim()) return [];
+    const score = own ? scoreQuote(quote, own) : 0;
+    const status = own ? quoteStatus(score) : "no_source";
+    return [{ source, targetCode: code, item: `key_quotes[${i}]`, commentId, kind: "quote" as const, status, score, foundIn: null, contentHash }];
+  });
+}
+
+function countBy(checks: Check[]): string {
+  const counts = new Map<string, number>();
+  for (const check of checks) counts.set(check.status, (counts.get(check.status) || 0) + 1);
+  return [...counts.entries()].map(([status, count]) => `${count} ${status.replace(/_/g, " ")}`).join(", ");
+}
+
+async function verify(documentId: string, options: any) {
+  const db = openDb(documentId);
+
+  try {
+    console.log("🔎 Verifying quotations and citations...");
+    const texts = new CommentTexts(db);
+    const checks: Check[] = [];
+
+    const themeExtracts = db.prepare("SELECT theme_code, comment_id, extract_json FROM comment_theme_extracts").all() as { theme_code: string; comment_id: string; extract_json: string }[];
+    const themeSummaries = db.prepare("SELECT theme_code, structured_sections FROM theme_summaries").all() as { theme_code: string; structured_sections: string }[];
+    for (const summary of themeSummaries) {
+      const writtenFrom = new Set(themeExtracts.filter(e => e.theme_code === summary.theme_code).map(e => e.comment_id));
+      checks.push(...checkSummary(texts, "theme_summary", summary.theme_code, summary.structured_sections, writtenFrom));
+    }
+    for (const extract of themeExtracts) {
+      checks.push(...checkExtract(texts, "theme_extract", extract.theme_code, extract.comment_id, extract.extract_json));
+    }
+
+    const answers = db.prepare("SELECT question_code, comment_id, extract_json FROM comment_question_answers").all() as { question_code: string; comment_id: string; extract_json: string }[];
+    const questionSummaries = db.prepare("SELECT question_code, structured_sections FROM question_summaries").all() as { question_code: string; structured_sections: string }[];
+    for (const summary of questionSummaries) {
+      const writtenFrom = new Set(answers.filter(a => a.question_code === summary.question_code).map(a => a.comment_id));
+      checks.push(...checkSummary(texts, "question_summary", summary.question_code, summary.structured_sections, writtenFrom));
+    }
+    for (const answer of answers) {
+      checks.push(...checkExtract(texts, "question_answer", answer.question_code, answer.comment_id, answer.extract_json));
+    }
+
+    if (checks.length === 0) {
+      console.log("⏭️  No summaries or extracts to verify yet, skipping");
+      return;
+    }
+
+    withTransaction(db, () => {
+      db.prepare("DELETE FROM verification_results").run();
+      const insert = db.prepare(`
+        INSERT OR REPLACE INTO verification_results (source, target_code, item, comment_id, kind, status, score, found_in, content_hash)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      for (const c of checks) {
+        insert.run(c.source, c.targetCode, c.item, c.commentId, c.kind, c.status, c.score === null ? null : Math.round(c.score * 1000) / 1000, c.foundIn, c.contentHash);
+      }
+    });
+
+    for (const source of Object.keys(SOURCE_LABELS) as CheckSource[]) {
+      const ofSource = checks.filter(c => c.source === source);
+      if (ofSource.length === 0) continue;
+      console.log(`\n   ${SOURCE_LABELS[source]}:`);
+      const quotes = ofSource.filter(c => c.kind === "quote");
+      const cited = ofSource.filter(c => c.kind === "citation");
+      if (quotes.length > 0) console.log(`     Quotes: ${countBy(quotes)}`);
+      if (cited.length > 0) console.log(`     Citations: ${countBy(cited)}`);
+    }
+
+    // Quotations first: a wrong quote does more damage than a loose citation
+    const problems = checks
+      .filter(c => PROBLEM_STATUSES.has(c.status))
+      .sort((a, b) => Number(a.kind === "citation") - Number(b.kind === "citation"));
+    if (problems.length > 0) {
+      console.log(`\n⚠️  ${problems.length} problems:`);
+      for (const c of problems.slice(0, MAX_LISTED)) {
+        const where = `${c.source.startsWith("question") ? "Question" : "Theme"} ${c.targetCode} ${c.item}`;
+        const found = c.foundIn ? ` (found in ${c.foundIn})` : "";
+        console.log(`   ${where}: ${c.status.replace(/_/g, " ")} ${c.commentId || "(no comment cited)"}${found}`);
+      }
+      if (problems.length > MAX_LISTED) {
+        console.log(`   ... and ${problems.length - MAX_LISTED} more (see the verification_results table)`);
+      }
+    }
+
+    console.log(`\n✅ Stored ${checks.length} checks`);
+
+    if (options.strict && problems.length > 0) {
+      console.error(`❌ ${problems.length} quotations or citations could not be verified`);
+      process.exit(1);
+    }
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,93 @@
+// Reads an RFI's numbered question list, from a file the analyst prepares or from the text of
+// the loaded rule. Codes keep the agency's own numbering ("3", "3a", "B.2") so answers can be
+// reported the way the program office asked them.
+
+export interface AgencyQuestion {
+  code: string;
+  question: string;
+  position: number;
+  sectionId: string | null; // rule section the question was read from
+}
+
+// "1. How should...", "Q3: Describe...", "Question 12) ...", "B.2. What..."
+const NUMBERED = /^(?:Q(?:uestion)?\s*)?(\d{1,3}(?:\.\d{1,3})*|[A-Z](?:\.\d{1,3})+)[.):]\s+(\S.*)$/;
+// "Q3 Describe..." (a bare number needs the Q prefix, or "10 percent of..." would be a question)
+const Q_PREFIXED = /^Q(?:uestion)?\s*(\d{1,3}[a-z]?)\s+(\S.*)$/;
+// "a. ..." or "(b) ..." under a numbered question
+const LETTERED = /^\(?([a-z])[.)]\s+(\S.*)$/;
+
+function cleanLine(line: string): string {
+  return line
+    .replace(/^\s*(?:#{1,6}|[-*•])\s+/, "")
+    .replace(/\*\*|__/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function endsQuestion(text: string): boolean {
+  return /\?["”')\]]*$/.test(text);
+}
+
+// A paragraph or wrapped line that follows a question continues it until the question mark;
+// text after that is the RFI's commentary, not part of the question
+export function parseQuestionList(text: string, options: { requireQuestionMark?: boolean } = {}): Omit<AgencyQuestion, "position" | "sectionId">[] {
+  const questions: { code: string; question: string }[] = [];
+  let current: { code: string; question: string } | null = null;
+  let lastNumber: string | null = null;
+
+  for (const raw of text.split(/\n/)) {
+    const line = cleanLine(raw);
+    if (!line) {
+      current = null;
+      continue;
+    }
+
+    const numbered = line.match(NUMBERED) || line.match(Q_PREFIXED);
+    const lettered = lastNumber ? line.match(LETTERED) : null;
+    if (numbered) {
+      lastNumber = numbered[1];
+      current = { code: numbered[1], question: numbered[2] };
+      questions.push(current);
+    } else if (lettered && lastNumber) {
+      current = { code: `${lastNumber}${lettered[1]}`, question: lettered[2] };
+      questions.push(current);
+    } else if (current && !endsQuestion(current.question)) {
+      current.question += ` ${line}`;
+    } else {
+      current = null;
+    }
+  }
+
+  // An unnumbered list: every line that asks something is a question, numbered in order
+  if (questions.length === 0) {
+    return text.split(/\n/)
+      .map(cleanLine)
+      .filter(endsQuestion)
+      .map((question, i) => ({ code: String(i + 1), question }));
+  }
+
+  return options.requireQuestionMark ? questions.filter(q => q.question.includes("?")) : questions;
+}
+
+// Numbered paragraphs in a rule are mostly not questions, so only those that ask something count.
+// RFIs often restart numbering in each section; repeated numbers are prefixed with the section id.
+export function questionsFromRuleSections(sections: { section_id: string; text: string }[]): AgencyQuestion[] {
+  const found = sections.flatMap(section =>
+    parseQuestionList(section.text, { requireQuestionMark: true })
+      .map(q => ({ ...q, sectionId: section.section_id }))
+  );
+
+  const counts = new Map<string, number>();
+  for (const q of found) counts.set(q.code, (counts.get(q.code) || 0) + 1);
+
+  return found.map((q, position) => ({
+    ...q,
+    code: counts.get(q.code)! > 1 ? `${q.sectionId}.${q.code}` : q.code,
+    position,
+  }));
+}
+
+// The question list as it appears in the answer prompt
+export function formatQuestionList(questions: { code: string; question: string }[]): string {
+  return questions.map(q => `${q.code}: ${q.question}`).join("\n");
+}
@@ -1,8 +1,12 @@
 import { debugSave } from "./debug";
 import { parseJsonResponse } from "./json-parser";
-import { createHash } from "crypto";
 import { Database } from "bun:sqlite";
-import { getGenerationFunction, getMultimodalGenerationFunction } from "./llm-providers";
+import { getGenerationFunction, getMultimodalGenerationFunction, type StreamingOptions, type UsageMetadata } from "./llm-providers";
+import { recordUsage, tokensFromUsage } from "./usage-ledger";
+import { assertWithinBudget } from "./budget";
+import { CancelledError, shutdownSignal, throwIfCancelled } from "./cancellation";
+import { cacheKey, lookupCache, saveToCache } from "./cache-utils";
+import { buildRepairPrompt, checkOutput, OutputValidationError, type OutputSchema } from "./output-schema";
 import type { Part } from "@google/genai";
 
 export interface CacheMetadata {
@@ -13,14 +17,34 @@ export interface CacheMetadata {
 
 export type PostProcessFn<T = string> = (response: string) => T;
 
+// Told about each model call a request makes (repairs included) and about cache hits, with the
+// token counts the provider reported, e.g. to monitor prompt caching
+export type UsageCallback = (call: { cacheHit: boolean; usage?: UsageMetadata }) => void;
+
+// Repair round trips for a response that fails its output schema, after the first attempt
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+// Text content of a multimodal request, used for token estimates
+function textOf(parts: Part[]): string {
+  return parts.filter(p => p.text).map(p => p.text).join('\n');
+}
+
 export class AIClient {
   private static activeJobs = new Set<string>();
   private db?: Database;
   private modelKey?: string;
+  private signal: AbortSignal;
   
-  constructor(modelKey?: string, db?: Database) {
+  // Calls are cancelled when the signal aborts (by default on Ctrl-C, see cancellation.ts)
+  constructor(modelKey?: string, db?: Database, signal: AbortSignal = shutdownSignal) {
     this.modelKey = modelKey;
     this.db = db;
+    this.signal = signal;
+  }
+  
+  // The model that answers (and keys the cache for) this client's calls
+  get modelName(): string {
+    return this.modelKey || "gemini-3-flash";
   }
   
   async generateContent<T = string>(
@@ -28,33 +52,50 @@ export class AIClient {
     debugPrefix?: string, 
     jobId?: string,
     metadata?: CacheMetadata,
-    postProcess?: PostProcessFn<T>,
-    timeout?: number
+    postProcess?: PostProcessFn<T> | OutputSchema<T>,
+    timeout?: number,
+    onUsage?: UsageCallback
   ): Promise<T> {
     const workerId = jobId || debugPrefix || `worker_${Date.now()}`;
+    const schema = postProcess && typeof postProcess !== 'function' ? postProcess : undefined;
+    let cachedInvalid = false;
     
     // Check cache if database is available
     if (this.db && metadata) {
-      const promptHash = createHash('sha256').update(prompt).digest('hex');
+      const promptHash = cacheKey(this.modelName, prompt);
       
       try {
-        const cached = this.db.prepare(`
-          SELECT result FROM llm_cache 
-          WHERE prompt_hash = ?
-        `).get(promptHash) as { result: string } | undefined;
+        const cached = lookupCache(this.db, this.modelName, prompt);
         
-        if (cached) {
-          console.log(`   ✅ [${workerId}] Using cached result [${promptHash.substring(0, 8)}...]`);
-          // Apply postprocessing to cached result if provided
-          if (postProcess) {
+        if (cached !== undefined) {
+          // Apply postprocessing (or the schema) to cached result if provided; only a cached
+          // result that passes counts as a cache hit
+          let usable = true;
+          let value = cached as T;
+          if (schema) {
+            const check = checkOutput(schema, cached);
+            if (check.ok) {
+              value = check.value;
+            } else {
+              usable = false;
+              cachedInvalid = true;
+              console.warn(`   ⚠️  [${workerId}] Cached result does not match ${schema.name}, will regenerate: ${check.problems[0]}`);
+            }
+          } else if (postProcess) {
             try {
-              return postProcess(cached.result);
+              value = (postProcess as PostProcessFn<T>)(cached);
             } catch (error) {
+              usable = false;
+              cachedInvalid = true;
               console.warn(`   ⚠️  [${workerId}] Cached result failed postprocessing, will regenerate:`, error);
               // Fall through to regenerate
             }
-          } else {
-            return cached.result as T;
+          }
+          if (usable) {
+            console.log(`   ✅ [${workerId}] Using cached result [${promptHash.substring(0, 8)}...]`);
+            this.recordCall(metadata, prompt, cached, { cacheHit: true });
+            onUsage?.({ cacheHit: true });
+            return value;
           }
         }
       } catch (error) {
@@ -62,6 +103,9 @@ export class AIClient {
       }
     }
     
+    assertWithinBudget();
+    throwIfCancelled(this.signal);
+    
     // Track active job
     AIClient.activeJobs.add(workerId);
     const activeCount = AIClient.activeJobs.size;
@@ -71,44 +115,39 @@ export class AIClient {
     console.log(`🤖 [${workerId}] Starting ${modelName} call (${activeCount} active: ${activeList})`);
     
     try {
-      if (debugPrefix) {
-        await debugSave(`${debugPrefix}_prompt.txt`, prompt);
-      }
-      
-      // Get the appropriate generation function
-      const generateFn = getGenerationFunction(this.modelKey);
-      
-      // Set up streaming options if debug is enabled
-      const streamingOptions = debugPrefix ? { 
-        debugFilename: `${debugPrefix}_response.txt` 
-      } : undefined;
-      
-      let rawResult: string;
-      if (timeout) {
-        // Create a timeout promise
-        const timeoutPromise = new Promise<never>((_, reject) => {
-          setTimeout(() => reject(new Error(`AI generation timed out after ${timeout}ms`)), timeout);
-        });
-        
-        // Race between the actual call and timeout
-        rawResult = await Promise.race([
-          generateFn(prompt, streamingOptions),
-          timeoutPromise
-        ]);
-      } else {
-        rawResult = await generateFn(prompt, streamingOptions);
-      }
-      
-      // No need to save response again if we streamed it
-      if (debugPrefix && !streamingOptions) {
-        await debugSave(`${debugPrefix}_response.txt`, rawResult);
-      }
+      const responseSchema = schema?.jsonSchema ? { name: schema.name, schema: schema.jsonSchema } : undefined;
+      let rawResult = await this.callModel(prompt, debugPrefix, metadata, timeout, responseSchema, onUsage);
       
       // Apply postprocessing if provided
       let result: T;
-      if (postProcess) {
+      if (schema) {
+        // Send invalid responses back with the problems listed, a bounded number of times
+        let check = checkOutput(schema, rawResult);
+        for (let attempt = 1; !check.ok && attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+          console.warn(`   ⚠️  [${workerId}] Response does not match ${schema.name} (${check.problems.length} problems${check.truncated ? ', cut off' : ''}), repair attempt ${attempt}/${MAX_REPAIR_ATTEMPTS}`);
+          assertWithinBudget();
+          throwIfCancelled(this.signal);
+          rawResult = await this.callModel(
+            buildRepairPrompt(prompt, rawResult, check),
+            debugPrefix ? `${debugPrefix}_repair${attempt}` : undefined,
+            metadata,
+            timeout,
+            responseSchema,
+            onUsage
+          );
+          check = checkOutput(schema, rawResult);
+        }
+        if (!check.ok) {
+          console.error(`   ❌ [${workerId}] Response still does not match ${schema.name} after ${MAX_REPAIR_ATTEMPTS} repair attempts`);
+          throw new OutputValidationError(schema.name, check.problems);
+        }
+        result = check.value;
+        if (debugPrefix) {
+          await debugSave(`${debugPrefix}_processed.json`, result as any);
+        }
+      } else if (postProcess) {
         try {
-          result = postProcess(rawResult);
+          result = (postProcess as PostProcessFn<T>)(rawResult);
           if (debugPrefix) {
             await debugSave(`${debugPrefix}_processed.json`, result as any);
           }
@@ -122,34 +161,15 @@ export class AIClient {
       
       // Cache the raw result if database is available
       if (this.db && metadata) {
-        const promptHash = createHash('sha256').update(prompt).digest('hex');
+        const promptHash = cacheKey(modelName, prompt);
         
         try {
-          // Check if this entry already exists
-          const existing = this.db.prepare(`
-            SELECT task_type, task_level, task_params, model, created_at 
-            FROM llm_cache 
-            WHERE prompt_hash = ?
-          `).get(promptHash) as any;
-          
-          if (existing) {
-            console.warn(`   ⚠️  [${workerId}] Cache entry already exists for hash ${promptHash.substring(0, 8)}...`);
-            console.warn(`      Existing: ${existing.task_type} (level ${existing.task_level}) with model ${existing.model}, created at ${existing.created_at}`);
-            console.warn(`      Attempted: ${metadata.taskType} (level ${metadata.taskLevel || 0}) with model ${modelName}`);
-            console.warn(`      Params match: ${JSON.stringify(existing.task_params) === JSON.stringify(metadata.params || {})}`);
-          } else {
-            this.db.prepare(`
-              INSERT INTO llm_cache (prompt_hash, task_type, task_level, task_params, result, model)
-              VALUES (?, ?, ?, ?, ?, ?)
-            `).run(
-              promptHash,
-              metadata.taskType,
-              metadata.taskLevel || 0,
-              JSON.stringify(metadata.params || {}),
-              rawResult,  // Always cache the raw result
-              modelName
-            );
+          // A valid (possibly repaired) response replaces a cached one that failed its schema or
+          // postprocessing, so later runs don't reject it and pay for the call again
+          if (saveToCache(this.db, modelName, prompt, metadata, rawResult, cachedInvalid)) {
             console.log(`   💾 [${workerId}] Cached result [${promptHash.substring(0, 8)}...]`);
+          } else {
+            console.warn(`   ⚠️  [${workerId}] Cache entry already exists for hash ${promptHash.substring(0, 8)}... (${metadata.taskType} with model ${modelName})`);
           }
         } catch (error) {
           console.warn(`   ⚠️  [${workerId}] Failed to cache result:`, error);
@@ -166,6 +186,57 @@ export class AIClient {
     }
   }
   
+  // One text generation call, recorded in the usage ledger
+  private async callModel(
+    prompt: string,
+    debugPrefix: string | undefined,
+    metadata: CacheMetadata | undefined,
+    timeout: number | undefined,
+    responseSchema: StreamingOptions['responseSchema'],
+    onUsage: UsageCallback | undefined
+  ): Promise<string> {
+    if (debugPrefix) {
+      await debugSave(`${debugPrefix}_prompt.txt`, prompt);
+    }
+    
+    // Get the appropriate generation function
+    const generateFn = getGenerationFunction(this.modelKey);
+    
+    // Set up streaming options (debug output is only written when debug is enabled)
+    let usage: UsageMetadata | undefined;
+    const streamingOptions: StreamingOptions = {
+      debugFilename: debugPrefix ? `${debugPrefix}_response.txt` : undefined,
+      onUsage: (reported) => { usage = reported; },
+      responseSchema,
+      signal: this.signal
+    };
+    const startedAt = Date.now();
+    
+    let rawResult: string;
+    try {
+      if (timeout) {
+        // Create a timeout promise
+        const timeoutPromise = new Promise<never>((_, reject) => {
+          setTimeout(() => reject(new Error(`AI generation timed out after ${timeout}ms`)), timeout);
+        });
+        
+        // Race between the actual call and timeout
+        rawResult = await Promise.race([
+          generateFn(prompt, streamingOptions),
+          timeoutPromise
+        ]);
+      } else {
+        rawResult = await generateFn(prompt, streamingOptions);
+      }
+    } catch (error) {
+      throw this.cancelledOr(error);
+    }
+    
+    this.recordCall(metadata, prompt, rawResult, { usage, latencyMs: Date.now() - startedAt });
+    onUsage?.({ cacheHit: false, usage });
+    return rawResult;
+  }
+  
   async generateMultimodal(
     parts: Part[],
     debugPrefix?: string,
@@ -183,23 +254,24 @@ export class AIClient {
         if (p.inlineData) return `blob:${p.inlineData.mimeType}:${(p.inlineData.data || '').length}`;
         return 'unknown';
       }).join('|');
-      const promptHash = createHash('sha256').update(cacheInput).digest('hex');
+      const promptHash = cacheKey(this.modelName, cacheInput);
 
       try {
-        const cached = this.db.prepare(`
-          SELECT result FROM llm_cache
-          WHERE prompt_hash = ?
-        `).get(promptHash) as { result: string } | undefined;
+        const cached = lookupCache(this.db, this.modelName, cacheInput);
 
-        if (cached) {
+        if (cached !== undefined) {
           console.log(`   ✅ [${workerId}] Using cached result [${promptHash.substring(0, 8)}...]`);
-          return cached.result;
+          this.recordCall(metadata, textOf(parts), cached, { cacheHit: true });
+          return cached;
         }
       } catch (error) {
         console.warn(`   ⚠️  [${workerId}] Cache check failed:`, error);
       }
     }
 
+    assertWithinBudget();
+    throwIfCancelled(this.signal);
+
     AIClient.activeJobs.add(workerId);
     const activeCount = AIClient.activeJobs.size;
     const activeList = Array.from(AIClient.activeJobs).join(', ');
@@ -217,18 +289,30 @@ export class AIClient {
       }
 
       const generateFn = getMultimodalGenerationFunction(modelName);
-      const streamingOptions = debugPrefix ? { debugFilename: `${debugPrefix}_response.txt` } : undefined;
+      let usage: UsageMetadata | undefined;
+      const streamingOptions: StreamingOptions = {
+        debugFilename: debugPrefix ? `${debugPrefix}_response.txt` : undefined,
+        onUsage: (reported) => { usage = reported; },
+        signal: this.signal
+      };
+      const startedAt = Date.now();
 
       let rawResult: string;
-      if (timeout) {
-        const timeoutPromise = new Promise<never>((_, reject) => {
-          setTimeout(() => reject(new Error(`AI generation timed out after ${timeout}ms`)), timeout);
-        });
-        rawResult = await Promise.race([generateFn(parts, streamingOptions), timeoutPromise]);
-      } else {
-        rawResult = await generateFn(parts, streamingOptions);
+      try {
+        if (timeout) {
+          const timeoutPromise = new Promise<never>((_, reject) => {
+            setTimeout(() => reject(new Error(`AI generation timed out after ${timeout}ms`)), timeout);
+          });
+          rawResult = await Promise.race([generateFn(parts, streamingOptions), timeoutPromise]);
+        } else {
+          rawResult = await generateFn(parts, streamingOptions);
+        }
+      } catch (error) {
+        throw this.cancelledOr(error);
       }
 
+      this.recordCall(metadata, textOf(parts), rawResult, { usage, latencyMs: Date.now() - startedAt });
+
       // Cache the result
       if (this.db && metadata) {
         const cacheInput = parts.map(p => {
@@ -236,23 +320,9 @@ export class AIClient {
           if (p.inlineData) return `blob:${p.inlineData.mimeType}:${(p.inlineData.data || '').length}`;
           return 'unknown';
         }).join('|');
-        const promptHash = createHash('sha256').update(cacheInput).digest('hex');
-
         try {
-          const existing = this.db.prepare(`SELECT 1 FROM llm_cache WHERE prompt_hash = ?`).get(promptHash);
-          if (!existing) {
-            this.db.prepare(`
-              INSERT INTO llm_cache (prompt_hash, task_type, task_level, task_params, result, model)
-              VALUES (?, ?, ?, ?, ?, ?)
-            `).run(
-              promptHash,
-              metadata.taskType,
-              metadata.taskLevel || 0,
-              JSON.stringify(metadata.params || {}),
-              rawResult,
-              modelName
-            );
-            console.log(`   💾 [${workerId}] Cached result [${promptHash.substring(0, 8)}...]`);
+          if (saveToCache(this.db, modelName, cacheInput, metadata, rawResult)) {
+            console.log(`   💾 [${workerId}] Cached result [${cacheKey(modelName, cacheInput).substring(0, 8)}...]`);
           }
         } catch (error) {
           console.warn(`   ⚠️  [${workerId}] Failed to cache result:`, error);
@@ -268,6 +338,37 @@ export class AIClient {
     }
   }
 
+  // Providers report an aborted request in their own way (AbortError, SDK errors); callers only
+  // need to know the call was cancelled
+  private cancelledOr(error: unknown): unknown {
+    return this.signal.aborted && !(error instanceof CancelledError) ? new CancelledError() : error;
+  }
+  
+  // Append the call to the llm_usage ledger; accounting must never break generation
+  private recordCall(
+    metadata: CacheMetadata | undefined,
+    prompt: string,
+    response: string,
+    call: { cacheHit?: boolean; usage?: UsageMetadata; latencyMs?: number }
+  ) {
+    if (!this.db) return;
+    
+    try {
+      recordUsage(this.db, {
+        taskType: metadata?.taskType || 'uncategorized',
+        taskLevel: metadata?.taskLevel,
+        model: this.modelKey || "gemini-3-flash",
+        ...(call.cacheHit
+          ? { inputTokens: 0, cachedInputTokens: 0, outputTokens: 0, tokensEstimated: false }
+          : tokensFromUsage(prompt, response, call.usage)),
+        latencyMs: call.latencyMs,
+        cacheHit: !!call.cacheHit
+      });
+    } catch (error) {
+      console.warn(`   ⚠️  Failed to record LLM usage:`, error);
+    }
+  }
+
   // Extract JSON from AI response (handles markdown code blocks)
   extractJson(text: string): any {
     return parseJsonResponse(text);
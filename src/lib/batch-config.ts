@@ -37,6 +37,33 @@ export interface EntityTaskConfig {
   };
 }
 
+export interface ModelConfig {
+  concurrency?: number;
+  description?: string;
+  // Set to route this model name through a generic provider instead of a built-in one
+  provider?: "openai-compatible";
+  // "embedding" models serve the embed and semantic clustering commands only (default "chat")
+  kind?: "chat" | "embedding";
+  baseUrl?: string;
+  model?: string;
+  apiKeyEnv?: string;
+  maxTokens?: number;
+  temperature?: number;
+  // Set to false for servers that reject response_format json_schema
+  structuredOutputs?: boolean;
+  // Shared by every command in the process (see rate-limiter.ts)
+  rateLimit?: {
+    requestsPerMinute?: number;
+    tokensPerMinute?: number;
+  };
+  // USD per 1M tokens, used for cost accounting
+  pricing?: {
+    input: number;
+    cachedInput?: number;
+    output: number;
+  };
+}
+
 export interface BatchConfigFile {
   global: {
     concurrency: { default: number; description?: string };
@@ -49,11 +76,14 @@ export interface BatchConfigFile {
     summarizeThemes?: TaskConfig;
     extractThemeContent?: TaskConfig;
     discoverEntities?: EntityTaskConfig;
+    compareDockets?: TaskConfig;
+    embed?: TaskConfig;
     loadComments?: {
       rateLimiting?: {
         apiCallDelay?: number;
         attachmentDelay?: number;
         pageSize?: number;
+        requestsPerMinute?: number;
         description?: string;
       };
     };
@@ -65,10 +95,7 @@ export interface BatchConfigFile {
       description?: string;
     };
   };
-  models?: Record<string, {
-    concurrency?: number;
-    description?: string;
-  }>;
+  models?: Record<string, ModelConfig>;
 }
 
 let configCache: BatchConfigFile | null = null;
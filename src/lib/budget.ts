@@ -0,0 +1,132 @@
+import { Database } from "bun:sqlite";
+import { lookupCache } from "./cache-utils";
+import { estimateCost, estimateTokens } from "./usage-ledger";
+
+// Spend guardrail shared by every LLM call in this process. The pipeline runs
+// its steps in-process, so the limit covers all steps and crash restarts.
+
+export class BudgetExceededError extends Error {
+  constructor(public spent: number, public limit: number) {
+    super(`Budget exceeded: spent $${spent.toFixed(2)} of $${limit.toFixed(2)} limit (--max-cost)`);
+    this.name = "BudgetExceededError";
+  }
+}
+
+let spendLimit: number | null = null;
+let spent = 0;
+
+// Without a limit the current one is kept, so a limit set by the pipeline
+// still applies inside the step commands it invokes
+export function setSpendLimit(limit: number | undefined) {
+  if (limit === undefined || isNaN(limit)) return;
+  spendLimit = limit;
+  console.log(`💰 Spend limit: $${limit.toFixed(2)} ($${spent.toFixed(2)} spent so far)`);
+}
+
+export function chargeSpend(cost: number) {
+  spent += cost;
+}
+
+export function getSpent(): number {
+  return spent;
+}
+
+// Called before every API call; calls already in flight are allowed to finish
+export function assertWithinBudget() {
+  if (spendLimit !== null && spent >= spendLimit) {
+    throw new BudgetExceededError(spent, spendLimit);
+  }
+}
+
+// Rough output sizes per task type, used when projecting cost before a run
+const EXPECTED_OUTPUT_TOKENS: Record<string, number> = {
+  "transcribe": 2500,
+  "condense": 800,
+  "theme_extract_batch": 400,
+  "question_answer": 800,
+  "response_draft": 1500,
+  "theme_alignment": 2000,
+  "theme_summary_v2": 3000,
+  "theme_summary_v2_merge": 4000,
+  "theme_summary_structure": 3500,
+};
+
+export function getExpectedOutputTokens(taskType: string): number {
+  return EXPECTED_OUTPUT_TOKENS[taskType] || 1000;
+}
+
+interface ModelEstimate {
+  prompts: number;
+  cacheHits: number;
+  projected: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Collects the prompts a command would send (--dry-run) and projects their cost
+export class CostEstimator {
+  private byModel = new Map<string, ModelEstimate>();
+  private db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  private entry(model: string): ModelEstimate {
+    let estimate = this.byModel.get(model);
+    if (!estimate) {
+      estimate = { prompts: 0, cacheHits: 0, projected: 0, inputTokens: 0, outputTokens: 0 };
+      this.byModel.set(model, estimate);
+    }
+    return estimate;
+  }
+
+  // A prompt built exactly as it would be sent; cache hits cost nothing
+  addPrompt(model: string, taskType: string, prompt: string) {
+    const estimate = this.entry(model);
+    if (lookupCache(this.db, model, prompt) !== undefined) {
+      estimate.cacheHits++;
+      return;
+    }
+    estimate.prompts++;
+    estimate.inputTokens += estimateTokens(prompt);
+    estimate.outputTokens += getExpectedOutputTokens(taskType);
+  }
+
+  // A prompt that depends on earlier outputs (merges, structuring) and can't be built yet
+  addProjected(model: string, taskType: string, inputTokens: number) {
+    const estimate = this.entry(model);
+    estimate.prompts++;
+    estimate.projected++;
+    estimate.inputTokens += inputTokens;
+    estimate.outputTokens += getExpectedOutputTokens(taskType);
+  }
+
+  get totalCost(): number {
+    let total = 0;
+    for (const [model, estimate] of this.byModel) {
+      total += estimateCost(model, { ...estimate, cachedInputTokens: 0 }).total;
+    }
+    return total;
+  }
+
+  print() {
+    console.log("\n💰 Dry run - projected LLM usage:");
+    if (this.byModel.size === 0) {
+      console.log("   Nothing to send");
+      return;
+    }
+    for (const [model, estimate] of this.byModel) {
+      const cost = estimateCost(model, { ...estimate, cachedInputTokens: 0 });
+      console.log(`   ${model}: ${estimate.prompts} prompts to send, ${estimate.cacheHits} cache hits`);
+      if (estimate.projected > 0) {
+        console.log(`     (${estimate.projected} of them depend on earlier outputs; sizes projected)`);
+      }
+      console.log(`     ~${estimate.inputTokens.toLocaleString()} input tokens, ~${estimate.outputTokens.toLocaleString()} output tokens`);
+      console.log(`     Projected cost: $${cost.total.toFixed(2)} (input: $${cost.input.toFixed(2)}, output: $${cost.output.toFixed(2)})`);
+    }
+    if (this.byModel.size > 1) {
+      console.log(`   Total projected cost: $${this.totalCost.toFixed(2)}`);
+    }
+  }
+}
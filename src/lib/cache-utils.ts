@@ -1,4 +1,40 @@
 import { Database } from "bun:sqlite";
+import { createHash } from "crypto";
+import type { CacheMetadata } from "./ai-client";
+
+// Cache keys include the model so the same prompt sent to another model is a miss
+export function cacheKey(model: string, prompt: string): string {
+  return createHash('sha256').update(`${model}\n${prompt}`).digest('hex');
+}
+
+// Cached result for this model and prompt. Entries written before keys included the
+// model are hashed on the prompt alone and only count when they came from the same model.
+export function lookupCache(db: Database, model: string, prompt: string): string | undefined {
+  const cached = db.prepare(`SELECT result FROM llm_cache WHERE prompt_hash = ?`)
+    .get(cacheKey(model, prompt)) as { result: string } | undefined;
+  if (cached) return cached.result;
+
+  const legacy = db.prepare(`SELECT result FROM llm_cache WHERE prompt_hash = ? AND model = ?`)
+    .get(createHash('sha256').update(prompt).digest('hex'), model) as { result: string } | undefined;
+  return legacy?.result;
+}
+
+// Store a raw model response; returns false when an entry already exists for this key (unless
+// replacing it, as when the cached response failed its output schema)
+export function saveToCache(db: Database, model: string, prompt: string, metadata: CacheMetadata, result: string, replace = false): boolean {
+  const inserted = db.prepare(`
+    INSERT OR ${replace ? 'REPLACE' : 'IGNORE'} INTO llm_cache (prompt_hash, task_type, task_level, task_params, result, model)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(
+    cacheKey(model, prompt),
+    metadata.taskType,
+    metadata.taskLevel || 0,
+    JSON.stringify(metadata.params || {}),
+    result,
+    model
+  );
+  return inserted.changes > 0;
+}
 
 // Clear cache for specific task type
 export function clearCache(db: Database, taskType: string, level?: number) {
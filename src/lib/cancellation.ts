@@ -0,0 +1,49 @@
+// Ctrl-C handling shared by every command in the process. The first interrupt aborts the
+// process-wide signal: model calls in flight are cancelled, no new ones start, and work that
+// already finished stays saved (rows, task checkpoints) for the next run. A second interrupt
+// exits immediately.
+
+export class CancelledError extends Error {
+  constructor(message = "Interrupted") {
+    super(message);
+    this.name = "CancelledError";
+  }
+}
+
+const controller = new AbortController();
+
+export const shutdownSignal: AbortSignal = controller.signal;
+
+export function installInterruptHandler() {
+  const interrupt = () => {
+    if (controller.signal.aborted) {
+      console.error("\n🛑 Interrupted again, exiting now");
+      process.exit(130);
+    }
+    console.error("\n🛑 Interrupted, cancelling calls in flight (Ctrl-C again to exit now)...");
+    controller.abort(new CancelledError());
+  };
+  process.on("SIGINT", interrupt);
+  process.on("SIGTERM", interrupt);
+}
+
+// Called before starting any unit of work
+export function throwIfCancelled(signal: AbortSignal = shutdownSignal) {
+  if (signal.aborted) throw new CancelledError();
+}
+
+// A wait that ends early (with CancelledError) when the signal is aborted
+export function cancellableSleep(ms: number, signal: AbortSignal = shutdownSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(new CancelledError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
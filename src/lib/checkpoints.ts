@@ -0,0 +1,35 @@
+import type { Database } from "bun:sqlite";
+
+// Results of the finished tasks of a multi-step job (batches and hierarchical merges), kept in
+// task_checkpoints so a run that was interrupted or crashed resumes mid-merge instead of
+// starting over. A job is identified by name plus a hash of its inputs.
+export class TaskCheckpoints<TResult = any> {
+  constructor(private db: Database, public readonly job: string, private inputHash: string) {}
+
+  // Saved results for these inputs; checkpoints left by a run over different inputs are dropped
+  load(): Map<string, TResult> {
+    const stale = this.db.prepare(
+      "DELETE FROM task_checkpoints WHERE job = ? AND input_hash != ?"
+    ).run(this.job, this.inputHash).changes;
+    if (stale > 0) {
+      console.log(`   🗑️  Discarded ${stale} checkpoints of ${this.job} from earlier inputs`);
+    }
+
+    const rows = this.db.prepare(
+      "SELECT task_id, result FROM task_checkpoints WHERE job = ?"
+    ).all(this.job) as { task_id: string; result: string }[];
+    return new Map(rows.map(row => [row.task_id, JSON.parse(row.result) as TResult]));
+  }
+
+  save(taskId: string, result: TResult) {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO task_checkpoints (job, task_id, input_hash, result)
+      VALUES (?, ?, ?, ?)
+    `).run(this.job, taskId, this.inputHash, JSON.stringify(result));
+  }
+
+  // Once the job's output is stored its checkpoints are no longer needed
+  clear() {
+    this.db.prepare("DELETE FROM task_checkpoints WHERE job = ?").run(this.job);
+  }
+}
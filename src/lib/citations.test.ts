@@ -0,0 +1,65 @@
+import { describe, expect, test } from "bun:test";
+import { cfrTitlesByPart, findCitations, resolveCfrTitle } from "./citations";
+
+function keys(text: string): string[] {
+  return findCitations(text).map(c => c.key);
+}
+
+// Keys as extract-citations stores them, with titles taken from the same text
+function resolvedKeys(text: string): string[] {
+  const titles = cfrTitlesByPart(text);
+  return findCitations(text).map(c => resolveCfrTitle(c, titles)).filter(c => c !== null).map(c => c!.key);
+}
+
+describe("findCitations", () => {
+  test("writes titled CFR citations under one key", () => {
+    expect(keys("45 CFR 170.315(b)(11)")).toEqual(["45 CFR 170.315(b)(11)"]);
+    expect(keys("45 C.F.R. § 170.315 (b)(11)")).toEqual(["45 CFR 170.315(b)(11)"]);
+    expect(keys("see 45 CFR section 170.315(b)(11).")).toEqual(["45 CFR 170.315(b)(11)"]);
+    expect(keys("45 CFR part 170 and 42 CFR Parts 414")).toEqual(["45 CFR Part 170", "42 CFR Part 414"]);
+  });
+
+  test("keeps the part of CFR citations written without a title", () => {
+    const [citation] = findCitations("under §170.315 (b)(11)");
+    expect(citation).toMatchObject({ kind: "cfr", key: "§ 170.315(b)(11)", cfrPart: "170", text: "§170.315 (b)(11)" });
+    expect(keys("§§ 170.315(b)(10) and Sec. 170.202")).toEqual(["§ 170.315(b)(10)", "§ 170.202"]);
+  });
+
+  test("finds the titled form once where patterns overlap", () => {
+    expect(findCitations("45 CFR § 170.315(b)(11)")).toHaveLength(1);
+  });
+
+  test("normalizes Federal Register, statute, docket and RIN citations", () => {
+    expect(keys("90 Fed. Reg. 12,345 and 90 FR 12345")).toEqual(["90 FR 12345", "90 FR 12345"]);
+    expect(keys("42 U.S.C. § 300jj–11(c)")).toEqual(["42 U.S.C. 300jj-11(c)"]);
+    expect(keys("Public Law No. 114–255")).toEqual(["Pub. L. 114-255"]);
+    expect(keys("docket HHS-ONC-2025-0001-0031")).toEqual(["HHS-ONC-2025-0001-0031"]);
+    expect(keys("RIN 0955-AA09")).toEqual(["RIN 0955-AA09"]);
+  });
+});
+
+describe("resolveCfrTitle", () => {
+  test("fills in the title cited elsewhere for the same part", () => {
+    expect(resolvedKeys("45 CFR 170.315 requires it. See §170.315 (b)(11) and 170.315(b)(10).")).toEqual([
+      "45 CFR 170.315",
+      "45 CFR 170.315(b)(11)",
+      "45 CFR 170.315(b)(10)",
+    ]);
+  });
+
+  test("uses the most frequent title for a part", () => {
+    const titles = cfrTitlesByPart("42 CFR 414.1 and 42 CFR 414.2, once 45 CFR 414.3");
+    const [citation] = findCitations("§ 414.5(a)");
+    expect(resolveCfrTitle(citation, titles)?.key).toBe("42 CFR 414.5(a)");
+  });
+
+  test("keeps a § citation whose title is unknown", () => {
+    expect(resolvedKeys("See § 170.315(b)(11).")).toEqual(["§ 170.315(b)(11)"]);
+  });
+
+  test("drops a bare section number whose part is never cited with a title or §", () => {
+    expect(resolvedKeys("On 12.5(a) we rate 3.5 stars")).toEqual([]);
+    expect(resolvedKeys("On 12.5(a) see also § 12.7")).toEqual(["§ 12.7", "§ 12.5(a)"]);
+    expect(resolvedKeys("On 12.5(a) see also 21 CFR 12.7")).toEqual(["21 CFR 12.7", "21 CFR 12.5(a)"]);
+  });
+});
@@ -0,0 +1,128 @@
+// Finds regulatory citations in comment text and writes each under one canonical key, so
+// "45 CFR 170.315(b)(11)", "45 C.F.R. § 170.315 (b)(11)" and "§170.315(b)(11)" count as the same
+// citation. Deterministic: no LLM and no entity taxonomy involved.
+
+export type CitationKind = "cfr" | "fr" | "statute" | "docket" | "rin";
+
+export interface FoundCitation {
+  kind: CitationKind;
+  key: string; // canonical form
+  text: string; // as written
+  // CFR citations written without a title ("§ 170.315") are keyed once the title is known
+  cfrPart?: string;
+  // Written as a bare section number ("170.315(b)(11)"), which is only taken for a CFR citation
+  // when its part is cited properly somewhere
+  bare?: boolean;
+}
+
+const PARAGRAPHS = String.raw`((?:\s?\([a-zA-Z0-9]{1,5}\))*)`;
+
+function joinParagraphs(paragraphs: string | undefined): string {
+  return (paragraphs || "").replace(/\s/g, "");
+}
+
+function cfrKey(title: string | null, part: string, section: string | undefined, paragraphs: string | undefined): string {
+  const cited = section ? `${part}.${section}${joinParagraphs(paragraphs)}` : `Part ${part}`;
+  return title ? `${title} CFR ${cited}` : section ? `§ ${cited}` : cited;
+}
+
+interface CitationPattern {
+  kind: CitationKind;
+  pattern: RegExp;
+  build: (m: RegExpMatchArray) => { key: string; cfrPart?: string; bare?: boolean };
+}
+
+// Earlier patterns win where matches overlap, so the titled CFR form is tried before bare "§ 170.315"
+const PATTERNS: CitationPattern[] = [
+  {
+    // "45 CFR 170.315(b)(11)", "45 C.F.R. § 170.315 (b)", "45 CFR part 170", "45 CFR parts 170"
+    kind: "cfr",
+    pattern: new RegExp(String.raw`\b(\d{1,2})\s*C\.?\s?F\.?\s?R\.?\s*(?:§§?\s*|[Pp]arts?\s+|[Ss]ec(?:tion|\.)\s*)?(\d{1,4})(?:\.(\d{1,4}[a-z]?))?` + PARAGRAPHS, "g"),
+    build: m => ({ key: cfrKey(m[1], m[2], m[3], m[4]) }),
+  },
+  {
+    // "§ 170.315(b)(11)", "§§170.315 (b)(10)", "Sec. 170.315"
+    kind: "cfr",
+    pattern: new RegExp(String.raw`(?:§§?|\bSec\.)\s*(\d{1,4})\.(\d{1,4}[a-z]?)` + PARAGRAPHS, "g"),
+    build: m => ({ key: cfrKey(null, m[1], m[2], m[3]), cfrPart: m[1] }),
+  },
+  {
+    // "170.315(b)(11)": a bare section number only counts with a paragraph designator
+    kind: "cfr",
+    pattern: /\b(\d{2,4})\.(\d{1,4}[a-z]?)((?:\([a-zA-Z0-9]{1,5}\))+)/g,
+    build: m => ({ key: cfrKey(null, m[1], m[2], m[3]), cfrPart: m[1], bare: true }),
+  },
+  {
+    // "90 FR 12345", "90 Fed. Reg. 12,345", "90 Federal Register 12345"
+    kind: "fr",
+    pattern: /\b(\d{1,3})\s+(?:FR|Fed\.\s?Reg\.|Federal Register)\s+(\d{1,3}(?:,\d{3})+|\d{1,6})\b/g,
+    build: m => ({ key: `${m[1]} FR ${m[2].replace(/,/g, "")}` }),
+  },
+  {
+    // "42 U.S.C. 300jj-11", "42 USC § 1395w-4(q)"
+    kind: "statute",
+    pattern: new RegExp(String.raw`\b(\d{1,2})\s*U\.?\s?S\.?\s?C\.?\s*(?:§§?\s*)?(\d+[a-zA-Z]*(?:[-–]\d+[a-zA-Z]*)?)` + PARAGRAPHS, "g"),
+    build: m => ({ key: `${m[1]} U.S.C. ${m[2].replace("–", "-")}${joinParagraphs(m[3])}` }),
+  },
+  {
+    // "Pub. L. 114-255", "Public Law No. 114–255", "P.L. 114-255"
+    kind: "statute",
+    pattern: /(?:\bPub(?:lic)?\.?\s?L(?:aw)?\.?|\bP\.\s?L\.)\s*(?:No\.\s*)?(\d{2,3})\s?[-–]\s?(\d{1,3})\b/g,
+    build: m => ({ key: `Pub. L. ${m[1]}-${m[2]}` }),
+  },
+  {
+    // Regulations.gov docket and document IDs: "CMS-2025-0050", "HHS-ONC-2025-0001-0031"
+    kind: "docket",
+    pattern: /\b([A-Z]{2,8}(?:-[A-Z]{2,8})?)[-_](\d{4})[-_](\d{4,5})(?:[-_](\d{4,5}))?\b/g,
+    build: m => ({ key: [m[1], m[2], m[3], m[4]].filter(Boolean).join("-") }),
+  },
+  {
+    // Regulation Identifier Numbers: "RIN 0955-AA09"
+    kind: "rin",
+    pattern: /\b(\d{4})[-–]([A-Z]{2}\d{2})\b/g,
+    build: m => ({ key: `RIN ${m[1]}-${m[2]}` }),
+  },
+];
+
+export function findCitations(text: string): FoundCitation[] {
+  const found: FoundCitation[] = [];
+  const covered: [number, number][] = [];
+
+  for (const { kind, pattern, build } of PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      if (covered.some(([s, e]) => start < e && end > s)) continue;
+      covered.push([start, end]);
+      found.push({ kind, text: match[0].trim(), ...build(match) });
+    }
+  }
+  return found;
+}
+
+// "45 CFR 170.315" -> part 170 is in title 45; used to key citations written without the title.
+// Parts only cited as "§ 170.315" are included with no titles.
+export function cfrTitlesByPart(text: string): Map<string, Map<string, number>> {
+  const titles = new Map<string, Map<string, number>>();
+  for (const match of text.matchAll(PATTERNS[0].pattern)) {
+    const counts = titles.get(match[2]) || new Map<string, number>();
+    counts.set(match[1], (counts.get(match[1]) || 0) + 1);
+    titles.set(match[2], counts);
+  }
+  for (const match of text.matchAll(PATTERNS[1].pattern)) {
+    if (!titles.has(match[1])) titles.set(match[1], new Map());
+  }
+  return titles;
+}
+
+// Fills in the CFR title of "§ 170.315(b)(11)" when the docket cites part 170 with a title
+// elsewhere; the most frequent title wins. A bare "12.5(a)" whose part is never cited with a
+// title or § is most likely not a CFR citation at all, and is dropped (null).
+export function resolveCfrTitle(citation: FoundCitation, titles: Map<string, Map<string, number>>): FoundCitation | null {
+  if (!citation.cfrPart) return citation;
+  const counts = titles.get(citation.cfrPart);
+  if (!counts) return citation.bare ? null : citation;
+  if (counts.size === 0) return { ...citation, bare: undefined };
+  const [title] = [...counts].sort((a, b) => b[1] - a[1])[0];
+  return { ...citation, key: `${title} CFR ${citation.key.replace(/^§ /, "")}`, cfrPart: undefined, bare: undefined };
+}
@@ -13,12 +13,12 @@ export function loadComments(db: Database, limit?: number): {
   total: number;
 } {
   // Get total count
-  const { count: total } = db.prepare("SELECT COUNT(*) as count FROM comments").get() as { count: number };
+  const { count: total } = db.prepare("SELECT COUNT(*) as count FROM comments WHERE withdrawn = 0").get() as { count: number };
   
-  // Load comments
+  // Load comments (withdrawn comments are kept in the database but not analyzed)
   const query = limit 
-    ? "SELECT id, attributes_json FROM comments LIMIT ?"
-    : "SELECT id, attributes_json FROM comments";
+    ? "SELECT id, attributes_json FROM comments WHERE withdrawn = 0 LIMIT ?"
+    : "SELECT id, attributes_json FROM comments WHERE withdrawn = 0";
   
   const comments = limit
     ? db.prepare(query).all(limit) as RawComment[]
@@ -0,0 +1,161 @@
+import { Database } from "bun:sqlite";
+import { createHash } from "crypto";
+import type { CommentAttributes } from "../types";
+
+export interface SyncState {
+  documentId: string;
+  source: "api" | "csv";
+  watermark: string | null;
+  lastSyncedAt: string | null;
+}
+
+export interface SyncCounts {
+  new: number;
+  updated: number;
+  unchanged: number;
+  withdrawn: number;
+  skipped: number;
+}
+
+export interface StoredComment {
+  content_hash: string | null;
+  last_modified_date: string | null;
+  withdrawn: number;
+}
+
+export function getSyncState(db: Database, documentId: string): SyncState | null {
+  const row = db.prepare(`
+    SELECT document_id, source, last_modified_watermark, last_synced_at
+    FROM sync_state WHERE document_id = ?
+  `).get(documentId) as any;
+
+  if (!row) return null;
+  return {
+    documentId: row.document_id,
+    source: row.source,
+    watermark: row.last_modified_watermark,
+    lastSyncedAt: row.last_synced_at,
+  };
+}
+
+export function saveSyncState(
+  db: Database,
+  documentId: string,
+  source: "api" | "csv",
+  watermark: string | null,
+  counts?: SyncCounts
+) {
+  db.prepare(`
+    INSERT INTO sync_state (document_id, source, last_modified_watermark, last_synced_at, last_run_json)
+    VALUES (?, ?, ?, CURRENT_TIMESTAMP, ?)
+    ON CONFLICT(document_id) DO UPDATE SET
+      source = excluded.source,
+      last_modified_watermark = COALESCE(excluded.last_modified_watermark, sync_state.last_modified_watermark),
+      last_synced_at = CURRENT_TIMESTAMP,
+      last_run_json = COALESCE(excluded.last_run_json, sync_state.last_run_json)
+  `).run(documentId, source, watermark, counts ? JSON.stringify(counts) : null);
+}
+
+// Record a document comments are loaded for; attributes are from the API, or just
+// the ID when the document is only known from a CSV's "Comment on Document ID" column
+export function saveDocketDocument(db: Database, documentId: string, attributes: Record<string, any> = {}) {
+  db.prepare(`
+    INSERT INTO docket_documents (
+      document_id, object_id, title, document_type, posted_date,
+      comment_start_date, comment_end_date, metadata_json, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(document_id) DO UPDATE SET
+      object_id = COALESCE(excluded.object_id, docket_documents.object_id),
+      title = COALESCE(excluded.title, docket_documents.title),
+      document_type = COALESCE(excluded.document_type, docket_documents.document_type),
+      posted_date = COALESCE(excluded.posted_date, docket_documents.posted_date),
+      comment_start_date = COALESCE(excluded.comment_start_date, docket_documents.comment_start_date),
+      comment_end_date = COALESCE(excluded.comment_end_date, docket_documents.comment_end_date),
+      metadata_json = COALESCE(excluded.metadata_json, docket_documents.metadata_json),
+      updated_at = CURRENT_TIMESTAMP
+  `).run(
+    documentId,
+    attributes.objectId || null,
+    attributes.title || null,
+    attributes.documentType || null,
+    attributes.postedDate || null,
+    attributes.commentStartDate || null,
+    attributes.commentEndDate || null,
+    Object.keys(attributes).length > 0 ? JSON.stringify(attributes) : null
+  );
+}
+
+export function getStoredComment(db: Database, commentId: string): StoredComment | null {
+  return db.prepare(`
+    SELECT content_hash, last_modified_date, withdrawn FROM comments WHERE id = ?
+  `).get(commentId) as StoredComment | null;
+}
+
+// Hash of everything the transcribe/condense prompts read, so metadata-only
+// edits (e.g. a corrected posted date) don't send a comment back through the pipeline
+export function computeContentHash(attributes: CommentAttributes, attachmentUrls: string[]): string {
+  const content = {
+    comment: attributes.comment || "",
+    title: attributes.title || "",
+    firstName: attributes.firstName || "",
+    lastName: attributes.lastName || "",
+    organization: attributes.organization || "",
+    category: attributes.category || "",
+    attachments: [...attachmentUrls].sort(),
+  };
+  return createHash("sha256").update(JSON.stringify(content)).digest("hex");
+}
+
+function placeholders(ids: string[]): string {
+  return ids.map(() => "?").join(",");
+}
+
+// Drop per-comment analysis that is rebuilt from scratch, plus the theme
+// summaries that were written from it
+function clearDerivedRows(db: Database, commentIds: string[]): number {
+  const inList = placeholders(commentIds);
+  const themeCodes = (db.prepare(`
+    SELECT DISTINCT theme_code FROM comment_theme_extracts WHERE comment_id IN (${inList})
+  `).all(...commentIds) as { theme_code: string }[]).map(r => r.theme_code);
+
+  db.prepare(`DELETE FROM comment_theme_extracts WHERE comment_id IN (${inList})`).run(...commentIds);
+  db.prepare(`DELETE FROM theme_extract_inputs WHERE comment_id IN (${inList})`).run(...commentIds);
+  db.prepare(`DELETE FROM comment_entities WHERE comment_id IN (${inList})`).run(...commentIds);
+  db.prepare(`DELETE FROM comment_citations WHERE comment_id IN (${inList})`).run(...commentIds);
+  db.prepare(`DELETE FROM comment_question_answers WHERE comment_id IN (${inList})`).run(...commentIds);
+  db.prepare(`DELETE FROM question_answer_inputs WHERE comment_id IN (${inList})`).run(...commentIds);
+
+  if (themeCodes.length > 0) {
+    db.prepare(`DELETE FROM theme_summaries WHERE theme_code IN (${placeholders(themeCodes)})`).run(...themeCodes);
+  }
+  return themeCodes.length;
+}
+
+// Send changed comments back through transcribe -> condense -> extract. Callers wrap in a transaction.
+export function invalidateComments(db: Database, commentIds: string[]): { staleSummaries: number } {
+  if (commentIds.length === 0) return { staleSummaries: 0 };
+  const inList = placeholders(commentIds);
+
+  for (const table of ["transcriptions", "condensed_comments"]) {
+    db.prepare(`
+      UPDATE ${table}
+      SET status = 'pending', attempt_count = 0, error_message = NULL
+      WHERE comment_id IN (${inList})
+    `).run(...commentIds);
+  }
+
+  return { staleSummaries: clearDerivedRows(db, commentIds) };
+}
+
+// Withdrawn comments stay in the database but drop out of processing and the dashboard
+export function withdrawComments(db: Database, commentIds: string[]): { staleSummaries: number } {
+  if (commentIds.length === 0) return { staleSummaries: 0 };
+  const inList = placeholders(commentIds);
+
+  db.prepare(`
+    UPDATE comments SET withdrawn = 1, updated_at = CURRENT_TIMESTAMP WHERE id IN (${inList})
+  `).run(...commentIds);
+  db.prepare(`DELETE FROM condensed_comments WHERE comment_id IN (${inList})`).run(...commentIds);
+
+  return { staleSummaries: clearDerivedRows(db, commentIds) };
+}
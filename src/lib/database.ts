@@ -46,7 +46,35 @@ export function initSchema(db: Database) {
     CREATE TABLE IF NOT EXISTS comments (
       id TEXT PRIMARY KEY,
       attributes_json TEXT NOT NULL,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      content_hash TEXT, -- hash of the text/submitter/attachment fields the pipeline reads
+      last_modified_date TEXT, -- lastModifiedDate from the API
+      withdrawn BOOLEAN NOT NULL DEFAULT 0,
+      target_document_id TEXT, -- document the comment was submitted on (dockets span several)
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME
+    );
+    
+    -- Documents whose comments are loaded into this database (one, or every
+    -- commentable document in a docket)
+    CREATE TABLE IF NOT EXISTS docket_documents (
+      document_id TEXT PRIMARY KEY,
+      object_id TEXT,
+      title TEXT,
+      document_type TEXT,
+      posted_date TEXT,
+      comment_start_date TEXT,
+      comment_end_date TEXT,
+      metadata_json TEXT,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+    
+    -- Incremental sync progress per document
+    CREATE TABLE IF NOT EXISTS sync_state (
+      document_id TEXT PRIMARY KEY,
+      source TEXT NOT NULL, -- 'api' or 'csv'
+      last_modified_watermark TEXT, -- newest API lastModifiedDate fully synced
+      last_synced_at DATETIME,
+      last_run_json TEXT -- counts from the most recent sync
     );
     
     -- Attachments for comments
@@ -84,6 +112,10 @@ export function initSchema(db: Database) {
       error_message TEXT,
       attempt_count INTEGER DEFAULT 0,
       last_attempt_at DATETIME,
+      input_hash TEXT, -- comments.content_hash it was condensed from
+      run_id TEXT, -- pipeline_runs.run_id that produced it
+      model TEXT,
+      prompt_hash TEXT, -- prompt template version
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       FOREIGN KEY (comment_id) REFERENCES comments(id)
     );
@@ -96,6 +128,9 @@ export function initSchema(db: Database) {
       parent_code TEXT,
       quotes_json TEXT,
       detailed_guidelines TEXT,
+      run_id TEXT,
+      model TEXT,
+      prompt_hash TEXT,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       FOREIGN KEY (parent_code) REFERENCES theme_hierarchy(code)
     );
@@ -118,6 +153,18 @@ export function initSchema(db: Database) {
       FOREIGN KEY (comment_id) REFERENCES comments(id),
       FOREIGN KEY (category, entity_label) REFERENCES entity_taxonomy(category, label)
     );
+
+    -- Regulatory citations per comment (extract-citations), under one canonical key per reference
+    CREATE TABLE IF NOT EXISTS comment_citations (
+      comment_id TEXT NOT NULL,
+      kind TEXT NOT NULL CHECK (kind IN ('cfr', 'fr', 'statute', 'docket', 'rin')),
+      citation_key TEXT NOT NULL, -- e.g. "45 CFR 170.315(b)(11)", "90 FR 12345", "Pub. L. 114-255"
+      variants TEXT NOT NULL, -- JSON array of the forms written in the comment
+      PRIMARY KEY (comment_id, citation_key),
+      FOREIGN KEY (comment_id) REFERENCES comments(id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_comment_citations_key ON comment_citations(citation_key);
     
     -- Theme summary analysis
     CREATE TABLE IF NOT EXISTS theme_summaries (
@@ -125,6 +172,10 @@ export function initSchema(db: Database) {
       structured_sections TEXT NOT NULL, -- JSON
       comment_count INTEGER NOT NULL,
       word_count INTEGER NOT NULL,
+      input_hash TEXT, -- theme wording + the extracts it was written from
+      run_id TEXT,
+      model TEXT,
+      prompt_hash TEXT,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       FOREIGN KEY (theme_code) REFERENCES theme_hierarchy(code)
     );
@@ -159,9 +210,20 @@ export function initSchema(db: Database) {
     CREATE INDEX IF NOT EXISTS idx_comment_themes_comment ON comment_themes(comment_id);
     CREATE INDEX IF NOT EXISTS idx_comment_themes_theme ON comment_themes(theme_code);
     
+    -- One row per command or pipeline invocation that writes analysis artifacts
+    CREATE TABLE IF NOT EXISTS pipeline_runs (
+      run_id TEXT PRIMARY KEY,
+      command TEXT NOT NULL,
+      options_json TEXT,
+      git_commit TEXT,
+      status TEXT DEFAULT 'running' CHECK(status IN ('running', 'completed', 'failed')),
+      started_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      finished_at DATETIME
+    );
+    
     -- LLM cache for prompt-level caching
     CREATE TABLE IF NOT EXISTS llm_cache (
-      prompt_hash TEXT PRIMARY KEY,
+      prompt_hash TEXT PRIMARY KEY, -- sha256 of model + prompt (prompt alone for entries written before model keying)
       task_type TEXT NOT NULL,
       task_level INTEGER DEFAULT 0,
       task_params TEXT, -- JSON metadata
@@ -176,12 +238,34 @@ export function initSchema(db: Database) {
     CREATE INDEX IF NOT EXISTS idx_llm_cache_task_type_level ON llm_cache(task_type, task_level);
     CREATE INDEX IF NOT EXISTS idx_llm_cache_created_at ON llm_cache(created_at);
     
+    -- Ledger of every LLM call (including cache hits) for cost accounting
+    CREATE TABLE IF NOT EXISTS llm_usage (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      task_type TEXT NOT NULL,
+      task_level INTEGER DEFAULT 0,
+      model TEXT NOT NULL,
+      input_tokens INTEGER NOT NULL DEFAULT 0,
+      cached_input_tokens INTEGER NOT NULL DEFAULT 0, -- provider-side prompt cache
+      output_tokens INTEGER NOT NULL DEFAULT 0,
+      tokens_estimated BOOLEAN NOT NULL DEFAULT 0, -- provider reported no usage
+      latency_ms INTEGER,
+      cache_hit BOOLEAN NOT NULL DEFAULT 0, -- served from llm_cache
+      estimated_cost REAL NOT NULL DEFAULT 0, -- USD
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_llm_usage_task_type ON llm_usage(task_type);
+    CREATE INDEX IF NOT EXISTS idx_llm_usage_created_at ON llm_usage(created_at);
+    
     -- Theme-specific content extracts from comments
     CREATE TABLE IF NOT EXISTS comment_theme_extracts (
       comment_id TEXT NOT NULL,
       theme_code TEXT NOT NULL,
       extract_json TEXT NOT NULL, -- JSON with positions, concerns, recommendations specific to theme
-      cluster_size INTEGER DEFAULT 1, -- Number of comments this extract represents
+      cluster_size INTEGER DEFAULT 1, -- Number of comments this extract represents (0 for a form-letter member's personal additions, already counted with its representative)
+      run_id TEXT,
+      model TEXT,
+      prompt_hash TEXT,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       PRIMARY KEY (comment_id, theme_code),
       FOREIGN KEY (comment_id) REFERENCES comments(id),
@@ -191,6 +275,18 @@ export function initSchema(db: Database) {
     -- Index for efficient theme-based queries
     CREATE INDEX IF NOT EXISTS idx_theme_extracts_theme ON comment_theme_extracts(theme_code);
     
+    -- Inputs each comment was last extracted with, per top-level theme group (recorded even
+    -- when no theme in the group was relevant, so the group isn't re-run)
+    CREATE TABLE IF NOT EXISTS theme_extract_inputs (
+      comment_id TEXT NOT NULL,
+      group_code TEXT NOT NULL,
+      content_hash TEXT, -- comments.content_hash at extraction time (memberAdditionsHash for form-letter additions)
+      taxonomy_hash TEXT NOT NULL, -- hash of the group's theme codes and descriptions
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (comment_id, group_code),
+      FOREIGN KEY (comment_id) REFERENCES comments(id)
+    );
+    
     -- Comment clusters based on similarity analysis
     CREATE TABLE IF NOT EXISTS comment_clusters (
       cluster_id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -223,16 +319,197 @@ export function initSchema(db: Database) {
       similarity_threshold REAL NOT NULL,
       min_cluster_size INTEGER NOT NULL,
       cluster_method TEXT NOT NULL DEFAULT 'jaccard',
+      parameters_json TEXT,
       status TEXT DEFAULT 'completed' CHECK(status IN ('pending', 'processing', 'completed', 'failed')),
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       completed_at DATETIME
     );
     
+    -- Embedding vectors (normalized Float32 BLOBs) per comment, text source and embedding model
+    CREATE TABLE IF NOT EXISTS comment_embeddings (
+      comment_id TEXT NOT NULL,
+      source TEXT NOT NULL CHECK(source IN ('transcription', 'condensed', 'content')),
+      model TEXT NOT NULL,
+      dimensions INTEGER NOT NULL,
+      vector BLOB NOT NULL,
+      text_hash TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (comment_id, source, model),
+      FOREIGN KEY (comment_id) REFERENCES comments(id)
+    );
+    
+    -- Passages each form-letter member added to its cluster's representative text
+    CREATE TABLE IF NOT EXISTS cluster_member_additions (
+      comment_id TEXT PRIMARY KEY,
+      cluster_id INTEGER NOT NULL,
+      representative_comment_id TEXT NOT NULL,
+      additions_json TEXT NOT NULL, -- JSON array of inserted passages, in order
+      added_word_count INTEGER NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (comment_id) REFERENCES comments(id),
+      FOREIGN KEY (cluster_id) REFERENCES comment_clusters(cluster_id)
+    );
+    
+    -- Suspected coordinated submission campaigns (detect-campaigns), rebuilt on every run
+    CREATE TABLE IF NOT EXISTS campaigns (
+      campaign_id INTEGER PRIMARY KEY,
+      evidence_score REAL NOT NULL, -- weighted sum of the signal scores, 0-1
+      comment_count INTEGER NOT NULL,
+      representative_comment_id TEXT,
+      first_date TEXT,
+      last_date TEXT,
+      signals_json TEXT NOT NULL, -- score per signal (nearDuplicates, sharedPhrasing, burst, submitters, templatedStories)
+      evidence_json TEXT NOT NULL, -- human-readable findings behind the scores
+      shared_phrases_json TEXT, -- sample of the phrases most members share
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (representative_comment_id) REFERENCES comments(id)
+    );
+    
+    CREATE TABLE IF NOT EXISTS campaign_members (
+      campaign_id INTEGER NOT NULL,
+      comment_id TEXT NOT NULL,
+      PRIMARY KEY (campaign_id, comment_id),
+      FOREIGN KEY (campaign_id) REFERENCES campaigns(campaign_id),
+      FOREIGN KEY (comment_id) REFERENCES comments(id)
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_campaign_members_comment ON campaign_members(comment_id);
+    
+    -- The proposed rule's text (load-rule); one rule per database, replaced on reload
+    CREATE TABLE IF NOT EXISTS rule_document (
+      id INTEGER PRIMARY KEY CHECK(id = 1),
+      source_path TEXT NOT NULL,
+      format TEXT NOT NULL CHECK(format IN ('html', 'xml', 'pdf', 'text')),
+      title TEXT,
+      content_hash TEXT NOT NULL,
+      loaded_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+    
+    -- Section tree of the rule, keyed the way comments cite it ("III.B", "170.315(b)(11)")
+    CREATE TABLE IF NOT EXISTS rule_sections (
+      section_id TEXT PRIMARY KEY,
+      parent_id TEXT,
+      kind TEXT NOT NULL CHECK(kind IN ('preamble', 'part', 'section', 'paragraph')),
+      heading TEXT,
+      text TEXT NOT NULL,
+      position INTEGER NOT NULL, -- order of first appearance in the document
+      FOREIGN KEY (parent_id) REFERENCES rule_sections(section_id)
+    );
+    
+    -- Rule sections each comment cites (link-rule), rebuilt on every run
+    CREATE TABLE IF NOT EXISTS comment_rule_sections (
+      comment_id TEXT NOT NULL,
+      section_id TEXT NOT NULL,
+      theme_code TEXT NOT NULL DEFAULT '', -- '' for the comment's own text, else the theme extract that cites it
+      citation TEXT NOT NULL, -- as written, e.g. "§ 170.315(b)(11)(iii)"
+      PRIMARY KEY (comment_id, section_id, theme_code),
+      FOREIGN KEY (comment_id) REFERENCES comments(id),
+      FOREIGN KEY (section_id) REFERENCES rule_sections(section_id)
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_comment_rule_sections_section ON comment_rule_sections(section_id);
+    
+    -- Numbered questions of an RFI (questions load), in the agency's own numbering
+    CREATE TABLE IF NOT EXISTS agency_questions (
+      code TEXT PRIMARY KEY, -- e.g. "3", "3a", "B.2"
+      question TEXT NOT NULL,
+      position INTEGER NOT NULL,
+      section_id TEXT, -- rule section the question was read from, with --from-rule
+      loaded_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+    
+    -- Each comment's answer to each question it addresses (questions extract)
+    CREATE TABLE IF NOT EXISTS comment_question_answers (
+      comment_id TEXT NOT NULL,
+      question_code TEXT NOT NULL,
+      extract_json TEXT NOT NULL, -- same shape as comment_theme_extracts.extract_json
+      cluster_size INTEGER DEFAULT 1,
+      run_id TEXT,
+      model TEXT,
+      prompt_hash TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (comment_id, question_code),
+      FOREIGN KEY (comment_id) REFERENCES comments(id),
+      FOREIGN KEY (question_code) REFERENCES agency_questions(code)
+    );
+    
+    -- Content and question-list hashes each comment was last answered with
+    CREATE TABLE IF NOT EXISTS question_answer_inputs (
+      comment_id TEXT PRIMARY KEY,
+      content_hash TEXT,
+      questions_hash TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (comment_id) REFERENCES comments(id)
+    );
+    
+    -- Per-question summary of the answers, structured like theme_summaries (questions summarize)
+    CREATE TABLE IF NOT EXISTS question_summaries (
+      question_code TEXT PRIMARY KEY,
+      structured_sections TEXT NOT NULL, -- JSON
+      comment_count INTEGER NOT NULL,
+      input_hash TEXT, -- question wording + the answers it was written from
+      run_id TEXT,
+      model TEXT,
+      prompt_hash TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (question_code) REFERENCES agency_questions(code)
+    );
+
+    -- Quote and citation checks (verify), rebuilt on each run. content_hash is the hash of the summary
+    -- or extract JSON that was checked, so checks of a since-regenerated summary are not shown.
+    CREATE TABLE IF NOT EXISTS verification_results (
+      source TEXT NOT NULL CHECK (source IN ('theme_summary', 'theme_extract', 'question_summary', 'question_answer')),
+      target_code TEXT NOT NULL, -- theme or question code
+      item TEXT NOT NULL, -- path within the JSON, e.g. "keyQuotations[2]", "majorConcerns[0].commentIds"
+      comment_id TEXT NOT NULL DEFAULT '', -- the quoted or cited comment
+      kind TEXT NOT NULL CHECK (kind IN ('quote', 'citation')),
+      status TEXT NOT NULL, -- quotes: verified | approximate | not_found | misattributed | no_source; citations: supported | unsupported | unknown_comment
+      score REAL, -- share of the quote's words found in the best-matching passage of the comment
+      found_in TEXT, -- comment a misattributed quote was found in
+      content_hash TEXT NOT NULL,
+      checked_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (source, target_code, comment_id, item)
+    );
+
+    -- Finished batch and merge tasks of a multi-step job, so an interrupted run resumes where it
+    -- stopped; cleared when the job completes
+    CREATE TABLE IF NOT EXISTS task_checkpoints (
+      job TEXT NOT NULL, -- e.g. "discover-themes", "summarize-themes-v2:3.1"
+      task_id TEXT NOT NULL, -- TaskQueue task ID, e.g. "batch_0", "merge_L1_P0"
+      input_hash TEXT NOT NULL, -- the job's inputs; checkpoints from other inputs are discarded
+      result TEXT NOT NULL, -- JSON
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (job, task_id)
+    );
+
     -- Indexes for clustering performance
     CREATE INDEX IF NOT EXISTS idx_cluster_membership_cluster ON comment_cluster_membership(cluster_id);
     CREATE INDEX IF NOT EXISTS idx_cluster_membership_representative ON comment_cluster_membership(is_representative);
     CREATE INDEX IF NOT EXISTS idx_cluster_representative ON comment_clusters(representative_comment_id);
   `);
+  
+  // Columns added after the first release; CREATE TABLE IF NOT EXISTS won't add them to older databases
+  ensureColumn(db, "comments", "content_hash", "TEXT");
+  ensureColumn(db, "comments", "last_modified_date", "TEXT");
+  ensureColumn(db, "comments", "withdrawn", "BOOLEAN NOT NULL DEFAULT 0");
+  ensureColumn(db, "comments", "updated_at", "DATETIME");
+  ensureColumn(db, "comments", "target_document_id", "TEXT");
+  ensureColumn(db, "clustering_status", "parameters_json", "TEXT");
+  for (const table of ["condensed_comments", "theme_hierarchy", "theme_summaries", "comment_theme_extracts"]) {
+    ensureColumn(db, table, "run_id", "TEXT");
+    ensureColumn(db, table, "model", "TEXT");
+    ensureColumn(db, table, "prompt_hash", "TEXT");
+  }
+  ensureColumn(db, "condensed_comments", "input_hash", "TEXT");
+  ensureColumn(db, "theme_summaries", "input_hash", "TEXT");
+  db.exec("CREATE INDEX IF NOT EXISTS idx_comments_target_document ON comments(target_document_id)");
+}
+
+export function ensureColumn(db: Database, table: string, column: string, definition: string) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
 }
 
 // Helper to get processing status
@@ -254,6 +531,16 @@ export function getProcessingStatus(db: Database, table: string): {
   return db.prepare(query).get() as any;
 }
 
+// Rows a previous run marked 'processing' and never finished (interrupted or crashed) go back
+// to 'pending'. Call before a command selects its work.
+export function resetInterruptedRows(db: Database, table: string): number {
+  const reset = db.prepare(`UPDATE ${table} SET status = 'pending' WHERE status = 'processing'`).run().changes;
+  if (reset > 0) {
+    console.log(`♻️  Reset ${reset} ${table} rows left 'processing' by an interrupted run`);
+  }
+  return reset;
+}
+
 // Transaction helper
 export function withTransaction<T>(db: Database, fn: () => T): T {
   const tx = db.transaction(fn);
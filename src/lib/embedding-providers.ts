@@ -0,0 +1,208 @@
+import { Database } from "bun:sqlite";
+import { GoogleGenAI } from "@google/genai";
+import { loadBatchConfig, type ModelConfig } from "./batch-config";
+import { getRateLimiter, parseRetryAfter, RateLimitedError } from "./rate-limiter";
+import { estimateTokens, recordUsage } from "./usage-ledger";
+import { assertWithinBudget } from "./budget";
+import { CancelledError, shutdownSignal, throwIfCancelled } from "./cancellation";
+
+// Embedding providers take a batch of texts and return one vector per text, in order.
+// Like the generation providers, built-in models come first and anything else is
+// looked up in the "models" section of batch-config.json, among the entries with
+// "kind": "embedding".
+
+export type EmbeddingFunction = (texts: string[]) => Promise<number[][]>;
+
+// One request to a provider; inputTokens is left out when the provider doesn't report usage
+export interface EmbeddingResult {
+  vectors: number[][];
+  inputTokens?: number;
+}
+
+export type EmbeddingCall = (texts: string[], signal: AbortSignal) => Promise<EmbeddingResult>;
+
+export interface EmbeddingProvider {
+  embed: EmbeddingFunction;
+  // Most texts sent in one request
+  maxBatchSize: number;
+}
+
+interface EmbeddingBackend {
+  call: EmbeddingCall;
+  maxBatchSize: number;
+}
+
+const GEMINI_EMBEDDING_DIMENSIONS = 768;
+const MOCK_EMBEDDING_DIMENSIONS = 256;
+
+export async function embedWithGemini(texts: string[], signal: AbortSignal): Promise<EmbeddingResult> {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new Error("GEMINI_API_KEY environment variable is required");
+  }
+
+  const ai = new GoogleGenAI({ apiKey });
+
+  const response = await ai.models.embedContent({
+    model: "gemini-embedding-001",
+    contents: texts,
+    config: {
+      taskType: "SEMANTIC_SIMILARITY",
+      outputDimensionality: GEMINI_EMBEDDING_DIMENSIONS,
+      abortSignal: signal,
+    },
+  });
+  const vectors = (response.embeddings || []).map(e => e.values || []);
+  if (vectors.length !== texts.length) {
+    throw new Error(`Gemini returned ${vectors.length} embeddings for ${texts.length} texts`);
+  }
+  // The Gemini API reports no token counts for embeddings
+  return { vectors };
+}
+
+// FNV-1a, enough to spread features over the mock vector's dimensions
+function hashFeature(feature: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Deterministic offline embeddings for tests (embed --model mock): hashed word and
+// word-pair counts, so texts that share wording land close together
+export async function embedWithMock(texts: string[]): Promise<EmbeddingResult> {
+  const vectors = texts.map(text => {
+    const vector = new Array(MOCK_EMBEDDING_DIMENSIONS).fill(0);
+    const words = text.toLowerCase().match(/[a-z0-9']+/g) || [];
+    const features = [...words, ...words.slice(1).map((w, i) => `${words[i]} ${w}`)];
+    for (const feature of features) {
+      const hash = hashFeature(feature);
+      vector[hash % MOCK_EMBEDDING_DIMENSIONS] += (hash & 0x80000000) ? -1 : 1;
+    }
+    return vector;
+  });
+  return { vectors };
+}
+
+// Generic provider for any OpenAI-compatible /embeddings endpoint
+// (OpenAI, Ollama, llama.cpp server, LM Studio, text-embeddings-inference, ...)
+export function createOpenAICompatibleEmbedder(name: string, modelConfig: ModelConfig): EmbeddingCall {
+  if (!modelConfig.baseUrl) {
+    throw new Error(`Embedding model "${name}" uses the openai-compatible provider but has no baseUrl configured`);
+  }
+  const endpoint = `${modelConfig.baseUrl.replace(/\/+$/, "")}/embeddings`;
+  const remoteModel = modelConfig.model || name;
+
+  return async (texts: string[], signal: AbortSignal): Promise<EmbeddingResult> => {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+
+    // Local servers usually run without auth, so a key is only required if one is configured
+    if (modelConfig.apiKeyEnv) {
+      const apiKey = process.env[modelConfig.apiKeyEnv];
+      if (!apiKey) {
+        throw new Error(`${modelConfig.apiKeyEnv} environment variable is required for model "${name}"`);
+      }
+      headers["Authorization"] = `Bearer ${apiKey}`;
+    }
+
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ model: remoteModel, input: texts }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      if (response.status === 429 || response.status === 503) {
+        throw new RateLimitedError(`OpenAI-compatible embeddings API error (${name}): ${response.status} - ${error}`, response.status, parseRetryAfter(response.headers.get("retry-after")));
+      }
+      throw new Error(`OpenAI-compatible embeddings API error (${name}): ${response.status} - ${error}`);
+    }
+
+    const data: any = await response.json();
+    const vectors = [...(data.data || [])]
+      .sort((a: any, b: any) => (a.index ?? 0) - (b.index ?? 0))
+      .map((d: any) => d.embedding as number[]);
+    if (vectors.length !== texts.length) {
+      throw new Error(`${name} returned ${vectors.length} embeddings for ${texts.length} texts`);
+    }
+    return { vectors, inputTokens: data.usage?.prompt_tokens };
+  };
+}
+
+export const EMBEDDING_PROVIDERS: Record<string, EmbeddingBackend> = {
+  "gemini-embedding": { call: embedWithGemini, maxBatchSize: 100 },
+  "mock": { call: embedWithMock, maxBatchSize: 100 },
+};
+
+const configuredEmbedders = new Map<string, EmbeddingBackend>();
+
+// Requests check the spend limit and Ctrl-C before starting, wait their turn in the model's
+// shared rate limiter (which retries 429s and 503s), and are recorded in the llm_usage ledger
+// under the "embed" task type when a database is given
+function metered(model: string, call: EmbeddingCall, db?: Database): EmbeddingFunction {
+  return async (texts) => {
+    assertWithinBudget();
+    throwIfCancelled();
+
+    const estimated = estimateTokens(texts.join("\n"));
+    const startTime = Date.now();
+    let result: EmbeddingResult;
+    try {
+      result = await getRateLimiter(model).run(estimated, async settle => {
+        const response = await call(texts, shutdownSignal);
+        if (response.inputTokens !== undefined) settle(response.inputTokens);
+        return response;
+      });
+    } catch (error) {
+      // Providers report an aborted request in their own way; callers only need to know it was cancelled
+      throw shutdownSignal.aborted && !(error instanceof CancelledError) ? new CancelledError() : error;
+    }
+
+    if (db) {
+      try {
+        recordUsage(db, {
+          taskType: "embed",
+          model,
+          inputTokens: result.inputTokens ?? estimated,
+          cachedInputTokens: 0,
+          outputTokens: 0,
+          tokensEstimated: result.inputTokens === undefined,
+          latencyMs: Date.now() - startTime,
+          cacheHit: false,
+        });
+      } catch (error) {
+        console.warn(`   ⚠️  Failed to record embedding usage:`, error);
+      }
+    }
+    return result.vectors;
+  };
+}
+
+export function getEmbeddingProvider(model: string = "gemini-embedding", db?: Database): EmbeddingProvider {
+  const backend = EMBEDDING_PROVIDERS[model] || configuredEmbedder(model);
+  return { embed: metered(model, backend.call, db), maxBatchSize: backend.maxBatchSize };
+}
+
+function configuredEmbedder(model: string): EmbeddingBackend {
+  const cached = configuredEmbedders.get(model);
+  if (cached) {
+    return cached;
+  }
+
+  const modelConfig = loadBatchConfig().models?.[model];
+  if (modelConfig?.provider === "openai-compatible" && modelConfig.kind === "embedding") {
+    const configured = { call: createOpenAICompatibleEmbedder(model, modelConfig), maxBatchSize: 32 };
+    configuredEmbedders.set(model, configured);
+    return configured;
+  }
+
+  const available = [
+    ...Object.keys(EMBEDDING_PROVIDERS),
+    ...Object.entries(loadBatchConfig().models || {}).filter(([, c]) => c.provider && c.kind === "embedding").map(([name]) => name),
+  ];
+  throw new Error(`Unknown embedding model: ${model}. Available: ${available.join(", ")}`);
+}
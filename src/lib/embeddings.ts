@@ -0,0 +1,232 @@
+import { Database } from "bun:sqlite";
+import { createHash } from "crypto";
+import { withTransaction } from "./database";
+import type { EmbeddingProvider } from "./embedding-providers";
+
+// "content" is the raw comment and attachment text, embedded by semantic clustering
+// before transcriptions exist
+export type EmbeddingSource = "transcription" | "condensed" | "content";
+
+export const EMBEDDING_SOURCES: EmbeddingSource[] = ["transcription", "condensed", "content"];
+
+// Long texts are cut to what embedding models accept; the opening carries most of the position
+export const MAX_EMBED_CHARS = 8000;
+
+export interface StoredEmbedding {
+  commentId: string;
+  vector: Float32Array;
+}
+
+export interface SimilarComment {
+  commentId: string;
+  similarity: number;
+}
+
+export interface SimilarityOptions {
+  source: EmbeddingSource;
+  model: string;
+  limit?: number;
+  minSimilarity?: number;
+}
+
+// Condensed sections that describe what the commenter argued (the profile is left out
+// so comments aren't matched on who wrote them)
+const CONDENSED_SECTIONS = ["oneLineSummary", "corePosition", "keyRecommendations", "mainConcerns", "notableExperiences"];
+
+export function hashEmbeddingText(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+// Vectors are stored unit-length so cosine similarity is a dot product
+export function normalizeVector(values: ArrayLike<number>): Float32Array {
+  const vector = Float32Array.from(values);
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+}
+
+export function encodeVector(vector: Float32Array): Uint8Array {
+  return new Uint8Array(vector.buffer, vector.byteOffset, vector.byteLength);
+}
+
+export function decodeVector(blob: Uint8Array): Float32Array {
+  // Copy so the Float32Array is aligned regardless of where SQLite put the bytes
+  return new Float32Array(Uint8Array.from(blob).buffer);
+}
+
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot;
+}
+
+// Text of each non-withdrawn comment for a transcription or condensed source, ready to embed
+export function loadEmbeddingTexts(db: Database, source: Exclude<EmbeddingSource, "content">): { commentId: string; text: string }[] {
+  if (source === "transcription") {
+    return (db.prepare(`
+      SELECT t.comment_id, t.markdown
+      FROM transcriptions t
+      JOIN comments c ON c.id = t.comment_id
+      WHERE t.status = 'completed' AND c.withdrawn = 0
+      ORDER BY t.comment_id
+    `).all() as any[])
+      .map(row => ({ commentId: row.comment_id, text: (row.markdown || "").trim() }))
+      .filter(row => row.text.length > 0);
+  }
+
+  const rows = db.prepare(`
+    SELECT cc.comment_id, cc.structured_sections
+    FROM condensed_comments cc
+    JOIN comments c ON c.id = cc.comment_id
+    WHERE cc.status = 'completed' AND c.withdrawn = 0
+    ORDER BY cc.comment_id
+  `).all() as any[];
+
+  const texts: { commentId: string; text: string }[] = [];
+  for (const row of rows) {
+    try {
+      const sections = JSON.parse(row.structured_sections);
+      const text = CONDENSED_SECTIONS
+        .map(key => sections[key])
+        .filter((value: unknown) => typeof value === "string" && value.trim())
+        .join("\n\n");
+      if (text) texts.push({ commentId: row.comment_id, text });
+    } catch (e) {
+      console.warn(`⚠️  Could not parse condensed sections for ${row.comment_id}`);
+    }
+  }
+  return texts;
+}
+
+// Hashes of the text each stored embedding was computed from, to skip unchanged comments
+export function getEmbeddedTextHashes(db: Database, source: EmbeddingSource, model: string): Map<string, string> {
+  const rows = db.prepare(`
+    SELECT comment_id, text_hash FROM comment_embeddings WHERE source = ? AND model = ?
+  `).all(source, model) as { comment_id: string; text_hash: string }[];
+  return new Map(rows.map(r => [r.comment_id, r.text_hash]));
+}
+
+// Embed the texts whose stored embedding is missing or was computed from different text
+export async function embedMissing(
+  db: Database,
+  texts: { commentId: string; text: string }[],
+  source: EmbeddingSource,
+  model: string,
+  provider: EmbeddingProvider,
+  options: { force?: boolean; limit?: number } = {}
+): Promise<{ embedded: number; unchanged: number }> {
+  const existing = options.force ? new Map<string, string>() : getEmbeddedTextHashes(db, source, model);
+
+  let pending = texts
+    .map(t => {
+      const text = t.text.substring(0, MAX_EMBED_CHARS);
+      return { commentId: t.commentId, text, textHash: hashEmbeddingText(text) };
+    })
+    .filter(t => existing.get(t.commentId) !== t.textHash);
+  const unchanged = texts.length - pending.length;
+  if (options.limit) pending = pending.slice(0, options.limit);
+
+  console.log(`📊 ${source}: ${texts.length} comments with text, ${unchanged} already embedded, ${pending.length} to embed`);
+
+  let embedded = 0;
+  for (let i = 0; i < pending.length; i += provider.maxBatchSize) {
+    const batch = pending.slice(i, i + provider.maxBatchSize);
+    const vectors = await provider.embed(batch.map(b => b.text));
+
+    withTransaction(db, () => {
+      batch.forEach((item, index) => {
+        saveEmbedding(db, item.commentId, source, model, vectors[index], item.textHash);
+      });
+    });
+
+    embedded += batch.length;
+    console.log(`   ✅ ${embedded}/${pending.length} embedded`);
+  }
+
+  return { embedded, unchanged };
+}
+
+export function saveEmbedding(
+  db: Database,
+  commentId: string,
+  source: EmbeddingSource,
+  model: string,
+  values: ArrayLike<number>,
+  textHash: string
+) {
+  const vector = normalizeVector(values);
+  db.prepare(`
+    INSERT OR REPLACE INTO comment_embeddings (comment_id, source, model, dimensions, vector, text_hash, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+  `).run(commentId, source, model, vector.length, encodeVector(vector), textHash);
+}
+
+export function loadEmbeddings(db: Database, source: EmbeddingSource, model: string): StoredEmbedding[] {
+  const rows = db.prepare(`
+    SELECT e.comment_id, e.vector
+    FROM comment_embeddings e
+    JOIN comments c ON c.id = e.comment_id
+    WHERE e.source = ? AND e.model = ? AND c.withdrawn = 0
+    ORDER BY e.comment_id
+  `).all(source, model) as { comment_id: string; vector: Uint8Array }[];
+  return rows.map(row => ({ commentId: row.comment_id, vector: decodeVector(row.vector) }));
+}
+
+export function getEmbedding(db: Database, commentId: string, source: EmbeddingSource, model: string): Float32Array | null {
+  const row = db.prepare(`
+    SELECT vector FROM comment_embeddings WHERE comment_id = ? AND source = ? AND model = ?
+  `).get(commentId, source, model) as { vector: Uint8Array } | null;
+  return row ? decodeVector(row.vector) : null;
+}
+
+// Models that have embeddings stored for a source, most used first
+export function getEmbeddingModels(db: Database, source: EmbeddingSource): string[] {
+  return (db.prepare(`
+    SELECT model FROM comment_embeddings WHERE source = ? GROUP BY model ORDER BY COUNT(*) DESC
+  `).all(source) as { model: string }[]).map(r => r.model);
+}
+
+// Brute-force nearest neighbours; fine for the tens of thousands of comments a docket has
+export function rankBySimilarity(
+  query: Float32Array,
+  candidates: StoredEmbedding[],
+  options: { limit?: number; minSimilarity?: number; excludeId?: string } = {}
+): SimilarComment[] {
+  const minSimilarity = options.minSimilarity ?? -1;
+  const results: SimilarComment[] = [];
+  for (const candidate of candidates) {
+    if (candidate.commentId === options.excludeId) continue;
+    if (candidate.vector.length !== query.length) continue;
+    const similarity = cosineSimilarity(query, candidate.vector);
+    if (similarity >= minSimilarity) {
+      results.push({ commentId: candidate.commentId, similarity });
+    }
+  }
+  results.sort((a, b) => b.similarity - a.similarity || a.commentId.localeCompare(b.commentId));
+  return options.limit ? results.slice(0, options.limit) : results;
+}
+
+// "Comments like this one"
+export function findSimilarComments(db: Database, commentId: string, options: SimilarityOptions): SimilarComment[] {
+  const query = getEmbedding(db, commentId, options.source, options.model);
+  if (!query) {
+    throw new Error(`No ${options.source} embedding for ${commentId} with model ${options.model}. Run 'embed' first.`);
+  }
+  return rankBySimilarity(query, loadEmbeddings(db, options.source, options.model), {
+    limit: options.limit,
+    minSimilarity: options.minSimilarity,
+    excludeId: commentId,
+  });
+}
+
+// Comments closest to an arbitrary query vector (e.g. an embedded search phrase)
+export function searchByVector(db: Database, values: ArrayLike<number>, options: SimilarityOptions): SimilarComment[] {
+  return rankBySimilarity(normalizeVector(values), loadEmbeddings(db, options.source, options.model), {
+    limit: options.limit,
+    minSimilarity: options.minSimilarity,
+  });
+}
@@ -14,11 +14,22 @@ export function parseJsonResponse(text: string): any {
     }
   }
   
-  // Otherwise try to extract raw JSON by finding the outermost braces
+  // Otherwise try to extract raw JSON by finding the outermost braces, or brackets when the
+  // response is a bare array
   const cleaned = text.trim();
+  const firstBracket = cleaned.indexOf('[');
+  const lastBracket = cleaned.lastIndexOf(']');
   const firstBrace = cleaned.indexOf('{');
   const lastBrace = cleaned.lastIndexOf('}');
   
+  if (firstBracket !== -1 && lastBracket > firstBracket && (firstBrace === -1 || firstBracket < firstBrace)) {
+    try {
+      return JSON.parse(cleaned.slice(firstBracket, lastBracket + 1));
+    } catch {
+      // Not an array after all (e.g. a bracketed aside before the object)
+    }
+  }
+  
   if (firstBrace === -1 || lastBrace === -1 || lastBrace <= firstBrace) {
     throw new Error("No valid JSON found in response");
   }
@@ -29,4 +40,4 @@ export function parseJsonResponse(text: string): any {
   } catch (e) {
     throw new Error(`Invalid JSON: ${e instanceof Error ? e.message : String(e)}`);
   }
-} 
\ No newline at end of file
+}
\ No newline at end of file
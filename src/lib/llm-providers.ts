@@ -1,11 +1,22 @@
-import { GoogleGenAI, type Part } from "@google/genai";
+import { GoogleGenAI, type Part, type Schema, type Type } from "@google/genai";
 import { debugStreamStart, debugStreamWrite, debugStreamEnd } from "./debug";
+import { loadBatchConfig, type ModelConfig } from "./batch-config";
+import { generateWithMock, generateMultimodalWithMock } from "./mock-provider";
+import type { JsonSchema } from "./output-schema";
+import { getRateLimiter, parseRetryAfter, RateLimitedError } from "./rate-limiter";
+import { estimateTokens } from "./usage-ledger";
 
 // Simple provider functions that just handle the generation call
 // Cache logic remains in AIClient
 
 export interface StreamingOptions {
   debugFilename?: string;
+  // Called with token counts when the provider reports them
+  onUsage?: (usage: UsageMetadata) => void;
+  // Expected JSON output, for providers that can constrain generation to a schema
+  responseSchema?: { name: string; schema: JsonSchema };
+  // Aborts the request (and any wait for a rate limit turn)
+  signal?: AbortSignal;
 }
 
 export interface UsageMetadata {
@@ -19,11 +30,22 @@ export interface GenerationResult {
   usageMetadata?: UsageMetadata;
 }
 
+// Normalize Gemini usage metadata (thinking tokens are billed as output)
+function toUsageMetadata(usage: any): UsageMetadata | undefined {
+  if (!usage) return undefined;
+  return {
+    promptTokenCount: usage.promptTokenCount || 0,
+    cachedContentTokenCount: usage.cachedContentTokenCount || 0,
+    candidatesTokenCount: (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0),
+  };
+}
+
 // Helper to handle streaming with optional debug
 async function processStream<T>(
   stream: AsyncIterable<T>,
   getText: (chunk: T) => string,
-  options?: StreamingOptions
+  options?: StreamingOptions,
+  getUsage?: (chunk: T) => UsageMetadata | undefined
 ): Promise<string> {
   // Start debug stream if requested
   if (options?.debugFilename) {
@@ -31,11 +53,15 @@ async function processStream<T>(
   }
   
   let result = "";
+  let usage: UsageMetadata | undefined;
   try {
     for await (const chunk of stream) {
       const chunkText = getText(chunk);
       result += chunkText;
       
+      // Usage arrives on the final chunk(s); keep the latest
+      usage = getUsage?.(chunk) || usage;
+      
       // Stream to debug file if active
       if (options?.debugFilename && chunkText) {
         debugStreamWrite(options.debugFilename, chunkText);
@@ -48,9 +74,54 @@ async function processStream<T>(
     }
   }
   
+  if (usage) {
+    options?.onUsage?.(usage);
+  }
+  
+  return result;
+}
+
+// Gemini's schema is an OpenAPI subset without open-ended maps, so schemas keyed by data (theme
+// codes, category names) only get JSON mode, not the schema itself
+function toGeminiSchema(schema: JsonSchema): Schema | undefined {
+  if (typeof schema.additionalProperties === "object") return undefined;
+
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  const type = types.find(t => t !== "null");
+  const result: Schema = {
+    ...(type ? { type: type.toUpperCase() as Type } : {}),
+    ...(types.includes("null") ? { nullable: true } : {}),
+    ...(schema.description ? { description: schema.description } : {}),
+    ...(schema.enum && schema.enum.every(v => typeof v === "string") ? { enum: schema.enum as string[] } : {}),
+    ...(schema.minItems !== undefined ? { minItems: String(schema.minItems) } : {}),
+    ...(schema.required ? { required: schema.required } : {}),
+  };
+
+  if (schema.items) {
+    const items = toGeminiSchema(schema.items);
+    if (!items) return undefined;
+    result.items = items;
+  }
+  if (schema.properties) {
+    const properties: Record<string, Schema> = {};
+    for (const [key, child] of Object.entries(schema.properties)) {
+      const converted = toGeminiSchema(child);
+      if (!converted) return undefined;
+      properties[key] = converted;
+    }
+    result.properties = properties;
+  }
   return result;
 }
 
+// Response format for a Gemini call: JSON mode (with the schema where it can be expressed) when
+// the caller expects JSON, plain text otherwise
+function geminiResponseFormat(options?: StreamingOptions): { responseMimeType: string; responseSchema?: Schema } {
+  if (!options?.responseSchema) return { responseMimeType: "text/plain" };
+  const responseSchema = toGeminiSchema(options.responseSchema.schema);
+  return { responseMimeType: "application/json", ...(responseSchema ? { responseSchema } : {}) };
+}
+
 export async function generateWithGeminiPro(prompt: string, options?: StreamingOptions): Promise<string> {
   const apiKey = process.env.GEMINI_API_KEY;
   if (!apiKey) {
@@ -59,7 +130,7 @@ export async function generateWithGeminiPro(prompt: string, options?: StreamingO
   
   const ai = new GoogleGenAI({ apiKey });
   
-  const config = { responseMimeType: "text/plain" };
+  const config = { ...geminiResponseFormat(options), abortSignal: options?.signal };
   const contents = [{
     role: "user" as const,
     parts: [{ text: prompt }]
@@ -71,7 +142,7 @@ export async function generateWithGeminiPro(prompt: string, options?: StreamingO
     contents,
   });
   
-  return processStream(response, chunk => chunk.text || '', options);
+  return processStream(response, chunk => chunk.text || '', options, chunk => toUsageMetadata(chunk.usageMetadata));
 }
 
 export async function generateWithGeminiFlash(prompt: string, options?: StreamingOptions): Promise<string> {
@@ -83,7 +154,8 @@ export async function generateWithGeminiFlash(prompt: string, options?: Streamin
   const ai = new GoogleGenAI({ apiKey });
   
   const config = { 
-    responseMimeType: "text/plain",
+    ...geminiResponseFormat(options),
+    abortSignal: options?.signal,
     thinkingConfig: {
       thinkingBudget: 14000,
     }
@@ -99,7 +171,7 @@ export async function generateWithGeminiFlash(prompt: string, options?: Streamin
     contents,
   });
   
-  return processStream(response, chunk => chunk.text || '', options);
+  return processStream(response, chunk => chunk.text || '', options, chunk => toUsageMetadata(chunk.usageMetadata));
 }
 
 export async function generateWithGeminiFlashLite(prompt: string, options?: StreamingOptions): Promise<string> {
@@ -111,7 +183,8 @@ export async function generateWithGeminiFlashLite(prompt: string, options?: Stre
   const ai = new GoogleGenAI({ apiKey });
   
   const config = { 
-    responseMimeType: "text/plain",
+    ...geminiResponseFormat(options),
+    abortSignal: options?.signal,
     // thinkingConfig: {
     //   thinkingBudget: 14000,
     // }
@@ -127,7 +200,7 @@ export async function generateWithGeminiFlashLite(prompt: string, options?: Stre
     contents,
   });
   
-  return processStream(response, chunk => chunk.text || '', options);
+  return processStream(response, chunk => chunk.text || '', options, chunk => toUsageMetadata(chunk.usageMetadata));
 }
 
 export async function generateWithGemini3Flash(prompt: string, options?: StreamingOptions): Promise<string> {
@@ -138,39 +211,22 @@ export async function generateWithGemini3Flash(prompt: string, options?: Streami
   
   const ai = new GoogleGenAI({ apiKey });
   
-  const config = { 
-    responseMimeType: "text/plain",
-  };
+  const config = { ...geminiResponseFormat(options), abortSignal: options?.signal };
   const contents = [{
     role: "user" as const,
     parts: [{ text: prompt }]
   }];
   
-  const MAX_RETRIES = 5;
-  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-    try {
-      const response = await ai.models.generateContentStream({
-        model: "gemini-3-flash-preview",
-        config,
-        contents,
-      });
-      return await processStream(response, chunk => chunk.text || '', options);
-    } catch (err: any) {
-      const msg = err?.message || String(err);
-      if ((msg.includes('429') || msg.includes('503')) && attempt < MAX_RETRIES - 1) {
-        const backoff = Math.min(5000 * Math.pow(2, attempt), 60000);
-        console.log(`   \ud83d\udd04 Gemini ${msg.includes('429') ? '429' : '503'}, retrying in ${(backoff/1000).toFixed(0)}s (attempt ${attempt+1}/${MAX_RETRIES})...`);
-        await new Promise(r => setTimeout(r, backoff));
-        continue;
-      }
-      throw err;
-    }
-  }
-  throw new Error('Max retries exceeded for gemini-3-flash');
+  const response = await ai.models.generateContentStream({
+    model: "gemini-3-flash-preview",
+    config,
+    contents,
+  });
+  
+  return processStream(response, chunk => chunk.text || '', options, chunk => toUsageMetadata(chunk.usageMetadata));
 }
 
-// Non-streaming variant that returns usage metadata for cache monitoring
-export async function generateWithGemini3FlashWithMetadata(prompt: string, options?: StreamingOptions): Promise<GenerationResult> {
+async function gemini3FlashWithMetadata(prompt: string, options?: StreamingOptions): Promise<GenerationResult> {
   const apiKey = process.env.GEMINI_API_KEY;
   if (!apiKey) {
     throw new Error("GEMINI_API_KEY environment variable is required");
@@ -178,51 +234,38 @@ export async function generateWithGemini3FlashWithMetadata(prompt: string, optio
 
   const ai = new GoogleGenAI({ apiKey });
 
-  const config = {
-    responseMimeType: "text/plain" as const,
-  };
+  const config = { ...geminiResponseFormat(options), abortSignal: options?.signal };
   const contents = [{
     role: "user" as const,
     parts: [{ text: prompt }]
   }];
 
-  const MAX_RETRIES = 5;
-  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-    try {
-      const response = await ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        config,
-        contents,
-      });
-
-      const text = response.text || '';
-
-      // Save to debug file if requested
-      if (options?.debugFilename) {
-        debugStreamStart(options.debugFilename);
-        debugStreamWrite(options.debugFilename, text);
-        debugStreamEnd(options.debugFilename);
-      }
+  const response = await ai.models.generateContent({
+    model: "gemini-3-flash-preview",
+    config,
+    contents,
+  });
 
-      const usageMetadata = response.usageMetadata ? {
-        promptTokenCount: response.usageMetadata.promptTokenCount || 0,
-        cachedContentTokenCount: (response.usageMetadata as any).cachedContentTokenCount || 0,
-        candidatesTokenCount: response.usageMetadata.candidatesTokenCount || 0,
-      } : undefined;
-
-      return { text, usageMetadata };
-    } catch (err: any) {
-      const msg = err?.message || String(err);
-      if ((msg.includes('429') || msg.includes('503')) && attempt < MAX_RETRIES - 1) {
-        const backoff = Math.min(5000 * Math.pow(2, attempt), 60000);
-        console.log(`   🔄 Gemini ${msg.includes('429') ? '429' : '503'}, retrying in ${(backoff/1000).toFixed(0)}s (attempt ${attempt+1}/${MAX_RETRIES})...`);
-        await new Promise(r => setTimeout(r, backoff));
-        continue;
-      }
-      throw err;
-    }
+  const text = response.text || '';
+
+  // Save to debug file if requested
+  if (options?.debugFilename) {
+    debugStreamStart(options.debugFilename);
+    debugStreamWrite(options.debugFilename, text);
+    debugStreamEnd(options.debugFilename);
   }
-  throw new Error('Max retries exceeded for gemini-3-flash-with-metadata');
+
+  const usageMetadata = toUsageMetadata(response.usageMetadata);
+  if (usageMetadata) {
+    options?.onUsage?.(usageMetadata);
+  }
+
+  return { text, usageMetadata };
+}
+
+// Non-streaming variant that returns usage metadata for cache monitoring
+export function generateWithGemini3FlashWithMetadata(prompt: string, options?: StreamingOptions): Promise<GenerationResult> {
+  return rateLimited("gemini-3-flash", prompt, options, limitedOptions => gemini3FlashWithMetadata(prompt, limitedOptions));
 }
 
 export async function generateWithClaude(prompt: string, options?: StreamingOptions): Promise<string> {
@@ -233,6 +276,7 @@ export async function generateWithClaude(prompt: string, options?: StreamingOpti
   
   const response = await fetch("https://api.anthropic.com/v1/messages", {
     method: "POST",
+    signal: options?.signal,
     headers: {
       "Content-Type": "application/json",
       "x-api-key": apiKey,
@@ -251,12 +295,27 @@ export async function generateWithClaude(prompt: string, options?: StreamingOpti
   
   if (!response.ok) {
     const error = await response.text();
+    if (response.status === 429 || response.status === 529) {
+      throw new RateLimitedError(`Claude API error: ${response.status} - ${error}`, response.status, parseRetryAfter(response.headers.get("retry-after")));
+    }
     throw new Error(`Claude API error: ${response.status} - ${error}`);
   }
   
-  const data = await response.json() as { content: Array<{ text: string }> };
+  const data = await response.json() as {
+    content: Array<{ text: string }>;
+    usage?: { input_tokens: number; output_tokens: number; cache_read_input_tokens?: number };
+  };
   const result = data.content[0].text;
   
+  if (data.usage) {
+    const cachedTokens = data.usage.cache_read_input_tokens || 0;
+    options?.onUsage?.({
+      promptTokenCount: data.usage.input_tokens + cachedTokens,
+      cachedContentTokenCount: cachedTokens,
+      candidatesTokenCount: data.usage.output_tokens,
+    });
+  }
+  
   // Save to debug file if requested (Claude doesn't stream)
   if (options?.debugFilename) {
     debugStreamStart(options.debugFilename);
@@ -267,6 +326,104 @@ export async function generateWithClaude(prompt: string, options?: StreamingOpti
   return result;
 }
 
+// Parse a Server-Sent Events body into the JSON payloads of its `data:` lines
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<any> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for await (const bytes of body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(bytes, { stream: true });
+
+    let newlineIndex: number;
+    while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
+      const line = buffer.slice(0, newlineIndex).trim();
+      buffer = buffer.slice(newlineIndex + 1);
+
+      if (!line.startsWith("data:")) continue;
+      const payload = line.slice(5).trim();
+      if (payload === "[DONE]") return;
+      if (payload) yield JSON.parse(payload);
+    }
+  }
+}
+
+// Generic provider for any OpenAI-compatible chat-completions endpoint
+// (OpenAI, vLLM, llama.cpp server, Ollama, LM Studio, ...)
+export function createOpenAICompatibleGenerator(name: string, modelConfig: ModelConfig): GenerationFunction {
+  if (!modelConfig.baseUrl) {
+    throw new Error(`Model "${name}" uses the openai-compatible provider but has no baseUrl configured`);
+  }
+  const endpoint = `${modelConfig.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+  const remoteModel = modelConfig.model || name;
+
+  return async (prompt: string, options?: StreamingOptions): Promise<string> => {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+
+    // Local servers usually run without auth, so a key is only required if one is configured
+    if (modelConfig.apiKeyEnv) {
+      const apiKey = process.env[modelConfig.apiKeyEnv];
+      if (!apiKey) {
+        throw new Error(`${modelConfig.apiKeyEnv} environment variable is required for model "${name}"`);
+      }
+      headers["Authorization"] = `Bearer ${apiKey}`;
+    }
+
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers,
+      signal: options?.signal,
+      body: JSON.stringify({
+        model: remoteModel,
+        messages: [{ role: "user", content: prompt }],
+        temperature: modelConfig.temperature ?? 0,
+        ...(modelConfig.maxTokens ? { max_tokens: modelConfig.maxTokens } : {}),
+        ...(options?.responseSchema && modelConfig.structuredOutputs !== false ? {
+          response_format: {
+            type: "json_schema",
+            json_schema: { name: options.responseSchema.name, schema: options.responseSchema.schema },
+          },
+        } : {}),
+        stream: true,
+        stream_options: { include_usage: true },
+      }),
+    });
+
+    if (!response.ok || !response.body) {
+      const error = await response.text();
+      if (response.status === 429 || response.status === 503) {
+        throw new RateLimitedError(`OpenAI-compatible API error (${name}): ${response.status} - ${error}`, response.status, parseRetryAfter(response.headers.get("retry-after")));
+      }
+      throw new Error(`OpenAI-compatible API error (${name}): ${response.status} - ${error}`);
+    }
+
+    return processStream(
+      readServerSentEvents(response.body),
+      chunk => chunk.choices?.[0]?.delta?.content || '',
+      options,
+      chunk => chunk.usage ? {
+        promptTokenCount: chunk.usage.prompt_tokens || 0,
+        cachedContentTokenCount: chunk.usage.prompt_tokens_details?.cached_tokens || 0,
+        candidatesTokenCount: chunk.usage.completion_tokens || 0,
+      } : undefined
+    );
+  };
+}
+
+// Output tokens held against a model's tokens-per-minute budget until the call reports its usage
+const RESERVED_OUTPUT_TOKENS = 2000;
+
+// Every provider call waits its turn in the model's shared rate limiter, which also retries it
+// after a 429 or 503 and counts the tokens it actually used
+function rateLimited<T>(model: string, prompt: string, options: StreamingOptions | undefined, call: (options: StreamingOptions) => Promise<T>): Promise<T> {
+  return getRateLimiter(model).run(estimateTokens(prompt) + RESERVED_OUTPUT_TOKENS, settle => call({
+    ...options,
+    onUsage: (usage) => {
+      settle(usage.promptTokenCount + usage.candidatesTokenCount);
+      options?.onUsage?.(usage);
+    }
+  }), undefined, options?.signal);
+}
+
 // Multimodal generation (accepts Part[] with inline binary data)
 export type MultimodalGenerationFunction = (parts: Part[], options?: StreamingOptions) => Promise<string>;
 
@@ -280,38 +437,26 @@ export async function generateMultimodalGemini3Flash(parts: Part[], options?: St
 
   const config = {
     responseMimeType: "text/plain" as const,
+    abortSignal: options?.signal,
   };
   const contents = [{
     role: "user" as const,
     parts,
   }];
 
-  const MAX_RETRIES = 5;
-  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-    try {
-      const response = await ai.models.generateContentStream({
-        model: "gemini-3-flash-preview",
-        config,
-        contents,
-      });
-      return await processStream(response, chunk => chunk.text || '', options);
-    } catch (err: any) {
-      const msg = err?.message || String(err);
-      if ((msg.includes('429') || msg.includes('503')) && attempt < MAX_RETRIES - 1) {
-        const backoff = Math.min(5000 * Math.pow(2, attempt), 60000);
-        console.log(`   \uD83D\uDD04 Gemini ${msg.includes('429') ? '429' : '503'}, retrying in ${(backoff/1000).toFixed(0)}s (attempt ${attempt+1}/${MAX_RETRIES})...`);
-        await new Promise(r => setTimeout(r, backoff));
-        continue;
-      }
-      throw err;
-    }
-  }
-  throw new Error('Max retries exceeded for gemini-3-flash multimodal');
+  const response = await ai.models.generateContentStream({
+    model: "gemini-3-flash-preview",
+    config,
+    contents,
+  });
+
+  return processStream(response, chunk => chunk.text || '', options, chunk => toUsageMetadata(chunk.usageMetadata));
 }
 
 // Map of model names to multimodal generation functions
 export const MULTIMODAL_FUNCTIONS: Record<string, MultimodalGenerationFunction> = {
   "gemini-3-flash": generateMultimodalGemini3Flash,
+  "mock": generateMultimodalWithMock,
 };
 
 export function getMultimodalGenerationFunction(model: string): MultimodalGenerationFunction {
@@ -319,7 +464,7 @@ export function getMultimodalGenerationFunction(model: string): MultimodalGenera
   if (!fn) {
     throw new Error(`No multimodal support for model: ${model}. Available: ${Object.keys(MULTIMODAL_FUNCTIONS).join(", ")}`);
   }
-  return fn;
+  return (parts, options) => rateLimited(model, parts.map(p => p.text || "").join("\n"), options, limitedOptions => fn(parts, limitedOptions));
 }
 
 // Map of model names to generation functions
@@ -328,18 +473,48 @@ export const MODEL_FUNCTIONS = {
   "gemini-flash": generateWithGeminiFlash,
   "gemini-flash-lite": generateWithGeminiFlashLite,
   "claude": generateWithClaude,
-  "gemini-3-flash": generateWithGemini3Flash
+  "gemini-3-flash": generateWithGemini3Flash,
+  "mock": generateWithMock
 } as const;
 
 export type ModelName = keyof typeof MODEL_FUNCTIONS;
 
 export type GenerationFunction = (prompt: string, options?: StreamingOptions) => Promise<string>;
 
-// Get the appropriate generation function based on model selection
+const configuredGenerators = new Map<string, GenerationFunction>();
+
+// Get the appropriate generation function based on model selection.
+// Built-in models come first; anything else is looked up in the "models"
+// section of batch-config.json (e.g. an openai-compatible local server).
 export function getGenerationFunction(model: string = "gemini-3-flash"): GenerationFunction {
   const fn = MODEL_FUNCTIONS[model as ModelName];
-  if (!fn) {
-    throw new Error(`Unknown model: ${model}. Available: ${Object.keys(MODEL_FUNCTIONS).join(", ")}`);
+  if (fn) {
+    return (prompt, options) => rateLimited(model, prompt, options, limitedOptions => fn(prompt, limitedOptions));
   }
-  return fn;
+
+  const cached = configuredGenerators.get(model);
+  if (cached) {
+    return cached;
+  }
+
+  const modelConfig = loadBatchConfig().models?.[model];
+  if (modelConfig?.kind === "embedding") {
+    throw new Error(`${model} is an embedding model and can't generate text. Available: ${getAvailableModels().join(", ")}`);
+  }
+  if (modelConfig?.provider === "openai-compatible") {
+    const generate = createOpenAICompatibleGenerator(model, modelConfig);
+    const generator: GenerationFunction = (prompt, options) => rateLimited(model, prompt, options, limitedOptions => generate(prompt, limitedOptions));
+    configuredGenerators.set(model, generator);
+    return generator;
+  }
+
+  throw new Error(`Unknown model: ${model}. Available: ${getAvailableModels().join(", ")}`);
+}
+
+// Built-in models plus any provider-backed chat models declared in batch-config.json
+export function getAvailableModels(): string[] {
+  const configured = Object.entries(loadBatchConfig().models || {})
+    .filter(([, config]) => config.provider && config.kind !== "embedding")
+    .map(([name]) => name);
+  return [...Object.keys(MODEL_FUNCTIONS), ...configured];
 }
\ No newline at end of file
@@ -0,0 +1,139 @@
+import { describe, expect, test } from "bun:test";
+import { checkOutput, type OutputSchema } from "./output-schema";
+import { detectMockTaskType, synthesizeMockResponse, type MockTaskType } from "./mock-provider";
+import { parseCondensedSections } from "./parse-condensed-sections";
+import { formatQuestionList } from "./agency-questions";
+import { groupThemesByTopLevel } from "./staleness";
+import {
+  CONDENSED_SECTIONS_SCHEMA,
+  ENTITY_TAXONOMY_SCHEMA,
+  QUESTION_ANSWER_SCHEMA,
+  RESPONSE_DRAFT_SCHEMA,
+  THEME_ALIGNMENT_SCHEMA,
+  THEME_EXTRACT_SCHEMA,
+  THEME_SUMMARY_STRUCTURE_SCHEMA,
+} from "../prompts/schemas";
+import { buildBatchedThemeExtractPrompt } from "../prompts/theme-extract";
+import { buildQuestionAnswerPrompt } from "../prompts/question-answer";
+import { buildResponseDraftPrompt } from "../prompts/response-draft";
+import { buildCondensePrompt } from "../commands/condense";
+import { buildCommentText } from "../commands/extract-theme-content";
+import { buildThemeAnalysisPrompt, buildThemeStructurePrompt } from "../commands/summarize-themes-v2";
+import { formatPoints, summaryPoints } from "../commands/draft-responses";
+import { buildAlignmentPrompt } from "../commands/compare";
+import { buildEntityDiscoveryPrompt } from "../commands/discover-entities-v2";
+
+const COMMENT = {
+  id: "CMS-2025-0050-0031-0001",
+  attributes_json: JSON.stringify({ firstName: "Dana", lastName: "Reyes", organization: "Valley Rural Health Clinic", category: "Health Care Provider/Association" }),
+  markdown: `I am the practice manager of a rural health clinic serving 4,000 Medicare patients.
+
+The proposed prior authorization requirements for outpatient therapy would delay care for our patients by two to three weeks. Our staff already spends 12 hours a week on payer paperwork.
+
+We recommend that CMS exempt practices with low denial rates from prior authorization, and that Medicare Advantage plans be required to publish their approval times.`,
+};
+
+const THEME = { code: "1.1", description: "Prior authorization burden", detailed_guidelines: "Delays and paperwork from prior authorization" };
+
+// Run a prompt through the mock and validate the response as the calling command would
+function generate<T>(prompt: string, taskType: MockTaskType, schema: OutputSchema<T>): T {
+  expect(detectMockTaskType(prompt)).toBe(taskType);
+  const check = checkOutput(schema, synthesizeMockResponse(prompt));
+  if (!check.ok) throw new Error(`${taskType} response failed ${schema.name}:\n${check.problems.join("\n")}`);
+  return check.value;
+}
+
+// Each step feeds the next the same way the pipeline does, starting from the condensed comment
+let structuredSections: string;
+let commentText: string;
+let summary: any;
+
+describe("mock responses match the prompt schemas", () => {
+  test("condense", () => {
+    const response = generate(buildCondensePrompt(COMMENT), "condense", CONDENSED_SECTIONS_SCHEMA);
+    structuredSections = JSON.stringify(parseCondensedSections(response).sections);
+    commentText = buildCommentText({ structured_sections: structuredSections, markdown: COMMENT.markdown });
+    expect(commentText).toContain("## Commenter Profile");
+  });
+
+  test("theme extraction", () => {
+    const [group] = groupThemesByTopLevel([
+      { code: "1", description: "Access to care" },
+      THEME,
+      { code: "1.2", description: "Rural provider shortages" },
+    ]);
+    const extracts = generate(buildBatchedThemeExtractPrompt(commentText, group.hierarchyText), "theme_extract_batch", THEME_EXTRACT_SCHEMA);
+    expect(Object.keys(extracts)).toEqual(["1", "1.1", "1.2"]);
+  });
+
+  test("agency questions", () => {
+    const questions = formatQuestionList([
+      { code: "Q1", question: "How much staff time does prior authorization take each week?" },
+      { code: "Q2", question: "Should low-denial practices be exempt from prior authorization?" },
+    ]);
+    generate(buildQuestionAnswerPrompt(commentText, questions), "question_answer", QUESTION_ANSWER_SCHEMA);
+  });
+
+  test("theme summary structure", () => {
+    const extract = {
+      comment_id: COMMENT.id,
+      extract_json: JSON.stringify({
+        relevance: 1,
+        extract: {
+          positions: ["Opposes prior authorization for outpatient therapy"],
+          concerns: ["Prior authorization delays care by two to three weeks"],
+          recommendations: ["Exempt practices with low denial rates"],
+        },
+      }),
+      cluster_size: 1,
+      structured_sections: structuredSections,
+    };
+    const analysisPrompt = buildThemeAnalysisPrompt(THEME, [extract]);
+    expect(detectMockTaskType(analysisPrompt)).toBe("theme_summary_v2");
+
+    const analysis = synthesizeMockResponse(analysisPrompt);
+    summary = generate(buildThemeStructurePrompt(THEME, analysis), "theme_summary_structure", THEME_SUMMARY_STRUCTURE_SCHEMA);
+  });
+
+  test("response draft", () => {
+    const points = summaryPoints(summary);
+    expect(points.length).toBeGreaterThan(0);
+    const draft = generate(
+      buildResponseDraftPrompt(`${THEME.code}: ${THEME.description}`, formatPoints(points)),
+      "response_draft",
+      RESPONSE_DRAFT_SCHEMA
+    );
+    expect(draft.issues.length).toBeGreaterThan(0);
+  });
+
+  test("theme alignment", () => {
+    const alignment = generate(buildAlignmentPrompt([
+      {
+        id: "CMS-2025-0050-0031",
+        title: "Medicare Physician Fee Schedule",
+        themes: [
+          { code: "1", description: "Prior authorization", level: 1, commentCount: 12 },
+          { code: "2", description: "Telehealth coverage", level: 1, commentCount: 8 },
+        ],
+      },
+      {
+        id: "CMS-2024-0052-0001",
+        title: "Medicare Advantage Policy Changes",
+        themes: [
+          { code: "1", description: "Prior authorization requirements for plans", level: 1, commentCount: 30 },
+          { code: "2", description: "Star ratings", level: 1, commentCount: 5 },
+        ],
+      },
+    ]), "theme_alignment", THEME_ALIGNMENT_SCHEMA);
+    expect(alignment.length).toBeGreaterThan(0);
+  });
+
+  test("entity discovery", () => {
+    const taxonomy = generate(
+      buildEntityDiscoveryPrompt([{ id: COMMENT.id, content: COMMENT.markdown }], COMMENT.markdown.split(/\s+/).length),
+      "discover-entities-v2-full",
+      ENTITY_TAXONOMY_SCHEMA
+    );
+    expect(Object.keys(taxonomy).length).toBeGreaterThan(0);
+  });
+});
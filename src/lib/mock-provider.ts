@@ -0,0 +1,499 @@
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { createHash } from "crypto";
+import type { Part } from "@google/genai";
+import { debugStreamStart, debugStreamWrite, debugStreamEnd } from "./debug";
+import { cancellableSleep, throwIfCancelled } from "./cancellation";
+import type { StreamingOptions } from "./llm-providers";
+
+// Deterministic offline provider for end-to-end pipeline tests (--model mock).
+// A response is resolved in this order:
+//   1. $MOCK_LLM_FIXTURES/<sha256 of prompt>.txt   - exact replay of a recorded response
+//   2. $MOCK_LLM_FIXTURES/<task type>.txt          - canned response for every call of that task
+//   3. a synthesized response in the shape the task's parser expects
+// Without MOCK_LLM_FIXTURES every response is synthesized.
+// MOCK_LLM_LATENCY_MS delays each response, e.g. to try out interrupting a run.
+
+export type MockTaskType =
+  | 'transcribe'
+  | 'condense'
+  | 'theme_discovery'
+  | 'theme_discovery_merge'
+  | 'theme_extract_batch'
+  | 'question_answer'
+  | 'theme_summary_v2'
+  | 'theme_summary_v2_merge'
+  | 'theme_summary_structure'
+  | 'discover-entities-v2-full'
+  | 'theme_alignment'
+  | 'response_draft'
+  | 'unknown';
+
+const STOPWORDS = new Set([
+  'about', 'above', 'after', 'again', 'against', 'also', 'because', 'been', 'before', 'being',
+  'below', 'between', 'both', 'could', 'does', 'doing', 'during', 'each', 'from', 'further',
+  'have', 'having', 'here', 'into', 'itself', 'just', 'more', 'most', 'must', 'only', 'other',
+  'ought', 'over', 'same', 'should', 'some', 'such', 'than', 'that', 'their', 'theirs', 'them',
+  'themselves', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'under', 'until',
+  'very', 'were', 'what', 'when', 'where', 'which', 'while', 'whom', 'will', 'with', 'would',
+  'your', 'yours', 'comment', 'comments', 'commenter', 'proposed', 'provided', 'specific',
+  'position', 'concerns', 'recommendations', 'profile', 'anonymous', 'individual', 'please',
+    'regarding', 'rule', 'however', 'many', 'make', 'made', 'need', 'needs', 'like', 'well',
+  'submitter', 'organization', 'category', 'affected', 'specified', 'geographic', 'scope',
+  'expertise', 'stake', 'issue', 'summary',
+]);
+
+// Identify the pipeline task from markers in its prompt template
+export function detectMockTaskType(prompt: string): MockTaskType {
+  if (prompt.startsWith('# Comment Transcription Instructions')) return 'transcribe';
+  if (prompt.startsWith('# Comment Distillation Instructions')) return 'condense';
+  if (prompt.startsWith('Convert the theme analysis text into a structured JSON format')) return 'theme_summary_structure';
+  if (prompt.startsWith('You are merging multiple analyses of the same theme')) return 'theme_summary_v2_merge';
+  if (prompt.includes('--- INPUT TAXONOMY 1 ---')) return 'theme_discovery_merge';
+  if (prompt.includes('--- START OF STRUCTURED COMMENTS ---')) return 'theme_discovery';
+  if (prompt.includes('## Theme Group to Extract')) return 'theme_extract_batch';
+  if (prompt.includes('## Agency Questions to Answer')) return 'question_answer';
+  if (prompt.includes('## Theme-Specific Extracts')) return 'theme_summary_v2';
+  if (prompt.includes('create a comprehensive taxonomy of entities')) return 'discover-entities-v2-full';
+  if (prompt.includes('## Theme Taxonomies to Align')) return 'theme_alignment';
+  if (prompt.includes('## Summary Points to Restate')) return 'response_draft';
+  return 'unknown';
+}
+
+function readFixture(prompt: string, taskType: MockTaskType): string | null {
+  const dir = process.env.MOCK_LLM_FIXTURES;
+  if (!dir) return null;
+  const promptHash = createHash('sha256').update(prompt).digest('hex');
+
+  for (const name of [`${promptHash}.txt`, `${taskType}.txt`]) {
+    const path = join(dir, name);
+    if (existsSync(path)) {
+      return readFileSync(path, "utf-8");
+    }
+  }
+  return null;
+}
+
+// Text between a start marker and an (optional) end marker
+function sliceBetween(text: string, start: string, end?: string): string {
+  const startIndex = text.indexOf(start);
+  if (startIndex === -1) return '';
+  const from = startIndex + start.length;
+  const endIndex = end ? text.indexOf(end, from) : -1;
+  return text.substring(from, endIndex === -1 ? text.length : endIndex).trim();
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .replace(/\s+/g, ' ')
+    .split(/(?<=[.!?])\s+(?=[A-Z"“])/)
+    .map(s => s.trim())
+    .filter(s => s.split(' ').length >= 4);
+}
+
+function keywords(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z][a-z-]{4,}/g) || []).filter(w => !STOPWORDS.has(w));
+}
+
+// Most frequent keywords, ties broken alphabetically so output is stable
+function topKeywords(text: string, count: number): string[] {
+  const counts = new Map<string, number>();
+  for (const word of keywords(text)) {
+    counts.set(word, (counts.get(word) || 0) + 1);
+  }
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, count)
+    .map(([word]) => word);
+}
+
+function titleCase(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+// Comment IDs cited in some input text, such as the analyses being merged. Callers pass only the
+// input part of the prompt: the instructions contain example IDs that are not real comments.
+function findCommentIds(text: string): string[] {
+  const ids = new Set<string>();
+  for (const match of text.matchAll(/<comment id="([^"]+)">/g)) {
+    ids.add(match[1]);
+  }
+  for (const match of text.matchAll(/\b[A-Z]{2,}(?:-[A-Z0-9]+)*-\d{4}-\d{4}-\d{4,}\b/g)) {
+    ids.add(match[0]);
+  }
+  return Array.from(ids).sort();
+}
+
+// The comment blocks of a summary prompt, by ID
+function commentBlocks(prompt: string): { id: string; body: string }[] {
+  return Array.from(prompt.matchAll(/<comment id="([^"]+)">([\s\S]*?)<\/comment>/g), m => ({ id: m[1], body: m[2] }));
+}
+
+// A quotation to carry into a summary: the first extract key quote of a comment block, or the
+// first KEY QUOTATIONS line of an analysis being merged or structured
+function findQuotation(text: string): { quote: string; commentId: string } | undefined {
+  for (const block of commentBlocks(text)) {
+    const quote = block.body.match(/\*\*Key Quotes:\*\*\n- "?(.+?)"?\n/);
+    if (quote) return { quote: quote[1], commentId: block.id };
+  }
+  const line = sliceBetween(text, '### KEY QUOTATIONS', '###').match(/^- "(.+)" - .*, (\S+)$/m);
+  return line ? { quote: line[1], commentId: line[2] } : undefined;
+}
+
+function synthesizeTranscription(prompt: string): string {
+  const body = sliceBetween(prompt, '=== COMMENT TEXT ===');
+  return body || 'No transcribable content.';
+}
+
+function synthesizeCondensed(prompt: string): string {
+  const metadata = sliceBetween(prompt, 'Here is metadata from the submission system for this comment:', 'And here is the comment to distill:');
+  const text = sliceBetween(prompt, 'And here is the comment to distill:');
+  const sentences = splitSentences(text);
+
+  const organization = metadata.match(/^Organization: (.+)$/m)?.[1];
+  const submitter = metadata.match(/^Submitter Name: (.+)$/m)?.[1];
+  const category = metadata.match(/^Category: (.+)$/m)?.[1];
+
+  const recommendations = sentences.filter(s => /\b(should|recommend|urge|request|encourage)\b/i.test(s)).slice(0, 3);
+  const concerns = sentences.filter(s => /\b(concern|worr|risk|burden|harm|cost|oppose)/i.test(s)).slice(0, 3);
+  const quote = sentences[0];
+
+  return `### ONE-LINE SUMMARY
+${sentences[0] || 'A brief comment on the proposed rule.'}
+
+### COMMENTER PROFILE
+- **Name/Organization:** ${organization || submitter || 'Anonymous'}
+- **Type:** ${organization ? 'Other' : 'Individual'}
+- **Role/Expertise:** ${category || 'Not specified'}
+- **Geographic Scope:** Not specified
+- **Stake in Issue:** Affected by the proposed rule
+
+### CORE POSITION
+${sentences.slice(0, 2).join(' ') || text.substring(0, 300) || 'No position stated.'}
+
+### KEY RECOMMENDATIONS
+${recommendations.length > 0 ? recommendations.map(s => `- ${s}`).join('\n') : 'No specific recommendations provided'}
+
+### MAIN CONCERNS
+${concerns.length > 0 ? concerns.map(s => `- ${s}`).join('\n') : 'No specific concerns raised'}
+
+### NOTABLE EXPERIENCES & INSIGHTS
+No distinctive experiences shared
+
+### KEY QUOTATIONS
+${quote ? `- "${quote}"` : 'No standout quotations'}`;
+}
+
+// A small two-level taxonomy built around the most frequent keywords
+function synthesizeTaxonomy(sourceText: string): string {
+  const words = topKeywords(sourceText, 9);
+  if (words.length === 0) {
+    words.push('general');
+  }
+
+  const lines: string[] = [];
+  const topLevel = words.slice(0, 3);
+  const subLevel = words.slice(3);
+
+  topLevel.forEach((word, i) => {
+    const code = `${i + 1}`;
+    lines.push(`${code}. ${titleCase(word)} Topic Area. Comments that discuss ${word} in the context of the proposed rule. || It includes positions, concerns and recommendations that mention ${word}. It does NOT include topics covered by the other top-level themes.`);
+    subLevel.filter((_, j) => j % topLevel.length === i).forEach((subWord, j) => {
+      lines.push(`${code}.${j + 1}. ${titleCase(word)} and ${titleCase(subWord)} Overlap. Comments connecting ${word} with ${subWord}. || It includes any discussion where ${subWord} is raised alongside ${word}. It does NOT include general remarks about ${word} alone.`);
+    });
+  });
+
+  return lines.join('\n\n');
+}
+
+// Codebook mode: the codebook's themes verbatim, keyword sub-themes under each top-level
+// theme, and the last keyword filed under the Other bucket
+function synthesizeCodebookTaxonomy(sourceText: string, codebook: string, otherCode: string): string {
+  const lines = codebook.split(/\n\s*\n/).map(line => line.trim()).filter(Boolean);
+  const topCodes = lines.map(line => line.match(/^(\d+)\.\s/)?.[1]).filter((code): code is string => !!code);
+  const subCounts = new Map(topCodes.map(code => [code, lines.filter(line => line.startsWith(`${code}.`) && /^\d+\.\d+\.\s/.test(line)).length]));
+  const words = topKeywords(sourceText, topCodes.length + 1);
+  if (words.length === 0) return lines.join('\n\n');
+
+  const other = words.length > topCodes.length ? words.pop()! : undefined;
+  words.forEach((word, i) => {
+    const code = topCodes[i % topCodes.length];
+    const n = subCounts.get(code)! + 1;
+    subCounts.set(code, n);
+    lines.push(`${code}.${n}. ${titleCase(word)} Topic. Comments raising ${word} under this topic. || It includes positions, concerns and recommendations that mention ${word}. It does NOT include other issues under the same topic.`);
+  });
+  if (other) {
+    lines.push(`${otherCode}. Other Topics. Issues outside the codebook. || It includes topics that fit none of the codebook themes.`);
+    lines.push(`${otherCode}.1. ${titleCase(other)} Topic. Comments raising ${other}. || It includes any discussion of ${other} that fits no codebook theme.`);
+  }
+  return lines.join('\n\n');
+}
+
+// Agency questions are answered in the same shape, listed under their own header
+function synthesizeExtracts(prompt: string, listMarker = '## Theme Group to Extract'): string {
+  const commentText = sliceBetween(prompt, '## Comment to Analyze', listMarker);
+  const groupText = sliceBetween(prompt, listMarker, '## Your Mission');
+  const commentWords = new Set(keywords(commentText));
+  const sentences = splitSentences(sliceBetween(commentText, '## Full Comment') || commentText);
+
+  const themes = groupText.split('\n')
+    .map(line => line.match(/^([\w.]+):\s*(.*)$/))
+    .filter((m): m is RegExpMatchArray => m !== null)
+    .map(m => {
+      const themeWords = new Set(keywords(m[2]));
+      const overlap = Array.from(themeWords).filter(w => commentWords.has(w)).length;
+      return { code: m[1], themeWords, overlap };
+    });
+
+  // Only the best-matching theme gets a substantive extract, mirroring the "most specific wins" rule
+  const best = themes.reduce<typeof themes[number] | null>(
+    (acc, t) => (t.overlap > 0 && (!acc || t.overlap > acc.overlap) ? t : acc),
+    null
+  );
+
+  const result: Record<string, any> = {};
+  for (const theme of themes) {
+    if (theme !== best) {
+      result[theme.code] = {
+        relevance: 3,
+        extract: { positions: [], concerns: [], recommendations: [], experiences: [], key_quotes: [] }
+      };
+      continue;
+    }
+
+    const relevant = sentences.filter(s => keywords(s).some(w => theme.themeWords.has(w)));
+    const picked = (relevant.length > 0 ? relevant : sentences).slice(0, 3);
+    result[theme.code] = {
+      relevance: 1,
+      extract: {
+        positions: picked.slice(0, 1),
+        concerns: picked.filter(s => /\b(concern|worr|risk|burden|harm|cost)/i.test(s)),
+        recommendations: picked.filter(s => /\b(should|recommend|urge|request)\b/i.test(s)),
+        experiences: [],
+        key_quotes: picked.slice(0, 1).map(s => `"${s}"`)
+      }
+    };
+  }
+
+  return '```json\n' + JSON.stringify(result, null, 2) + '\n```';
+}
+
+// Batch analyses cite the comment blocks they were given; merges cite what the analyses cited
+function synthesizeThemeAnalysis(prompt: string, merge: boolean): string {
+  const theme = sliceBetween(prompt, merge ? '## Theme Being Merged' : '## Theme Being Analyzed', '\n\n');
+  const input = merge ? sliceBetween(prompt, '## Analyses to Merge', '## Output Length Guidance') : '';
+  const ids = (merge ? findCommentIds(input) : commentBlocks(prompt).map(b => b.id).sort()).slice(0, 6);
+  const quotation = findQuotation(merge ? input : prompt);
+  const cited = ids.length > 0 ? ` (${ids.join(', ')})` : '';
+  const first = ids[0] || 'unknown';
+
+  return `### CONSENSUS POINTS
+- **Commenters engage with ${theme}** - Most commenters addressing this theme raise related points${cited}.
+
+### AREAS OF DEBATE
+**Scope of the Proposal**
+- **Broader Scope**: The rule should go further on this theme
+  - Support level: Some commenters
+  - Key arguments: Current provisions are insufficient
+  - Representative voices: ${ids.slice(0, 2).join(', ') || first}
+- **Narrower Scope**: The rule should be limited on this theme
+  - Support level: Some commenters
+  - Key arguments: Provisions create unnecessary burden
+  - Representative voices: ${ids.slice(2, 4).join(', ') || first}
+
+### STAKEHOLDER PERSPECTIVES
+**Individuals** (${ids.length} comments)
+- Primary concerns: Practical effects of the rule
+- Key examples: ${ids.join(', ') || first}
+
+### KEY RECOMMENDATIONS
+**Regulatory/Compliance Approaches**
+- Clarify the requirements for this theme: Supported by several commenters${cited}
+
+### MAJOR CONCERNS
+1. **Implementation effects**
+   - Raised by: Several commenters${cited}
+   - Specific risks: Unclear obligations
+
+### NOTEWORTHY INSIGHTS
+- **Representative perspective** - Commenter in ${first} offers a typical view on this theme
+
+### EMERGING PATTERNS
+- Unintended consequences: Commenters connect this theme to implementation costs${cited}
+
+### KEY QUOTATIONS
+${quotation ? `- "${quotation.quote}" - Commenter, ${quotation.commentId}` : '- None'}
+
+### EXECUTIVE SUMMARY
+Commenters discussing ${theme} focus on the scope and practical effects of the proposal.`;
+}
+
+function synthesizeStructuredSummary(prompt: string): string {
+  const analysis = sliceBetween(prompt, '## Input Theme Analysis:', '## Final notes');
+  const ids = findCommentIds(analysis);
+  const quotation = findQuotation(analysis);
+
+  return '```json\n' + JSON.stringify({
+    executiveSummary: sliceBetween(analysis, '### EXECUTIVE SUMMARY') || 'Commenters addressed this theme.',
+    consensusPoints: [{
+      text: 'Commenters engage with this theme and raise related points.',
+      supportLevel: 'Most commenters',
+      exceptions: { text: '', commentIds: [] }
+    }],
+    areasOfDebate: [{
+      topic: 'Scope of the Proposal',
+      description: 'Whether the rule should go further or be narrowed on this theme.',
+      positions: [
+        { label: 'Broader Scope', stance: 'The rule should go further.', supportLevel: 'Some commenters', keyArguments: ['Current provisions are insufficient'], commentIds: ids.slice(0, 2) },
+        { label: 'Narrower Scope', stance: 'The rule should be limited.', supportLevel: 'Some commenters', keyArguments: ['Provisions create unnecessary burden'], commentIds: ids.slice(2, 4) }
+      ]
+    }],
+    stakeholderPerspectives: [{
+      stakeholderType: 'Individuals',
+      primaryConcerns: 'Practical effects of the rule',
+      specificPoints: ['Implementation details are unclear'],
+      commentIds: ids
+    }],
+    keyRecommendations: [{
+      approach: 'Regulatory',
+      recommendation: 'Clarify the requirements for this theme.',
+      supportLevel: 'Several commenters',
+      commentIds: ids.slice(0, 6)
+    }],
+    majorConcerns: [{
+      concern: 'Implementation effects',
+      raisedBy: 'Several commenters',
+      evidence: 'Unclear obligations',
+      commentIds: ids.slice(0, 6)
+    }],
+    noteworthyInsights: ids.length > 0 ? [{ insight: 'A typical view on this theme.', commentId: ids[0] }] : [],
+    emergingPatterns: [{ pattern: 'Commenters connect this theme to implementation costs.', commentIds: ids.slice(0, 6) }],
+    keyQuotations: quotation ? [{ quote: quotation.quote, sourceType: 'Commenter', commentId: quotation.commentId }] : [],
+    analyticalNotes: null
+  }, null, 2) + '\n```';
+}
+
+function synthesizeEntityTaxonomy(prompt: string): string {
+  const comments = sliceBetween(prompt, '<comments>', '</comments>');
+  const counts = new Map<string, number>();
+  for (const match of comments.matchAll(/\b[A-Z]{2,6}\b/g)) {
+    counts.set(match[0], (counts.get(match[0]) || 0) + 1);
+  }
+  const acronyms = Array.from(counts.entries())
+    .filter(([, count]) => count >= 2)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, 20)
+    .map(([term]) => term);
+
+  return '```json\n' + JSON.stringify({
+    'Acronyms and Organizations': acronyms.map(term => ({
+      label: term,
+      definition: `Term "${term}" as used in the comments`,
+      terms: [term]
+    }))
+  }, null, 2) + '\n```';
+}
+
+// Themes from different dockets align when their most frequent keyword matches
+function synthesizeThemeAlignment(prompt: string): string {
+  const taxonomies = sliceBetween(prompt, '## Theme Taxonomies to Align');
+  const groups = new Map<string, { docket: string; code: string }[]>();
+  let docket = '';
+
+  for (const line of taxonomies.split('\n')) {
+    const heading = line.match(/^### (\S+)/);
+    if (heading) {
+      docket = heading[1];
+      continue;
+    }
+    const theme = line.match(/^\s*- ([\d.]+): (.+)$/);
+    const key = theme && topKeywords(theme[2], 1)[0];
+    if (!theme || !key || !docket) continue;
+    const members = groups.get(key) || [];
+    if (!members.some(m => m.docket === docket)) {
+      members.push({ docket, code: theme[1] });
+    }
+    groups.set(key, members);
+  }
+
+  const aligned = Array.from(groups.entries())
+    .filter(([, members]) => members.length >= 2)
+    .map(([key, members]) => ({ label: titleCase(key), themes: members }));
+  return '```json\n' + JSON.stringify(aligned, null, 2) + '\n```';
+}
+
+// One issue per top-level point, restating it in the preamble's voice
+function synthesizeResponseDraft(prompt: string): string {
+  const points = sliceBetween(prompt, '## Summary Points to Restate', '## Your Mission');
+  const issues = [];
+  for (const line of points.split('\n')) {
+    const point = line.match(/^\[([CDMR]\d+)\] (.+?)(?: \(\d+ comments\))?$/);
+    if (!point) continue;
+    const text = point[2].replace(/\s*\(.*$/, '');
+    issues.push({
+      heading: topKeywords(text, 3).map(titleCase).join(' ') || point[1],
+      comment: `Commenters stated that ${text.charAt(0).toLowerCase()}${text.slice(1).replace(/\.?$/, '.')}`,
+      sources: [point[1]]
+    });
+  }
+  return '```json\n' + JSON.stringify({ issues }, null, 2) + '\n```';
+}
+
+export function synthesizeMockResponse(prompt: string, taskType: MockTaskType = detectMockTaskType(prompt)): string {
+  switch (taskType) {
+    case 'transcribe':
+      return synthesizeTranscription(prompt);
+    case 'condense':
+      return synthesizeCondensed(prompt);
+    case 'theme_discovery': {
+      const comments = sliceBetween(prompt, '--- START OF STRUCTURED COMMENTS ---', '--- END OF STRUCTURED COMMENTS ---');
+      const codebook = sliceBetween(prompt, '--- START OF CODEBOOK ---', '--- END OF CODEBOOK ---');
+      const otherCode = prompt.match(/numbered (\d+), labeled "Other Topics"/)?.[1];
+      return codebook && otherCode ? synthesizeCodebookTaxonomy(comments, codebook, otherCode) : synthesizeTaxonomy(comments);
+    }
+    case 'theme_discovery_merge':
+      // Merging is modelled as keeping the first input taxonomy, which is always valid
+      return sliceBetween(prompt, '--- INPUT TAXONOMY 1 ---', '--- END OF INPUT TAXONOMY 1 ---');
+    case 'theme_extract_batch':
+      return synthesizeExtracts(prompt);
+    case 'question_answer':
+      return synthesizeExtracts(prompt, '## Agency Questions to Answer');
+    case 'theme_summary_v2':
+    case 'theme_summary_v2_merge':
+      return synthesizeThemeAnalysis(prompt, taskType === 'theme_summary_v2_merge');
+    case 'theme_summary_structure':
+      return synthesizeStructuredSummary(prompt);
+    case 'discover-entities-v2-full':
+      return synthesizeEntityTaxonomy(prompt);
+    case 'theme_alignment':
+      return synthesizeThemeAlignment(prompt);
+    case 'response_draft':
+      return synthesizeResponseDraft(prompt);
+    default:
+      return `Mock response ${createHash('sha256').update(prompt).digest('hex').substring(0, 8)}`;
+  }
+}
+
+function emitDebug(result: string, options?: StreamingOptions) {
+  if (options?.debugFilename) {
+    debugStreamStart(options.debugFilename);
+    debugStreamWrite(options.debugFilename, result);
+    debugStreamEnd(options.debugFilename);
+  }
+}
+
+export async function generateWithMock(prompt: string, options?: StreamingOptions): Promise<string> {
+  const latency = Number(process.env.MOCK_LLM_LATENCY_MS) || 0;
+  if (latency > 0) await cancellableSleep(latency, options?.signal);
+  throwIfCancelled(options?.signal);
+  const taskType = detectMockTaskType(prompt);
+  const result = readFixture(prompt, taskType) ?? synthesizeMockResponse(prompt, taskType);
+  emitDebug(result, options);
+  return result;
+}
+
+// Binary parts can't be read offline, so only the text parts drive the response
+export async function generateMultimodalWithMock(parts: Part[], options?: StreamingOptions): Promise<string> {
+  const prompt = parts.filter(p => p.text).map(p => p.text).join('\n');
+  return generateWithMock(prompt, options);
+}
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createHash } from "crypto";
+import { buildRepairPrompt, checkOutput, jsonOutput, OutputValidationError, validateJson } from "./output-schema";
+import { AIClient, MAX_REPAIR_ATTEMPTS } from "./ai-client";
+import { THEME_EXTRACT_SCHEMA } from "../prompts/schemas";
+
+describe("validateJson", () => {
+  test("reports a type mismatch with its path", () => {
+    const schema = { type: "object" as const, properties: { count: { type: "integer" as const } } };
+    expect(validateJson({ count: "3" }, schema)).toEqual(["$.count: expected integer, got string"]);
+    expect(validateJson({ count: 3 }, schema)).toEqual([]);
+  });
+
+  test("reports a missing required field", () => {
+    const schema = { type: "object" as const, required: ["text"], properties: { text: { type: "string" as const } } };
+    expect(validateJson({}, schema)).toEqual(['$: missing required field "text"']);
+  });
+
+  test("checks every value of a map declared with additionalProperties", () => {
+    expect(THEME_EXTRACT_SCHEMA.validate({ "1.1": { relevance: 1, extract: { positions: ["A"] } } })).toEqual([]);
+    expect(THEME_EXTRACT_SCHEMA.validate({ "1.1": { relevance: 1 }, "1.2": { extract: {} } })).toEqual([
+      '$["1.2"]: missing required field "relevance"',
+    ]);
+    expect(validateJson({ a: 1, b: 2 }, { type: "object", properties: { a: { type: "integer" } }, additionalProperties: false }))
+      .toEqual(['$: unexpected field "b"']);
+  });
+
+  test("checks enums", () => {
+    expect(THEME_EXTRACT_SCHEMA.validate({ "1": { relevance: 4 } })).toEqual([
+      '$["1"].relevance: expected one of 1, 2, 3, got 4',
+    ]);
+  });
+});
+
+describe("checkOutput", () => {
+  const schema = jsonOutput<{ items: string[] }>("items", {
+    type: "object",
+    required: ["items"],
+    properties: { items: { type: "array", items: { type: "string" } } },
+  });
+
+  test("parses a response in a code block", () => {
+    expect(checkOutput(schema, '```json\n{"items": ["a"]}\n```')).toEqual({ ok: true, value: { items: ["a"] } });
+  });
+
+  test("flags a response cut off mid-JSON as truncated", () => {
+    const check = checkOutput(schema, '```json\n{"items": ["a", "b');
+    expect(check.ok).toBe(false);
+    if (!check.ok) expect(check.truncated).toBe(true);
+  });
+
+  test("a complete but invalid response is not truncated", () => {
+    const check = checkOutput(schema, '{"items": [1]}');
+    expect(check).toEqual({ ok: false, problems: ["$.items[0]: expected string, got integer"], truncated: false });
+  });
+
+  test("the repair prompt keeps the original prompt and lists the problems", () => {
+    const repair = buildRepairPrompt("Original instructions", '{"items": ["a"', { problems: ["cut off"], truncated: true });
+    expect(repair.startsWith("Original instructions")).toBe(true);
+    expect(repair).toContain("- cut off");
+    expect(repair).toContain("cut off before it was complete");
+    expect(repair).toContain('<previous_response>\n{"items": ["a"\n</previous_response>');
+  });
+});
+
+describe("AIClient repair round trip with the mock provider", () => {
+  const schema = jsonOutput<{ answer: string }>("answer", {
+    type: "object",
+    required: ["answer"],
+    properties: { answer: { type: "string" } },
+  });
+  let fixtures: string;
+  const previous = process.env.MOCK_LLM_FIXTURES;
+
+  // Recorded responses are looked up by the sha256 of the exact prompt
+  function record(prompt: string, response: string) {
+    writeFileSync(join(fixtures, `${createHash("sha256").update(prompt).digest("hex")}.txt`), response);
+  }
+
+  beforeEach(() => {
+    fixtures = mkdtempSync(join(tmpdir(), "mock-fixtures-"));
+    process.env.MOCK_LLM_FIXTURES = fixtures;
+  });
+
+  afterEach(() => {
+    rmSync(fixtures, { recursive: true, force: true });
+    if (previous === undefined) delete process.env.MOCK_LLM_FIXTURES;
+    else process.env.MOCK_LLM_FIXTURES = previous;
+  });
+
+  test("sends an invalid response back and returns the repaired one", async () => {
+    const prompt = "Answer in JSON.";
+    const invalid = '{"answer": 42}';
+    record(prompt, invalid);
+    const check = checkOutput(schema, invalid);
+    if (check.ok) throw new Error("fixture should be invalid");
+    record(buildRepairPrompt(prompt, invalid, check), '{"answer": "forty-two"}');
+
+    let calls = 0;
+    const result = await new AIClient("mock").generateContent(prompt, undefined, "test", undefined, schema, undefined, () => { calls++; });
+    expect(result).toEqual({ answer: "forty-two" });
+    expect(calls).toBe(2);
+  });
+
+  test(`gives up after ${MAX_REPAIR_ATTEMPTS} repair attempts`, async () => {
+    // No fixture: the mock answers an unrecognized prompt with plain text, never valid JSON
+    let calls = 0;
+    const call = new AIClient("mock").generateContent("Answer in JSON, please.", undefined, "test", undefined, schema, undefined, () => { calls++; });
+    await expect(call).rejects.toBeInstanceOf(OutputValidationError);
+    expect(calls).toBe(1 + MAX_REPAIR_ATTEMPTS);
+  });
+});
@@ -0,0 +1,160 @@
+import { parseJsonResponse } from "./json-parser";
+
+// Declared shapes for structured model outputs. A response that doesn't parse or doesn't match
+// its schema is sent back to the model with the problems listed (see AIClient.generateContent),
+// and providers with a native JSON-schema mode are given the schema up front.
+
+// The subset of JSON Schema the validator and the provider adapters understand
+export interface JsonSchema {
+  type?: JsonType | JsonType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  // A schema here makes the object a map (e.g. theme code -> extract)
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: Array<string | number>;
+  minItems?: number;
+}
+
+export type JsonType = "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+
+export interface OutputSchema<T> {
+  name: string;
+  // Set for JSON outputs; passed to providers that can constrain generation to it
+  jsonSchema?: JsonSchema;
+  // Throws when the response can't be read at all
+  parse(response: string): T;
+  // Problems with a parsed response, empty when it is usable
+  validate(value: T): string[];
+}
+
+export class OutputValidationError extends Error {
+  constructor(public schemaName: string, public problems: string[]) {
+    super(`Response does not match ${schemaName}: ${problems.slice(0, 5).join("; ")}${problems.length > 5 ? ` (and ${problems.length - 5} more)` : ""}`);
+    this.name = "OutputValidationError";
+  }
+}
+
+const MAX_PROBLEMS = 20;
+
+function typeOf(value: unknown): JsonType {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value as JsonType;
+}
+
+function matchesType(value: unknown, type: JsonType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+export function validateJson(value: unknown, schema: JsonSchema, path = "$", problems: string[] = []): string[] {
+  if (problems.length >= MAX_PROBLEMS) return problems;
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(t => matchesType(value, t))) {
+      problems.push(`${path}: expected ${types.join(" or ")}, got ${typeOf(value)}`);
+      return problems;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    problems.push(`${path}: expected one of ${schema.enum.map(v => JSON.stringify(v)).join(", ")}, got ${JSON.stringify(value)}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      problems.push(`${path}: expected at least ${schema.minItems} items, got ${value.length}`);
+    }
+    if (schema.items) value.forEach((item, i) => validateJson(item, schema.items!, `${path}[${i}]`, problems));
+  } else if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (!(key in record)) problems.push(`${path}: missing required field "${key}"`);
+    }
+    for (const [key, child] of Object.entries(record)) {
+      const childSchema = schema.properties?.[key];
+      if (childSchema) {
+        validateJson(child, childSchema, `${path}.${key}`, problems);
+      } else if (typeof schema.additionalProperties === "object") {
+        validateJson(child, schema.additionalProperties, `${path}["${key}"]`, problems);
+      } else if (schema.additionalProperties === false) {
+        problems.push(`${path}: unexpected field "${key}"`);
+      }
+    }
+  }
+
+  return problems.slice(0, MAX_PROBLEMS);
+}
+
+// A JSON output parsed with the usual code-block-tolerant parser and checked against the schema
+export function jsonOutput<T>(name: string, jsonSchema: JsonSchema): OutputSchema<T> {
+  return {
+    name,
+    jsonSchema,
+    parse: (response) => parseJsonResponse(response) as T,
+    validate: (value) => validateJson(value, jsonSchema),
+  };
+}
+
+// Brackets left open at the end of the response: the model ran out of output tokens
+function looksTruncated(response: string): boolean {
+  const start = response.search(/[[{]/);
+  if (start === -1) return false;
+
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < response.length; i++) {
+    const ch = response[i];
+    if (inString) {
+      if (ch === "\\") i++;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === "{" || ch === "[") {
+      depth++;
+    } else if (ch === "}" || ch === "]") {
+      depth--;
+    }
+  }
+  return depth > 0 || inString;
+}
+
+export type OutputCheck<T> = { ok: true; value: T } | { ok: false; problems: string[]; truncated: boolean };
+
+export function checkOutput<T>(schema: OutputSchema<T>, response: string): OutputCheck<T> {
+  let value: T;
+  try {
+    value = schema.parse(response);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { ok: false, problems: [message], truncated: !!schema.jsonSchema && looksTruncated(response) };
+  }
+  const problems = schema.validate(value);
+  return problems.length === 0 ? { ok: true, value } : { ok: false, problems, truncated: false };
+}
+
+// The original prompt (so the model has everything it needs, and the provider's prompt cache
+// still applies) followed by the rejected response and what was wrong with it
+export function buildRepairPrompt(prompt: string, response: string, check: { problems: string[]; truncated: boolean }): string {
+  const cutOff = check.truncated
+    ? "\nIt was cut off before it was complete. Keep every required field but write more concisely so the whole response fits.\n"
+    : "";
+
+  return `${prompt}
+
+---
+
+## Your Previous Response Was Rejected
+Your previous response to these instructions could not be used:
+${check.problems.map(p => `- ${p}`).join("\n")}
+${cutOff}
+<previous_response>
+${response}
+</previous_response>
+
+Write the complete corrected response in the required format, not just the changes.`;
+}
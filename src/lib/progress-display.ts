@@ -0,0 +1,268 @@
+import { createWriteStream, mkdirSync } from "fs";
+import { join } from "path";
+import { format } from "util";
+import { onProgress, type ProgressEvent, type ProgressMode } from "./progress";
+
+// The --progress displays. "log" is the plain console output; "json" writes one progress event
+// per line to stdout (console output moves to stderr) for other tools to read; "tui" redraws a
+// live summary in the terminal and sends the console output to a log file under progress/.
+
+const PROGRESS_DIR = "progress";
+const REDRAW_MS = 250;
+const RATE_WINDOW_MS = 60_000;
+const RECENT_LOG_LINES = 6;
+const RECENT_FAILURES = 3;
+const SHOWN_WORK = 4;
+const BAR_WIDTH = 24;
+
+type ConsoleMethod = "log" | "info" | "debug" | "warn" | "error";
+const CONSOLE_METHODS: ConsoleMethod[] = ["log", "info", "debug", "warn", "error"];
+
+export function installProgressDisplay(mode: ProgressMode, name: string) {
+  if (mode === "json") {
+    installJsonDisplay();
+  } else if (mode === "tui") {
+    if (!process.stdout.isTTY) {
+      console.warn("⚠️  --progress tui needs a terminal, showing the log instead");
+      return;
+    }
+    new TerminalDisplay(name).install();
+  }
+}
+
+function installJsonDisplay() {
+  for (const method of CONSOLE_METHODS) {
+    console[method] = (...args: any[]) => { process.stderr.write(format(...args) + "\n"); };
+  }
+  onProgress(event => { process.stdout.write(JSON.stringify(event) + "\n"); });
+}
+
+interface Work {
+  command: string;
+  label: string;
+  total: number;
+  done: number;
+  failed: number;
+  active: Set<string>;
+  startedAt: number;
+  finished: boolean;
+  completions: number[]; // timestamps within the rate window
+}
+
+class TerminalDisplay {
+  private commands: string[] = [];
+  private pipelineStep?: { step: number; steps: number; name: string };
+  private work = new Map<string, Work>();
+  private llm = { calls: 0, cacheHits: 0, inputTokens: 0, outputTokens: 0, spent: 0 };
+  private failures: string[] = [];
+  private recentLog: string[] = [];
+  private warnings = 0;
+  private startedAt = Date.now();
+  private drawnLines = 0;
+  private exiting = false;
+  private logPath: string;
+  private log: ReturnType<typeof createWriteStream>;
+
+  constructor(name: string) {
+    mkdirSync(PROGRESS_DIR, { recursive: true });
+    const stamp = new Date().toISOString().replace(/[-:]/g, "").substring(0, 15);
+    this.logPath = join(PROGRESS_DIR, `${name}-${stamp}.log`);
+    this.log = createWriteStream(this.logPath, { flags: "a" });
+  }
+
+  install() {
+    for (const method of CONSOLE_METHODS) {
+      console[method] = (...args: any[]) => this.capture(method, format(...args));
+    }
+    onProgress(event => this.apply(event));
+
+    process.stdout.write("\x1b[?25l"); // hide the cursor while redrawing
+    const timer = setInterval(() => this.render(), REDRAW_MS);
+    timer.unref();
+    process.on("exit", () => {
+      clearInterval(timer);
+      this.exiting = true;
+      this.render();
+      process.stdout.write("\x1b[?25h");
+    });
+  }
+
+  private capture(method: ConsoleMethod, text: string) {
+    this.log.write(text + "\n");
+    if (method === "warn") this.warnings++;
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      this.recentLog.push(line);
+    }
+    this.recentLog.splice(0, Math.max(0, this.recentLog.length - RECENT_LOG_LINES));
+  }
+
+  private apply(event: ProgressEvent) {
+    const key = (label: string) => `${event.command || ""}/${label}`;
+    switch (event.type) {
+      case "command_start":
+        this.commands.push(event.command || "");
+        break;
+      case "command_end":
+        this.commands.pop();
+        if (event.status === "failed" && event.error) this.addFailure(`${event.command}: ${event.error}`);
+        break;
+      case "pipeline_step":
+        this.pipelineStep = event;
+        break;
+      case "work_start":
+        // A later batch of the same work in the same command starts a new bar
+        this.work.delete(key(event.label));
+        this.work.set(key(event.label), {
+          command: event.command || "",
+          label: event.label,
+          total: event.total,
+          done: event.done,
+          failed: 0,
+          active: new Set(),
+          startedAt: Date.now(),
+          finished: false,
+          completions: [],
+        });
+        break;
+      case "item_start":
+        this.work.get(key(event.label))?.active.add(event.item);
+        break;
+      case "item_end": {
+        const work = this.work.get(key(event.label));
+        if (!work) break;
+        work.active.delete(event.item);
+        if (event.status === "stopped") break;
+        work.done++;
+        work.completions.push(Date.now());
+        if (event.status === "failed") {
+          work.failed++;
+          this.addFailure(`${event.item}: ${event.error}`);
+        }
+        break;
+      }
+      case "item_failed": {
+        const work = this.work.get(key(event.label));
+        if (work) work.failed++;
+        this.addFailure(`${event.item}: ${event.error}`);
+        break;
+      }
+      case "work_end": {
+        const work = this.work.get(key(event.label));
+        if (work) work.finished = true;
+        break;
+      }
+      case "llm_call":
+        this.llm.calls++;
+        if (event.cacheHit) this.llm.cacheHits++;
+        this.llm.inputTokens += event.inputTokens;
+        this.llm.outputTokens += event.outputTokens;
+        this.llm.spent = event.spent;
+        break;
+    }
+  }
+
+  private addFailure(text: string) {
+    this.failures.push(text.replace(/\s+/g, " "));
+    this.failures.splice(0, Math.max(0, this.failures.length - RECENT_FAILURES));
+  }
+
+  private render() {
+    const width = Math.max(40, process.stdout.columns || 100);
+    const fit = (line: string) => fitColumns(line, width - 1);
+    const dim = (line: string) => `\x1b[2m${line}\x1b[0m`;
+
+    const lines: string[] = [];
+    const where = this.commands.join(" › ") || "done";
+    const step = this.pipelineStep ? ` · step ${this.pipelineStep.step}/${this.pipelineStep.steps} ${this.pipelineStep.name}` : "";
+    lines.push(fit(`${where}${step} · elapsed ${duration(Date.now() - this.startedAt)}`));
+    lines.push("");
+
+    const work = [...this.work.values()].slice(-SHOWN_WORK);
+    for (const w of work) lines.push(fit(this.workLine(w)));
+    if (work.length === 0) lines.push(dim("waiting for work..."));
+
+    const { calls, cacheHits, inputTokens, outputTokens, spent } = this.llm;
+    lines.push("");
+    lines.push(fit(`LLM: ${count(calls)} calls (${count(cacheHits)} cached) · ${tokens(inputTokens)} in / ${tokens(outputTokens)} out tokens · $${spent.toFixed(2)} spent`));
+    if (this.warnings > 0) lines.push(fit(`Warnings: ${count(this.warnings)} (see the log)`));
+    for (const failure of this.failures) lines.push(fit(`Failed ${failure}`));
+
+    lines.push(dim("─".repeat(Math.min(width - 1, 60))));
+    for (const line of this.recentLog) lines.push(dim(fit(line)));
+    lines.push(dim(fit(`Full log: ${this.logPath}${this.exiting ? "" : " · Ctrl-C to stop"}`)));
+
+    // Move back over the previous frame and draw over it
+    const clear = this.drawnLines > 0 ? `\x1b[${this.drawnLines}F\x1b[0J` : "";
+    process.stdout.write(clear + lines.join("\n") + "\n");
+    this.drawnLines = lines.length;
+  }
+
+  private workLine(w: Work): string {
+    const now = Date.now();
+    w.completions = w.completions.filter(t => t > now - RATE_WINDOW_MS);
+    const share = w.total > 0 ? Math.min(1, w.done / w.total) : 1;
+    const filled = Math.round(share * BAR_WIDTH);
+    const bar = "█".repeat(filled) + "░".repeat(BAR_WIDTH - filled);
+
+    const parts = [`${w.command} · ${w.label}`.padEnd(28), `[${bar}]`, `${count(w.done)}/${count(w.total)}`, `${(share * 100).toFixed(1)}%`];
+    if (w.finished) {
+      parts.push("done");
+    } else {
+      // Items per second over the last minute (or since the work started, if sooner)
+      const seconds = Math.max(1, (now - Math.max(w.startedAt, now - RATE_WINDOW_MS)) / 1000);
+      const rate = w.completions.length / seconds;
+      parts.push(`${rate.toFixed(rate < 10 ? 2 : 1)}/s`);
+      if (rate > 0 && w.done < w.total) parts.push(`ETA ${duration(((w.total - w.done) / rate) * 1000)}`);
+      if (w.active.size > 0) parts.push(`${w.active.size} active`);
+    }
+    if (w.failed > 0) parts.push(`${count(w.failed)} failed`);
+    return parts.join("  ");
+  }
+}
+
+// Lines must not wrap, or redrawing over the previous frame goes wrong. Emoji (common in the
+// log) and CJK text take two terminal columns.
+function fitColumns(line: string, columns: number): string {
+  let used = 0;
+  let fitted = "";
+  for (const ch of line) {
+    const width = charColumns(ch);
+    if (used + width > columns - 1) return fitted + "…";
+    used += width;
+    fitted += ch;
+  }
+  return fitted;
+}
+
+function charColumns(ch: string): number {
+  const code = ch.codePointAt(0)!;
+  if (code === 0xfe0f || code === 0x200d) return 0;
+  const wide = code >= 0x1f000
+    || (code >= 0x231a && code <= 0x23ff)
+    || (code >= 0x2600 && code <= 0x27bf)
+    || (code >= 0x2e80 && code <= 0xa4cf)
+    || (code >= 0xac00 && code <= 0xd7a3)
+    || (code >= 0xff00 && code <= 0xff60);
+  return wide ? 2 : 1;
+}
+
+function count(n: number): string {
+  return n.toLocaleString("en-US");
+}
+
+function tokens(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+  if (n >= 1_000) return `${(n / 1_000).toFixed(1)}K`;
+  return String(n);
+}
+
+function duration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  if (h > 0) return `${h}h${String(m).padStart(2, "0")}m`;
+  if (m > 0) return `${m}m${String(s).padStart(2, "0")}s`;
+  return `${s}s`;
+}
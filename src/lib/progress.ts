@@ -0,0 +1,90 @@
+// Structured progress events for the commands running in this process. runPool and TaskQueue
+// report the items they work through, the CLI reports each command starting and ending, the
+// pipeline reports its steps, and the usage ledger reports every LLM call with its cost. The
+// display chosen with --progress (see progress-display.ts) subscribes to them; the default log
+// display ignores them and leaves the console output as it is.
+
+export type ProgressMode = "log" | "tui" | "json";
+
+export const PROGRESS_MODES: ProgressMode[] = ["log", "tui", "json"];
+
+export type ItemStatus = "completed" | "failed" | "stopped";
+
+export type ProgressEventBody =
+  | { type: "command_start"; args: string[] }
+  | { type: "command_end"; status: "completed" | "failed" | "stopped"; error?: string }
+  | { type: "pipeline_step"; step: number; steps: number; name: string }
+  // A batch of work (runPool or TaskQueue); `done` counts items finished by an earlier run
+  | { type: "work_start"; label: string; total: number; done: number }
+  | { type: "item_start"; label: string; item: string }
+  // "stopped": the run was interrupted or out of budget, not a problem with the item
+  | { type: "item_end"; label: string; item: string; status: ItemStatus; error?: string }
+  // A command recorded the item as failed and moved on
+  | { type: "item_failed"; label: string; item: string; error: string }
+  | { type: "work_end"; label: string }
+  | {
+      type: "llm_call";
+      taskType: string;
+      model: string;
+      cacheHit: boolean;
+      inputTokens: number;
+      cachedInputTokens: number;
+      outputTokens: number;
+      cost: number;
+      latencyMs?: number;
+      spent: number; // estimated spend of this process so far
+    };
+
+export type ProgressEvent = ProgressEventBody & {
+  time: string;
+  command?: string; // innermost command running, e.g. "condense" inside "pipeline"
+};
+
+type Listener = (event: ProgressEvent) => void;
+
+const listeners = new Set<Listener>();
+const commands: string[] = [];
+
+export function onProgress(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function emitProgress(body: ProgressEventBody) {
+  if (listeners.size === 0) return;
+  const event = { ...body, time: new Date().toISOString(), command: commands[commands.length - 1] } as ProgressEvent;
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch {
+      // A broken display must never stop the work it is displaying
+    }
+  }
+}
+
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Commands nest: the pipeline runs each step's command in-process
+export function startCommand(name: string, args: string[]) {
+  commands.push(name);
+  emitProgress({ type: "command_start", args });
+}
+
+export function commandDepth(): number {
+  return commands.length;
+}
+
+// End the commands started after the first `depth` (all of them by default), innermost first
+export function endCommands(status: "completed" | "failed" | "stopped", error?: unknown, depth = 0) {
+  while (commands.length > depth) {
+    emitProgress({ type: "command_end", status, ...(error !== undefined ? { error: errorMessage(error) } : {}) });
+    commands.pop();
+  }
+}
+
+// For the catch blocks that record an item as failed and carry on with the rest
+export function reportItemFailure(label: string, item: string, error: unknown) {
+  emitProgress({ type: "item_failed", label, item, error: errorMessage(error) });
+}
@@ -0,0 +1,56 @@
+import { Database } from "bun:sqlite";
+import { createHash, randomUUID } from "crypto";
+
+// What produced a stored analysis row: the run, the model and the prompt template version
+export interface Provenance {
+  runId: string;
+  model: string;
+  promptHash: string;
+}
+
+export interface PipelineRun {
+  runId: string;
+  owned: boolean; // false when joined to an enclosing pipeline run
+}
+
+// The run in progress in this process; pipeline steps run in-process and share it
+let activeRun: string | undefined;
+
+function gitCommit(): string | null {
+  try {
+    const result = Bun.spawnSync(["git", "rev-parse", "--short", "HEAD"], { cwd: import.meta.dir });
+    return result.success ? result.stdout.toString().trim() || null : null;
+  } catch {
+    return null;
+  }
+}
+
+// Record the start of a command in pipeline_runs, or join the pipeline run that launched it
+export function beginRun(db: Database, command: string, options: any = {}): PipelineRun {
+  if (activeRun) return { runId: activeRun, owned: false };
+
+  const stamp = new Date().toISOString().replace(/[-:]/g, "").substring(0, 15);
+  const runId = `${stamp}-${randomUUID().substring(0, 8)}`;
+  db.prepare(`
+    INSERT INTO pipeline_runs (run_id, command, options_json, git_commit)
+    VALUES (?, ?, ?, ?)
+  `).run(runId, command, JSON.stringify(options), gitCommit());
+
+  activeRun = runId;
+  return { runId, owned: true };
+}
+
+// Close a run this command started; joined runs are closed by their owner
+export function endRun(db: Database, run: PipelineRun, status: "completed" | "failed") {
+  if (!run.owned) return;
+  db.prepare(`
+    UPDATE pipeline_runs SET status = ?, finished_at = CURRENT_TIMESTAMP WHERE run_id = ?
+  `).run(status, run.runId);
+  activeRun = undefined;
+}
+
+// Hash of the prompt templates before any comment text is substituted in, so editing
+// the instructions shows up as a new version on every row produced afterwards
+export function promptTemplateHash(...templates: string[]): string {
+  return createHash("sha256").update(templates.join("\n\0\n")).digest("hex").substring(0, 12);
+}
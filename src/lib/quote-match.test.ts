@@ -0,0 +1,63 @@
+import { describe, expect, test } from "bun:test";
+import { matchSource, quoteStatus, scoreQuote } from "./quote-match";
+
+const COMMENT = matchSource(
+  "We strongly oppose the proposed reporting requirement, because small practices cannot afford\n" +
+  "the additional staff time it demands. Our clinic already spends 10 hours a week on reporting."
+);
+
+function check(quote: string) {
+  const score = scoreQuote(quote, COMMENT);
+  return { score, status: quoteStatus(score) };
+}
+
+describe("scoreQuote", () => {
+  test("verifies an exact quote", () => {
+    expect(check("small practices cannot afford the additional staff time")).toEqual({ score: 1, status: "verified" });
+  });
+
+  test("ignores case, punctuation, curly quotes and line breaks", () => {
+    expect(check("“We STRONGLY oppose the proposed reporting-requirement because small practices cannot afford the additional staff time”").score).toBe(1);
+  });
+
+  test("matches each piece of a quote shortened with an ellipsis", () => {
+    expect(check("We strongly oppose the proposed reporting requirement ... the additional staff time it demands.").score).toBe(1);
+    expect(check("We strongly oppose the proposed reporting requirement… our clinic already spends 10 hours").score).toBe(1);
+  });
+
+  test("leaves out editorial insertions in brackets", () => {
+    expect(check("[The commenter] cannot afford the additional staff time it demands").score).toBe(1);
+  });
+
+  test("still verifies a quote with one word changed", () => {
+    const { score, status } = check("We strongly oppose the proposed reporting requirement because small clinics cannot afford the additional staff time");
+    expect(score).toBeGreaterThanOrEqual(0.9);
+    expect(score).toBeLessThan(1);
+    expect(status).toBe("verified");
+  });
+
+  test("marks a close paraphrase approximate", () => {
+    const { score, status } = check("small practices simply cannot pay for the additional staff time");
+    expect(score).toBeCloseTo(0.7);
+    expect(status).toBe("approximate");
+  });
+
+  test("does not find a loose paraphrase", () => {
+    const { score, status } = check("Tiny offices lack the money to hire extra workers for this rule");
+    expect(score).toBeLessThan(0.6);
+    expect(status).toBe("not_found");
+  });
+
+  test("scores a quote with no words as not found", () => {
+    expect(check("... — ...")).toEqual({ score: 0, status: "not_found" });
+  });
+});
+
+describe("quoteStatus", () => {
+  test("verifies at 0.9 and calls anything from 0.6 approximate", () => {
+    expect(quoteStatus(0.9)).toBe("verified");
+    expect(quoteStatus(0.89)).toBe("approximate");
+    expect(quoteStatus(0.6)).toBe("approximate");
+    expect(quoteStatus(0.59)).toBe("not_found");
+  });
+});
@@ -0,0 +1,90 @@
+// Fuzzy matching of quotations against the comment text they are attributed to. Quotes are
+// compared word by word, so punctuation, curly quotes, case and line breaks don't matter, and a
+// quote shortened with "..." only needs each of its pieces to appear.
+
+export type QuoteStatus = "verified" | "approximate" | "not_found";
+
+const VERIFIED_SCORE = 0.9; // a word or two off in a sentence-long quote
+const APPROXIMATE_SCORE = 0.6; // a close paraphrase
+
+export interface MatchSource {
+  words: string[];
+  joined: string; // " word word ... " for whole-phrase lookups
+  positions: Map<string, number[]>;
+}
+
+function words(text: string): string[] {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .match(/[a-z0-9]+/g) || [];
+}
+
+export function matchSource(text: string): MatchSource {
+  const sourceWords = words(text);
+  const positions = new Map<string, number[]>();
+  sourceWords.forEach((word, i) => {
+    const list = positions.get(word);
+    if (list) list.push(i);
+    else positions.set(word, [i]);
+  });
+  return { words: sourceWords, joined: ` ${sourceWords.join(" ")} `, positions };
+}
+
+// Share of the fragment's words found in the best passage of the same length. Passages are only
+// tried where the fragment's rarest words occur, which keeps long comments cheap to search.
+function fragmentScore(fragment: string[], source: MatchSource): number {
+  if (source.joined.includes(` ${fragment.join(" ")} `)) return 1;
+
+  const anchors = fragment
+    .map((word, offset) => ({ offset, positions: source.positions.get(word) || [] }))
+    .filter(a => a.positions.length > 0)
+    .sort((a, b) => a.positions.length - b.positions.length)
+    .slice(0, 3);
+
+  const needed = new Map<string, number>();
+  for (const word of fragment) needed.set(word, (needed.get(word) || 0) + 1);
+
+  let best = 0;
+  const tried = new Set<number>();
+  for (const { offset, positions } of anchors) {
+    for (const position of positions) {
+      const start = Math.max(0, position - offset);
+      if (tried.has(start)) continue;
+      tried.add(start);
+
+      const remaining = new Map(needed);
+      let matched = 0;
+      for (const word of source.words.slice(start, start + fragment.length)) {
+        const count = remaining.get(word) || 0;
+        if (count > 0) {
+          remaining.set(word, count - 1);
+          matched++;
+        }
+      }
+      best = Math.max(best, matched / fragment.length);
+    }
+  }
+  return best;
+}
+
+export function scoreQuote(quote: string, source: MatchSource): number {
+  // Editorial insertions ("[the agency]") aren't the commenter's words
+  const fragments = quote
+    .replace(/\[[^\]]*\]/g, " ")
+    .split(/\.{3}|…/)
+    .map(words)
+    .filter(f => f.length > 0);
+  const total = fragments.reduce((sum, f) => sum + f.length, 0);
+  if (total === 0) return 0;
+
+  // Longer pieces count for more; a two-word piece after an ellipsis barely matters
+  return fragments.reduce((sum, f) => sum + fragmentScore(f, source) * f.length, 0) / total;
+}
+
+export function quoteStatus(score: number): QuoteStatus {
+  if (score >= VERIFIED_SCORE) return "verified";
+  if (score >= APPROXIMATE_SCORE) return "approximate";
+  return "not_found";
+}
@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, setSystemTime, test } from "bun:test";
+import { RateLimitedError, RateLimiter, parseRetryAfter, rateLimitOf } from "./rate-limiter";
+
+const T0 = new Date("2026-01-01T00:00:00Z").getTime();
+
+// Reserve a turn at the given time without waiting (the tests check waitTime directly)
+async function callAt(limiter: RateLimiter, at: number, tokens: number) {
+  setSystemTime(new Date(at));
+  await limiter.run(tokens, async () => undefined);
+}
+
+function waitTime(limiter: RateLimiter, at: number, tokens: number): number {
+  return limiter["waitTime"](at, tokens);
+}
+
+afterEach(() => {
+  setSystemTime();
+});
+
+describe("RateLimiter", () => {
+  test("waits for the oldest request to leave the window once requestsPerMinute is reached", async () => {
+    const limiter = new RateLimiter("test", { requestsPerMinute: 2 });
+    await callAt(limiter, T0, 0);
+    expect(waitTime(limiter, T0 + 1_000, 0)).toBe(0);
+    await callAt(limiter, T0 + 1_000, 0);
+    expect(waitTime(limiter, T0 + 2_000, 0)).toBe(58_001);
+  });
+
+  test("waits until enough tokens leave the window for tokensPerMinute", async () => {
+    const limiter = new RateLimiter("test", { tokensPerMinute: 1_000 });
+    await callAt(limiter, T0, 600);
+    await callAt(limiter, T0 + 10_000, 300);
+    expect(waitTime(limiter, T0 + 20_000, 100)).toBe(0);
+    // 600 + 300 + 400 is over budget until the first request leaves the window
+    expect(waitTime(limiter, T0 + 20_000, 400)).toBe(40_001);
+  });
+
+  test("counts the tokens a call settles instead of its estimate", async () => {
+    const limiter = new RateLimiter("test", { tokensPerMinute: 1_000 });
+    setSystemTime(new Date(T0));
+    await limiter.run(900, async settle => { settle(100); });
+    expect(waitTime(limiter, T0 + 1_000, 800)).toBe(0);
+  });
+
+  test("holds a request larger than tokensPerMinute until the window is empty", async () => {
+    const limiter = new RateLimiter("test", { tokensPerMinute: 1_000 });
+    expect(waitTime(limiter, T0, 1_500)).toBe(0);
+    await callAt(limiter, T0, 500);
+    await callAt(limiter, T0 + 10_000, 200);
+    expect(waitTime(limiter, T0 + 20_000, 1_500)).toBe(50_001);
+  });
+
+  test("retries after a 429, pausing for Retry-After and lowering the request rate", async () => {
+    const limiter = new RateLimiter("test", { requestsPerMinute: 100 });
+    let attempts = 0;
+    const result = await limiter.run(0, async () => {
+      if (++attempts === 1) throw new RateLimitedError("Too many requests", 429, 20);
+      return "ok";
+    });
+    expect(result).toBe("ok");
+    expect(attempts).toBe(2);
+    // One call in the window when the limit hit, so the rate drops to the floor of 5, then
+    // starts recovering after the successful retry
+    expect(limiter["requestsPerMinute"]).toBeCloseTo(5 * 1.1 + 1);
+  });
+
+  test("backs off exponentially without Retry-After", async () => {
+    const limiter = new RateLimiter("test", {});
+    setSystemTime(new Date(T0));
+    limiter["limited"](503, undefined, 1, 6);
+    expect(limiter["pausedUntil"]).toBe(T0 + 5_000);
+    limiter["limited"](503, undefined, 2, 6);
+    expect(limiter["pausedUntil"]).toBe(T0 + 10_000);
+    expect(waitTime(limiter, T0 + 4_000, 0)).toBe(6_000);
+  });
+
+  test("rethrows other errors, and rate limits after the last attempt", async () => {
+    const limiter = new RateLimiter("test", {});
+    let attempts = 0;
+    await expect(limiter.run(0, async () => { attempts++; throw new Error("bad request"); })).rejects.toThrow("bad request");
+    expect(attempts).toBe(1);
+
+    await expect(limiter.run(0, async () => { throw new RateLimitedError("overloaded", 503, 1); }, 2)).rejects.toThrow("overloaded");
+  });
+});
+
+describe("rate limit errors", () => {
+  test("parseRetryAfter reads seconds and HTTP dates", () => {
+    expect(parseRetryAfter("7")).toBe(7_000);
+    expect(parseRetryAfter(null)).toBeUndefined();
+    setSystemTime(new Date(T0));
+    expect(parseRetryAfter(new Date(T0 + 30_000).toUTCString())).toBe(30_000);
+  });
+
+  test("rateLimitOf finds the status and retry delay in Gemini error messages", () => {
+    const message = 'got status: 429 Too Many Requests. {"error":{"code":429,"details":[{"retryDelay":"12s"}]}}';
+    expect(rateLimitOf(new Error(message))).toEqual({ status: 429, retryAfterMs: 12_000 });
+    expect(rateLimitOf(new Error("got status: 400 Bad Request"))).toBeUndefined();
+  });
+});
@@ -0,0 +1,164 @@
+import { loadBatchConfig } from "./batch-config";
+import { cancellableSleep, shutdownSignal } from "./cancellation";
+
+// Request and token budgets per model (or other provider, e.g. regulations.gov), shared by every
+// command and worker in the process. Concurrency still bounds how many calls are in flight; the
+// limiter decides when each may start, pauses everyone when the provider answers 429 or 503,
+// and lowers the request rate until calls succeed again.
+
+export interface RateLimits {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+}
+
+// A 429 or 503 from a provider, with how long it asked us to wait if it said
+export class RateLimitedError extends Error {
+  constructor(message: string, public status: number, public retryAfterMs?: number) {
+    super(message);
+    this.name = "RateLimitedError";
+  }
+}
+
+const WINDOW_MS = 60_000;
+const DEFAULT_MAX_ATTEMPTS = 6;
+const BASE_BACKOFF_MS = 5_000;
+const MAX_BACKOFF_MS = 120_000;
+// Share of the recent request rate kept after a rate limit response, and the floor it stops at
+const RATE_DECREASE = 0.7;
+const MIN_REQUESTS_PER_MINUTE = 5;
+
+// Retry-After is either seconds or an HTTP date
+export function parseRetryAfter(header: string | null | undefined): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// The status and requested delay of a rate limit error. The Gemini SDK only reports the status
+// in the message ("got status: 429 ..."), with the delay in the RetryInfo detail of the body.
+export function rateLimitOf(error: unknown): { status: number; retryAfterMs?: number } | undefined {
+  if (error instanceof RateLimitedError) return { status: error.status, retryAfterMs: error.retryAfterMs };
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = message.match(/status:?\s*(429|503)\b/) || message.match(/"code"\s*:\s*(429|503)\b/);
+  if (!status) return undefined;
+  const delay = message.match(/retryDelay\\*"\s*:\s*\\*"(\d+(?:\.\d+)?)s/);
+  return { status: Number(status[1]), retryAfterMs: delay ? Number(delay[1]) * 1000 : undefined };
+}
+
+interface Reservation {
+  at: number;
+  tokens: number;
+}
+
+export class RateLimiter {
+  private recent: Reservation[] = [];
+  private pausedUntil = 0;
+  private requestsPerMinute: number;
+  private consecutiveLimits = 0;
+
+  constructor(public readonly name: string, private limits: RateLimits) {
+    this.requestsPerMinute = limits.requestsPerMinute ?? Infinity;
+  }
+
+  // Runs the call when the budgets allow it, retrying it after 429s and 503s. The call reports
+  // its actual token count through `settle` when known (the estimate is used until then).
+  // Waiting for a turn ends with CancelledError once the signal is aborted.
+  async run<T>(
+    estimatedTokens: number,
+    call: (settle: (tokens: number) => void) => Promise<T>,
+    maxAttempts = DEFAULT_MAX_ATTEMPTS,
+    signal: AbortSignal = shutdownSignal
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      const reservation = await this.acquire(estimatedTokens, signal);
+      try {
+        const result = await call(tokens => { reservation.tokens = tokens; });
+        this.succeeded();
+        return result;
+      } catch (error) {
+        const limited = rateLimitOf(error);
+        if (!limited || attempt >= maxAttempts) throw error;
+        this.limited(limited.status, limited.retryAfterMs, attempt, maxAttempts);
+      }
+    }
+  }
+
+  private async acquire(tokens: number, signal: AbortSignal): Promise<Reservation> {
+    while (true) {
+      const now = Date.now();
+      this.recent = this.recent.filter(r => r.at > now - WINDOW_MS);
+      const wait = this.waitTime(now, tokens);
+      if (wait <= 0) {
+        const reservation = { at: now, tokens };
+        this.recent.push(reservation);
+        return reservation;
+      }
+      await cancellableSleep(wait, signal);
+    }
+  }
+
+  private waitTime(now: number, tokens: number): number {
+    if (this.pausedUntil > now) return this.pausedUntil - now;
+
+    // Wait for the oldest requests to leave the window
+    if (this.recent.length >= Math.max(1, Math.floor(this.requestsPerMinute))) {
+      return this.recent[0].at + WINDOW_MS - now + 1;
+    }
+
+    const tokensPerMinute = this.limits.tokensPerMinute;
+    if (tokensPerMinute && this.recent.length > 0) {
+      let used = this.recent.reduce((sum, r) => sum + r.tokens, 0);
+      // A single request larger than the budget still goes through once the window is empty
+      for (const r of this.recent) {
+        if (used + tokens <= tokensPerMinute) break;
+        used -= r.tokens;
+        if (used + tokens <= tokensPerMinute) return r.at + WINDOW_MS - now + 1;
+      }
+      if (used + tokens > tokensPerMinute) {
+        return this.recent[this.recent.length - 1].at + WINDOW_MS - now + 1;
+      }
+    }
+    return 0;
+  }
+
+  // Recover toward the configured rate, doubling every seven or so successful calls
+  private succeeded() {
+    this.consecutiveLimits = 0;
+    const configured = this.limits.requestsPerMinute ?? Infinity;
+    if (this.requestsPerMinute < configured) {
+      this.requestsPerMinute = Math.min(configured, this.requestsPerMinute * 1.1 + 1);
+    }
+  }
+
+  private limited(status: number, retryAfterMs: number | undefined, attempt: number, maxAttempts: number) {
+    const now = Date.now();
+    this.consecutiveLimits++;
+    const pause = retryAfterMs ?? Math.min(BASE_BACKOFF_MS * Math.pow(2, this.consecutiveLimits - 1), MAX_BACKOFF_MS);
+
+    // Concurrent calls often hit the same limit together; only the first one lowers the rate
+    if (this.pausedUntil <= now) {
+      const observed = this.recent.filter(r => r.at > now - WINDOW_MS).length;
+      const lowered = Math.floor(Math.min(this.requestsPerMinute, observed) * RATE_DECREASE);
+      this.requestsPerMinute = Math.max(Math.min(MIN_REQUESTS_PER_MINUTE, this.limits.requestsPerMinute ?? Infinity), lowered);
+    }
+    this.pausedUntil = Math.max(this.pausedUntil, now + pause);
+
+    console.log(`   🔄 ${this.name} ${status}, pausing ${(pause / 1000).toFixed(0)}s at ${Math.floor(this.requestsPerMinute)} requests/min (attempt ${attempt}/${maxAttempts})...`);
+  }
+}
+
+const limiters = new Map<string, RateLimiter>();
+
+// The shared limiter for a model, configured by `rateLimit` on its entry in the "models" section
+// of batch-config.json, or for another provider with the limits given on first use
+export function getRateLimiter(name: string, limits?: RateLimits): RateLimiter {
+  let limiter = limiters.get(name);
+  if (!limiter) {
+    limiter = new RateLimiter(name, limits ?? loadBatchConfig().models?.[name]?.rateLimit ?? {});
+    limiters.set(name, limiter);
+  }
+  return limiter;
+}
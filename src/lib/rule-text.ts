@@ -0,0 +1,240 @@
+// Splits the text of a proposed rule into the units comments cite, and finds those citations
+// in comment text. Section ids are written the way commenters cite them:
+//   preamble outline   "III", "III.B", "III.B.2", "III.B.2.a"
+//   regulatory text    "Part 170", "170.315", "170.315(b)", "170.315(b)(11)"
+
+export type RuleSectionKind = "preamble" | "part" | "section" | "paragraph";
+
+export interface RuleSection {
+  id: string;
+  parentId: string | null;
+  kind: RuleSectionKind;
+  heading: string;
+  text: string;
+  position: number;
+}
+
+export interface RuleCitation {
+  citation: string; // as written
+  sectionId: string; // normalized, possibly more specific than any section that exists
+}
+
+// Longer lines are body text, not outline headings
+const MAX_HEADING_LENGTH = 160;
+
+const ROMAN_VALUES: Record<string, number> = { I: 1, V: 5, X: 10, L: 50 };
+
+function romanValue(numeral: string): number {
+  let total = 0;
+  for (let i = 0; i < numeral.length; i++) {
+    const value = ROMAN_VALUES[numeral[i]];
+    const next = ROMAN_VALUES[numeral[i + 1]] || 0;
+    total += value < next ? -value : value;
+  }
+  return total;
+}
+
+const LOWER_ROMAN = /^(?=[ivxl]+$)(x{0,3})(ix|iv|v?i{0,3})$/;
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;|&#160;/g, " ")
+    .replace(/&sect;|&#167;/g, "§")
+    .replace(/&mdash;|&#8212;/g, "—")
+    .replace(/&ndash;|&#8211;/g, "–")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&rsquo;|&lsquo;/g, "'")
+    .replace(/&ldquo;|&rdquo;/g, '"')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code)))
+    .replace(/&amp;/g, "&");
+}
+
+// Block-level HTML elements become line breaks; everything else is dropped
+export function htmlToText(html: string): string {
+  return decodeEntities(html
+    .replace(/<(script|style|head)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/?(p|div|h[1-6]|li|tr|section|article|blockquote|pre|table|ul|ol)\b[^>]*>/gi, "\n")
+    .replace(/<[^>]+>/g, ""));
+}
+
+// Federal Register and eCFR XML: every element is its own line except inline markup, and a
+// section number is joined to its subject so "§ 170.315 Title." reads as one heading
+export function xmlToText(xml: string): string {
+  return decodeEntities(xml
+    .replace(/<\?[^>]*\?>|<!--[\s\S]*?-->/g, "")
+    .replace(/<\/SECTNO>\s*<SUBJECT>/g, " ")
+    .replace(/<\/?(E|SU|FR|FTREF|I|B)\b[^>]*>/g, "")
+    .replace(/<[^>]+>/g, "\n"));
+}
+
+function normalizeLines(text: string): string[] {
+  return text
+    .split(/\n/)
+    .map(line => line.replace(/\s+/g, " ").trim())
+    .filter(line => line.length > 0);
+}
+
+// Paragraph designators nest (a) -> (1) -> (i) -> (A); "(i)" is a letter unless it sits under a number
+function paragraphLevel(designator: string, stack: string[]): number {
+  if (/^\d+$/.test(designator)) return 2;
+  if (/^[A-Z]$/.test(designator)) return 4;
+  if (LOWER_ROMAN.test(designator) && stack.length >= 2) return 3;
+  if (/^[a-z]{1,2}$/.test(designator)) return 1;
+  return stack.length + 1;
+}
+
+export function parseRuleSections(text: string): RuleSection[] {
+  const sections = new Map<string, RuleSection>();
+  let current: RuleSection | null = null;
+  // Open outline headings: preamble [roman, letter, number, lowercase] and regulatory part/section/paragraphs
+  let preamble: string[] = [];
+  let part: string | null = null;
+  let section: string | null = null;
+  let paragraphs: string[] = [];
+
+  // A heading seen twice (table of contents, then the body) keeps one section
+  const open = (id: string, parentId: string | null, kind: RuleSectionKind, heading: string) => {
+    current = sections.get(id) || null;
+    if (!current) {
+      current = { id, parentId, kind, heading, text: "", position: sections.size };
+      sections.set(id, current);
+    }
+  };
+  const append = (line: string) => {
+    if (current) current.text += (current.text ? "\n" : "") + line;
+  };
+
+  for (const line of normalizeLines(text)) {
+    const partMatch = line.match(/^PART\s+(\d+)\s*[—–-]+\s*(.*)$/i);
+    if (partMatch && line.length <= MAX_HEADING_LENGTH) {
+      part = `Part ${partMatch[1]}`;
+      section = null;
+      paragraphs = [];
+      open(part, null, "part", partMatch[2] || part);
+      continue;
+    }
+
+    // Section headings end in a period ("§ 170.315 Health IT certification criteria."), unlike
+    // preamble sentences that happen to open with a section number
+    const sectionMatch = line.match(/^(?:§|Sec\.)\s*(\d+\.\d+[a-z]?)\s+(.+)\.$/);
+    if (sectionMatch && line.length <= MAX_HEADING_LENGTH) {
+      section = sectionMatch[1];
+      paragraphs = [];
+      const partId = `Part ${section.split(".")[0]}`;
+      open(section, sections.has(partId) ? partId : null, "section", sectionMatch[2]);
+      continue;
+    }
+
+    // Inside regulatory text, lines opening with "(b)" start a paragraph
+    const paragraphMatch = section ? line.match(/^\(([a-zA-Z0-9]{1,5})\)\s*(.*)$/) : null;
+    if (section && paragraphMatch) {
+      const level = paragraphLevel(paragraphMatch[1], paragraphs);
+      paragraphs = [...paragraphs.slice(0, level - 1), paragraphMatch[1]];
+      const id = section + paragraphs.map(p => `(${p})`).join("");
+      const parentId = paragraphs.length > 1 ? section + paragraphs.slice(0, -1).map(p => `(${p})`).join("") : section;
+      const heading = paragraphMatch[2].split(/(?<=\.)\s/)[0].replace(/[.—–-]+$/, "").substring(0, 120);
+      open(id, sections.has(parentId) ? parentId : section, "paragraph", heading);
+      append(line);
+      continue;
+    }
+
+    // The preamble outline comes before any regulatory text
+    if (!part && !section && line.length <= MAX_HEADING_LENGTH) {
+      const preambleId = matchPreambleHeading(line, preamble);
+      if (preambleId) {
+        preamble = preambleId.path;
+        const id = preamble.join(".");
+        open(id, preamble.length > 1 ? preamble.slice(0, -1).join(".") : null, "preamble", preambleId.heading);
+        continue;
+      }
+    }
+
+    append(line);
+  }
+
+  return Array.from(sections.values());
+}
+
+// Roman numeral, capital letter, number, lowercase letter: "III. Provisions", "B. Scope", "2. Costs".
+// "I.", "V." and "X." can be numerals or letters; a letter that continues the open outline wins.
+function matchPreambleHeading(line: string, path: string[]): { path: string[]; heading: string } | null {
+  const match = line.match(/^([IVXL]+|[A-Z]|\d{1,2}|[a-z])\.\s+(\S.*)$/);
+  if (!match) return null;
+  const [, label, heading] = match;
+
+  const nextRoman = path.length === 0 ? 1 : romanValue(path[0]) + 1;
+  // Numbering restarts at "I." when the body follows a table of contents
+  const isRoman = /^[IVXL]+$/.test(label) && (romanValue(label) === nextRoman || label === "I");
+  const lastLetter = path[1];
+  const continuesLetters = /^[A-Z]$/.test(label) && path.length >= 1
+    && (lastLetter ? label.charCodeAt(0) === lastLetter.charCodeAt(0) + 1 : label === "A");
+
+  if (continuesLetters) return { path: [path[0], label], heading };
+  if (isRoman) return { path: [label], heading };
+  if (/^\d+$/.test(label) && path.length >= 2) return { path: [...path.slice(0, 2), label], heading };
+  if (/^[a-z]$/.test(label) && path.length >= 3) return { path: [...path.slice(0, 3), label], heading };
+  return null;
+}
+
+// "§ 170.315(b)(11)", "§§ 170.315(b)(10)", "45 CFR 170.315(b)", "170.315(b)(11)", "part 170",
+// "section III.B" and "preamble section II.A.3"
+const CITATION_PATTERNS: { pattern: RegExp; normalize: (m: RegExpMatchArray) => string }[] = [
+  {
+    pattern: /(?:§§?|\bSec\.|\bCFR)\s*(\d+\.\d+[a-z]?)((?:\s?\([a-zA-Z0-9]{1,5}\))*)/g,
+    normalize: m => m[1] + m[2].replace(/\s/g, ""),
+  },
+  {
+    pattern: /\b(\d{1,3}\.\d{1,4})((?:\([a-zA-Z0-9]{1,5}\))+)/g,
+    normalize: m => m[1] + m[2],
+  },
+  {
+    pattern: /\b[Pp]art\s+(\d{1,3})\b(?!\.\d)/g,
+    normalize: m => `Part ${m[1]}`,
+  },
+  {
+    pattern: /\b[Ss]ection\s+([IVXL]+)(?:\.([A-Z]))?(?:\.(\d+))?(?:\.([a-z]))?\b/g,
+    normalize: m => m.slice(1, 5).filter(Boolean).join("."),
+  },
+];
+
+export function findRuleCitations(text: string): RuleCitation[] {
+  const seen = new Set<string>();
+  const citations: RuleCitation[] = [];
+  const covered: [number, number][] = [];
+
+  for (const { pattern, normalize } of CITATION_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      // A bare "170.315(b)" inside an already matched "§ 170.315(b)" isn't a second citation
+      if (covered.some(([s, e]) => start >= s && end <= e)) continue;
+      covered.push([start, end]);
+
+      const sectionId = normalize(match);
+      if (seen.has(sectionId)) continue;
+      seen.add(sectionId);
+      citations.push({ citation: match[0].trim(), sectionId });
+    }
+  }
+  return citations;
+}
+
+// One step up the outline: a paragraph's parent, a section's part, a preamble heading's parent
+function broaderSection(id: string): string | null {
+  if (id.endsWith(")")) return id.replace(/\([^()]*\)$/, "");
+  if (/^\d+\.\d+[a-z]?$/.test(id)) return `Part ${id.split(".")[0]}`;
+  if (/^[IVXL]+\./.test(id)) return id.substring(0, id.lastIndexOf("."));
+  return null;
+}
+
+// The most specific loaded section a citation points into: "170.315(b)(11)(ii)" falls back to
+// "170.315(b)(11)", "170.315(b)", "170.315", then "Part 170"; "III.B.7" falls back to "III.B"
+export function resolveCitation(sectionId: string, known: Set<string>): string | null {
+  for (let id: string | null = sectionId; id; id = broaderSection(id)) {
+    if (known.has(id)) return id;
+  }
+  return null;
+}
@@ -0,0 +1,153 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import { initSchema } from "./database";
+import { getStaleness, loadExtractInputs, loadThemeGroups, memberAdditionsHash, pendingThemeGroups, summaryInputHash } from "./staleness";
+
+const THEMES = [
+  { code: "1", description: "Access", level: 1, parent: null },
+  { code: "1.1", description: "Patient portals", level: 2, parent: "1" },
+  { code: "2", description: "Burden", level: 1, parent: null },
+  { code: "2.1", description: "Reporting burden", level: 2, parent: "2" },
+];
+
+// Which leaf themes each comment has an extract for
+const EXTRACTS: Record<string, string[]> = {
+  c1: ["1.1", "2.1"],
+  c2: ["1.1"],
+  c3: ["2.1"],
+};
+
+let db: Database;
+
+// Every step up to date: condensed, extracted against both groups, and summarized
+function seed() {
+  for (const id of Object.keys(EXTRACTS)) {
+    db.prepare("INSERT INTO comments (id, attributes_json, content_hash) VALUES (?, '{}', ?)").run(id, `hash-${id}`);
+    db.prepare(`
+      INSERT INTO condensed_comments (comment_id, structured_sections, status, input_hash) VALUES (?, '{}', 'completed', ?)
+    `).run(id, `hash-${id}`);
+  }
+  for (const theme of THEMES) {
+    db.prepare("INSERT INTO theme_hierarchy (code, description, level, parent_code) VALUES (?, ?, ?, ?)")
+      .run(theme.code, theme.description, theme.level, theme.parent);
+  }
+  for (const [id, codes] of Object.entries(EXTRACTS)) {
+    for (const code of codes) {
+      db.prepare("INSERT INTO comment_theme_extracts (comment_id, theme_code, extract_json) VALUES (?, ?, ?)")
+        .run(id, code, JSON.stringify({ positions: [`${id} on ${code}`] }));
+    }
+  }
+  for (const group of loadThemeGroups(db)) {
+    for (const id of Object.keys(EXTRACTS)) {
+      recordExtraction(id, group.parentCode);
+    }
+  }
+  for (const code of ["1.1", "2.1"]) {
+    writeSummary(code);
+  }
+}
+
+function recordExtraction(commentId: string, groupCode: string) {
+  const group = loadThemeGroups(db).find(g => g.parentCode === groupCode)!;
+  const { content_hash } = db.prepare("SELECT content_hash FROM comments WHERE id = ?").get(commentId) as { content_hash: string };
+  db.prepare(`
+    INSERT OR REPLACE INTO theme_extract_inputs (comment_id, group_code, content_hash, taxonomy_hash) VALUES (?, ?, ?, ?)
+  `).run(commentId, groupCode, content_hash, group.taxonomyHash);
+}
+
+function writeSummary(code: string) {
+  const theme = db.prepare("SELECT code, description, detailed_guidelines FROM theme_hierarchy WHERE code = ?").get(code) as any;
+  db.prepare(`
+    INSERT OR REPLACE INTO theme_summaries (theme_code, structured_sections, comment_count, word_count, input_hash) VALUES (?, '{}', 1, 1, ?)
+  `).run(code, summaryInputHash(db, theme));
+}
+
+// Groups each comment would be re-extracted for, as extract-theme-content computes them
+function pendingGroups(): Record<string, string[]> {
+  const groups = loadThemeGroups(db);
+  const inputs = loadExtractInputs(db);
+  const pending: Record<string, string[]> = {};
+  for (const id of Object.keys(EXTRACTS)) {
+    const { content_hash } = db.prepare("SELECT content_hash FROM comments WHERE id = ?").get(id) as { content_hash: string };
+    pending[id] = pendingThemeGroups(groups, inputs.get(id), content_hash, true).map(g => g.parentCode);
+  }
+  return pending;
+}
+
+function staleSummaries(): string[] {
+  const rows = db.prepare(`
+    SELECT ts.theme_code, ts.input_hash, th.description, th.detailed_guidelines
+    FROM theme_summaries ts JOIN theme_hierarchy th ON th.code = ts.theme_code
+    ORDER BY ts.theme_code
+  `).all() as any[];
+  return rows
+    .filter(row => row.input_hash !== summaryInputHash(db, { code: row.theme_code, description: row.description, detailed_guidelines: row.detailed_guidelines }))
+    .map(row => row.theme_code);
+}
+
+beforeEach(() => {
+  db = new Database(":memory:");
+  initSchema(db);
+  seed();
+});
+
+describe("staleness", () => {
+  test("a freshly built database has nothing stale", () => {
+    const report = getStaleness(db);
+    expect(report.condensed).toEqual({ current: 3, stale: 0, pending: 0, untracked: 0 });
+    expect(report.extracts).toMatchObject({ comments: 3, staleTaxonomy: 0, staleContent: 0, untracked: 0, orphaned: 0 });
+    expect(report.summaries).toEqual({ current: 2, stale: 0, untracked: 0, orphaned: 0 });
+    expect(pendingGroups()).toEqual({ c1: [], c2: [], c3: [] });
+  });
+
+  test("a changed comment makes only its own condensed row, extract groups and summaries stale", () => {
+    db.prepare("UPDATE comments SET content_hash = 'hash-c2-edited' WHERE id = 'c2'").run();
+
+    const report = getStaleness(db);
+    expect(report.condensed).toMatchObject({ current: 2, stale: 1 });
+    expect(report.extracts).toMatchObject({ staleContent: 1, staleTaxonomy: 0 });
+    expect(pendingGroups()).toEqual({ c1: [], c2: ["1", "2"], c3: [] });
+    // Summaries only change once the comment is re-extracted
+    expect(staleSummaries()).toEqual([]);
+
+    // c2 only has an extract under 1.1, so re-extracting it leaves 2.1's summary current
+    db.prepare("UPDATE comment_theme_extracts SET extract_json = ? WHERE comment_id = 'c2' AND theme_code = '1.1'")
+      .run(JSON.stringify({ positions: ["c2 on 1.1, edited"] }));
+    recordExtraction("c2", "1");
+    recordExtraction("c2", "2");
+
+    expect(pendingGroups()).toEqual({ c1: [], c2: [], c3: [] });
+    expect(staleSummaries()).toEqual(["1.1"]);
+    expect(getStaleness(db).summaries).toMatchObject({ current: 1, stale: 1 });
+  });
+
+  test("an edited theme description makes only its group's extracts stale", () => {
+    db.prepare("UPDATE theme_hierarchy SET description = 'Reporting and documentation burden' WHERE code = '2.1'").run();
+
+    const report = getStaleness(db);
+    expect(report.condensed).toMatchObject({ current: 3, stale: 0 });
+    expect(report.extracts).toMatchObject({ staleTaxonomy: 3, staleContent: 0 });
+    expect(pendingGroups()).toEqual({ c1: ["2"], c2: ["2"], c3: ["2"] });
+    expect(staleSummaries()).toEqual(["2.1"]);
+  });
+
+  test("a form-letter member's additions go stale when reclustering changes its representative", () => {
+    const additions = JSON.stringify(["My clinic closed last year after the last round of cuts."]);
+    db.prepare(`
+      INSERT INTO cluster_member_additions (comment_id, cluster_id, representative_comment_id, additions_json, added_word_count)
+      VALUES ('c3', 1, 'c1', ?, 11)
+    `).run(additions);
+    // As extract-theme-content --use-clustering records the additions
+    const extracted = memberAdditionsHash("hash-c3", "c1", additions);
+    db.prepare("UPDATE theme_extract_inputs SET content_hash = ? WHERE comment_id = 'c3'").run(extracted);
+
+    const groups = loadThemeGroups(db);
+    expect(getStaleness(db).extracts).toMatchObject({ staleContent: 0, staleTaxonomy: 0 });
+    expect(pendingThemeGroups(groups, loadExtractInputs(db).get("c3"), extracted, true)).toEqual([]);
+
+    db.prepare("UPDATE cluster_member_additions SET representative_comment_id = 'c2' WHERE comment_id = 'c3'").run();
+    const reclustered = memberAdditionsHash("hash-c3", "c2", additions);
+    expect(getStaleness(db).extracts).toMatchObject({ staleContent: 1 });
+    expect(pendingThemeGroups(groups, loadExtractInputs(db).get("c3"), reclustered, true).map(g => g.parentCode)).toEqual(["1", "2"]);
+  });
+});
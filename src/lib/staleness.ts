@@ -0,0 +1,215 @@
+import type { Database } from "bun:sqlite";
+import { createHash } from "crypto";
+
+// Each analysis artifact records hashes of the inputs it was built from, so a later step can
+// tell which rows a changed comment, taxonomy or extract set has made stale:
+//   condensed_comments.input_hash      <- comments.content_hash
+//   theme_extract_inputs               <- comments.content_hash (memberAdditionsHash for a form-letter
+//                                         member's additions) + the theme group's taxonomy text
+//   theme_summaries.input_hash         <- the theme's description + its extracts
+// Rows written before this tracking have NULL hashes and are reported as untracked, never stale.
+
+export interface ThemeGroup {
+  parentCode: string;
+  themes: { code: string; description: string; detailed_guidelines?: string }[];
+  hierarchyText: string;
+  taxonomyHash: string;
+}
+
+export function inputHash(...parts: string[]): string {
+  return createHash("sha256").update(parts.join("\n\0\n")).digest("hex").substring(0, 16);
+}
+
+// A form-letter member's additions depend on its own text and on what reclustering diffed it
+// against, so a new representative or a changed diff sends them back through extraction
+export function memberAdditionsHash(contentHash: string | null, representativeId: string, additionsJson: string): string {
+  return inputHash(contentHash || '', representativeId, additionsJson);
+}
+
+// Group themes by top-level parent (e.g., "3.1" -> "3", "3.1.2" -> "3")
+export function groupThemesByTopLevel(themes: { code: string; description: string; detailed_guidelines?: string }[]): ThemeGroup[] {
+  const groups = new Map<string, ThemeGroup>();
+
+  for (const theme of themes) {
+    const parentCode = theme.code.split('.')[0];
+
+    if (!groups.has(parentCode)) {
+      groups.set(parentCode, {
+        parentCode,
+        themes: [],
+        hierarchyText: '',
+        taxonomyHash: ''
+      });
+    }
+    groups.get(parentCode)!.themes.push(theme);
+  }
+
+  // Build hierarchy text for each group; a group's extracts only go stale when its own text changes
+  for (const group of groups.values()) {
+    group.hierarchyText = group.themes.map(t => {
+      const fullDesc = t.detailed_guidelines
+        ? `${t.description}. ${t.detailed_guidelines}`
+        : t.description;
+      return `${t.code}: ${fullDesc}`;
+    }).join("\n");
+    group.taxonomyHash = inputHash(group.hierarchyText);
+  }
+
+  return Array.from(groups.values()).sort((a, b) =>
+    parseInt(a.parentCode) - parseInt(b.parentCode)
+  );
+}
+
+export function loadThemeGroups(db: Database): ThemeGroup[] {
+  const themes = db.prepare(`
+    SELECT code, description, detailed_guidelines
+    FROM theme_hierarchy
+    ORDER BY code
+  `).all() as { code: string; description: string; detailed_guidelines?: string }[];
+  return groupThemesByTopLevel(themes);
+}
+
+// Recorded inputs per comment: group code -> hashes the group was last extracted with
+export function loadExtractInputs(db: Database): Map<string, Map<string, { content_hash: string | null; taxonomy_hash: string }>> {
+  const rows = db.prepare(`
+    SELECT comment_id, group_code, content_hash, taxonomy_hash FROM theme_extract_inputs
+  `).all() as { comment_id: string; group_code: string; content_hash: string | null; taxonomy_hash: string }[];
+
+  const inputs = new Map<string, Map<string, { content_hash: string | null; taxonomy_hash: string }>>();
+  for (const row of rows) {
+    if (!inputs.has(row.comment_id)) inputs.set(row.comment_id, new Map());
+    inputs.get(row.comment_id)!.set(row.group_code, row);
+  }
+  return inputs;
+}
+
+// Theme groups a comment still needs extracted: never run, or run against an older
+// taxonomy or comment text. Comments extracted before tracking began are left alone.
+export function pendingThemeGroups(
+  groups: ThemeGroup[],
+  recorded: Map<string, { content_hash: string | null; taxonomy_hash: string }> | undefined,
+  contentHash: string | null,
+  hasLegacyExtracts: boolean
+): ThemeGroup[] {
+  if (!recorded) return hasLegacyExtracts ? [] : groups;
+  return groups.filter(group => {
+    const input = recorded.get(group.parentCode);
+    return !input || input.taxonomy_hash !== group.taxonomyHash || input.content_hash !== contentHash;
+  });
+}
+
+// A summary covers the theme's wording and every extract filed under it
+export function summaryInputHash(db: Database, theme: { code: string; description: string; detailed_guidelines?: string | null }): string {
+  const extracts = db.prepare(`
+    SELECT comment_id, extract_json FROM comment_theme_extracts WHERE theme_code = ? ORDER BY comment_id
+  `).all(theme.code) as { comment_id: string; extract_json: string }[];
+  return inputHash(
+    theme.code,
+    theme.description,
+    theme.detailed_guidelines || '',
+    ...extracts.map(e => `${e.comment_id}\t${e.extract_json}`)
+  );
+}
+
+export interface StalenessReport {
+  condensed: { current: number; stale: number; pending: number; untracked: number };
+  taxonomy: { themes: number; groups: number; condensedSince: number };
+  extracts: { comments: number; staleTaxonomy: number; staleContent: number; untracked: number; orphaned: number };
+  summaries: { current: number; stale: number; untracked: number; orphaned: number };
+}
+
+export function getStaleness(db: Database): StalenessReport {
+  const condensed = db.prepare(`
+    SELECT
+      SUM(CASE WHEN cc.status = 'completed' AND cc.input_hash IS NOT NULL AND cc.input_hash IS NOT c.content_hash THEN 1 ELSE 0 END) as stale,
+      SUM(CASE WHEN cc.status = 'completed' AND cc.input_hash IS NULL THEN 1 ELSE 0 END) as untracked,
+      SUM(CASE WHEN cc.status = 'completed' AND cc.input_hash IS c.content_hash THEN 1 ELSE 0 END) as current,
+      SUM(CASE WHEN cc.status IN ('pending', 'processing') THEN 1 ELSE 0 END) as pending
+    FROM condensed_comments cc
+    JOIN comments c ON c.id = cc.comment_id
+    WHERE c.withdrawn = 0
+  `).get() as any;
+
+  const groups = loadThemeGroups(db);
+  const groupHashes = new Map(groups.map(g => [g.parentCode, g.taxonomyHash]));
+  const themeCount = groups.reduce((sum, g) => sum + g.themes.length, 0);
+  const condensedSince = themeCount > 0 ? (db.prepare(`
+    SELECT COUNT(*) as count FROM condensed_comments
+    WHERE status = 'completed' AND created_at > (SELECT MAX(created_at) FROM theme_hierarchy)
+  `).get() as { count: number }).count : 0;
+
+  // A comment counts once, under the first reason one of its groups is stale
+  const staleTaxonomy = new Set<string>();
+  const staleContent = new Set<string>();
+  const inputRows = db.prepare(`
+    SELECT
+      tei.comment_id, tei.group_code, tei.content_hash, tei.taxonomy_hash, c.content_hash as current_hash,
+      cma.representative_comment_id, cma.additions_json
+    FROM theme_extract_inputs tei
+    JOIN comments c ON c.id = tei.comment_id
+    LEFT JOIN cluster_member_additions cma ON cma.comment_id = tei.comment_id
+    WHERE c.withdrawn = 0
+  `).all() as {
+    comment_id: string; group_code: string; content_hash: string | null; taxonomy_hash: string; current_hash: string | null;
+    representative_comment_id: string | null; additions_json: string | null;
+  }[];
+  const recordedGroups = new Map<string, Set<string>>();
+  for (const row of inputRows) {
+    if (!recordedGroups.has(row.comment_id)) recordedGroups.set(row.comment_id, new Set());
+    recordedGroups.get(row.comment_id)!.add(row.group_code);
+    // Either the whole comment or, for a form-letter member, its current additions
+    const currentAdditions = row.representative_comment_id
+      ? memberAdditionsHash(row.current_hash, row.representative_comment_id, row.additions_json!)
+      : null;
+    if (row.content_hash !== row.current_hash && row.content_hash !== currentAdditions) {
+      staleContent.add(row.comment_id);
+    } else if (groupHashes.size > 0 && row.taxonomy_hash !== groupHashes.get(row.group_code)) {
+      staleTaxonomy.add(row.comment_id);
+    }
+  }
+  for (const id of staleContent) staleTaxonomy.delete(id);
+  // Comments tracked for fewer groups than the taxonomy now has need the new groups run
+  for (const [id, recorded] of recordedGroups) {
+    if (staleContent.has(id)) continue;
+    if (groups.some(g => !recorded.has(g.parentCode))) staleTaxonomy.add(id);
+  }
+
+  const extractedComments = (db.prepare(`
+    SELECT DISTINCT comment_id FROM comment_theme_extracts
+  `).all() as { comment_id: string }[]).map(r => r.comment_id);
+  const orphanedExtracts = (db.prepare(`
+    SELECT COUNT(*) as count FROM comment_theme_extracts
+    WHERE theme_code NOT IN (SELECT code FROM theme_hierarchy)
+  `).get() as { count: number }).count;
+
+  const summaries = { current: 0, stale: 0, untracked: 0, orphaned: 0 };
+  const summaryRows = db.prepare(`
+    SELECT ts.theme_code, ts.input_hash, th.description, th.detailed_guidelines
+    FROM theme_summaries ts
+    LEFT JOIN theme_hierarchy th ON th.code = ts.theme_code
+  `).all() as { theme_code: string; input_hash: string | null; description: string | null; detailed_guidelines: string | null }[];
+  for (const row of summaryRows) {
+    if (row.description === null) summaries.orphaned++;
+    else if (!row.input_hash) summaries.untracked++;
+    else if (row.input_hash !== summaryInputHash(db, { code: row.theme_code, description: row.description, detailed_guidelines: row.detailed_guidelines })) summaries.stale++;
+    else summaries.current++;
+  }
+
+  return {
+    condensed: {
+      current: condensed.current || 0,
+      stale: condensed.stale || 0,
+      pending: condensed.pending || 0,
+      untracked: condensed.untracked || 0
+    },
+    taxonomy: { themes: themeCount, groups: groups.length, condensedSince },
+    extracts: {
+      comments: new Set([...recordedGroups.keys(), ...extractedComments]).size,
+      staleTaxonomy: staleTaxonomy.size,
+      staleContent: staleContent.size,
+      untracked: extractedComments.filter(id => !recordedGroups.has(id)).length,
+      orphaned: orphanedExtracts
+    },
+    summaries
+  };
+}
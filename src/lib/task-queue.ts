@@ -1,3 +1,8 @@
+import { BudgetExceededError } from "./budget";
+import { CancelledError, shutdownSignal } from "./cancellation";
+import type { TaskCheckpoints } from "./checkpoints";
+import { emitProgress, errorMessage } from "./progress";
+
 export interface Task<TData = any, TResult = any> {
   id: string;
   dependencies: string[];
@@ -10,13 +15,19 @@ export interface QueueOptions {
   onTaskComplete?: (task: Task, result: any) => void;
   onTaskError?: (task: Task, error: Error) => void;
   onQueueUpdate?: (queueSize: number, runningSize: number, completedSize: number) => void;
+  // Saves each result as it completes and skips tasks already saved by an earlier run
+  checkpoints?: TaskCheckpoints;
+  // Once aborted no new tasks start (default: the process-wide Ctrl-C signal)
+  signal?: AbortSignal;
+  // What the tasks are in progress events (default: "tasks")
+  label?: string;
 }
 
 export class TaskQueue<TData = any, TResult = any> {
   private tasks = new Map<string, Task<TData, TResult>>();
   private completed = new Map<string, TResult>();
   private queue: Task<TData, TResult>[] = [];
-  private running = new Map<string, Promise<TResult>>();
+  private running = new Map<string, Promise<unknown>>();
   private options: QueueOptions;
   
   constructor(tasks: Task<TData, TResult>[], options: QueueOptions) {
@@ -58,26 +69,53 @@ export class TaskQueue<TData = any, TResult = any> {
   async process(
     processor: (task: Task<TData, TResult>, getResult: (id: string) => TResult | undefined) => Promise<TResult>
   ): Promise<Map<string, TResult>> {
+    const signal = this.options.signal || shutdownSignal;
+    let failure: unknown;
+    
+    // Resume from an interrupted run
+    if (this.options.checkpoints) {
+      let resumed = 0;
+      for (const [id, result] of this.options.checkpoints.load()) {
+        if (this.tasks.has(id)) {
+          this.completed.set(id, result);
+          resumed++;
+        }
+      }
+      if (resumed > 0) {
+        console.log(`   ♻️  Resuming: ${resumed}/${this.tasks.size} tasks already completed by an earlier run`);
+      }
+    }
+    
+    const label = this.options.label || "tasks";
+    emitProgress({ type: "work_start", label, total: this.tasks.size, done: this.completed.size });
+    
     // Initial queue fill
     this.queue.push(...this.findReadyTasks());
     
     if (this.options.onQueueUpdate) {
-      this.options.onQueueUpdate(this.queue.length, 0, 0);
+      this.options.onQueueUpdate(this.queue.length, 0, this.completed.size);
     }
     
     while (this.completed.size < this.tasks.size) {
+      // After a failure or an interrupt nothing new starts; running tasks finish (and are
+      // checkpointed) before the error is reported
+      const stopping = failure !== undefined || signal.aborted;
+      
       // Fill worker slots from queue
-      while (this.running.size < this.options.concurrency && this.queue.length > 0) {
+      while (!stopping && this.running.size < this.options.concurrency && this.queue.length > 0) {
         const task = this.queue.shift()!;
         
         if (this.options.onTaskStart) {
           this.options.onTaskStart(task);
         }
+        emitProgress({ type: "item_start", label, item: task.id });
         
         const promise = processor(task, (id) => this.completed.get(id))
           .then(result => {
             this.completed.set(task.id, result);
             this.running.delete(task.id);
+            this.options.checkpoints?.save(task.id, result);
+            emitProgress({ type: "item_end", label, item: task.id, status: "completed" });
             
             if (this.options.onTaskComplete) {
               this.options.onTaskComplete(task, result);
@@ -101,19 +139,27 @@ export class TaskQueue<TData = any, TResult = any> {
           })
           .catch(error => {
             this.running.delete(task.id);
+            const halted = error instanceof CancelledError || error instanceof BudgetExceededError;
+            emitProgress({ type: "item_end", label, item: task.id, status: halted ? "stopped" : "failed", error: errorMessage(error) });
             
-            if (this.options.onTaskError) {
+            // Being interrupted is not a task failure
+            if (this.options.onTaskError && !(error instanceof CancelledError)) {
               this.options.onTaskError(task, error);
             }
             
-            throw error;
+            failure ??= error;
           });
         
         this.running.set(task.id, promise);
       }
       
-      // If no tasks running and queue empty but not done, we have a problem
-      if (this.running.size === 0 && this.queue.length === 0 && this.completed.size < this.tasks.size) {
+      if (stopping) {
+        if (this.running.size === 0) {
+          emitProgress({ type: "work_end", label });
+          throw failure ?? new CancelledError();
+        }
+      } else if (this.running.size === 0 && this.queue.length === 0 && this.completed.size < this.tasks.size) {
+        // No tasks running and queue empty but not done, we have a problem
         const remaining = Array.from(this.tasks.keys()).filter(id => !this.completed.has(id));
         throw new Error(`Circular dependency detected. Remaining tasks: ${remaining.join(', ')}`);
       }
@@ -124,6 +170,7 @@ export class TaskQueue<TData = any, TResult = any> {
       }
     }
     
+    emitProgress({ type: "work_end", label });
     return this.completed;
   }
 }
@@ -0,0 +1,62 @@
+import { describe, expect, test } from "bun:test";
+import { diffWords, extractAddedPassages } from "./text-diff";
+
+const REPRESENTATIVE = [
+  "Dear Administrator,",
+  "I am writing to oppose the proposed cuts to home health payments.",
+  "These cuts will reduce access to care for seniors who rely on visits at home.",
+  "Please withdraw this proposal.",
+].join("\n\n");
+
+// The member's text with the template's paragraphs in the given order, plus anything inserted
+function member(...paragraphs: string[]): string {
+  return paragraphs.join("\n\n");
+}
+
+const [GREETING, OPPOSE, ACCESS, CLOSING] = REPRESENTATIVE.split("\n\n");
+
+describe("diffWords", () => {
+  test("joins back into the member's text", () => {
+    const text = member(GREETING, OPPOSE, "My mother depends on her nurse.", CLOSING);
+    const segments = diffWords(REPRESENTATIVE, text);
+    expect(segments.filter(s => s.type !== "removed").map(s => s.text).join("")).toBe(text);
+  });
+
+  test("ignores case and punctuation changes", () => {
+    const segments = diffWords(REPRESENTATIVE, REPRESENTATIVE.toUpperCase().replace(/[.,]/g, ""));
+    expect(segments.map(s => s.type)).toEqual(["same"]);
+  });
+});
+
+describe("extractAddedPassages", () => {
+  test("finds an inserted paragraph", () => {
+    const story = "My mother is 87 and her nurse visits twice a week so she can stay in her own home.";
+    expect(extractAddedPassages(REPRESENTATIVE, member(GREETING, OPPOSE, story, ACCESS, CLOSING))).toEqual([story]);
+  });
+
+  test("finds a sentence added inside a paragraph", () => {
+    const text = REPRESENTATIVE.replace("visits at home.", "visits at home. Our county has no other provider left.");
+    expect(extractAddedPassages(REPRESENTATIVE, text)).toEqual(["Our county has no other provider left."]);
+  });
+
+  test("adds nothing for a deleted paragraph", () => {
+    expect(extractAddedPassages(REPRESENTATIVE, member(GREETING, OPPOSE, CLOSING))).toEqual([]);
+  });
+
+  test("keeps short runs of template words inside an insertion with it", () => {
+    const text = REPRESENTATIVE.replace("who rely on visits", "like my father, who rely on nurses and therapists for visits");
+    expect(extractAddedPassages(REPRESENTATIVE, text)).toEqual(["like my father, who rely on nurses and therapists for"]);
+  });
+
+  test("reports a reordered paragraph as added once, not the whole letter", () => {
+    const passages = extractAddedPassages(REPRESENTATIVE, member(GREETING, ACCESS, OPPOSE, CLOSING));
+    expect(passages).toHaveLength(1);
+    expect([ACCESS, OPPOSE]).toContain(passages[0]);
+  });
+
+  test("ignores additions shorter than minWords", () => {
+    const text = member(GREETING, OPPOSE, "Thank you.", ACCESS, CLOSING);
+    expect(extractAddedPassages(REPRESENTATIVE, text)).toEqual([]);
+    expect(extractAddedPassages(REPRESENTATIVE, text, 2)).toEqual(["Thank you."]);
+  });
+});
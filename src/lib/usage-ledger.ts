@@ -0,0 +1,200 @@
+import { Database } from "bun:sqlite";
+import { loadBatchConfig } from "./batch-config";
+import { chargeSpend, getSpent } from "./budget";
+import { emitProgress } from "./progress";
+import type { UsageMetadata } from "./llm-providers";
+
+// USD per 1M tokens
+export interface ModelPricing {
+  input: number;
+  cachedInput?: number;
+  output: number;
+}
+
+// Published list prices for the built-in models; override or extend via
+// "pricing" on an entry in the batch-config.json "models" section
+const DEFAULT_PRICING: Record<string, ModelPricing> = {
+  "gemini-3-flash": { input: 0.50, cachedInput: 0.05, output: 3.00 },
+  "gemini-pro": { input: 1.25, cachedInput: 0.31, output: 10.00 },
+  "gemini-flash": { input: 0.30, cachedInput: 0.075, output: 2.50 },
+  "gemini-flash-lite": { input: 0.10, cachedInput: 0.025, output: 0.40 },
+  "claude": { input: 3.00, cachedInput: 0.30, output: 15.00 },
+  "gemini-embedding": { input: 0.15, output: 0 },
+  "mock": { input: 0, cachedInput: 0, output: 0 },
+};
+
+// Which pipeline step each cache/task type belongs to, for per-step reporting
+const PIPELINE_STEP_BY_TASK_TYPE: Record<string, string> = {
+  "transcribe": "transcribe",
+  "condense": "condense",
+  "theme_discovery": "discover-themes",
+  "theme_discovery_merge": "discover-themes",
+  "theme_extract_batch": "extract-theme-content",
+  "theme_summary": "summarize-themes",
+  "theme_summary_v2": "summarize-themes",
+  "theme_summary_v2_merge": "summarize-themes",
+  "theme_summary_structure": "summarize-themes",
+  "discover-entities-v2-full": "discover-entities",
+};
+
+export interface TokenCounts {
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+}
+
+export interface UsageRecord extends TokenCounts {
+  taskType: string;
+  taskLevel?: number;
+  model: string;
+  // True when the provider reported no usage and counts were estimated from text length
+  tokensEstimated: boolean;
+  latencyMs?: number;
+  // Served from llm_cache without an API call
+  cacheHit: boolean;
+}
+
+export interface CostBreakdown {
+  input: number;
+  output: number;
+  total: number;
+}
+
+export function getPipelineStep(taskType: string): string {
+  return PIPELINE_STEP_BY_TASK_TYPE[taskType] || taskType;
+}
+
+export function getModelPricing(model: string): ModelPricing {
+  const configured = loadBatchConfig().models?.[model]?.pricing;
+  return configured || DEFAULT_PRICING[model] || { input: 0, output: 0 };
+}
+
+// Rough token count (~4 characters per token) for providers that report no usage
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function tokensFromUsage(prompt: string, response: string, usage?: UsageMetadata): TokenCounts & { tokensEstimated: boolean } {
+  if (usage) {
+    return {
+      inputTokens: usage.promptTokenCount,
+      cachedInputTokens: usage.cachedContentTokenCount,
+      outputTokens: usage.candidatesTokenCount,
+      tokensEstimated: false,
+    };
+  }
+  return {
+    inputTokens: estimateTokens(prompt),
+    cachedInputTokens: 0,
+    outputTokens: estimateTokens(response),
+    tokensEstimated: true,
+  };
+}
+
+export function estimateCost(model: string, tokens: TokenCounts): CostBreakdown {
+  const pricing = getModelPricing(model);
+  const uncachedInput = Math.max(0, tokens.inputTokens - tokens.cachedInputTokens);
+  const input = (uncachedInput * pricing.input
+    + tokens.cachedInputTokens * (pricing.cachedInput ?? pricing.input)) / 1_000_000;
+  const output = tokens.outputTokens * pricing.output / 1_000_000;
+  return { input, output, total: input + output };
+}
+
+// Append one call to the ledger, count it against the spend limit and return its estimated cost
+export function recordUsage(db: Database, record: UsageRecord): number {
+  const cost = record.cacheHit ? 0 : estimateCost(record.model, record).total;
+
+  db.prepare(`
+    INSERT INTO llm_usage (
+      task_type, task_level, model, input_tokens, cached_input_tokens, output_tokens,
+      tokens_estimated, latency_ms, cache_hit, estimated_cost
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    record.taskType,
+    record.taskLevel || 0,
+    record.model,
+    record.inputTokens,
+    record.cachedInputTokens,
+    record.outputTokens,
+    record.tokensEstimated ? 1 : 0,
+    record.latencyMs ?? null,
+    record.cacheHit ? 1 : 0,
+    cost
+  );
+
+  chargeSpend(cost);
+  emitProgress({
+    type: "llm_call",
+    taskType: record.taskType,
+    model: record.model,
+    cacheHit: record.cacheHit,
+    inputTokens: record.inputTokens,
+    cachedInputTokens: record.cachedInputTokens,
+    outputTokens: record.outputTokens,
+    cost,
+    latencyMs: record.latencyMs,
+    spent: getSpent()
+  });
+  return cost;
+}
+
+export interface UsageSummaryRow {
+  step: string;
+  model: string;
+  calls: number;
+  cacheHits: number;
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+  estimatedCalls: number;
+  totalLatencyMs: number;
+  cost: number;
+}
+
+// Ledger totals grouped by pipeline step and model
+export function getUsageSummary(db: Database): UsageSummaryRow[] {
+  const rows = db.prepare(`
+    SELECT
+      task_type,
+      model,
+      COUNT(*) as calls,
+      SUM(cache_hit) as cache_hits,
+      SUM(input_tokens) as input_tokens,
+      SUM(cached_input_tokens) as cached_input_tokens,
+      SUM(output_tokens) as output_tokens,
+      SUM(tokens_estimated) as estimated_calls,
+      SUM(COALESCE(latency_ms, 0)) as total_latency_ms,
+      SUM(estimated_cost) as cost
+    FROM llm_usage
+    GROUP BY task_type, model
+  `).all() as any[];
+
+  const byStep = new Map<string, UsageSummaryRow>();
+  for (const row of rows) {
+    const step = getPipelineStep(row.task_type);
+    const key = `${step}\u0000${row.model}`;
+    const summary = byStep.get(key) || {
+      step,
+      model: row.model,
+      calls: 0,
+      cacheHits: 0,
+      inputTokens: 0,
+      cachedInputTokens: 0,
+      outputTokens: 0,
+      estimatedCalls: 0,
+      totalLatencyMs: 0,
+      cost: 0,
+    };
+    summary.calls += row.calls;
+    summary.cacheHits += row.cache_hits || 0;
+    summary.inputTokens += row.input_tokens || 0;
+    summary.cachedInputTokens += row.cached_input_tokens || 0;
+    summary.outputTokens += row.output_tokens || 0;
+    summary.estimatedCalls += row.estimated_calls || 0;
+    summary.totalLatencyMs += row.total_latency_ms || 0;
+    summary.cost += row.cost || 0;
+    byStep.set(key, summary);
+  }
+
+  return Array.from(byStep.values()).sort((a, b) => b.cost - a.cost);
+}
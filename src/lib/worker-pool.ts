@@ -1,21 +1,56 @@
+import { BudgetExceededError } from "./budget";
+import { CancelledError, shutdownSignal, throwIfCancelled } from "./cancellation";
+import { emitProgress, errorMessage } from "./progress";
+
+export interface PoolOptions<T> {
+  // What the items are in progress events, e.g. "comments" or "themes"
+  label?: string;
+  // How an item is named in progress events (default: its 1-based position)
+  itemId?: (item: T) => string;
+  signal?: AbortSignal;
+}
+
 export async function runPool<T>(
   items: T[],
   concurrency: number,
-  handler: (item: T, index: number, total: number) => Promise<void>
+  handler: (item: T, index: number, total: number) => Promise<void>,
+  options: PoolOptions<T> = {}
 ) {
+  const { label = "items", itemId, signal = shutdownSignal } = options;
   const queue = [...items];
   let processed = 0;
+  // Once a handler throws (e.g. the budget is exhausted) or the run is interrupted, stop
+  // handing out work
+  let stopped = false;
 
   async function worker() {
-    while (true) {
+    while (!stopped) {
+      throwIfCancelled(signal);
       const item = queue.shift();
       if (!item) break;
       const index = ++processed;
-      await handler(item, index, items.length);
+      const id = itemId ? itemId(item) : String(index);
+      emitProgress({ type: "item_start", label, item: id });
+      try {
+        await handler(item, index, items.length);
+        emitProgress({ type: "item_end", label, item: id, status: "completed" });
+      } catch (error) {
+        const halted = error instanceof CancelledError || error instanceof BudgetExceededError;
+        emitProgress({ type: "item_end", label, item: id, status: halted ? "stopped" : "failed", error: errorMessage(error) });
+        stopped = true;
+        throw error;
+      }
     }
   }
 
-  await Promise.all(
+  emitProgress({ type: "work_start", label, total: items.length, done: 0 });
+
+  // Let the other workers finish (or cancel) their current item before reporting the error,
+  // so nothing is still writing results once the caller unwinds
+  const results = await Promise.allSettled(
     Array.from({ length: Math.max(1, concurrency) }, () => worker())
   );
-} 
\ No newline at end of file
+  emitProgress({ type: "work_end", label });
+  const failure = results.find(r => r.status === "rejected");
+  if (failure) throw (failure as PromiseRejectedResult).reason;
+}
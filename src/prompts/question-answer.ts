@@ -0,0 +1,57 @@
+// Agency questions (RFIs): like the batched theme extract prompt, the instructions and the comment
+// form the cacheable prefix and the question list follows. The output has the theme extract
+// shape, so answers can be summarized with the theme summary prompts.
+export function buildQuestionAnswerPrompt(commentText: string, questionsText: string): string {
+  return `You are reading a public comment on a Request for Information and recording how the commenter answers each of the agency's numbered questions. Program staff will read every commenter's answer to a question side by side, so capture what THIS commenter actually says in response, with their specifics.
+
+## Comment to Analyze
+${commentText}
+
+---
+
+## Agency Questions to Answer
+${questionsText}
+
+## Your Mission
+For each question, decide whether the comment answers it and extract the answer. A comment answers a question when it responds to what the question asks, whether or not it cites the question number. Commenters often answer several questions in one passage, or answer a question while discussing something else; file each part of the answer under the question it responds to.
+
+## Output Format
+\`\`\`json
+{
+  "1": { // Question code exactly as listed above
+    "relevance": 1,  // 1=answers the question, 2=touches on it without answering, 3=does not address it
+    "extract": {
+      "positions": [
+        // Their ANSWER: the stance they take on what the question asks, with their reasoning
+        // LEAVE ARRAY EMPTY [] if they take no position
+      ],
+      "concerns": [
+        // Risks, burdens or objections they raise in answering
+        // LEAVE ARRAY EMPTY [] if none
+      ],
+      "recommendations": [
+        // What they ask the agency to do, with the details, timelines and conditions they give
+        // LEAVE ARRAY EMPTY [] if none
+      ],
+      "experiences": [
+        // Data, examples and first-hand experience offered as evidence for the answer
+        // LEAVE ARRAY EMPTY [] if none
+      ],
+      "key_quotes": [
+        // Verbatim sentences that state their answer most directly
+        // LEAVE ARRAY EMPTY [] if none
+      ]
+    }
+  }
+}
+\`\`\`
+
+## Rules
+- Include every listed question code in your output, using relevance 3 for questions the comment does not address.
+- Only relevance 1 answers are kept. Use it when the comment gives an answer a staff member could quote or count, not for a passing mention of the topic.
+- Leave a section as an empty array [] when it has no content. NEVER write placeholder text such as "No recommendations provided" or "The commenter did not discuss...".
+- Keep numbers, named programs, organizations and conditions exactly as the commenter states them.
+- Only include content from the comment. Do not infer answers the commenter did not give.
+
+Remember: the agency asked these questions because it needs the answers to write the rule. An answer that is specific, sourced and in the commenter's own terms is what staff need.`;
+}
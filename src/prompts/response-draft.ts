@@ -0,0 +1,41 @@
+// Response-to-comments drafts: restates a theme summary's points in the neutral voice of a final
+// rule preamble. Points are keyed ([C1], [D1a], ...) so the draft cites them by key and the
+// commenters behind each issue come from the summary's comment IDs, not from the model.
+export function buildResponseDraftPrompt(themeText: string, pointsText: string): string {
+  return `You are drafting the "Summary of Public Comments and Responses" section of a final rule preamble. Agency staff will write the responses; your job is the neutral summary of what commenters said, in the voice agencies use in the Federal Register.
+
+## Theme
+${themeText}
+
+## Summary Points to Restate
+Each point has a key in brackets and the number of comments behind it.
+[C] points are views most commenters shared, [D] points are debates with the positions taken under them, [M] points are concerns and [R] points are recommendations.
+
+${pointsText}
+
+## Your Mission
+Group the points into the distinct issues an agency would respond to, and write one "Comment" paragraph for each issue.
+
+## Output Format
+\`\`\`json
+{
+  "issues": [
+    {
+      "heading": "Short issue title, e.g. Implementation Timeline",
+      "comment": "Many commenters stated that ... Some commenters recommended that ... Other commenters disagreed, stating that ...",
+      "sources": ["C1", "M2"]  // Keys of every point this paragraph restates
+    }
+  ]
+}
+\`\`\`
+
+## Rules
+- Write in the past tense and third person: "Commenters stated", "Several commenters recommended", "One commenter expressed concern that".
+- Match the quantifier to the comment counts: "one commenter" for 1, "a few commenters" for 2-3, "several" or "some" for a handful, "many" or "most" for a large share.
+- Stay neutral. Do not evaluate the arguments, agree or disagree with them, or say what the agency will do.
+- Where commenters disagreed, present each position fairly and in proportion to its support.
+- Keep the specifics commenters gave: numbers, timelines, programs and the changes they asked for.
+- Do not name commenters or cite comment IDs; citations are added from the sources you list.
+- Every point should appear in the sources of at least one issue. An issue usually restates two to four related points.
+- Do not write a response or placeholder for one.`;
+}
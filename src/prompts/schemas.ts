@@ -0,0 +1,220 @@
+import { jsonOutput, type JsonSchema, type OutputSchema } from "../lib/output-schema";
+import { parseCondensedSections } from "../lib/parse-condensed-sections";
+import type { EntityTaxonomy } from "../types";
+
+// Output schemas for the structured prompts in this directory. Each mirrors the "Output Format"
+// its prompt asks for; a response that doesn't match is sent back to the model for repair.
+
+const stringList: JsonSchema = { type: "array", items: { type: "string" } };
+const nullableString: JsonSchema = { type: ["string", "null"] };
+
+// buildBatchedThemeExtractPrompt and buildQuestionAnswerPrompt: theme or question code -> extract
+const extractEntry: JsonSchema = {
+  type: "object",
+  required: ["relevance"],
+  properties: {
+    relevance: { type: "integer", enum: [1, 2, 3] },
+    extract: {
+      type: "object",
+      properties: {
+        positions: stringList,
+        concerns: stringList,
+        recommendations: stringList,
+        experiences: stringList,
+        key_quotes: stringList,
+      },
+    },
+  },
+};
+
+export const THEME_EXTRACT_SCHEMA = jsonOutput<Record<string, any>>("theme_extract", {
+  type: "object",
+  additionalProperties: extractEntry,
+});
+
+export const QUESTION_ANSWER_SCHEMA = jsonOutput<Record<string, any>>("question_answer", {
+  type: "object",
+  additionalProperties: extractEntry,
+});
+
+// THEME_SUMMARY_STRUCTURE_PROMPT. Sections the analysis doesn't have are null.
+export const THEME_SUMMARY_STRUCTURE_SCHEMA = jsonOutput<any>("theme_summary_structure", {
+  type: "object",
+  required: ["executiveSummary"],
+  properties: {
+    executiveSummary: { type: "string" },
+    consensusPoints: {
+      type: ["array", "null"],
+      items: {
+        type: "object",
+        required: ["text"],
+        properties: {
+          text: { type: "string" },
+          supportLevel: nullableString,
+          exceptions: {
+            type: ["object", "null"],
+            properties: { text: { type: "string" }, commentIds: stringList },
+          },
+        },
+      },
+    },
+    areasOfDebate: {
+      type: ["array", "null"],
+      items: {
+        type: "object",
+        required: ["topic", "positions"],
+        properties: {
+          topic: { type: "string" },
+          description: { type: "string" },
+          positions: {
+            type: "array",
+            items: {
+              type: "object",
+              required: ["label", "stance"],
+              properties: {
+                label: { type: "string" },
+                stance: { type: "string" },
+                supportLevel: nullableString,
+                keyArguments: stringList,
+                commentIds: stringList,
+              },
+            },
+          },
+        },
+      },
+    },
+    stakeholderPerspectives: {
+      type: ["array", "null"],
+      items: {
+        type: "object",
+        required: ["stakeholderType"],
+        properties: {
+          stakeholderType: { type: "string" },
+          primaryConcerns: { type: "string" },
+          specificPoints: stringList,
+          commentIds: stringList,
+        },
+      },
+    },
+    keyRecommendations: {
+      type: ["array", "null"],
+      items: {
+        type: "object",
+        required: ["recommendation"],
+        properties: {
+          approach: { type: "string" },
+          recommendation: { type: "string" },
+          supportLevel: nullableString,
+          commentIds: stringList,
+        },
+      },
+    },
+    majorConcerns: {
+      type: ["array", "null"],
+      items: {
+        type: "object",
+        required: ["concern"],
+        properties: {
+          concern: { type: "string" },
+          raisedBy: { type: "string" },
+          evidence: nullableString,
+          commentIds: stringList,
+        },
+      },
+    },
+    noteworthyInsights: {
+      type: ["array", "null"],
+      items: {
+        type: "object",
+        required: ["insight"],
+        properties: { insight: { type: "string" }, commentId: { type: "string" } },
+      },
+    },
+    emergingPatterns: {
+      type: ["array", "null"],
+      items: {
+        type: "object",
+        required: ["pattern"],
+        properties: { pattern: { type: "string" }, commentIds: stringList },
+      },
+    },
+    keyQuotations: {
+      type: ["array", "null"],
+      items: {
+        type: "object",
+        required: ["quote"],
+        properties: { quote: { type: "string" }, sourceType: nullableString, commentId: { type: "string" } },
+      },
+    },
+    analyticalNotes: {
+      type: ["object", "null"],
+      properties: {
+        discourseQuality: { type: ["object", "null"], properties: { level: { type: "string" }, explanation: { type: "string" } } },
+        evidenceBase: { type: ["object", "null"], properties: { level: { type: "string" }, explanation: { type: "string" } } },
+        representationGaps: nullableString,
+        complexityLevel: nullableString,
+      },
+    },
+  },
+});
+
+// Entity discovery (discover-entities-v2): category name -> entities
+export const ENTITY_TAXONOMY_SCHEMA = jsonOutput<EntityTaxonomy>("entity_taxonomy", {
+  type: "object",
+  additionalProperties: {
+    type: "array",
+    items: {
+      type: "object",
+      required: ["label", "definition", "terms"],
+      properties: {
+        label: { type: "string" },
+        definition: { type: "string" },
+        terms: { type: "array", items: { type: "string" }, minItems: 1 },
+      },
+    },
+  },
+});
+
+// buildResponseDraftPrompt
+export const RESPONSE_DRAFT_SCHEMA = jsonOutput<{ issues: Array<{ heading: string; comment: string; sources: string[] }> }>("response_draft", {
+  type: "object",
+  required: ["issues"],
+  properties: {
+    issues: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["heading", "comment", "sources"],
+        properties: { heading: { type: "string" }, comment: { type: "string" }, sources: stringList },
+      },
+    },
+  },
+});
+
+// THEME_ALIGNMENT_PROMPT: a bare array of groups
+export const THEME_ALIGNMENT_SCHEMA = jsonOutput<Array<{ label: string; themes: Array<{ docket: string; code: string }> }>>("theme_alignment", {
+  type: "array",
+  items: {
+    type: "object",
+    required: ["label", "themes"],
+    properties: {
+      label: { type: "string" },
+      themes: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["docket", "code"],
+          properties: { docket: { type: "string" }, code: { type: "string" } },
+        },
+      },
+    },
+  },
+});
+
+// CONDENSE_PROMPT is markdown, not JSON: every section header has to be present. The response is
+// kept as text so condense can still report the lesser parsing issues (unknown headers).
+export const CONDENSED_SECTIONS_SCHEMA: OutputSchema<string> = {
+  name: "condensed_sections",
+  parse: (response) => response,
+  validate: (response) => parseCondensedSections(response).errors.filter(e => e.startsWith("Missing required sections")),
+};
@@ -0,0 +1,29 @@
+export const THEME_ALIGNMENT_PROMPT = `You are comparing how the public commented on several related federal rules. Each rule's comments were analyzed separately, so each has its own theme taxonomy with its own codes and wording.
+
+Your task is to align the taxonomies: group together themes from DIFFERENT rules that cover the same underlying policy issue, so analysts can follow an issue from one rule cycle to the next.
+
+INSTRUCTIONS:
+- Each group must contain themes from at least two different rules
+- A group may contain at most one theme from each rule; pick the closest match
+- A theme may appear in at most one group
+- Match on the underlying issue, not on shared vocabulary (e.g. "Provider payment cuts" and "Physician fee schedule reductions" align; "Payment for telehealth" and "Telehealth privacy" do not)
+- Leave themes that have no counterpart in any other rule out of the output
+- Give each group a short neutral label (3-8 words) describing the shared issue
+
+OUTPUT FORMAT:
+Return a JSON array. Refer to themes by the rule ID and theme code exactly as listed below.
+
+[
+  {
+    "label": "Physician payment reductions",
+    "themes": [
+      { "docket": "CMS-2024-0001", "code": "2.1" },
+      { "docket": "CMS-2025-0001", "code": "3" }
+    ]
+  }
+]
+
+## Theme Taxonomies to Align
+
+{TAXONOMIES}
+`;
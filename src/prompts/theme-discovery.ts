@@ -155,3 +155,61 @@ CRITICAL: Remember that each depth-two node should be substantial enough that so
 --- FORMATTING REQUIREMENTS ---
 ${TAXONOMY_OUTPUT_FORMAT_INSTRUCTIONS}
 --- END OF FORMATTING REQUIREMENTS ---`;
+
+/**
+ * Codebook mode: the agency (or analyst) has already fixed the top-level themes, e.g. the numbered
+ * questions an RFI asked. Discovery only proposes sub-themes under them, plus one catch-all theme.
+ * {CODEBOOK} is the codebook in the taxonomy format; {OTHER_CODE} is the number reserved for "Other".
+ */
+export const CODEBOOK_DISCOVERY_PROMPT = `As an expert policy analyst, your task is to organize the structured public comments provided below into a FIXED set of top-level themes (the codebook) and propose the sub-themes within each one.
+
+The agency has already defined the topics it asked for comment on. These top-level themes are fixed: you MUST reproduce each one exactly as given, with the same number, label, description and guidelines. Do not rename, renumber, merge, split or drop them, and do not add new top-level themes except the one described below.
+
+--- START OF CODEBOOK ---
+{CODEBOOK}
+--- END OF CODEBOOK ---
+
+Your analysis should:
+1. MAP EVERY SUBSTANTIVE TOPIC INTO THE CODEBOOK: Decide which fixed top-level theme each issue raised by commenters belongs to.
+2. PROPOSE SUB-THEMES: Under each top-level theme, create numbered sub-themes (e.g., 3.1, 3.2) for the distinct issues commenters raised about it. If the codebook already lists sub-themes, keep them unchanged and add new ones after them.
+3. ORGANIZE BY ISSUE, NOT STANCE: Never create sub-themes like "Support for X" vs "Opposition to X". Each sub-theme should hold every viewpoint on its issue.
+4. USE THE OTHER BUCKET SPARINGLY: Issues that genuinely fit none of the codebook themes go under a single extra top-level theme numbered {OTHER_CODE}, labeled "Other Topics", with its own sub-themes. Omit it if everything fits.
+5. KEEP IT TO TWO LEVELS: Top-level themes and their sub-themes only.
+
+CRITICAL FORMATTING RULE: You MUST use the double pipe delimiter ( || ) to separate the brief description from the detailed guidelines. This is essential for proper parsing. Do not omit this delimiter.
+
+--- FORMATTING REQUIREMENTS ---
+${TAXONOMY_OUTPUT_FORMAT_INSTRUCTIONS}
+--- END OF FORMATTING REQUIREMENTS ---
+
+--- START OF STRUCTURED COMMENTS ---
+{COMMENTS}
+--- END OF STRUCTURED COMMENTS ---
+
+You have now reviewed all the structured comment sections. Proceed with generating the taxonomy: every codebook theme exactly as given, each followed by its sub-themes, strictly following the formatting requirements provided above.
+`;
+
+/**
+ * Merges taxonomies that were each built on the same codebook. The fixed top-level themes
+ * carry through unchanged; only their sub-themes (and the "Other" bucket) are reconciled.
+ */
+export const CODEBOOK_MERGE_PROMPT = `You are a senior analyst tasked with synthesizing research. Several analysts each organized a share of the public comments into the same FIXED set of top-level themes (the codebook) and proposed sub-themes within them. Merge their work into a single two-level taxonomy.
+
+--- START OF CODEBOOK ---
+{CODEBOOK}
+--- END OF CODEBOOK ---
+
+Your input taxonomies:
+{TAXONOMIES}
+
+Your process should be:
+
+1. **KEEP THE CODEBOOK FIXED**: Reproduce every codebook theme exactly as given, with the same number, label, description and guidelines. Do not add top-level themes other than the "Other Topics" theme numbered {OTHER_CODE}.
+2. **RECONCILE SUB-THEMES**: Under each top-level theme, combine sub-themes that describe the same issue and keep distinct issues separate. Renumber sub-themes consecutively (e.g., 3.1, 3.2, 3.3).
+3. **PRESERVE SPECIFICITY**: Keep concrete examples, numbers, provisions and stakeholder attributions from the input descriptions.
+4. **REVISIT THE OTHER BUCKET**: Move any "Other Topics" sub-theme that actually fits a codebook theme under that theme. Omit theme {OTHER_CODE} entirely if nothing is left in it.
+5. **ORGANIZE BY ISSUE, NOT STANCE**: If you see sub-themes split by support vs. opposition, combine them into an issue-based sub-theme.
+
+--- FORMATTING REQUIREMENTS ---
+${TAXONOMY_OUTPUT_FORMAT_INSTRUCTIONS}
+--- END OF FORMATTING REQUIREMENTS ---`;
@@ -1,5 +1,6 @@
 import { Command } from "commander";
 import { openDb } from "./lib/database";
+import { inputHash } from "./lib/staleness";
 import { mkdir, writeFile } from "fs/promises";
 import { join } from "path";
 
@@ -20,7 +21,10 @@ async function buildWebsite(documentId: string, options: any) {
   await mkdir(join(outputDir, "indexes"), { recursive: true });
   
   // Look up docket ID from DB metadata (falls back to document ID)
-  const docMeta = db.prepare("SELECT docket_id, title FROM document_metadata LIMIT 1").get() as { docket_id?: string; title?: string } | null;
+  const docMeta = (
+    db.prepare("SELECT docket_id, title FROM document_metadata WHERE document_id = ?").get(documentId) ||
+    db.prepare("SELECT docket_id, title FROM document_metadata LIMIT 1").get()
+  ) as { docket_id?: string; title?: string } | null;
   const docketId = docMeta?.docket_id || documentId;
 
   // 1. Generate metadata
@@ -30,6 +34,8 @@ async function buildWebsite(documentId: string, options: any) {
     title: docMeta?.title || documentId,
     generatedAt: new Date().toISOString(),
     stats: getStats(db),
+    documents: getTargetDocuments(db),
+    provenance: getProvenance(db),
   };
   await writeJson(join(outputDir, "meta.json"), meta);
   
@@ -51,16 +57,95 @@ async function buildWebsite(documentId: string, options: any) {
   // 6. Generate cluster report
   await generateClusterReport(db, outputDir);
   
+  // 6b. Export suspected coordinated campaigns
+  await exportCampaigns(db, outputDir);
+  
   // 7. Generate indexes for efficient lookups
   await generateIndexes(db, outputDir);
 
   // 8. Export theme extracts (per-comment, per-theme analysis)
   await exportThemeExtracts(db, outputDir);
 
+  // 9. Export the rule's section tree and the comments citing each section
+  await exportRule(db, outputDir);
+
+  // 10. Export RFI questions with each commenter's answer and the per-question summaries
+  await exportQuestions(db, outputDir);
+
   console.log(`✅ Website data built in ${outputDir}`);
   db.close();
 }
 
+// Documents comments were made on; more than one when a whole docket was loaded
+function getTargetDocuments(db: any) {
+  return db.prepare(`
+    SELECT 
+      c.target_document_id as id,
+      dd.title,
+      dd.document_type as documentType,
+      dd.comment_end_date as commentEndDate,
+      COUNT(*) as commentCount
+    FROM comments c
+    LEFT JOIN docket_documents dd ON dd.document_id = c.target_document_id
+    WHERE c.withdrawn = 0 AND c.target_document_id IS NOT NULL
+    GROUP BY c.target_document_id
+    ORDER BY c.target_document_id
+  `).all();
+}
+
+// Which runs, models and prompt versions produced the published analysis; rows written
+// before provenance was recorded are grouped under a null run
+function getProvenance(db: any) {
+  const artifactTables = {
+    condensedComments: "condensed_comments WHERE status = 'completed'",
+    themeHierarchy: "theme_hierarchy",
+    themeExtracts: "comment_theme_extracts",
+    themeSummaries: "theme_summaries",
+  };
+  
+  const artifacts: Record<string, any[]> = {};
+  const runIds = new Set<string>();
+  for (const [key, source] of Object.entries(artifactTables)) {
+    artifacts[key] = db.prepare(`
+      SELECT run_id as runId, model, prompt_hash as promptHash, COUNT(*) as count
+      FROM ${source}
+      GROUP BY run_id, model, prompt_hash
+      ORDER BY count DESC
+    `).all();
+    for (const group of artifacts[key]) {
+      if (group.runId) runIds.add(group.runId);
+    }
+  }
+  
+  const runs = db.prepare(`
+    SELECT run_id, command, options_json, git_commit, status, started_at, finished_at
+    FROM pipeline_runs
+    ORDER BY started_at
+  `).all().filter((run: any) => runIds.has(run.run_id)).map((run: any) => ({
+    runId: run.run_id,
+    command: run.command,
+    options: JSON.parse(run.options_json || '{}'),
+    gitCommit: run.git_commit,
+    status: run.status,
+    startedAt: run.started_at,
+    finishedAt: run.finished_at,
+  }));
+  
+  const themeSummaries: Record<string, any> = {};
+  for (const row of db.prepare(`
+    SELECT theme_code, run_id, model, prompt_hash, created_at FROM theme_summaries ORDER BY theme_code
+  `).all()) {
+    themeSummaries[row.theme_code] = {
+      runId: row.run_id,
+      model: row.model,
+      promptHash: row.prompt_hash,
+      createdAt: row.created_at,
+    };
+  }
+  
+  return { runs, artifacts, themeSummaries };
+}
+
 function getStats(db: any) {
   // Check if clustering tables exist AND have data
   const hasClusteringTables = db.prepare(`
@@ -82,12 +167,13 @@ function getStats(db: any) {
       FROM comments c
       LEFT JOIN comment_cluster_membership ccm ON c.id = ccm.comment_id
       LEFT JOIN comment_clusters ccl ON ccm.cluster_id = ccl.cluster_id AND ccm.is_representative = 1
+      WHERE c.withdrawn = 0
     `).get();
     
     // Use actual_submissions if clustering exists, otherwise fall back to total_comments
     totalComments = clusterStats.actual_submissions || clusterStats.total_comments;
   } else {
-    totalComments = db.prepare("SELECT COUNT(*) as count FROM comments").get().count;
+    totalComments = db.prepare("SELECT COUNT(*) as count FROM comments WHERE withdrawn = 0").get().count;
   }
   
   return {
@@ -238,6 +324,7 @@ function getThemeSummaries(db: any) {
   }
   
   // Parse structured sections and create a map
+  const verification = getSummaryVerification(db, "theme_summary");
   const summaryMap: any = {};
   for (const summary of summaries) {
     const sections = JSON.parse(summary.structured_sections);
@@ -246,13 +333,55 @@ function getThemeSummaries(db: any) {
       themeDescription: summary.theme_description,
       commentCount: summary.comment_count,
       wordCount: summary.word_count,
-      sections: sections
+      sections: sections,
+      verification: currentVerification(verification, summary.theme_code, summary.structured_sections),
     };
   }
   
   return summaryMap;
 }
 
+// Results of the last 'verify' run per summary, for the dashboard's quote and citation badges
+function getSummaryVerification(db: any, source: "theme_summary" | "question_summary") {
+  const rows = db.prepare(`
+    SELECT target_code, item, comment_id, kind, status, found_in, content_hash, checked_at
+    FROM verification_results WHERE source = ?
+  `).all(source);
+
+  const byCode = new Map<string, { hash: string; checkedAt: string; quotes: any[]; citations: { supported: number; unsupported: Set<string>; unknown: Set<string> } }>();
+  for (const row of rows) {
+    if (!byCode.has(row.target_code)) {
+      byCode.set(row.target_code, { hash: row.content_hash, checkedAt: row.checked_at, quotes: [], citations: { supported: 0, unsupported: new Set(), unknown: new Set() } });
+    }
+    const entry = byCode.get(row.target_code)!;
+    if (row.kind === "quote") {
+      entry.quotes.push({ index: parseInt(row.item.match(/\[(\d+)\]/)?.[1] || "0"), status: row.status, foundIn: row.found_in });
+    } else if (row.status === "supported") {
+      entry.citations.supported++;
+    } else if (row.status === "unsupported") {
+      entry.citations.unsupported.add(row.comment_id);
+    } else {
+      entry.citations.unknown.add(row.comment_id);
+    }
+  }
+  return byCode;
+}
+
+// Checks of an older version of a summary don't apply to the one being published
+function currentVerification(byCode: ReturnType<typeof getSummaryVerification>, code: string, structuredSections: string) {
+  const entry = byCode.get(code);
+  if (!entry || entry.hash !== inputHash(structuredSections)) return null;
+  return {
+    checkedAt: entry.checkedAt,
+    quotes: entry.quotes.sort((a, b) => a.index - b.index),
+    citations: {
+      supported: entry.citations.supported,
+      unsupported: [...entry.citations.unsupported],
+      unknown: [...entry.citations.unknown],
+    },
+  };
+}
+
 function getEntityTaxonomy(db: any) {
   // Check if clustering tables exist AND have data
   const hasClusteringTables = db.prepare(`
@@ -304,9 +433,56 @@ function getEntityTaxonomy(db: any) {
     });
   }
   
+  return { ...taxonomy, ...getCitationCategories(db, hasClusteringData) };
+}
+
+// Regulatory citations (extract-citations) are published as extra entity categories, so the
+// dashboard's topic browser and comment filters work for them unchanged
+const CITATION_CATEGORIES: Record<string, { category: string; definition: string }> = {
+  cfr: { category: "CFR Citations", definition: "Code of Federal Regulations section or part" },
+  fr: { category: "Federal Register Citations", definition: "Federal Register volume and page" },
+  statute: { category: "Statutes", definition: "United States Code section or public law" },
+  docket: { category: "Dockets", definition: "Regulations.gov docket or document ID" },
+  rin: { category: "RINs", definition: "Regulation Identifier Number" },
+};
+
+function getCitationCategories(db: any, hasClusteringData: boolean) {
+  const rows = db.prepare(`
+    SELECT cc.kind, cc.citation_key, cc.variants, ${hasClusteringData ? "COALESCE(ccl.cluster_size, 1)" : "1"} as weight
+    FROM comment_citations cc
+    ${hasClusteringData ? `LEFT JOIN comment_cluster_membership ccm ON cc.comment_id = ccm.comment_id
+    LEFT JOIN comment_clusters ccl ON ccm.cluster_id = ccl.cluster_id` : ""}
+  `).all() as { kind: string; citation_key: string; variants: string; weight: number }[];
+
+  const citations = new Map<string, { kind: string; label: string; terms: Set<string>; mentionCount: number }>();
+  for (const row of rows) {
+    const key = `${row.kind}|${row.citation_key}`;
+    const citation = citations.get(key) || { kind: row.kind, label: row.citation_key, terms: new Set<string>(), mentionCount: 0 };
+    for (const variant of JSON.parse(row.variants)) citation.terms.add(variant);
+    citation.mentionCount += row.weight;
+    citations.set(key, citation);
+  }
+
+  const taxonomy: any = {};
+  for (const citation of [...citations.values()].sort((a, b) => b.mentionCount - a.mentionCount)) {
+    const { category, definition } = CITATION_CATEGORIES[citation.kind];
+    (taxonomy[category] ||= []).push({
+      label: citation.label,
+      definition,
+      terms: [...citation.terms],
+      mentionCount: citation.mentionCount
+    });
+  }
   return taxonomy;
 }
 
+function getCommentCitations(db: any): { comment_id: string; category: string; label: string }[] {
+  const rows = db.prepare(`
+    SELECT comment_id, kind, citation_key FROM comment_citations ORDER BY kind, citation_key, comment_id
+  `).all() as { comment_id: string; kind: string; citation_key: string }[];
+  return rows.map(r => ({ comment_id: r.comment_id, category: CITATION_CATEGORIES[r.kind].category, label: r.citation_key }));
+}
+
 async function exportAllComments(db: any, outputDir: string, documentId: string) {
   console.log("  📄 Exporting all comments...");
   
@@ -327,6 +503,7 @@ async function exportAllComments(db: any, outputDir: string, documentId: string)
       SELECT 
         c.id,
         c.attributes_json,
+        c.target_document_id,
         COALESCE(cc.structured_sections, cc_rep.structured_sections) as structured_sections,
         COALESCE(t.markdown, t_rep.markdown) as transcription_markdown,
         COALESCE(cc.word_count, cc_rep.word_count) as word_count,
@@ -347,6 +524,7 @@ async function exportAllComments(db: any, outputDir: string, documentId: string)
       LEFT JOIN comment_theme_extracts cte ON c.id = cte.comment_id
       LEFT JOIN comment_entities ce ON c.id = ce.comment_id
       LEFT JOIN attachments a ON c.id = a.comment_id
+      WHERE c.withdrawn = 0
       GROUP BY c.id
       ORDER BY c.id
     `).all();
@@ -356,6 +534,7 @@ async function exportAllComments(db: any, outputDir: string, documentId: string)
       SELECT 
         c.id,
         c.attributes_json,
+        c.target_document_id,
         cc.structured_sections,
         t.markdown as transcription_markdown,
         cc.word_count,
@@ -370,11 +549,18 @@ async function exportAllComments(db: any, outputDir: string, documentId: string)
       LEFT JOIN comment_theme_extracts cte ON c.id = cte.comment_id
       LEFT JOIN comment_entities ce ON c.id = ce.comment_id
       LEFT JOIN attachments a ON c.id = a.comment_id
+      WHERE c.withdrawn = 0
       GROUP BY c.id
       ORDER BY c.id
     `).all();
   }
   
+  const citationsByComment = new Map<string, { category: string; label: string }[]>();
+  for (const { comment_id, category, label } of getCommentCitations(db)) {
+    if (!citationsByComment.has(comment_id)) citationsByComment.set(comment_id, []);
+    citationsByComment.get(comment_id)!.push({ category, label });
+  }
+
   // Process comments
   const processedComments = comments.map((c: any) => {
     const attrs = JSON.parse(c.attributes_json);
@@ -397,6 +583,7 @@ async function exportAllComments(db: any, outputDir: string, documentId: string)
         }
       }
     }
+    entities.push(...(citationsByComment.get(c.id) || []));
     
     const wordCount = c.word_count ?? 0
 
@@ -419,6 +606,7 @@ async function exportAllComments(db: any, outputDir: string, documentId: string)
     return {
       id: c.id,
       documentId,
+      targetDocumentId: c.target_document_id || null,
       submitter: attrs.organization || `${attrs.firstName || ''} ${attrs.lastName || ''}`.trim() || 'Anonymous',
       submitterType: attrs.category || (attrs.organization ? 'Organization' : 'Individual'),
       date: attrs.postedDate || attrs.receiveDate,
@@ -461,7 +649,7 @@ async function generateClusterReport(db: any, outputDir: string) {
       GROUP_CONCAT(ccm.comment_id) as member_ids,
       json_extract(c.attributes_json, '$.submitterType') as submitter_type,
       json_extract(c.attributes_json, '$.organization') as organization,
-      substr(json_extract(c.attributes_json, '$.comment'), 1, 200) as snippet
+      substr(json_extract(c.attributes_json, '$.comment'), 1, 400) as snippet
     FROM comment_clusters cc
     JOIN comment_cluster_membership ccm ON cc.cluster_id = ccm.cluster_id
     JOIN comments c ON cc.representative_comment_id = c.id
@@ -496,15 +684,100 @@ async function generateClusterReport(db: any, outputDir: string) {
       metadata: {
         submitterType: c.submitter_type,
         organization: c.organization,
-        snippetPreview: c.snippet ? c.snippet.substring(0, 100) + (c.snippet.length > 100 ? '...' : '') : null
+        snippetPreview: c.snippet ? c.snippet.substring(0, 100) + (c.snippet.length > 100 ? '...' : '') : null,
+        templatePreview: c.snippet ? stripHtml(c.snippet).substring(0, 300) : null
       }
     }))
   };
   
   await writeJson(join(outputDir, "cluster-report.json"), clusterReport);
+  await exportClusterTexts(db, outputDir);
   console.log(`  ✅ Generated cluster report with ${clusters.length} clusters`);
 }
 
+// One file per form-letter cluster with every member's text, loaded by the dashboard's
+// cluster view to show what each member added to the representative. The comment bodies
+// as submitted are compared; attachments aren't transcribed for members.
+async function exportClusterTexts(db: any, outputDir: string) {
+  const rows = db.prepare(`
+    SELECT 
+      ccm.cluster_id,
+      ccm.comment_id,
+      ccm.is_representative,
+      json_extract(c.attributes_json, '$.comment') as comment
+    FROM comment_cluster_membership ccm
+    JOIN comment_clusters cc ON cc.cluster_id = ccm.cluster_id
+    JOIN comments c ON c.id = ccm.comment_id
+    WHERE cc.cluster_size > 1 AND c.withdrawn = 0
+    ORDER BY ccm.cluster_id, ccm.is_representative DESC, ccm.comment_id
+  `).all();
+  
+  const clusters = new Map<number, any>();
+  for (const row of rows) {
+    if (!clusters.has(row.cluster_id)) {
+      clusters.set(row.cluster_id, { id: row.cluster_id, representative: null, template: '', members: [] });
+    }
+    const cluster = clusters.get(row.cluster_id);
+    const text = stripHtml(row.comment || '');
+    if (row.is_representative === 1) {
+      cluster.representative = row.comment_id;
+      cluster.template = text;
+    } else {
+      cluster.members.push({ id: row.comment_id, text });
+    }
+  }
+  
+  await mkdir(join(outputDir, "clusters"), { recursive: true });
+  for (const cluster of clusters.values()) {
+    await writeJson(join(outputDir, "clusters", `${cluster.id}.json`), cluster);
+  }
+}
+
+function stripHtml(text: string): string {
+  return text
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/p>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .trim();
+}
+
+async function exportCampaigns(db: any, outputDir: string) {
+  const campaigns = db.prepare(`
+    SELECT
+      ca.*,
+      GROUP_CONCAT(cm.comment_id) as member_ids
+    FROM campaigns ca
+    JOIN campaign_members cm ON cm.campaign_id = ca.campaign_id
+    GROUP BY ca.campaign_id
+    ORDER BY ca.evidence_score DESC, ca.comment_count DESC
+  `).all();
+  
+  if (campaigns.length === 0) {
+    console.log("  ⏭️  No suspected campaigns found, skipping campaign report");
+    return;
+  }
+  
+  await writeJson(join(outputDir, "campaigns.json"), campaigns.map((c: any) => ({
+    id: c.campaign_id,
+    evidenceScore: c.evidence_score,
+    size: c.comment_count,
+    representative: c.representative_comment_id,
+    firstDate: c.first_date,
+    lastDate: c.last_date,
+    signals: JSON.parse(c.signals_json),
+    evidence: JSON.parse(c.evidence_json),
+    sharedPhrases: JSON.parse(c.shared_phrases_json || '[]'),
+    members: c.member_ids.split(','),
+  })));
+  console.log(`  ✅ Exported ${campaigns.length} suspected campaigns`);
+}
+
 async function generateIndexes(db: any, outputDir: string) {
   // Theme -> Comment index (all comments with theme extracts)
   const themeIndex = db.prepare(`
@@ -538,6 +811,9 @@ async function generateIndexes(db: any, outputDir: string) {
     }
     entityMap[key].push(row.comment_id);
   }
+  for (const { comment_id, category, label } of getCommentCitations(db)) {
+    (entityMap[`${category}|${label}`] ||= []).push(comment_id);
+  }
   
   await writeJson(join(outputDir, "indexes", "entity-comments.json"), entityMap);
 }
@@ -585,6 +861,103 @@ async function exportThemeExtracts(db: any, outputDir: string) {
   console.log(`  ✅ Exported theme extracts for ${Object.keys(extractsMap).length} themes (${rows.length} total extracts)`);
 }
 
+// rule.json holds the section tree with the comments linked to each section; section text is
+// written per section (rule-sections/<position>.json) and fetched when a section is opened
+async function exportRule(db: any, outputDir: string) {
+  const rule = db.prepare("SELECT source_path, format, title, loaded_at FROM rule_document WHERE id = 1").get();
+  if (!rule) {
+    console.log("  ⏭️  No rule loaded, skipping rule sections");
+    return;
+  }
+
+  const sections = db.prepare(`
+    SELECT section_id, parent_id, kind, heading, text, position FROM rule_sections ORDER BY position
+  `).all();
+  const links = db.prepare(`
+    SELECT section_id, comment_id, theme_code FROM comment_rule_sections ORDER BY section_id, comment_id
+  `).all();
+
+  const linksBySection = new Map<string, { commentIds: Set<string>; themes: Record<string, string[]> }>();
+  for (const link of links) {
+    if (!linksBySection.has(link.section_id)) linksBySection.set(link.section_id, { commentIds: new Set(), themes: {} });
+    const entry = linksBySection.get(link.section_id)!;
+    entry.commentIds.add(link.comment_id);
+    if (link.theme_code) (entry.themes[link.theme_code] ||= []).push(link.comment_id);
+  }
+
+  await writeJson(join(outputDir, "rule.json"), {
+    title: rule.title,
+    source: rule.source_path,
+    format: rule.format,
+    loadedAt: rule.loaded_at,
+    sections: sections.map((s: any) => ({
+      id: s.section_id,
+      parentId: s.parent_id,
+      kind: s.kind,
+      heading: s.heading,
+      position: s.position,
+      commentIds: [...(linksBySection.get(s.section_id)?.commentIds || [])],
+      themes: linksBySection.get(s.section_id)?.themes || {},
+    })),
+  });
+
+  await mkdir(join(outputDir, "rule-sections"), { recursive: true });
+  for (const section of sections) {
+    await writeJson(join(outputDir, "rule-sections", `${section.position}.json`), { id: section.section_id, text: section.text });
+  }
+  console.log(`  ✅ Exported ${sections.length} rule sections (${linksBySection.size} cited by comments)`);
+}
+
+// questions.json mirrors theme-extracts.json and theme-summaries.json, keyed by question code
+async function exportQuestions(db: any, outputDir: string) {
+  const questions = db.prepare("SELECT code, question, position, section_id FROM agency_questions ORDER BY position").all();
+  if (questions.length === 0) {
+    console.log("  ⏭️  No agency questions loaded, skipping questions");
+    return;
+  }
+
+  const answers: Record<string, Record<string, any>> = {};
+  const rows = db.prepare("SELECT question_code, comment_id, extract_json FROM comment_question_answers ORDER BY question_code, comment_id").all();
+  for (const row of rows) {
+    try {
+      const parsed = JSON.parse(row.extract_json);
+      (answers[row.question_code] ||= {})[row.comment_id] = parsed.extract || parsed;
+    } catch (e) {
+      console.warn(`  ⚠️  Failed to parse answer for ${row.comment_id}/${row.question_code}`);
+    }
+  }
+
+  const verification = getSummaryVerification(db, "question_summary");
+  const summaries: Record<string, any> = {};
+  const summaryRows = db.prepare(`
+    SELECT qs.question_code, qs.structured_sections, qs.comment_count, aq.question
+    FROM question_summaries qs
+    JOIN agency_questions aq ON aq.code = qs.question_code
+  `).all();
+  for (const row of summaryRows) {
+    summaries[row.question_code] = {
+      themeDescription: row.question,
+      commentCount: row.comment_count,
+      wordCount: 0,
+      sections: JSON.parse(row.structured_sections),
+      verification: currentVerification(verification, row.question_code, row.structured_sections),
+    };
+  }
+
+  await writeJson(join(outputDir, "questions.json"), {
+    questions: questions.map((q: any) => ({
+      code: q.code,
+      question: q.question,
+      position: q.position,
+      sectionId: q.section_id,
+      commentIds: Object.keys(answers[q.code] || {}),
+    })),
+    answers,
+    summaries,
+  });
+  console.log(`  ✅ Exported ${questions.length} questions (${rows.length} answers, ${summaryRows.length} summaries)`);
+}
+
 async function writeJson(path: string, data: any) {
   await writeFile(path, JSON.stringify(data, null, 2));
 }